@@ -0,0 +1,6 @@
+// Las pruebas unitarias no abren conexiones: los servicios crean un PrismaClient al cargarse,
+// así que se reemplaza por uno vacío y cada prueba pasa su propio cliente transaccional
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn()
+}));
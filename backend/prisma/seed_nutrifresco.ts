@@ -1,4 +1,4 @@
-import { PrismaClient, SubscriptionPlan, ProductCategory } from '@prisma/client';
+import { PrismaClient, ProductCategory } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 
 const prisma = new PrismaClient();
@@ -7,20 +7,100 @@ const saltRounds = 10;
 async function main() {
   console.log('🌱 Starting NUTRIFRESCO database seed...');
 
-  // Clear existing data
+  // Clear existing data (de hijos a padres: las ganancias y los surtidos no se borran en cascada)
+  await prisma.producerEarning.deleteMany();
+  await prisma.producerPayout.deleteMany();
+  await prisma.orderSurvey.deleteMany();
+  await prisma.productReview.deleteMany();
+  await prisma.standingOrderRun.deleteMany();
+  await prisma.standingOrderItem.deleteMany();
+  await prisma.standingOrder.deleteMany();
+  await prisma.orderStatusEvent.deleteMany();
   await prisma.orderItem.deleteMany();
+  await prisma.orderFulfillment.deleteMany();
   await prisma.order.deleteMany();
   await prisma.cartItem.deleteMany();
   await prisma.cart.deleteMany();
   await prisma.product.deleteMany();
+  await prisma.deliverySlot.deleteMany();
   await prisma.producer.deleteMany();
+  await prisma.subscriptionUsageEntry.deleteMany();
+  await prisma.subscriptionPeriod.deleteMany();
+  await prisma.subscriptionPause.deleteMany();
   await prisma.subscription.deleteMany();
+  await prisma.notification.deleteMany();
   await prisma.chatLog.deleteMany();
   await prisma.suggestion.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.authToken.deleteMany();
+  await prisma.address.deleteMany();
   await prisma.user.deleteMany();
 
   console.log('🗑️  Cleared existing data');
 
+  // ============================================================================
+  // CREAR PLANES
+  // ============================================================================
+
+  const basicCategories = [ProductCategory.FRUITS, ProductCategory.VEGETABLES];
+  const standardCategories = [
+    ...basicCategories,
+    ProductCategory.LEGUMES,
+    ProductCategory.HERBS,
+    ProductCategory.SNACKS,
+    ProductCategory.COFFEE,
+    ProductCategory.CHOCOLATE
+  ];
+
+  const plans = [
+    {
+      code: 'BASIC',
+      name: 'Básico',
+      description: 'Solo frutas y verduras',
+      emoji: '🥬',
+      features: ['Frutas', 'Verduras'],
+      limitInKg: 5.0,
+      allowedCategories: basicCategories,
+      monthlyPrice: 199,
+      rolloverCapKg: 2,
+      sortOrder: 1
+    },
+    {
+      code: 'STANDARD',
+      name: 'Estándar',
+      description: 'Frutas, verduras + más',
+      emoji: '🌱',
+      features: ['Frutas', 'Verduras', 'Leguminosas', 'Hierbas', 'Snacks', 'Café', 'Chocolate'],
+      limitInKg: 8.0,
+      allowedCategories: standardCategories,
+      monthlyPrice: 399,
+      rolloverCapKg: 3,
+      sortOrder: 2
+    },
+    {
+      code: 'PREMIUM',
+      name: 'Premium',
+      description: 'Todo lo anterior + proteínas',
+      emoji: '🌟',
+      features: ['Todo del Estándar', 'Proteínas frescas'],
+      limitInKg: 10.0,
+      allowedCategories: [...standardCategories, ProductCategory.PROTEINS],
+      monthlyPrice: 599,
+      rolloverCapKg: 4,
+      sortOrder: 3
+    }
+  ];
+
+  for (const plan of plans) {
+    await prisma.plan.upsert({
+      where: { code: plan.code },
+      update: {},
+      create: plan
+    });
+  }
+
+  console.log('✅ Created plans');
+
   // ============================================================================
   // CREAR USUARIOS
   // ============================================================================
@@ -35,6 +115,7 @@ async function main() {
       name: 'Cliente Básico',
       phone: '+52 961 123 4567',
       password: hashedPassword,
+      emailVerifiedAt: new Date(),
       role: 'customer',
       preferences: JSON.stringify({
         theme: { themeId: 'green', colorMode: 'dark' },
@@ -50,6 +131,7 @@ async function main() {
       name: 'Cliente Estándar',
       phone: '+52 961 234 5678',
       password: hashedPassword,
+      emailVerifiedAt: new Date(),
       role: 'customer',
       preferences: JSON.stringify({
         theme: { themeId: 'green', colorMode: 'dark' },
@@ -65,6 +147,7 @@ async function main() {
       name: 'Cliente Premium',
       phone: '+52 961 345 6789',
       password: hashedPassword,
+      emailVerifiedAt: new Date(),
       role: 'customer',
       preferences: JSON.stringify({
         theme: { themeId: 'green', colorMode: 'dark' },
@@ -80,6 +163,7 @@ async function main() {
       name: 'Juan Productor',
       phone: '+52 961 456 7890',
       password: hashedPassword,
+      emailVerifiedAt: new Date(),
       role: 'producer',
       preferences: JSON.stringify({
         theme: { themeId: 'green', colorMode: 'dark' },
@@ -95,6 +179,7 @@ async function main() {
       name: 'Administrador',
       phone: '+52 961 567 8901',
       password: adminPassword,
+      emailVerifiedAt: new Date(),
       role: 'admin',
       preferences: JSON.stringify({
         theme: { themeId: 'green', colorMode: 'dark' },
@@ -115,7 +200,7 @@ async function main() {
   await prisma.subscription.create({
     data: {
       userId: basicUser.id,
-      plan: SubscriptionPlan.BASIC,
+      plan: 'BASIC',
       limitInKg: 5.0,
       usedKg: 0,
       renewalDate: nextMonth,
@@ -126,7 +211,7 @@ async function main() {
   await prisma.subscription.create({
     data: {
       userId: standardUser.id,
-      plan: SubscriptionPlan.STANDARD,
+      plan: 'STANDARD',
       limitInKg: 8.0,
       usedKg: 0,
       renewalDate: nextMonth,
@@ -137,7 +222,7 @@ async function main() {
   await prisma.subscription.create({
     data: {
       userId: premiumUser.id,
-      plan: SubscriptionPlan.PREMIUM,
+      plan: 'PREMIUM',
       limitInKg: 10.0,
       usedKg: 0,
       renewalDate: nextMonth,
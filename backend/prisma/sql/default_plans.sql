@@ -0,0 +1,15 @@
+-- Catálogo inicial de planes (los mismos que antes estaban fijos en el código)
+-- Ejecutar después de `prisma db push`; no toca planes que ya existan:
+--   npm run db:plans
+INSERT INTO "plans" ("id", "code", "name", "description", "emoji", "features", "limitInKg", "allowedCategories", "monthlyPrice", "rolloverCapKg", "sortOrder", "updatedAt")
+VALUES
+  ('plan_basic', 'BASIC', 'Básico', 'Solo frutas y verduras', '🥬',
+    ARRAY['Frutas', 'Verduras'],
+    5, ARRAY['FRUITS', 'VEGETABLES']::"ProductCategory"[], 199, 2, 1, now()),
+  ('plan_standard', 'STANDARD', 'Estándar', 'Frutas, verduras + más', '🌱',
+    ARRAY['Frutas', 'Verduras', 'Leguminosas', 'Hierbas', 'Snacks', 'Café', 'Chocolate'],
+    8, ARRAY['FRUITS', 'VEGETABLES', 'LEGUMES', 'HERBS', 'SNACKS', 'COFFEE', 'CHOCOLATE']::"ProductCategory"[], 399, 3, 2, now()),
+  ('plan_premium', 'PREMIUM', 'Premium', 'Todo lo anterior + proteínas', '🌟',
+    ARRAY['Todo del Estándar', 'Proteínas frescas'],
+    10, ARRAY['FRUITS', 'VEGETABLES', 'LEGUMES', 'HERBS', 'SNACKS', 'COFFEE', 'CHOCOLATE', 'PROTEINS']::"ProductCategory"[], 599, 4, 3, now())
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,5 @@
+-- Índice de texto completo para GET /api/products/search
+-- Prisma no puede declarar índices sobre expresiones; ejecutar después de `prisma db push`:
+--   npm run db:search-index
+CREATE INDEX IF NOT EXISTS "products_search_text_fts_idx"
+  ON "products" USING GIN (to_tsvector('spanish', "searchText"));
@@ -0,0 +1,325 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { addressInputSchema } from '../utils/address';
+
+const prisma = new PrismaClient();
+
+// Límite de direcciones guardadas por cliente
+const MAX_ADDRESSES = 20;
+
+// Validation schemas
+const createAddressSchema = addressInputSchema.extend({
+  isFavorite: z.boolean().optional(),
+  isDefault: z.boolean().optional()
+});
+
+const updateAddressSchema = createAddressSchema.partial();
+
+// Sin tope: un dispositivo viejo puede traer más de MAX_ADDRESSES y el excedente se reporta como omitido
+const importAddressesSchema = z.object({
+  addresses: z.array(z.unknown())
+});
+
+// La predeterminada primero, luego las más recientes
+const addressOrder: Prisma.AddressOrderByWithRelationInput[] = [
+  { isDefault: 'desc' },
+  { createdAt: 'desc' }
+];
+
+/**
+ * Dejar una sola dirección predeterminada por usuario
+ */
+async function makeDefault(tx: Prisma.TransactionClient, userId: string, addressId: string) {
+  await tx.address.updateMany({
+    where: { userId, isDefault: true, id: { not: addressId } },
+    data: { isDefault: false }
+  });
+
+  return tx.address.update({
+    where: { id: addressId },
+    data: { isDefault: true }
+  });
+}
+
+/**
+ * Misma calle, número y código postal cuentan como la misma dirección
+ */
+const addressKey = (address: { street: string; number: string; postalCode: string }) =>
+  [address.street, address.number, address.postalCode].map(part => part.trim().toLowerCase()).join('|');
+
+export class AddressController {
+  /**
+   * Listar las direcciones del usuario autenticado
+   * GET /api/addresses
+   */
+  static async getMine(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+
+      const addresses = await prisma.address.findMany({
+        where: { userId },
+        orderBy: addressOrder
+      });
+
+      res.json({
+        ok: true,
+        data: addresses
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Guardar una dirección (la primera queda como predeterminada)
+   * POST /api/addresses
+   */
+  static async create(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const { isDefault, isFavorite, ...data } = createAddressSchema.parse(req.body);
+
+      const count = await prisma.address.count({ where: { userId } });
+
+      if (count >= MAX_ADDRESSES) {
+        return res.status(400).json({
+          ok: false,
+          message: `Solo puedes guardar hasta ${MAX_ADDRESSES} direcciones`
+        });
+      }
+
+      const address = await prisma.$transaction(async (tx) => {
+        const created = await tx.address.create({
+          data: {
+            ...data,
+            userId,
+            isFavorite: isFavorite ?? false
+          }
+        });
+
+        return isDefault || count === 0 ? makeDefault(tx, userId, created.id) : created;
+      });
+
+      res.status(201).json({
+        ok: true,
+        message: 'Dirección guardada',
+        data: address
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Editar una dirección propia
+   * PUT /api/addresses/:id
+   */
+  static async update(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { isDefault, ...data } = updateAddressSchema.parse(req.body);
+
+      const address = await prisma.address.findUnique({ where: { id } });
+
+      if (!address || address.userId !== userId) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Dirección no encontrada'
+        });
+      }
+
+      if (isDefault === false && address.isDefault) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Elige otra dirección como predeterminada en lugar de desmarcar esta'
+        });
+      }
+
+      const updatedAddress = await prisma.$transaction(async (tx) => {
+        const updated = await tx.address.update({
+          where: { id },
+          data
+        });
+
+        return isDefault ? makeDefault(tx, userId, id) : updated;
+      });
+
+      res.json({
+        ok: true,
+        message: 'Dirección actualizada',
+        data: updatedAddress
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Marcar una dirección como predeterminada
+   * PATCH /api/addresses/:id/default
+   */
+  static async setDefault(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const address = await prisma.address.findUnique({ where: { id } });
+
+      if (!address || address.userId !== userId) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Dirección no encontrada'
+        });
+      }
+
+      const updatedAddress = await prisma.$transaction(tx => makeDefault(tx, userId, id));
+
+      res.json({
+        ok: true,
+        message: 'Dirección predeterminada actualizada',
+        data: updatedAddress
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Eliminar una dirección propia; si era la predeterminada pasa a la más reciente.
+   * Los pedidos conservan su copia de la dirección.
+   * DELETE /api/addresses/:id
+   */
+  static async remove(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const address = await prisma.address.findUnique({ where: { id } });
+
+      if (!address || address.userId !== userId) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Dirección no encontrada'
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.address.delete({ where: { id } });
+
+        if (address.isDefault) {
+          const latest = await tx.address.findFirst({
+            where: { userId },
+            orderBy: { createdAt: 'desc' }
+          });
+
+          if (latest) {
+            await makeDefault(tx, userId, latest.id);
+          }
+        }
+      });
+
+      res.json({
+        ok: true,
+        message: 'Dirección eliminada'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Importar las direcciones que la app guardaba solo en el dispositivo.
+   * Omite las inválidas y las que ya existen; se puede llamar más de una vez.
+   * POST /api/addresses/import
+   * Body: { addresses: [{ street, number, neighborhood, postalCode, city, state, contactPhone, references?, isFavorite? }] }
+   */
+  static async importLocal(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const { addresses } = importAddressesSchema.parse(req.body);
+
+      const existing = await prisma.address.findMany({ where: { userId } });
+      const seen = new Set(existing.map(addressKey));
+
+      const valid: z.infer<typeof createAddressSchema>[] = [];
+      let skipped = 0;
+
+      for (const candidate of addresses) {
+        const parsed = createAddressSchema.safeParse(candidate);
+
+        if (!parsed.success || seen.has(addressKey(parsed.data))) {
+          skipped++;
+          continue;
+        }
+
+        seen.add(addressKey(parsed.data));
+        valid.push(parsed.data);
+      }
+
+      const toImport = valid.slice(0, Math.max(0, MAX_ADDRESSES - existing.length));
+      skipped += valid.length - toImport.length;
+
+      const imported = await prisma.$transaction(async (tx) => {
+        const created = [];
+
+        for (const { isDefault, isFavorite, ...data } of toImport) {
+          created.push(await tx.address.create({
+            data: {
+              ...data,
+              userId,
+              isFavorite: isFavorite ?? false
+            }
+          }));
+        }
+
+        // Sin predeterminada previa: usar la primera favorita importada, o la primera
+        if (created.length > 0 && !existing.some(address => address.isDefault)) {
+          const preferred = created.find(address => address.isFavorite) ?? created[0];
+          await makeDefault(tx, userId, preferred.id);
+        }
+
+        return created.length;
+      });
+
+      const result = await prisma.address.findMany({
+        where: { userId },
+        orderBy: addressOrder
+      });
+
+      res.json({
+        ok: true,
+        message: `${imported} direcciones importadas`,
+        data: {
+          imported,
+          skipped,
+          addresses: result
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,1179 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma, PrismaClient, ProductCategory } from '@prisma/client';
+import { z } from 'zod';
+import { SubscriptionRenewalService } from '../services/subscriptionRenewalService';
+import { UsageLedgerService } from '../services/usageLedgerService';
+import { RolloverService } from '../services/rolloverService';
+import { ReviewService } from '../services/reviewService';
+import { NotificationService } from '../services/notificationService';
+import { ProductSearchService } from '../services/productSearchService';
+import { CartService } from '../services/cartService';
+
+const prisma = new PrismaClient();
+
+const USER_ROLES = ['customer', 'producer', 'admin'];
+
+// Validation schemas
+const rejectSchema = z.object({
+  reason: z.string().trim().min(1, 'El motivo es requerido')
+});
+
+const moderateProductSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+  reason: z.string().trim().optional()
+});
+
+const reviewVisibilitySchema = z.object({
+  status: z.enum(['visible', 'hidden']),
+  reason: z.string().trim().optional()
+});
+
+const updateRoleSchema = z.object({
+  role: z.enum(['customer', 'producer', 'admin'])
+});
+
+const adjustSubscriptionSchema = z.object({
+  amountKg: z.number().optional(), // Positivo = cargo, negativo = devolución
+  note: z.string().trim().min(1, 'La nota es requerida'),
+  isActive: z.boolean().optional()
+}).refine(
+  data => (data.amountKg !== undefined && data.amountKg !== 0) || data.isActive !== undefined,
+  'Indica un ajuste en kg o el estado de la suscripción'
+);
+
+const approveSuggestionSchema = z.object({
+  demandLabel: z.string().trim().min(1).max(100).optional(), // Por defecto, el producto extraído
+  notes: z.string().trim().optional()
+});
+
+const linkSuggestionSchema = z.object({
+  productId: z.string().min(1, 'El producto es requerido'),
+  notes: z.string().trim().optional()
+});
+
+const createPlanSchema = z.object({
+  code: z.string().trim().regex(/^[A-Z0-9_]+$/, 'El código solo admite mayúsculas, números y guion bajo').max(30),
+  name: z.string().trim().min(1, 'El nombre es requerido').max(60),
+  description: z.string().trim().max(300).optional(),
+  emoji: z.string().trim().max(8).optional(),
+  features: z.array(z.string().trim().min(1)).max(10).default([]),
+  limitInKg: z.number().positive('El límite debe ser mayor a 0'),
+  allowedCategories: z.array(z.nativeEnum(ProductCategory)).min(1, 'Indica al menos una categoría'),
+  monthlyPrice: z.number().min(0),
+  rolloverCapKg: z.number().min(0).default(0), // Kg sin usar que pueden pasar al siguiente periodo
+  sortOrder: z.number().int().optional()
+});
+
+const rolloverCapSchema = z.object({
+  rolloverCapKg: z.number().min(0)
+});
+
+/**
+ * Paginación estándar de los listados de administración
+ */
+function getPagination(query: Request['query']) {
+  const page = Math.max(1, parseInt(query.page as string) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(query.limit as string) || 20));
+  return { page, limit, skip: (page - 1) * limit };
+}
+
+function paginationMeta(total: number, page: number, limit: number) {
+  return {
+    total,
+    page,
+    limit,
+    hasNext: page * limit < total,
+    hasPrev: page > 1
+  };
+}
+
+/**
+ * Marcar como revisada una sugerencia que sigue pendiente.
+ * Solo la primera revisión aplica: otro admin pudo resolverla mientras tanto
+ */
+async function claimPendingSuggestion(
+  tx: Prisma.TransactionClient,
+  id: string,
+  data: Prisma.SuggestionUncheckedUpdateManyInput
+): Promise<boolean> {
+  const { count } = await tx.suggestion.updateMany({
+    where: { id, status: 'pending' },
+    data
+  });
+
+  return count > 0;
+}
+
+export class AdminController {
+  // ===== PRODUCTORES =====
+
+  /**
+   * Cola de verificación de productores (incluye sus calificaciones de encuestas)
+   * GET /api/admin/producers?status=pending&search=&sort=rating&page=1&limit=20
+   * sort=rating ordena por peor calificación general primero
+   */
+  static async getProducers(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { status = 'pending', search, sort } = req.query;
+      const { page, limit, skip } = getPagination(req.query);
+
+      const where: any = {};
+
+      if (status !== 'all') {
+        where.verificationStatus = status as string;
+      }
+
+      if (search && typeof search === 'string') {
+        where.OR = [
+          { businessName: { contains: search, mode: 'insensitive' } },
+          { user: { email: { contains: search, mode: 'insensitive' } } }
+        ];
+      }
+
+      const [producers, total] = await Promise.all([
+        prisma.producer.findMany({
+          where,
+          include: {
+            user: { select: { id: true, name: true, email: true, phone: true } },
+            _count: { select: { products: true } }
+          },
+          orderBy: sort === 'rating'
+            ? { ratingScore: { sort: 'asc', nulls: 'last' } }
+            : { createdAt: 'asc' }, // Los más antiguos primero en la cola
+          skip,
+          take: limit
+        }),
+        prisma.producer.count({ where })
+      ]);
+
+      res.json({
+        ok: true,
+        data: producers,
+        meta: paginationMeta(total, page, limit)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Aprobar la verificación de un productor
+   * POST /api/admin/producers/:id/approve
+   */
+  static async approveProducer(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+
+      const producer = await prisma.producer.findUnique({ where: { id } });
+
+      if (!producer) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Productor no encontrado'
+        });
+      }
+
+      const updatedProducer = await prisma.producer.update({
+        where: { id },
+        data: {
+          verified: true,
+          verificationStatus: 'approved',
+          verificationNote: null,
+          verifiedAt: new Date(),
+          verifiedById: req.user!.id
+        }
+      });
+
+      console.log(`✅ Productor verificado: ${producer.businessName}`);
+
+      res.json({
+        ok: true,
+        message: 'Productor verificado exitosamente',
+        data: updatedProducer
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rechazar la verificación de un productor
+   * POST /api/admin/producers/:id/reject
+   * Body: { reason: string }
+   */
+  static async rejectProducer(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const { reason } = rejectSchema.parse(req.body);
+
+      const producer = await prisma.producer.findUnique({ where: { id } });
+
+      if (!producer) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Productor no encontrado'
+        });
+      }
+
+      const updatedProducer = await prisma.producer.update({
+        where: { id },
+        data: {
+          verified: false,
+          verificationStatus: 'rejected',
+          verificationNote: reason,
+          verifiedAt: new Date(),
+          verifiedById: req.user!.id
+        }
+      });
+
+      res.json({
+        ok: true,
+        message: 'Solicitud de productor rechazada',
+        data: updatedProducer
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  // ===== PRODUCTOS =====
+
+  /**
+   * Listar productos para moderación (incluye no disponibles y rechazados)
+   * GET /api/admin/products?status=approved|rejected&producerId=&search=&page=1&limit=20
+   */
+  static async getProducts(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { status, producerId, search } = req.query;
+      const { page, limit, skip } = getPagination(req.query);
+
+      const where: any = { deletedAt: null };
+
+      if (status) {
+        where.moderationStatus = status as string;
+      }
+
+      if (producerId) {
+        where.producerId = producerId as string;
+      }
+
+      if (search && typeof search === 'string') {
+        where.name = { contains: search, mode: 'insensitive' };
+      }
+
+      const [products, total] = await Promise.all([
+        prisma.product.findMany({
+          where,
+          include: {
+            producer: { select: { id: true, businessName: true, verified: true } }
+          },
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.product.count({ where })
+      ]);
+
+      res.json({
+        ok: true,
+        data: products,
+        meta: paginationMeta(total, page, limit)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Aprobar o retirar un producto del catálogo
+   * PUT /api/admin/products/:id/moderation
+   * Body: { status: 'approved' | 'rejected', reason?: string }
+   */
+  static async moderateProduct(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const { status, reason } = moderateProductSchema.parse(req.body);
+
+      const product = await prisma.product.findUnique({ where: { id } });
+
+      if (!product || product.deletedAt) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Producto no encontrado'
+        });
+      }
+
+      if (status === 'rejected' && !reason) {
+        return res.status(400).json({
+          ok: false,
+          message: 'El motivo es requerido para retirar un producto'
+        });
+      }
+
+      const updatedProduct = await prisma.$transaction(async (tx) => {
+        const updated = await tx.product.update({
+          where: { id },
+          data: {
+            moderationStatus: status,
+            moderationNote: status === 'rejected' ? reason : null,
+            moderatedAt: new Date(),
+            moderatedById: req.user!.id,
+            // Un producto retirado deja de venderse; al aprobarlo el productor decide si lo publica
+            ...(status === 'rejected' ? { available: false } : {})
+          }
+        });
+
+        if (status === 'rejected') {
+          await CartService.removeProductFromAllCarts(tx, id);
+        }
+
+        return updated;
+      });
+
+      res.json({
+        ok: true,
+        message: status === 'rejected' ? 'Producto retirado del catálogo' : 'Producto aprobado',
+        data: updatedProduct
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  // ===== RESEÑAS =====
+
+  /**
+   * Listar reseñas para moderación
+   * GET /api/admin/reviews?status=visible|hidden&productId=&page=1&limit=20
+   */
+  static async getReviews(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { status, productId } = req.query;
+      const { page, limit, skip } = getPagination(req.query);
+
+      const where: any = {};
+
+      if (status) {
+        where.status = status as string;
+      }
+
+      if (productId) {
+        where.productId = productId as string;
+      }
+
+      const [reviews, total] = await Promise.all([
+        prisma.productReview.findMany({
+          where,
+          include: {
+            user: { select: { id: true, name: true, email: true } },
+            product: { select: { id: true, name: true } }
+          },
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.productReview.count({ where })
+      ]);
+
+      res.json({
+        ok: true,
+        data: reviews,
+        meta: paginationMeta(total, page, limit)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Ocultar o volver a mostrar una reseña
+   * PUT /api/admin/reviews/:id/visibility
+   * Body: { status: 'visible' | 'hidden', reason?: string }
+   */
+  static async setReviewVisibility(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const { status, reason } = reviewVisibilitySchema.parse(req.body);
+
+      const review = await prisma.productReview.findUnique({ where: { id } });
+
+      if (!review) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Reseña no encontrada'
+        });
+      }
+
+      const updatedReview = await prisma.$transaction(async (tx) => {
+        const updated = await tx.productReview.update({
+          where: { id },
+          data: status === 'hidden'
+            ? { status, hiddenReason: reason || null, hiddenById: req.user!.id, hiddenAt: new Date() }
+            : { status, hiddenReason: null, hiddenById: null, hiddenAt: null }
+        });
+
+        // Las reseñas ocultas no cuentan en el promedio del producto
+        await ReviewService.recomputeProductRating(tx, review.productId);
+
+        return updated;
+      });
+
+      res.json({
+        ok: true,
+        message: status === 'hidden' ? 'Reseña ocultada' : 'Reseña visible',
+        data: updatedReview
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  // ===== USUARIOS =====
+
+  /**
+   * Listar usuarios
+   * GET /api/admin/users?role=&search=&page=1&limit=20
+   */
+  static async getUsers(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { role, search } = req.query;
+      const { page, limit, skip } = getPagination(req.query);
+
+      const where: any = {};
+
+      if (role && USER_ROLES.includes(role as string)) {
+        where.role = role as string;
+      }
+
+      if (search && typeof search === 'string') {
+        where.OR = [
+          { name: { contains: search, mode: 'insensitive' } },
+          { email: { contains: search, mode: 'insensitive' } }
+        ];
+      }
+
+      const [users, total] = await Promise.all([
+        prisma.user.findMany({
+          where,
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            phone: true,
+            role: true,
+            createdAt: true,
+            subscription: { select: { plan: true, isActive: true } },
+            producer: { select: { id: true, businessName: true, verificationStatus: true } },
+            _count: { select: { orders: true } }
+          },
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.user.count({ where })
+      ]);
+
+      res.json({
+        ok: true,
+        data: users,
+        meta: paginationMeta(total, page, limit)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cambiar el rol de un usuario
+   * PUT /api/admin/users/:id/role
+   * Body: { role: 'customer' | 'producer' | 'admin' }
+   */
+  static async updateUserRole(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const { role } = updateRoleSchema.parse(req.body);
+
+      if (id === req.user!.id && role !== 'admin') {
+        return res.status(400).json({
+          ok: false,
+          message: 'No puedes quitarte el rol de administrador'
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        include: { producer: { select: { id: true } } }
+      });
+
+      if (!user) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Usuario no encontrado'
+        });
+      }
+
+      // Un productor necesita su perfil de negocio (POST /api/producers/register)
+      if (role === 'producer' && !user.producer) {
+        return res.status(400).json({
+          ok: false,
+          message: 'El usuario no tiene perfil de productor'
+        });
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id },
+        data: { role },
+        select: { id: true, email: true, name: true, role: true, updatedAt: true }
+      });
+
+      console.log(`👤 Rol actualizado: ${user.email} (${user.role} → ${role})`);
+
+      res.json({
+        ok: true,
+        message: 'Rol actualizado exitosamente',
+        data: updatedUser
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  // ===== SUSCRIPCIONES =====
+
+  /**
+   * Buscar suscripciones por nombre o email del usuario
+   * GET /api/admin/subscriptions?search=&plan=&page=1&limit=20
+   */
+  static async getSubscriptions(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { search, plan } = req.query;
+      const { page, limit, skip } = getPagination(req.query);
+
+      const where: any = {};
+
+      if (plan) {
+        where.plan = plan as string;
+      }
+
+      if (search && typeof search === 'string') {
+        where.user = {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' } },
+            { email: { contains: search, mode: 'insensitive' } }
+          ]
+        };
+      }
+
+      const [subscriptions, total] = await Promise.all([
+        prisma.subscription.findMany({
+          where,
+          include: { user: { select: { id: true, name: true, email: true } } },
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.subscription.count({ where })
+      ]);
+
+      res.json({
+        ok: true,
+        data: subscriptions,
+        meta: paginationMeta(total, page, limit)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Ver la suscripción de un usuario con su historial de uso
+   * GET /api/admin/subscriptions/:userId
+   */
+  static async getSubscription(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { userId } = req.params;
+
+      await SubscriptionRenewalService.renewForUser(userId);
+
+      const subscription = await prisma.subscription.findUnique({
+        where: { userId },
+        include: { user: { select: { id: true, name: true, email: true } } }
+      });
+
+      if (!subscription) {
+        return res.status(404).json({
+          ok: false,
+          message: 'El usuario no tiene suscripción'
+        });
+      }
+
+      const history = await UsageLedgerService.getHistory(subscription.id, 6);
+
+      res.json({
+        ok: true,
+        data: {
+          ...subscription,
+          remainingKg: RolloverService.getAllowance(subscription).remainingKg,
+          history
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Ajustar el consumo del periodo actual de una suscripción o activarla/desactivarla
+   * POST /api/admin/subscriptions/:userId/adjust
+   * Body: { amountKg?: number, note: string, isActive?: boolean }
+   * El ajuste de kg queda en el libro de uso como admin_adjustment
+   */
+  static async adjustSubscription(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { userId } = req.params;
+      const { amountKg, note, isActive } = adjustSubscriptionSchema.parse(req.body);
+
+      await SubscriptionRenewalService.renewForUser(userId);
+
+      const subscription = await prisma.subscription.findUnique({
+        where: { userId }
+      });
+
+      if (!subscription) {
+        return res.status(404).json({
+          ok: false,
+          message: 'El usuario no tiene suscripción'
+        });
+      }
+
+      const updatedSubscription = await prisma.$transaction(async (tx) => {
+        if (amountKg) {
+          await UsageLedgerService.recordEntry(tx, {
+            subscriptionId: subscription.id,
+            type: 'admin_adjustment',
+            amountKg,
+            actorId: req.user!.id,
+            note
+          });
+        }
+
+        return tx.subscription.update({
+          where: { id: subscription.id },
+          data: isActive !== undefined ? { isActive } : {}
+        });
+      });
+
+      res.json({
+        ok: true,
+        message: 'Suscripción ajustada exitosamente',
+        data: {
+          ...updatedSubscription,
+          remainingKg: RolloverService.getAllowance(updatedSubscription).remainingKg
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  // ===== SUGERENCIAS =====
+
+  /**
+   * Cola de sugerencias de productos con sus candidatos del catálogo
+   * GET /api/admin/suggestions?status=pending&page=1&limit=20
+   */
+  static async getSuggestions(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { status = 'pending' } = req.query;
+      const { page, limit, skip } = getPagination(req.query);
+
+      const where: any = {};
+
+      if (status !== 'all') {
+        where.status = status as string;
+      }
+
+      const [suggestions, total] = await Promise.all([
+        prisma.suggestion.findMany({
+          where,
+          include: {
+            user: {
+              select: { id: true, name: true, email: true }
+            },
+            linkedProduct: {
+              select: { id: true, name: true }
+            }
+          },
+          orderBy: { createdAt: 'asc' },
+          skip,
+          take: limit
+        }),
+        prisma.suggestion.count({ where })
+      ]);
+
+      res.json({
+        ok: true,
+        data: suggestions,
+        meta: paginationMeta(total, page, limit)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Aprobar una sugerencia como demanda visible para los productores
+   * POST /api/admin/suggestions/:id/approve
+   * Body: { demandLabel?: string, notes?: string }
+   */
+  static async approveSuggestion(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const { demandLabel, notes } = approveSuggestionSchema.parse(req.body);
+
+      const suggestion = await prisma.suggestion.findUnique({ where: { id } });
+
+      if (!suggestion) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Sugerencia no encontrada'
+        });
+      }
+
+      if (suggestion.status !== 'pending') {
+        return res.status(409).json({
+          ok: false,
+          message: 'La sugerencia ya fue revisada'
+        });
+      }
+
+      // La demanda se agrupa por el producto pedido, o por la etiqueta que elija el admin
+      const entities = suggestion.extractedEntities as Array<{ product: string }>;
+      const label = demandLabel ?? entities[0]?.product ?? suggestion.originalText;
+      const demandKey = ProductSearchService.normalize(label);
+
+      const updatedSuggestion = await prisma.$transaction(async (tx) => {
+        const claimed = await claimPendingSuggestion(tx, id, {
+          status: 'approved',
+          demandKey,
+          demandLabel: label,
+          adminNotes: notes ?? null,
+          reviewedById: req.user!.id,
+          reviewedAt: new Date()
+        });
+
+        if (!claimed) {
+          return null;
+        }
+
+        await NotificationService.create(tx, {
+          userId: suggestion.userId,
+          type: 'suggestion_approved',
+          title: '¡Gracias por tu sugerencia!',
+          message: `Compartimos tu interés en "${label}" con nuestros productores.`,
+          data: { suggestionId: id }
+        });
+
+        return tx.suggestion.findUniqueOrThrow({ where: { id } });
+      });
+
+      if (!updatedSuggestion) {
+        return res.status(409).json({
+          ok: false,
+          message: 'La sugerencia ya fue revisada'
+        });
+      }
+
+      res.json({
+        ok: true,
+        message: 'Sugerencia aprobada',
+        data: updatedSuggestion
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Rechazar una sugerencia
+   * POST /api/admin/suggestions/:id/reject
+   * Body: { reason: string }
+   */
+  static async rejectSuggestion(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const { reason } = rejectSchema.parse(req.body);
+
+      const suggestion = await prisma.suggestion.findUnique({ where: { id } });
+
+      if (!suggestion) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Sugerencia no encontrada'
+        });
+      }
+
+      if (suggestion.status !== 'pending') {
+        return res.status(409).json({
+          ok: false,
+          message: 'La sugerencia ya fue revisada'
+        });
+      }
+
+      const updatedSuggestion = await prisma.$transaction(async (tx) => {
+        const claimed = await claimPendingSuggestion(tx, id, {
+          status: 'rejected',
+          adminNotes: reason,
+          reviewedById: req.user!.id,
+          reviewedAt: new Date()
+        });
+
+        if (!claimed) {
+          return null;
+        }
+
+        await NotificationService.create(tx, {
+          userId: suggestion.userId,
+          type: 'suggestion_rejected',
+          title: 'Revisamos tu sugerencia',
+          message: `Por ahora no podremos ofrecer "${suggestion.originalText}": ${reason}`,
+          data: { suggestionId: id }
+        });
+
+        return tx.suggestion.findUniqueOrThrow({ where: { id } });
+      });
+
+      if (!updatedSuggestion) {
+        return res.status(409).json({
+          ok: false,
+          message: 'La sugerencia ya fue revisada'
+        });
+      }
+
+      res.json({
+        ok: true,
+        message: 'Sugerencia rechazada',
+        data: updatedSuggestion
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Vincular una sugerencia con un producto que ya existe en el catálogo
+   * POST /api/admin/suggestions/:id/link
+   * Body: { productId: string, notes?: string }
+   */
+  static async linkSuggestion(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const { productId, notes } = linkSuggestionSchema.parse(req.body);
+
+      const [suggestion, product] = await Promise.all([
+        prisma.suggestion.findUnique({ where: { id } }),
+        prisma.product.findFirst({ where: { id: productId, deletedAt: null } })
+      ]);
+
+      if (!suggestion) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Sugerencia no encontrada'
+        });
+      }
+
+      if (!product) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Producto no encontrado'
+        });
+      }
+
+      if (suggestion.status !== 'pending') {
+        return res.status(409).json({
+          ok: false,
+          message: 'La sugerencia ya fue revisada'
+        });
+      }
+
+      const updatedSuggestion = await prisma.$transaction(async (tx) => {
+        const claimed = await claimPendingSuggestion(tx, id, {
+          status: 'linked',
+          linkedProductId: product.id,
+          adminNotes: notes ?? null,
+          reviewedById: req.user!.id,
+          reviewedAt: new Date()
+        });
+
+        if (!claimed) {
+          return null;
+        }
+
+        await NotificationService.create(tx, {
+          userId: suggestion.userId,
+          type: 'suggestion_linked',
+          title: '¡Ya lo tenemos!',
+          message: `Lo que buscabas ya está en el catálogo: ${product.name}.`,
+          data: { suggestionId: id, productId: product.id }
+        });
+
+        return tx.suggestion.findUniqueOrThrow({
+          where: { id },
+          include: {
+            linkedProduct: {
+              select: { id: true, name: true }
+            }
+          }
+        });
+      });
+
+      if (!updatedSuggestion) {
+        return res.status(409).json({
+          ok: false,
+          message: 'La sugerencia ya fue revisada'
+        });
+      }
+
+      res.json({
+        ok: true,
+        message: 'Sugerencia vinculada al producto',
+        data: updatedSuggestion
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  // ===== PLANES =====
+
+  /**
+   * Listar todos los planes, incluidos los retirados, con cuántas suscripciones tiene cada uno
+   * GET /api/admin/plans
+   */
+  static async getPlans(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const [plans, counts] = await Promise.all([
+        prisma.plan.findMany({
+          orderBy: [{ isActive: 'desc' }, { sortOrder: 'asc' }, { monthlyPrice: 'asc' }]
+        }),
+        prisma.subscription.groupBy({
+          by: ['plan'],
+          _count: { _all: true }
+        })
+      ]);
+
+      const subscriptionsByPlan = new Map(counts.map(count => [count.plan, count._count._all]));
+
+      res.json({
+        ok: true,
+        data: plans.map(plan => ({
+          ...plan,
+          subscriptionCount: subscriptionsByPlan.get(plan.code) ?? 0
+        }))
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Crear un plan nuevo en el catálogo
+   * POST /api/admin/plans
+   * Body: { code, name, description?, emoji?, features?, limitInKg, allowedCategories, monthlyPrice, rolloverCapKg?, sortOrder? }
+   */
+  static async createPlan(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const data = createPlanSchema.parse(req.body);
+
+      const existingPlan = await prisma.plan.findUnique({
+        where: { code: data.code }
+      });
+
+      // Los códigos quedan guardados en suscripciones e historial, así que no se reutilizan
+      if (existingPlan) {
+        return res.status(409).json({
+          ok: false,
+          message: 'Ya existe un plan con ese código'
+        });
+      }
+
+      let sortOrder = data.sortOrder;
+      if (sortOrder === undefined) {
+        const last = await prisma.plan.aggregate({ _max: { sortOrder: true } });
+        sortOrder = (last._max.sortOrder ?? 0) + 1;
+      }
+
+      const plan = await prisma.plan.create({
+        data: { ...data, sortOrder }
+      });
+
+      console.log(`📦 Plan creado: ${plan.code} (${plan.limitInKg} kg, $${plan.monthlyPrice})`);
+
+      res.status(201).json({
+        ok: true,
+        message: 'Plan creado exitosamente',
+        data: plan
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Cambiar el tope de kg sin usar que pasan al siguiente periodo. Aplica desde la próxima
+   * renovación; lo ya heredado no cambia.
+   * PUT /api/admin/plans/:id/rollover-cap
+   * Body: { rolloverCapKg: number }
+   */
+  static async updatePlanRolloverCap(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const { rolloverCapKg } = rolloverCapSchema.parse(req.body);
+
+      const plan = await prisma.plan.findUnique({ where: { id } });
+
+      if (!plan) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Plan no encontrado'
+        });
+      }
+
+      const updatedPlan = await prisma.plan.update({
+        where: { id },
+        data: { rolloverCapKg }
+      });
+
+      console.log(`📦 Tope de rollover actualizado: ${plan.code} (${plan.rolloverCapKg} → ${rolloverCapKg} kg)`);
+
+      res.json({
+        ok: true,
+        message: 'Tope de rollover actualizado',
+        data: updatedPlan
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Retirar un plan: deja de ofrecerse, pero quien ya lo tiene lo conserva
+   * POST /api/admin/plans/:id/retire
+   */
+  static async retirePlan(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+
+      const plan = await prisma.plan.findUnique({ where: { id } });
+
+      if (!plan) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Plan no encontrado'
+        });
+      }
+
+      if (!plan.isActive) {
+        return res.status(400).json({
+          ok: false,
+          message: 'El plan ya está retirado'
+        });
+      }
+
+      const activePlans = await prisma.plan.count({ where: { isActive: true } });
+
+      // El registro necesita al menos un plan disponible
+      if (activePlans <= 1) {
+        return res.status(400).json({
+          ok: false,
+          message: 'No puedes retirar el único plan disponible'
+        });
+      }
+
+      const retiredPlan = await prisma.plan.update({
+        where: { id },
+        data: { isActive: false, retiredAt: new Date() }
+      });
+
+      console.log(`📦 Plan retirado: ${plan.code}`);
+
+      res.json({
+        ok: true,
+        message: 'Plan retirado exitosamente',
+        data: retiredPlan
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -2,8 +2,12 @@ import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../index';
 import { CustomError } from '../middleware/errorHandler';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { SubscriptionPlan } from '@prisma/client';
+import { SessionService, DeviceInfo } from '../services/sessionService';
+import { AuthTokenService } from '../services/authTokenService';
+import { MailService } from '../services/mailService';
+import { PlanService } from '../services/planService';
+import { EmailVerificationService, EMAIL_NOT_VERIFIED } from '../services/emailVerificationService';
+import { addBillingPeriod } from '../services/subscriptionRenewalService';
 
 // Helper function to safely parse JSON preferences
 const parsePreferences = (preferences: any): any => {
@@ -20,6 +24,40 @@ const parsePreferences = (preferences: any): any => {
   }
 };
 
+// Datos del dispositivo que abre o renueva la sesión; el cliente puede mandar { device: { name, platform } }
+const getDeviceInfo = (req: Request): DeviceInfo => {
+  const device = req.body?.device ?? {};
+
+  return {
+    deviceName: typeof device.name === 'string' ? device.name.slice(0, 100) : null,
+    platform: typeof device.platform === 'string' ? device.platform.slice(0, 20) : null,
+    userAgent: req.headers['user-agent']?.slice(0, 255) ?? null,
+    ipAddress: req.ip ?? null
+  };
+};
+
+/**
+ * Send the email verification code. Failures are logged: the account already exists
+ * and the user can ask for another code.
+ */
+const sendVerificationEmail = async (user: { id: string; name: string; email: string }): Promise<'sent' | 'too_soon' | 'failed'> => {
+  try {
+    const issued = await AuthTokenService.issue(user.id, 'email_verification');
+    if (!issued) return 'too_soon';
+
+    await MailService.send({
+      to: user.email,
+      subject: 'Confirma tu correo en GreenFit',
+      text: `Hola ${user.name},\n\nTu código para confirmar tu correo es: ${issued.code}\n\n` +
+        'Escríbelo en la app. Vence en 24 horas.\n\nSi no creaste una cuenta en GreenFit, ignora este mensaje.'
+    });
+    return 'sent';
+  } catch (error) {
+    console.error('❌ Verification email error:', error);
+    return 'failed';
+  }
+};
+
 export class AuthController {
   /**
    * Register new user
@@ -51,19 +89,16 @@ export class AuthController {
       const saltRounds = 10;
       const hashedPassword = await bcrypt.hash(password, saltRounds);
 
-      // Obtener plan de suscripción del body (por defecto BASIC)
-      const { subscriptionPlan = 'BASIC' } = req.body;
-      const validPlans: SubscriptionPlan[] = [SubscriptionPlan.BASIC, SubscriptionPlan.STANDARD, SubscriptionPlan.PREMIUM];
-      const selectedPlan = validPlans.includes(subscriptionPlan as SubscriptionPlan) 
-        ? (subscriptionPlan as SubscriptionPlan) 
-        : SubscriptionPlan.BASIC;
+      // Plan elegido en el registro; si no existe o ya se retiró, el primero del catálogo
+      const { subscriptionPlan } = req.body;
+      const requestedPlan = typeof subscriptionPlan === 'string'
+        ? await PlanService.findByCode(subscriptionPlan)
+        : null;
+      const selectedPlan = requestedPlan?.isActive ? requestedPlan : await PlanService.getDefault();
 
-      // Definir límites por plan
-      const planLimits: Record<SubscriptionPlan, number> = {
-        [SubscriptionPlan.BASIC]: 5.0,
-        [SubscriptionPlan.STANDARD]: 8.0,
-        [SubscriptionPlan.PREMIUM]: 10.0
-      };
+      if (!selectedPlan) {
+        throw new CustomError('No subscription plans are available right now', 503);
+      }
 
       // Create user
       const user = await prisma.user.create({
@@ -73,6 +108,7 @@ export class AuthController {
           phone: phone || null,
           password: hashedPassword,
           role: 'customer',
+          emailVerificationDueAt: EmailVerificationService.dueDate(),
           preferences: JSON.stringify({
             theme: {},
             notifications: {}
@@ -81,30 +117,26 @@ export class AuthController {
       });
 
       // Crear suscripción para el nuevo usuario
-      const nextMonth = new Date();
-      nextMonth.setMonth(nextMonth.getMonth() + 1);
+      const now = new Date();
 
       await prisma.subscription.create({
         data: {
           userId: user.id,
-          plan: selectedPlan,
-          limitInKg: planLimits[selectedPlan],
+          plan: selectedPlan.code,
+          limitInKg: selectedPlan.limitInKg,
           usedKg: 0,
-          renewalDate: nextMonth,
+          periodStart: now,
+          renewalDate: addBillingPeriod(now),
+          billingDay: now.getUTCDate(),
           isActive: true
         }
       });
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { 
-          userId: user.id, 
-          email: user.email, 
-          role: user.role 
-        },
-        process.env.JWT_SECRET || 'fallback_secret_key_for_dev',
-        { expiresIn: '7d' }
-      );
+      // Open a session: short-lived access token + rotating refresh token
+      const session = await SessionService.start(user, getDeviceInfo(req));
+
+      // Confirm the email belongs to whoever registered it
+      await sendVerificationEmail(user);
 
       // Remove password from response
       const { password: _, ...userResponse } = user;
@@ -119,7 +151,7 @@ export class AuthController {
             ...userResponse,
             preferences: parsePreferences(userResponse.preferences)
           },
-          token
+          ...session
         }
       });
 
@@ -158,16 +190,22 @@ export class AuthController {
         throw new CustomError('Invalid credentials', 401);
       }
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { 
-          userId: user.id, 
-          email: user.email, 
-          role: user.role 
-        },
-        process.env.JWT_SECRET || 'fallback_secret_key_for_dev',
-        { expiresIn: '7d' }
-      );
+      // Unconfirmed email: allowed during the grace period, then the app has to verify first
+      if (!user.emailVerifiedAt) {
+        if (!user.emailVerificationDueAt) {
+          // Accounts created before verification existed get the grace period from now
+          await prisma.user.update({
+            where: { id: user.id },
+            data: { emailVerificationDueAt: EmailVerificationService.dueDate() }
+          });
+        } else if (EmailVerificationService.isOverdue(user)) {
+          await sendVerificationEmail(user);
+          throw new CustomError('Please confirm your email to continue. We sent you a new code.', 403, true, EMAIL_NOT_VERIFIED);
+        }
+      }
+
+      // Open a session: short-lived access token + rotating refresh token
+      const session = await SessionService.start(user, getDeviceInfo(req));
 
       // Remove password from response
       const { password: _, ...userResponse } = user;
@@ -182,7 +220,7 @@ export class AuthController {
             ...userResponse,
             preferences: parsePreferences(userResponse.preferences)
           },
-          token
+          ...session
         }
       });
 
@@ -210,6 +248,7 @@ export class AuthController {
           email: true,
           phone: true,
           role: true,
+          emailVerifiedAt: true,
           preferences: true,
           createdAt: true,
           updatedAt: true
@@ -260,6 +299,7 @@ export class AuthController {
           email: true,
           phone: true,
           role: true,
+          emailVerifiedAt: true,
           preferences: true,
           createdAt: true,
           updatedAt: true
@@ -284,14 +324,45 @@ export class AuthController {
   }
 
   /**
-   * Logout user (client-side token removal)
+   * Exchange a refresh token for a new token pair (the old refresh token stops working)
+   * POST /api/auth/refresh
+   * Body: { refreshToken: string, device?: { name, platform } }
+   */
+  static async refresh(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        throw new CustomError('Refresh token is required', 400);
+      }
+
+      const session = await SessionService.refresh(refreshToken, getDeviceInfo(req));
+
+      res.status(200).json({
+        ok: true,
+        data: session
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Logout user, revoking the current session
    * POST /api/auth/logout
+   * Body: { refreshToken?: string } - used when the access token already expired
    */
   static async logout(req: Request, res: Response, next: NextFunction) {
     try {
-      // In a JWT system, logout is typically handled on the client side
-      // by removing the token. This endpoint can be used for logging purposes.
-      
+      const { refreshToken } = req.body ?? {};
+
+      if (req.sessionId) {
+        await SessionService.revoke(req.sessionId, 'logout');
+      } else if (typeof refreshToken === 'string') {
+        await SessionService.revokeByRefreshToken(refreshToken);
+      }
+
       if (req.user) {
         console.log(`✅ User logged out: ${req.user.email}`);
       }
@@ -306,4 +377,297 @@ export class AuthController {
       next(error);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Logout from every device
+   * POST /api/auth/logout-all
+   */
+  static async logoutAll(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      const revoked = await SessionService.revokeAll(req.user.id);
+
+      console.log(`✅ User logged out from ${revoked} sessions: ${req.user.email}`);
+
+      res.status(200).json({
+        ok: true,
+        message: 'Logged out from all devices',
+        data: { revoked }
+      });
+
+    } catch (error) {
+      console.error('❌ Logout all error:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * List active sessions, flagging the one making the request
+   * GET /api/auth/sessions
+   */
+  static async getSessions(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      const sessions = await SessionService.listActive(req.user.id);
+
+      res.status(200).json({
+        ok: true,
+        data: sessions.map(session => ({
+          ...session,
+          current: session.id === req.sessionId
+        }))
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke one of the user's sessions (e.g. a lost phone)
+   * DELETE /api/auth/sessions/:id
+   */
+  static async revokeSession(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      const revoked = await SessionService.revoke(req.params.id, 'revoked', req.user.id);
+
+      if (!revoked) {
+        throw new CustomError('Session not found', 404);
+      }
+
+      res.status(200).json({
+        ok: true,
+        message: 'Session revoked'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a password reset code. The response is the same whether or not the email
+   * is registered, so it can't be used to discover accounts.
+   * POST /api/auth/forgot-password
+   * Body: { email: string }
+   */
+  static async forgotPassword(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { email } = req.body;
+
+      if (!email || typeof email !== 'string') {
+        throw new CustomError('Email is required', 400);
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { email: email.trim() }
+      });
+
+      if (user) {
+        const issued = await AuthTokenService.issue(user.id, 'password_reset');
+
+        if (issued) {
+          try {
+            await MailService.send({
+              to: user.email,
+              subject: 'Restablece tu contraseña de GreenFit',
+              text: `Hola ${user.name},\n\nTu código para restablecer la contraseña es: ${issued.code}\n\n` +
+                'Escríbelo en la app junto con tu nueva contraseña. Vence en 1 hora.\n\n' +
+                'Si no lo pediste, ignora este mensaje: tu contraseña no cambia.'
+            });
+          } catch (error) {
+            console.error('❌ Password reset email error:', error);
+          }
+        }
+      }
+
+      res.status(200).json({
+        ok: true,
+        message: 'If the email is registered, we sent a code to reset the password'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set a new password with the emailed code. Closes every open session.
+   * POST /api/auth/reset-password
+   * Body: { email: string, code: string, password: string }
+   */
+  static async resetPassword(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { email, code, password } = req.body;
+
+      if (!email || !code || !password) {
+        throw new CustomError('Email, code and password are required', 400);
+      }
+
+      if (password.length < 6) {
+        throw new CustomError('Password must be at least 6 characters long', 400);
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { email: String(email).trim() }
+      });
+
+      const valid = user ? await AuthTokenService.consume(user.id, 'password_reset', String(code)) : false;
+
+      if (!user || !valid) {
+        throw new CustomError('Invalid or expired code', 400);
+      }
+
+      const hashedPassword = await bcrypt.hash(password, 10);
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          password: hashedPassword,
+          // Receiving the code proves the email belongs to the user
+          emailVerifiedAt: user.emailVerifiedAt ?? new Date()
+        }
+      });
+
+      // Whoever had the old password loses access
+      await SessionService.revokeAll(user.id);
+
+      console.log(`✅ Password reset: ${user.email}`);
+
+      res.status(200).json({
+        ok: true,
+        message: 'Password updated, please log in again'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm the user's email with the emailed code. Without a session (login blocked
+   * after the grace period) the account is identified by its email.
+   * POST /api/auth/verify-email
+   * Body: { code: string, email?: string }
+   */
+  static async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { code, email } = req.body;
+
+      if (!code) {
+        throw new CustomError('Code is required', 400);
+      }
+
+      if (!req.user && !email) {
+        throw new CustomError('Email is required', 400);
+      }
+
+      const user = await prisma.user.findUnique({
+        where: req.user ? { id: req.user.id } : { email: String(email) }
+      });
+
+      if (!user) {
+        // Same answer as a wrong code so the endpoint doesn't reveal registered emails
+        throw new CustomError('Invalid or expired code', 400);
+      }
+
+      if (user.emailVerifiedAt) {
+        return res.status(200).json({
+          ok: true,
+          message: 'Email already verified',
+          data: { emailVerifiedAt: user.emailVerifiedAt }
+        });
+      }
+
+      const valid = await AuthTokenService.consume(user.id, 'email_verification', String(code));
+
+      if (!valid) {
+        throw new CustomError('Invalid or expired code', 400);
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: new Date() }
+      });
+
+      console.log(`✅ Email verified: ${user.email}`);
+
+      res.status(200).json({
+        ok: true,
+        message: 'Email verified',
+        data: { emailVerifiedAt: updatedUser.emailVerifiedAt }
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a new email verification code
+   * POST /api/auth/resend-verification
+   * Body: { email?: string } (only without a session)
+   */
+  static async resendVerification(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      if (!req.user) {
+        const { email } = req.body;
+
+        if (!email) {
+          throw new CustomError('Email is required', 400);
+        }
+
+        // Same answer whether the email exists or not, like forgot-password
+        const user = await prisma.user.findUnique({ where: { email: String(email) } });
+        if (user && !user.emailVerifiedAt) {
+          await sendVerificationEmail(user);
+        }
+
+        return res.status(200).json({
+          ok: true,
+          message: 'If the account needs it, a verification code was sent'
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.user.id }
+      });
+
+      if (!user) {
+        throw new CustomError('User not found', 404);
+      }
+
+      if (user.emailVerifiedAt) {
+        throw new CustomError('Email already verified', 400);
+      }
+
+      const result = await sendVerificationEmail(user);
+
+      if (result === 'too_soon') {
+        throw new CustomError('Please wait a minute before requesting another code', 429);
+      }
+
+      if (result === 'failed') {
+        throw new CustomError('Could not send the verification email, please try again later', 503);
+      }
+
+      res.status(200).json({
+        ok: true,
+        message: 'Verification code sent'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
+import { SubscriptionRenewalService } from '../services/subscriptionRenewalService';
+import { RolloverService } from '../services/rolloverService';
+import { CartService, CartError, cartItemInclude } from '../services/cartService';
 
 const prisma = new PrismaClient();
 
@@ -64,14 +67,17 @@ export class CartController {
         });
       }
 
+      // Cerrar el periodo si ya venció antes de leer el uso
+      await SubscriptionRenewalService.renewForUser(userId);
+
       // Obtener suscripción para calcular límite
       const subscription = await prisma.subscription.findUnique({
         where: { userId }
       });
 
       const limitInKg = subscription?.limitInKg || 0;
-      const usedKg = subscription?.usedKg || 0;
-      const remainingKg = Math.max(0, limitInKg - usedKg);
+      const allowance = subscription ? RolloverService.getAllowance(subscription) : null;
+      const usedKg = allowance?.usedKg ?? 0;
 
       res.json({
         ok: true,
@@ -79,7 +85,9 @@ export class CartController {
           ...cart,
           limitInKg,
           usedKg,
-          remainingKg
+          rolloverKg: allowance?.rolloverKg ?? 0,
+          rolloverExpiresAt: allowance?.rolloverExpiresAt ?? null,
+          remainingKg: allowance?.remainingKg ?? 0
         }
       });
     } catch (error) {
@@ -98,193 +106,14 @@ export class CartController {
       const validatedData = addToCartSchema.parse(req.body);
       const { productId, quantity } = validatedData;
 
-      // Verificar que el producto existe
-      const product = await prisma.product.findUnique({
-        where: { id: productId },
-        include: { producer: true }
-      });
-
-      if (!product) {
-        return res.status(404).json({
-          ok: false,
-          message: 'Producto no encontrado'
-        });
-      }
-
-      if (!product.available) {
-        return res.status(400).json({
-          ok: false,
-          message: 'El producto no está disponible'
-        });
-      }
-
-      if (product.stock < quantity) {
-        return res.status(400).json({
-          ok: false,
-          message: `Solo hay ${product.stock} unidades disponibles`
-        });
-      }
-
-      // Obtener suscripción y validar límite
-      const subscription = await prisma.subscription.findUnique({
-        where: { userId }
-      });
-
-      if (!subscription || !subscription.isActive) {
-        return res.status(403).json({
-          ok: false,
-          message: 'No tienes una suscripción activa'
-        });
-      }
-
-      // Calcular peso del item a agregar
-      const itemWeight = product.weightInKg * quantity;
-      const currentUsedKg = subscription.usedKg;
-      const remainingKg = subscription.limitInKg - currentUsedKg;
-
-      // Validar que no exceda el límite
-      if (itemWeight > remainingKg) {
-        return res.status(400).json({
-          ok: false,
-          message: `No puedes agregar este producto. Excederías tu límite de ${subscription.limitInKg} kg. Te quedan ${remainingKg.toFixed(2)} kg disponibles.`,
-          data: {
-            weightToAdd: itemWeight,
-            remainingKg,
-            limitInKg: subscription.limitInKg,
-            wouldExceed: true
-          }
-        });
-      }
-
-      // Validar categoría según plan
-      const categoryAllowed = validateCategoryForPlan(product.category, subscription.plan);
-      if (!categoryAllowed) {
-        return res.status(403).json({
-          ok: false,
-          message: `Tu plan ${subscription.plan} no permite productos de la categoría ${product.category}.`,
-          data: {
-            category: product.category,
-            plan: subscription.plan
-          }
-        });
-      }
-
-      // Obtener o crear carrito
-      let cart = await prisma.cart.findFirst({
-        where: { userId }
-      });
-
-      if (!cart) {
-        cart = await prisma.cart.create({
-          data: { userId, totalWeightInKg: 0 }
-        });
-      }
-
-      // Verificar si el producto ya está en el carrito
-      const existingItem = await prisma.cartItem.findFirst({
-        where: {
-          cartId: cart.id,
-          productId: product.id
-        }
-      });
-
-      let cartItem;
-      let newTotalWeight = cart.totalWeightInKg;
-
-      if (existingItem) {
-        // Actualizar cantidad
-        const newQuantity = existingItem.quantity + quantity;
-        const newItemWeight = product.weightInKg * newQuantity;
-
-        // Validar nuevo peso total
-        const newTotalUsed = currentUsedKg - (existingItem.weightInKg) + newItemWeight;
-        if (newTotalUsed > subscription.limitInKg) {
-          return res.status(400).json({
-            ok: false,
-            message: `No puedes agregar más cantidad. Excederías tu límite.`,
-            data: {
-              currentQuantity: existingItem.quantity,
-              requestedQuantity: newQuantity,
-              wouldExceed: true
-            }
-          });
-        }
-
-        cartItem = await prisma.cartItem.update({
-          where: { id: existingItem.id },
-          data: {
-            quantity: newQuantity,
-            weightInKg: newItemWeight
-          },
-          include: {
-            product: {
-              include: {
-                producer: {
-                  select: {
-                    id: true,
-                    businessName: true,
-                    location: true
-                  }
-                }
-              }
-            }
-          }
-        });
-
-        newTotalWeight = cart.totalWeightInKg - existingItem.weightInKg + newItemWeight;
-      } else {
-        // Crear nuevo item
-        cartItem = await prisma.cartItem.create({
-          data: {
-            cartId: cart.id,
-            productId: product.id,
-            quantity,
-            weightInKg: itemWeight,
-            name: product.name,
-            image: product.image || null
-          },
-          include: {
-            product: {
-              include: {
-                producer: {
-                  select: {
-                    id: true,
-                    businessName: true,
-                    location: true
-                  }
-                }
-              }
-            }
-          }
-        });
-
-        newTotalWeight = cart.totalWeightInKg + itemWeight;
-      }
-
-      // Actualizar peso total del carrito
-      await prisma.cart.update({
-        where: { id: cart.id },
-        data: { totalWeightInKg: newTotalWeight }
-      });
+      const { item, cartId, remainingKg } = await CartService.addItem(userId, productId, quantity);
 
       // Obtener carrito actualizado
       const updatedCart = await prisma.cart.findUnique({
-        where: { id: cart.id },
+        where: { id: cartId },
         include: {
           items: {
-            include: {
-              product: {
-                include: {
-                  producer: {
-                    select: {
-                      id: true,
-                      businessName: true,
-                      location: true
-                    }
-                  }
-                }
-              }
-            }
+            include: cartItemInclude
           }
         }
       });
@@ -293,9 +122,9 @@ export class CartController {
         ok: true,
         message: 'Producto agregado al carrito',
         data: {
-          item: cartItem,
+          item,
           cart: updatedCart,
-          remainingKg: Math.max(0, remainingKg - itemWeight)
+          remainingKg
         }
       });
     } catch (error) {
@@ -306,6 +135,13 @@ export class CartController {
           errors: error.errors
         });
       }
+      if (error instanceof CartError) {
+        return res.status(error.statusCode).json({
+          ok: false,
+          message: error.message,
+          ...(error.data && { data: error.data })
+        });
+      }
       next(error);
     }
   }
@@ -369,6 +205,9 @@ export class CartController {
         });
       }
 
+      // Cerrar el periodo si ya venció antes de leer el uso
+      await SubscriptionRenewalService.renewForUser(userId);
+
       // Validar límite de suscripción
       const subscription = await prisma.subscription.findUnique({
         where: { userId }
@@ -384,17 +223,18 @@ export class CartController {
       // Calcular nuevo peso
       const newItemWeight = cartItem.product.weightInKg * quantity;
       const weightDifference = newItemWeight - cartItem.weightInKg;
-      const currentUsedKg = subscription.usedKg;
+      const { totalLimitKg, rolloverKg, usedKg: currentUsedKg } = RolloverService.getAllowance(subscription);
       const newTotalUsed = currentUsedKg + weightDifference;
 
-      if (newTotalUsed > subscription.limitInKg) {
+      if (newTotalUsed > totalLimitKg) {
         return res.status(400).json({
           ok: false,
-          message: `No puedes aumentar la cantidad. Excederías tu límite de ${subscription.limitInKg} kg.`,
+          message: `No puedes aumentar la cantidad. Excederías tu límite de ${totalLimitKg} kg.`,
           data: {
             wouldExceed: true,
             newTotalUsed,
-            limitInKg: subscription.limitInKg
+            limitInKg: subscription.limitInKg,
+            rolloverKg
           }
         });
       }
@@ -525,24 +365,3 @@ export class CartController {
     }
   }
 }
-
-/**
- * Validar si una categoría está permitida para un plan
- */
-function validateCategoryForPlan(category: string, plan: string): boolean {
-  const basicCategories = ['FRUITS', 'VEGETABLES'];
-  const standardCategories = [...basicCategories, 'LEGUMES', 'HERBS', 'SNACKS', 'COFFEE', 'CHOCOLATE'];
-  const premiumCategories = [...standardCategories, 'PROTEINS'];
-
-  switch (plan) {
-    case 'BASIC':
-      return basicCategories.includes(category);
-    case 'STANDARD':
-      return standardCategories.includes(category);
-    case 'PREMIUM':
-      return premiumCategories.includes(category);
-    default:
-      return false;
-  }
-}
-
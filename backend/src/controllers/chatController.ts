@@ -0,0 +1,141 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { ChatService } from '../services/chatService';
+import { cursorArgs, cursorPage, getCursorPagination } from '../utils/cursorPagination';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const chatMessageSchema = z.object({
+  message: z.string().trim().min(1).max(500).optional(),
+  // Respuesta a una pregunta de aclaración: el cliente eligió una de las opciones
+  choice: z.object({
+    chatLogId: z.string().optional(),
+    productId: z.string(),
+    quantity: z.number().int().positive().max(99)
+  }).optional()
+}).refine(data => data.message || data.choice, {
+  message: 'Escribe un mensaje',
+  path: ['message']
+});
+
+const toJson = (value: unknown) => value as Prisma.InputJsonValue;
+
+export class ChatController {
+  /**
+   * Procesar un mensaje del asistente de compras (sin servicios externos)
+   * POST /api/chat
+   * Body: { message: string } | { choice: { chatLogId?, productId, quantity } }
+   */
+  static async sendMessage(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const { message, choice } = chatMessageSchema.parse(req.body);
+
+      if (choice) {
+        const reply = await ChatService.applyChoice(userId, choice.productId, choice.quantity);
+
+        // Registrar qué opción eligió en el mensaje que originó la pregunta
+        if (choice.chatLogId) {
+          await prisma.chatLog.updateMany({
+            where: { id: choice.chatLogId, userId },
+            data: { userChoice: choice.productId }
+          });
+        }
+
+        const chatLog = await prisma.chatLog.create({
+          data: {
+            userId,
+            rawText: message ?? reply.items[0].text,
+            parsedIntent: reply.intent,
+            parsedEntities: toJson({ items: reply.items }),
+            matchedIds: toJson([choice.productId]),
+            confidence: reply.confidence,
+            finalAction: reply.action,
+            userChoice: choice.productId,
+            botResponse: toJson(reply)
+          }
+        });
+
+        return res.json({
+          ok: true,
+          data: { chatLogId: chatLog.id, ...reply }
+        });
+      }
+
+      const { parsed, reply } = await ChatService.handleMessage(userId, message!);
+
+      const matchedIds = [
+        ...reply.items.map(item => item.matchedId).filter((id): id is string => Boolean(id)),
+        ...reply.options.map(option => option.productId)
+      ];
+
+      const chatLog = await prisma.chatLog.create({
+        data: {
+          userId,
+          rawText: message!,
+          parsedIntent: parsed.intent,
+          parsedEntities: toJson({ normalized: parsed.normalized, items: parsed.items }),
+          matchedIds: toJson([...new Set(matchedIds)]),
+          confidence: parsed.confidence,
+          finalAction: reply.action,
+          botResponse: toJson(reply)
+        }
+      });
+
+      res.json({
+        ok: true,
+        data: { chatLogId: chatLog.id, ...reply }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Historial de conversación del usuario, del más reciente al más antiguo
+   * GET /api/chat/history?cursor=<id>&limit=20
+   */
+  static async getHistory(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const pagination = getCursorPagination(req.query);
+
+      const [logs, total] = await Promise.all([
+        prisma.chatLog.findMany({
+          where: { userId },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          select: {
+            id: true,
+            rawText: true,
+            parsedIntent: true,
+            finalAction: true,
+            userChoice: true,
+            botResponse: true,
+            createdAt: true
+          },
+          ...cursorArgs(pagination)
+        }),
+        prisma.chatLog.count({ where: { userId } })
+      ]);
+
+      const { items, meta } = cursorPage(logs, pagination.limit, total);
+
+      res.json({
+        ok: true,
+        data: items,
+        meta
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,359 @@
+import { Request, Response, NextFunction } from 'express';
+import { DeliverySlot, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { DEFAULT_DAYS_AHEAD, DeliverySlotService, startOfToday } from '../services/deliverySlotService';
+
+const prisma = new PrismaClient();
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toDate = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+/**
+ * "2025-03-01" → medianoche UTC de ese día, o null si no es una fecha real.
+ * new Date acepta "2025-02-30" y lo recorre al 2 de marzo, por eso se compara de vuelta.
+ */
+const parseDate = (value: string): Date | null => {
+  if (!DATE_REGEX.test(value)) return null;
+  const date = toDate(value);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value ? date : null;
+};
+
+/**
+ * Fecha opcional de la query: undefined si no vino, null si vino inválida
+ */
+const parseQueryDate = (value: unknown): Date | null | undefined =>
+  value === undefined ? undefined : typeof value === 'string' ? parseDate(value) : null;
+
+// Validation schemas
+const slotFieldsSchema = z.object({
+  date: z.string()
+    .regex(DATE_REGEX, 'La fecha debe tener formato YYYY-MM-DD')
+    .refine(value => parseDate(value) !== null, 'La fecha no existe'),
+  startTime: z.string().regex(TIME_REGEX, 'La hora debe tener formato HH:MM'),
+  endTime: z.string().regex(TIME_REGEX, 'La hora debe tener formato HH:MM'),
+  zone: z.string().trim().min(1, 'La zona es requerida').max(80),
+  maxOrders: z.number().int().positive().nullable().optional(),
+  maxKg: z.number().positive().nullable().optional(),
+  producerId: z.string().optional() // Solo administradores
+});
+
+const createSlotSchema = slotFieldsSchema
+  .refine(data => data.startTime < data.endTime, {
+    message: 'La hora de inicio debe ser anterior a la de fin',
+    path: ['endTime']
+  })
+  .refine(data => data.maxOrders != null || data.maxKg != null, {
+    message: 'Define un máximo de pedidos o de kg',
+    path: ['maxOrders']
+  });
+
+const updateSlotSchema = slotFieldsSchema.omit({ producerId: true }).partial().extend({
+  isActive: z.boolean().optional()
+});
+
+const withRemaining = (slot: DeliverySlot) => ({
+  ...slot,
+  ...DeliverySlotService.remaining(slot)
+});
+
+/**
+ * Identificar si quien administra ventanas es admin o un productor con perfil
+ */
+async function getSlotManager(req: Request) {
+  if (req.user!.role === 'admin') {
+    return { isAdmin: true, producerId: null as string | null };
+  }
+
+  const producer = await prisma.producer.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true }
+  });
+
+  return producer ? { isAdmin: false, producerId: producer.id } : null;
+}
+
+export class DeliverySlotController {
+  /**
+   * Ventanas con cupo disponibles para el checkout
+   * GET /api/delivery-slots?from=2025-01-01&to=2025-01-14&zone=Tuxtla&weightKg=5
+   */
+  static async getAvailable(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { from, to, zone, weightKg } = req.query;
+      const today = startOfToday();
+
+      const fromQuery = parseQueryDate(from);
+      const toQuery = parseQueryDate(to);
+
+      if (fromQuery === null || toQuery === null) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Las fechas deben tener formato YYYY-MM-DD y existir'
+        });
+      }
+
+      const fromDate = fromQuery ?? today;
+      const toDateValue = toQuery ?? new Date(today.getTime() + DEFAULT_DAYS_AHEAD * 24 * 60 * 60 * 1000);
+      const weight = Math.max(0, parseFloat(weightKg as string) || 0);
+
+      const slots = await prisma.deliverySlot.findMany({
+        where: {
+          isActive: true,
+          date: { gte: fromDate < today ? today : fromDate, lte: toDateValue },
+          ...(typeof zone === 'string' && zone ? { zone: { equals: zone, mode: 'insensitive' as const } } : {})
+        },
+        orderBy: [{ date: 'asc' }, { startTime: 'asc' }, { zone: 'asc' }]
+      });
+
+      // El cupo compara dos columnas; se filtra aquí
+      const available = slots.filter(slot => DeliverySlotService.hasCapacity(slot, weight));
+
+      res.json({
+        ok: true,
+        data: available.map(withRemaining)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Ventanas que administra el usuario (admin: todas; productor: las suyas)
+   * GET /api/delivery-slots/manage?from=2025-01-01&includeInactive=true
+   */
+  static async getManaged(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const manager = await getSlotManager(req);
+
+      if (!manager) {
+        return res.status(403).json({
+          ok: false,
+          message: 'Solo administradores y productores pueden gestionar horarios de entrega'
+        });
+      }
+
+      const { from, includeInactive } = req.query;
+      const fromQuery = parseQueryDate(from);
+
+      if (fromQuery === null) {
+        return res.status(400).json({
+          ok: false,
+          message: 'La fecha debe tener formato YYYY-MM-DD y existir'
+        });
+      }
+
+      const fromDate = fromQuery ?? startOfToday();
+
+      const slots = await prisma.deliverySlot.findMany({
+        where: {
+          date: { gte: fromDate },
+          ...(includeInactive === 'true' ? {} : { isActive: true }),
+          ...(manager.isAdmin ? {} : { producerId: manager.producerId })
+        },
+        include: {
+          producer: { select: { id: true, businessName: true } }
+        },
+        orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
+      });
+
+      res.json({
+        ok: true,
+        data: slots.map(withRemaining)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Crear una ventana de entrega
+   * POST /api/delivery-slots
+   * Body: { date: 'YYYY-MM-DD', startTime: 'HH:MM', endTime: 'HH:MM', zone, maxOrders?, maxKg?, producerId? }
+   */
+  static async create(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const manager = await getSlotManager(req);
+
+      if (!manager) {
+        return res.status(403).json({
+          ok: false,
+          message: 'Solo administradores y productores pueden crear horarios de entrega'
+        });
+      }
+
+      const data = createSlotSchema.parse(req.body);
+
+      if (toDate(data.date) < startOfToday()) {
+        return res.status(400).json({
+          ok: false,
+          message: 'No se pueden crear horarios en fechas pasadas'
+        });
+      }
+
+      const slot = await prisma.deliverySlot.create({
+        data: {
+          date: toDate(data.date),
+          startTime: data.startTime,
+          endTime: data.endTime,
+          zone: data.zone,
+          maxOrders: data.maxOrders ?? null,
+          maxKg: data.maxKg ?? null,
+          producerId: manager.isAdmin ? data.producerId ?? null : manager.producerId,
+          createdById: req.user!.id
+        }
+      });
+
+      res.status(201).json({
+        ok: true,
+        message: 'Horario de entrega creado',
+        data: withRemaining(slot)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Editar una ventana; el cupo no puede quedar por debajo de lo ya reservado
+   * PUT /api/delivery-slots/:id
+   */
+  static async update(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const manager = await getSlotManager(req);
+      const data = updateSlotSchema.parse(req.body);
+
+      const slot = await prisma.deliverySlot.findUnique({ where: { id } });
+
+      if (!slot) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Horario de entrega no encontrado'
+        });
+      }
+
+      if (!manager || (!manager.isAdmin && slot.producerId !== manager.producerId)) {
+        return res.status(403).json({
+          ok: false,
+          message: 'No tienes permisos para editar este horario'
+        });
+      }
+
+      const startTime = data.startTime ?? slot.startTime;
+      const endTime = data.endTime ?? slot.endTime;
+      const maxOrders = data.maxOrders !== undefined ? data.maxOrders : slot.maxOrders;
+      const maxKg = data.maxKg !== undefined ? data.maxKg : slot.maxKg;
+
+      if (startTime >= endTime) {
+        return res.status(400).json({
+          ok: false,
+          message: 'La hora de inicio debe ser anterior a la de fin'
+        });
+      }
+
+      if (maxOrders === null && maxKg === null) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Define un máximo de pedidos o de kg'
+        });
+      }
+
+      // Con pedidos reservados no se mueve la fecha ni se reduce el cupo por debajo de lo tomado
+      if (slot.reservedOrders > 0) {
+        if (data.date !== undefined && toDate(data.date).getTime() !== slot.date.getTime()) {
+          return res.status(409).json({
+            ok: false,
+            message: 'No se puede cambiar la fecha de un horario con pedidos reservados'
+          });
+        }
+
+        if ((maxOrders !== null && maxOrders < slot.reservedOrders) || (maxKg !== null && maxKg < slot.reservedKg)) {
+          return res.status(409).json({
+            ok: false,
+            message: 'El cupo no puede ser menor a lo ya reservado',
+            data: { reservedOrders: slot.reservedOrders, reservedKg: slot.reservedKg }
+          });
+        }
+      }
+
+      const updatedSlot = await prisma.deliverySlot.update({
+        where: { id },
+        data: {
+          date: data.date ? toDate(data.date) : undefined,
+          startTime,
+          endTime,
+          zone: data.zone,
+          maxOrders,
+          maxKg,
+          isActive: data.isActive
+        }
+      });
+
+      res.json({
+        ok: true,
+        message: 'Horario de entrega actualizado',
+        data: withRemaining(updatedSlot)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Cerrar una ventana: deja de aceptar pedidos, los reservados se conservan
+   * DELETE /api/delivery-slots/:id
+   */
+  static async deactivate(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const manager = await getSlotManager(req);
+
+      const slot = await prisma.deliverySlot.findUnique({ where: { id } });
+
+      if (!slot) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Horario de entrega no encontrado'
+        });
+      }
+
+      if (!manager || (!manager.isAdmin && slot.producerId !== manager.producerId)) {
+        return res.status(403).json({
+          ok: false,
+          message: 'No tienes permisos para cerrar este horario'
+        });
+      }
+
+      const updatedSlot = await prisma.deliverySlot.update({
+        where: { id },
+        data: { isActive: false }
+      });
+
+      res.json({
+        ok: true,
+        message: slot.reservedOrders > 0
+          ? `Horario cerrado; ${slot.reservedOrders} pedidos reservados se conservan`
+          : 'Horario cerrado',
+        data: withRemaining(updatedSlot)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
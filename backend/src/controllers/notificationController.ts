@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Avisos que se devuelven por consulta
+const NOTIFICATIONS_LIMIT = 50;
+
+export class NotificationController {
+  /**
+   * Listar los avisos más recientes del usuario
+   * GET /api/notifications?unread=true
+   */
+  static async getMine(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const unreadOnly = req.query.unread === 'true';
+
+      const [notifications, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where: { userId, ...(unreadOnly ? { readAt: null } : {}) },
+          orderBy: { createdAt: 'desc' },
+          take: NOTIFICATIONS_LIMIT
+        }),
+        prisma.notification.count({ where: { userId, readAt: null } })
+      ]);
+
+      res.json({
+        ok: true,
+        data: notifications,
+        meta: { unreadCount }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Marcar un aviso como leído
+   * PATCH /api/notifications/:id/read
+   */
+  static async markRead(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const notification = await prisma.notification.findUnique({ where: { id } });
+
+      if (!notification || notification.userId !== userId) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Aviso no encontrado'
+        });
+      }
+
+      const updated = notification.readAt
+        ? notification
+        : await prisma.notification.update({ where: { id }, data: { readAt: new Date() } });
+
+      res.json({
+        ok: true,
+        data: updated
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Marcar todos los avisos como leídos
+   * PATCH /api/notifications/read-all
+   */
+  static async markAllRead(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { count } = await prisma.notification.updateMany({
+        where: { userId: req.user!.id, readAt: null },
+        data: { readAt: new Date() }
+      });
+
+      res.json({
+        ok: true,
+        data: { updated: count }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
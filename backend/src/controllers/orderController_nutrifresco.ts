@@ -1,132 +1,133 @@
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { z } from 'zod';
+import { SubscriptionRenewalService } from '../services/subscriptionRenewalService';
+import { OrderCancellationService } from '../services/orderCancellationService';
+import { FulfillmentService } from '../services/fulfillmentService';
+import { OrderStatusService } from '../services/orderStatusService';
+import { OrderEventsService } from '../services/orderEventsService';
+import { PayoutService } from '../services/payoutService';
+import { CheckoutService, CheckoutError } from '../services/checkoutService';
+import { SurveyService, SURVEY_LEVELS } from '../services/surveyService';
+import { FULFILLMENT_STATUSES, OrderActorRole, canTransition, getAllowedTransitions } from '../utils/orderStatus';
+import { AddressSnapshot, addressInputSchema, formatAddress, toAddressSnapshot } from '../utils/address';
 
 const prisma = new PrismaClient();
 
 // Validation schema
 const createOrderSchema = z.object({
-  deliveryAddress: z.string().min(1, 'Dirección de entrega es requerida'),
-  deliveryDate: z.string().optional(), // ISO date string
+  addressId: z.string().optional(), // Dirección de la libreta
+  address: addressInputSchema.optional(), // Dirección capturada sin guardar
+  deliveryAddress: z.string().trim().min(1).optional(), // Texto libre (versiones anteriores de la app)
+  deliverySlotId: z.string().optional(), // Ventana de entrega; define la fecha del pedido
   notes: z.string().optional()
+}).refine(data => data.addressId || data.address || data.deliveryAddress, {
+  message: 'Dirección de entrega es requerida',
+  path: ['addressId']
 });
 
+const surveySchema = z.object({
+  generalRating: z.number().int().min(1).max(5),
+  productQuality: z.enum(SURVEY_LEVELS),
+  deliveryExperience: z.enum(SURVEY_LEVELS),
+  comments: z.string().trim().max(1000).optional()
+});
+
+// Ventana de entrega que se muestra con el pedido
+const deliverySlotSelect = {
+  select: { id: true, date: true, startTime: true, endTime: true, zone: true }
+};
+
+// Intervalo del comentario keep-alive en las conexiones SSE
+const SSE_HEARTBEAT_MS = 25000;
+
 export class OrderController {
   /**
    * Crear pedido desde el carrito
    * POST /api/orders/create
-   * Body: { deliveryAddress: string, deliveryDate?: string, notes?: string }
+   * Body: { addressId?: string, address?: {...}, deliveryAddress?: string, deliverySlotId?: string, notes?: string }
    */
   static async createOrder(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
       const userId = req.user!.id;
       const validatedData = createOrderSchema.parse(req.body);
-      const { deliveryAddress, deliveryDate, notes } = validatedData;
+      const { addressId, address, deliverySlotId, notes } = validatedData;
 
-      // Obtener carrito del usuario
-      const cart = await prisma.cart.findFirst({
-        where: { userId },
-        include: {
-          items: {
-            include: {
-              product: {
-                include: {
-                  producer: true
-                }
-              }
-            }
-          }
-        }
-      });
+      // El pedido guarda una copia de la dirección para que editar la libreta no lo altere
+      let snapshot: AddressSnapshot | null = null;
 
-      if (!cart || cart.items.length === 0) {
-        return res.status(400).json({
-          ok: false,
-          message: 'El carrito está vacío'
-        });
-      }
+      if (addressId) {
+        const savedAddress = await prisma.address.findUnique({ where: { id: addressId } });
 
-      // Obtener suscripción y validar límite
-      const subscription = await prisma.subscription.findUnique({
-        where: { userId }
-      });
+        if (!savedAddress || savedAddress.userId !== userId) {
+          return res.status(404).json({
+            ok: false,
+            message: 'Dirección no encontrada'
+          });
+        }
 
-      if (!subscription || !subscription.isActive) {
-        return res.status(403).json({
-          ok: false,
-          message: 'No tienes una suscripción activa'
-        });
+        snapshot = toAddressSnapshot(savedAddress);
+      } else if (address) {
+        snapshot = toAddressSnapshot(address);
       }
 
-      // Calcular peso total del pedido
-      const totalWeightInKg = cart.items.reduce((sum, item) => sum + item.weightInKg, 0);
+      const deliveryAddress = snapshot ? formatAddress(snapshot) : validatedData.deliveryAddress;
 
-      // Validar que no exceda el límite
-      const newUsedKg = subscription.usedKg + totalWeightInKg;
-      if (newUsedKg > subscription.limitInKg) {
-        return res.status(400).json({
-          ok: false,
-          message: `No puedes crear este pedido. Excederías tu límite de ${subscription.limitInKg} kg. Te quedan ${(subscription.limitInKg - subscription.usedKg).toFixed(2)} kg disponibles.`,
-          data: {
-            totalWeightInKg,
-            currentUsed: subscription.usedKg,
-            limit: subscription.limitInKg,
-            wouldExceed: true
-          }
+      // Cerrar el periodo si ya venció antes de leer el uso
+      await SubscriptionRenewalService.renewForUser(userId);
+
+      // Todo el checkout corre en una sola transacción: si algo falla no quedan
+      // pedidos huérfanos, stock descontado ni kg contados de más
+      const order = await prisma.$transaction(async (tx) => {
+        // Obtener carrito del usuario
+        const cart = await tx.cart.findFirst({
+          where: { userId },
+          include: { items: true }
         });
-      }
 
-      // Crear pedido
-      const order = await prisma.order.create({
-        data: {
-          userId,
-          totalWeightInKg,
-          status: 'pending',
-          deliveryAddress,
-          deliveryDate: deliveryDate ? new Date(deliveryDate) : null,
-          notes
+        if (!cart || cart.items.length === 0) {
+          throw new CheckoutError(400, 'El carrito está vacío');
         }
-      });
 
-      // Crear items del pedido
-      const orderItems = await Promise.all(
-        cart.items.map(item =>
-          prisma.orderItem.create({
-            data: {
-              orderId: order.id,
-              productId: item.productId,
-              quantity: item.quantity,
-              weightInKg: item.weightInKg,
-              name: item.name,
-              image: item.image,
-              producerName: item.product.producer.businessName
-            }
-          })
-        )
-      );
+        const { order: createdOrder } = await CheckoutService.placeOrder(tx, {
+          userId,
+          lines: cart.items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+          deliveryAddress,
+          addressId: addressId ?? null,
+          deliverySnapshot: snapshot,
+          deliverySlotId: deliverySlotId ?? null,
+          notes,
+          actor: { actorId: userId, actorRole: 'customer' }
+        });
 
-      // Actualizar suscripción: agregar peso usado
-      await prisma.subscription.update({
-        where: { userId },
-        data: {
-          usedKg: newUsedKg
-        }
-      });
+        // Limpiar carrito
+        await tx.cartItem.deleteMany({
+          where: { cartId: cart.id }
+        });
 
-      // Limpiar carrito
-      await prisma.cartItem.deleteMany({
-        where: { cartId: cart.id }
-      });
+        await tx.cart.update({
+          where: { id: cart.id },
+          data: { totalWeightInKg: 0 }
+        });
 
-      await prisma.cart.update({
-        where: { id: cart.id },
-        data: { totalWeightInKg: 0 }
+        return createdOrder;
       });
 
       // Obtener pedido completo
       const completeOrder = await prisma.order.findUnique({
         where: { id: order.id },
         include: {
+          deliverySlot: deliverySlotSelect,
+          fulfillments: {
+            include: {
+              producer: {
+                select: {
+                  id: true,
+                  businessName: true
+                }
+              }
+            }
+          },
           items: {
             include: {
               product: {
@@ -158,6 +159,13 @@ export class OrderController {
           errors: error.errors
         });
       }
+      if (error instanceof CheckoutError) {
+        return res.status(error.statusCode).json({
+          ok: false,
+          message: error.message,
+          ...(error.data && { data: error.data })
+        });
+      }
       next(error);
     }
   }
@@ -173,6 +181,16 @@ export class OrderController {
       const orders = await prisma.order.findMany({
         where: { userId },
         include: {
+          fulfillments: {
+            include: {
+              producer: {
+                select: {
+                  id: true,
+                  businessName: true
+                }
+              }
+            }
+          },
           items: {
             include: {
               product: {
@@ -213,6 +231,18 @@ export class OrderController {
       const order = await prisma.order.findUnique({
         where: { id },
         include: {
+          survey: true,
+          deliverySlot: deliverySlotSelect,
+          fulfillments: {
+            include: {
+              producer: {
+                select: {
+                  id: true,
+                  businessName: true
+                }
+              }
+            }
+          },
           items: {
             include: {
               product: {
@@ -247,11 +277,240 @@ export class OrderController {
         });
       }
 
+      // Historial de estados del pedido y de cada productor
+      const timeline = await OrderStatusService.getTimeline(prisma, id);
+
+      res.json({
+        ok: true,
+        data: {
+          ...order,
+          timeline
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Seguir en tiempo real el estado de un pedido (Server-Sent Events)
+   * GET /api/orders/:id/events
+   * Envía un evento "snapshot" al conectar y un "status" por cada cambio.
+   * Pueden suscribirse el cliente dueño, los productores del pedido y los administradores.
+   */
+  static async streamOrderEvents(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const order = await prisma.order.findUnique({
+        where: { id },
+        include: {
+          fulfillments: {
+            select: { producer: { select: { userId: true } } }
+          }
+        }
+      });
+
+      if (!order) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Pedido no encontrado'
+        });
+      }
+
+      const isProducer = order.fulfillments.some(fulfillment => fulfillment.producer.userId === userId);
+
+      if (order.userId !== userId && !isProducer && req.user!.role !== 'admin') {
+        return res.status(403).json({
+          ok: false,
+          message: 'No tienes permisos para ver este pedido'
+        });
+      }
+
+      // no-transform evita que compression acumule la respuesta
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+
+      const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      const unsubscribe = OrderEventsService.subscribe(id, update => send('status', update));
+
+      // Comentario periódico para que proxies y clientes no cierren la conexión
+      const heartbeat = setInterval(() => {
+        res.write(': ping\n\n');
+      }, SSE_HEARTBEAT_MS);
+
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+
+      const snapshot = await OrderEventsService.getSnapshot(id);
+      send('snapshot', snapshot);
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Cancelar un pedido propio (solo pendiente o confirmado)
+   * POST /api/orders/:id/cancel
+   * Body: { reason?: string }
+   */
+  static async cancelOrder(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { reason } = req.body;
+
+      const order = await prisma.order.findUnique({
+        where: { id }
+      });
+
+      if (!order) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Pedido no encontrado'
+        });
+      }
+
+      if (order.userId !== userId) {
+        return res.status(403).json({
+          ok: false,
+          message: 'No tienes permisos para cancelar este pedido'
+        });
+      }
+
+      if (!canTransition(order.status, 'cancelled', 'customer')) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Solo puedes cancelar pedidos pendientes o confirmados'
+        });
+      }
+
+      // Cerrar el periodo si ya venció para saber a dónde va el crédito
+      await SubscriptionRenewalService.renewForUser(userId);
+
+      const result = await prisma.$transaction(tx =>
+        OrderCancellationService.cancelOrder(tx, {
+          orderId: id,
+          actorId: userId,
+          actorRole: 'customer',
+          reason: typeof reason === 'string' ? reason.trim() : null
+        })
+      );
+
+      if (!result) {
+        return res.status(409).json({
+          ok: false,
+          message: 'El pedido cambió de estado y ya no puede cancelarse'
+        });
+      }
+
+      OrderEventsService.publish(id);
+
       res.json({
         ok: true,
-        data: order
+        message: 'Pedido cancelado exitosamente',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Enviar la encuesta de satisfacción de un pedido entregado (una por pedido)
+   * POST /api/orders/:id/survey
+   * Body: { generalRating: 1-5, productQuality, deliveryExperience, comments? }
+   */
+  static async submitSurvey(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const data = surveySchema.parse(req.body);
+
+      const order = await prisma.order.findUnique({
+        where: { id },
+        include: {
+          survey: { select: { id: true } },
+          fulfillments: { select: { producerId: true, status: true } }
+        }
+      });
+
+      if (!order) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Pedido no encontrado'
+        });
+      }
+
+      if (order.userId !== userId) {
+        return res.status(403).json({
+          ok: false,
+          message: 'No tienes permisos para calificar este pedido'
+        });
+      }
+
+      if (order.status !== 'delivered') {
+        return res.status(400).json({
+          ok: false,
+          message: 'Solo puedes calificar pedidos entregados'
+        });
+      }
+
+      if (order.survey) {
+        return res.status(409).json({
+          ok: false,
+          message: 'Ya enviaste la encuesta de este pedido'
+        });
+      }
+
+      // Se califica solo a los productores que entregaron su parte
+      const producerIds = order.fulfillments
+        .filter(fulfillment => fulfillment.status === 'delivered')
+        .map(fulfillment => fulfillment.producerId);
+
+      const survey = await prisma.$transaction(tx =>
+        SurveyService.submit(tx, {
+          orderId: id,
+          userId,
+          producerIds,
+          ...data
+        })
+      );
+
+      res.status(201).json({
+        ok: true,
+        message: '¡Gracias por tu opinión!',
+        data: survey
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      // Dos envíos simultáneos: el índice único de orderId rechaza el segundo
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return res.status(409).json({
+          ok: false,
+          message: 'Ya enviaste la encuesta de este pedido'
+        });
+      }
       next(error);
     }
   }
@@ -277,32 +536,23 @@ export class OrderController {
         });
       }
 
-      // Obtener pedidos que contengan productos de este productor
-      const orders = await prisma.order.findMany({
-        where: {
-          items: {
-            some: {
-              product: {
-                producerId: producer.id
-              }
-            }
-          }
-        },
+      // Obtener los surtidos de este productor (uno por pedido)
+      const fulfillments = await prisma.orderFulfillment.findMany({
+        where: { producerId: producer.id },
         include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              phone: true
+          order: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                  phone: true
+                }
+              }
             }
           },
           items: {
-            where: {
-              product: {
-                producerId: producer.id
-              }
-            },
             include: {
               product: {
                 select: {
@@ -320,24 +570,29 @@ export class OrderController {
       });
 
       // Formatear la respuesta para el frontend
-      const formattedOrders = orders.map(order => ({
-        id: order.id,
-        orderNumber: `NF${order.id.substring(0, 8).toUpperCase()}`,
-        customerName: order.user.name,
-        customerEmail: order.user.email,
-        customerPhone: order.user.phone || 'No disponible',
-        deliveryAddress: order.deliveryAddress || 'No especificada',
-        status: order.status,
-        date: order.createdAt,
-        items: order.items.map(item => ({
+      const formattedOrders = fulfillments.map(fulfillment => ({
+        id: fulfillment.orderId,
+        fulfillmentId: fulfillment.id,
+        orderNumber: `NF${fulfillment.orderId.substring(0, 8).toUpperCase()}`,
+        customerName: fulfillment.order.user.name,
+        customerEmail: fulfillment.order.user.email,
+        // El teléfono de contacto de la dirección tiene prioridad sobre el del perfil
+        customerPhone: (fulfillment.order.deliverySnapshot as AddressSnapshot | null)?.contactPhone
+          || fulfillment.order.user.phone
+          || 'No disponible',
+        deliveryAddress: fulfillment.order.deliveryAddress || 'No especificada',
+        status: fulfillment.status,
+        orderStatus: fulfillment.order.status,
+        date: fulfillment.createdAt,
+        items: fulfillment.items.map(item => ({
           id: item.id,
           productName: item.name,
           quantity: item.quantity,
           weightInKg: item.weightInKg,
           product: item.product
         })),
-        totalWeightInKg: order.totalWeightInKg,
-        notes: order.notes
+        totalWeightInKg: fulfillment.totalWeightInKg,
+        notes: fulfillment.order.notes
       }));
 
       res.json({
@@ -350,73 +605,145 @@ export class OrderController {
   }
 
   /**
-   * Actualizar el estado de un pedido (solo para productores)
+   * Actualizar el estado del surtido del productor dentro de un pedido
    * PUT /api/orders/producer/:id/status
+   * Body: { status: string, note?: string, reason?: string, producerId?: string (solo admin) }
+   * Solo se permiten las transiciones definidas en la máquina de estados para el rol.
+   * El estado del pedido completo se deriva de los surtidos de todos sus productores.
    */
   static async updateOrderStatus(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
       const { id } = req.params;
       const { status } = req.body;
       const userId = req.user!.id;
+      const actorRole: OrderActorRole = req.user!.role === 'admin' ? 'admin' : 'producer';
+      const note = typeof req.body.note === 'string' ? req.body.note.trim() : null;
 
-      // Verificar que el usuario es productor
-      const producer = await prisma.producer.findUnique({
-        where: { userId }
-      });
+      // Verificar que el usuario es productor (un admin indica el productor en el body)
+      const producer = actorRole === 'admin'
+        ? await prisma.producer.findUnique({ where: { id: req.body.producerId || '' } })
+        : await prisma.producer.findUnique({ where: { userId } });
 
       if (!producer) {
-        return res.status(403).json({
+        return res.status(actorRole === 'admin' ? 400 : 403).json({
           ok: false,
-          message: 'Solo los productores pueden actualizar el estado de los pedidos'
+          message: actorRole === 'admin'
+            ? 'producerId es requerido para administradores'
+            : 'Solo los productores pueden actualizar el estado de los pedidos'
         });
       }
 
       // Validar estado
-      const validStatuses = ['pending', 'confirmed', 'preparing', 'ready', 'delivered', 'cancelled'];
-      if (!validStatuses.includes(status)) {
+      if (!FULFILLMENT_STATUSES.includes(status)) {
         return res.status(400).json({
           ok: false,
           message: 'Estado inválido'
         });
       }
 
-      // Verificar que el pedido contenga productos del productor
-      const order = await prisma.order.findUnique({
-        where: { id },
-        include: {
-          items: {
-            include: {
-              product: true
-            }
-          }
-        }
+      // Verificar que el pedido tenga un surtido de este productor
+      const fulfillment = await prisma.orderFulfillment.findUnique({
+        where: {
+          orderId_producerId: { orderId: id, producerId: producer.id }
+        },
+        include: { order: true }
       });
 
-      if (!order) {
+      if (!fulfillment) {
         return res.status(404).json({
           ok: false,
-          message: 'Pedido no encontrado'
+          message: 'Este pedido no contiene tus productos'
         });
       }
 
-      const hasProducerProducts = order.items.some(item => item.product.producerId === producer.id);
-      if (!hasProducerProducts) {
-        return res.status(403).json({
+      // Validar la transición contra la máquina de estados
+      if (!canTransition(fulfillment.status, status, actorRole)) {
+        return res.status(400).json({
           ok: false,
-          message: 'Este pedido no contiene tus productos'
+          message: `No se puede cambiar el pedido de ${fulfillment.status} a ${status}`,
+          data: {
+            currentStatus: fulfillment.status,
+            allowedTransitions: getAllowedTransitions(fulfillment.status, actorRole)
+          }
         });
       }
 
-      // Actualizar el estado del pedido
-      const updatedOrder = await prisma.order.update({
-        where: { id },
-        data: { status }
+      // Cancelar: devolver al cliente los kg de estos items y restaurar stock
+      if (status === 'cancelled') {
+        await SubscriptionRenewalService.renewForUser(fulfillment.order.userId);
+
+        const result = await prisma.$transaction(tx =>
+          OrderCancellationService.cancelFulfillment(tx, {
+            orderId: id,
+            producerId: producer.id,
+            actorId: userId,
+            actorRole,
+            reason: typeof req.body.reason === 'string' ? req.body.reason.trim() : note
+          })
+        );
+
+        if (!result) {
+          return res.status(409).json({
+            ok: false,
+            message: 'El pedido cambió de estado y ya no puede cancelarse'
+          });
+        }
+
+        OrderEventsService.publish(id);
+
+        return res.json({
+          ok: true,
+          message: 'Pedido cancelado exitosamente',
+          data: {
+            fulfillmentId: fulfillment.id,
+            status: 'cancelled',
+            order: result.order,
+            refundedKg: result.refundedKg
+          }
+        });
+      }
+
+      // Actualizar el surtido y recalcular el estado del pedido
+      const order = await prisma.$transaction(async (tx) => {
+        const actor = { actorId: userId, actorRole, note };
+
+        const transitioned = await OrderStatusService.transitionFulfillment(tx, {
+          fulfillmentId: fulfillment.id,
+          fromStatus: fulfillment.status,
+          toStatus: status,
+          ...actor
+        });
+
+        if (!transitioned) {
+          return null;
+        }
+
+        // Al entregar, el productor gana por cada item del surtido
+        if (status === 'delivered') {
+          await PayoutService.accrueFulfillmentEarnings(tx, fulfillment.id);
+        }
+
+        return FulfillmentService.syncOrderStatus(tx, id, actor);
       });
 
+      if (!order) {
+        return res.status(409).json({
+          ok: false,
+          message: 'El pedido cambió de estado, vuelve a intentarlo'
+        });
+      }
+
+      // Avisar en tiempo real a quien esté siguiendo el pedido
+      OrderEventsService.publish(id);
+
       res.json({
         ok: true,
         message: 'Estado del pedido actualizado exitosamente',
-        data: updatedOrder
+        data: {
+          fulfillmentId: fulfillment.id,
+          status,
+          order
+        }
       });
     } catch (error) {
       next(error);
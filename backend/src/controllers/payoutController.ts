@@ -0,0 +1,203 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { PayoutService, PAYOUT_STATUSES } from '../services/payoutService';
+
+const prisma = new PrismaClient();
+
+export class PayoutController {
+  /**
+   * Obtener las ganancias del productor autenticado y su resumen
+   * GET /api/payouts/earnings?limit=50
+   */
+  static async getMyEarnings(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+      const producer = await prisma.producer.findUnique({
+        where: { userId }
+      });
+
+      if (!producer) {
+        return res.status(403).json({
+          ok: false,
+          message: 'Solo los productores pueden ver sus ganancias'
+        });
+      }
+
+      const [earnings, summary] = await Promise.all([
+        prisma.producerEarning.findMany({
+          where: { producerId: producer.id },
+          include: {
+            order: {
+              select: {
+                id: true,
+                createdAt: true,
+                user: { select: { name: true } }
+              }
+            },
+            product: { select: { id: true, name: true } },
+            payout: { select: { id: true, status: true, paidAt: true } }
+          },
+          orderBy: { createdAt: 'desc' },
+          take: limit
+        }),
+        PayoutService.getSummary(producer.id)
+      ]);
+
+      res.json({
+        ok: true,
+        data: {
+          summary,
+          earnings: earnings.map(earning => ({
+            ...earning,
+            payoutStatus: earning.payout?.status ?? 'accrued' // accrued = aún sin lote de pago
+          }))
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Obtener los lotes de pago del productor autenticado
+   * GET /api/payouts
+   */
+  static async getMyPayouts(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+
+      const producer = await prisma.producer.findUnique({
+        where: { userId }
+      });
+
+      if (!producer) {
+        return res.status(403).json({
+          ok: false,
+          message: 'Solo los productores pueden ver sus pagos'
+        });
+      }
+
+      const payouts = await prisma.producerPayout.findMany({
+        where: { producerId: producer.id },
+        include: {
+          _count: { select: { earnings: true } }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      res.json({
+        ok: true,
+        data: payouts
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Listar lotes de pago de todos los productores (admin)
+   * GET /api/payouts/admin?status=pending&producerId=xxx
+   */
+  static async listPayouts(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { status, producerId } = req.query;
+
+      const where: any = {};
+
+      if (status) {
+        where.status = status as string;
+      }
+
+      if (producerId) {
+        where.producerId = producerId as string;
+      }
+
+      const payouts = await prisma.producerPayout.findMany({
+        where,
+        include: {
+          producer: {
+            select: {
+              id: true,
+              businessName: true
+            }
+          },
+          _count: { select: { earnings: true } }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      res.json({
+        ok: true,
+        data: payouts
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Agrupar las ganancias sin lote en pagos pendientes (admin)
+   * POST /api/payouts/admin/batches
+   * Body: { producerId?: string }
+   */
+  static async createBatches(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { producerId } = req.body;
+
+      const payouts = await PayoutService.createBatches(producerId || undefined);
+
+      res.status(201).json({
+        ok: true,
+        message: payouts.length > 0
+          ? `Se crearon ${payouts.length} lotes de pago`
+          : 'No hay ganancias pendientes de agrupar',
+        data: payouts
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cambiar el estado de un lote de pago (admin)
+   * PATCH /api/payouts/admin/:id/status
+   * Body: { status: 'processing' | 'completed', reference?: string }
+   */
+  static async updatePayoutStatus(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const { status, reference } = req.body;
+
+      if (!PAYOUT_STATUSES.includes(status)) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Estado inválido'
+        });
+      }
+
+      const payout = await PayoutService.updateBatchStatus(
+        id,
+        status,
+        req.user!.id,
+        typeof reference === 'string' ? reference.trim() : null
+      );
+
+      if (!payout) {
+        return res.status(409).json({
+          ok: false,
+          message: 'El lote de pago no existe o no puede pasar a ese estado'
+        });
+      }
+
+      res.json({
+        ok: true,
+        message: status === 'completed' ? 'Pago marcado como completado' : 'Pago en proceso',
+        data: payout
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
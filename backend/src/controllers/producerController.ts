@@ -1,43 +1,72 @@
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SurveyService } from '../services/surveyService';
+import { ProductSearchService } from '../services/productSearchService';
+import { cursorArgs, cursorPage, getCursorPagination } from '../utils/cursorPagination';
 
 const prisma = new PrismaClient();
 
+// Órdenes del directorio de productores; todos terminan en id para que el cursor sea estable
+const PRODUCER_SORTS: Record<string, Prisma.ProducerOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: 'desc' }, { id: 'desc' }],
+  name: [{ businessName: 'asc' }, { id: 'asc' }],
+  rating: [{ ratingScore: { sort: 'desc', nulls: 'last' } }, { surveyCount: 'desc' }, { id: 'asc' }]
+};
+
 export class ProducerController {
   /**
-   * Obtener todos los productores
-   * GET /api/producers
+   * Obtener productores verificados con orden y paginación por cursor
+   * GET /api/producers?sort=newest|name|rating&cursor=xxx&limit=20
    */
   static async getAll(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
-      const producers = await prisma.producer.findMany({
-        where: { verified: true }, // Solo productores verificados
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true
+      const { sort = 'newest' } = req.query;
+      const pagination = getCursorPagination(req.query);
+
+      if (typeof sort !== 'string' || !Object.keys(PRODUCER_SORTS).includes(sort)) {
+        return res.status(400).json({
+          ok: false,
+          message: 'sort debe ser newest, name o rating'
+        });
+      }
+
+      const where = { verified: true }; // Solo productores verificados
+
+      const [producers, total] = await Promise.all([
+        prisma.producer.findMany({
+          where,
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true
+              }
+            },
+            products: {
+              where: { available: true, deletedAt: null, moderationStatus: 'approved' },
+              select: {
+                id: true,
+                name: true,
+                category: true,
+                weightInKg: true,
+                image: true
+              },
+              take: 5 // Solo primeros 5 productos para preview
             }
           },
-          products: {
-            where: { available: true },
-            select: {
-              id: true,
-              name: true,
-              category: true,
-              weightInKg: true,
-              image: true
-            },
-            take: 5 // Solo primeros 5 productos para preview
-          }
-        },
-        orderBy: { createdAt: 'desc' }
-      });
+          orderBy: PRODUCER_SORTS[sort],
+          ...cursorArgs(pagination)
+        }),
+        prisma.producer.count({ where })
+      ]);
+
+      const { items, meta } = cursorPage(producers, pagination.limit, total);
 
       res.json({
         ok: true,
-        data: producers
+        data: items,
+        meta
       });
     } catch (error) {
       next(error);
@@ -77,9 +106,21 @@ export class ProducerController {
         });
       }
 
+      // Las encuestas salen de la ventana con el tiempo: refrescar promedios viejos
+      const scores = producer.surveyCount > 0 && SurveyService.isStale(producer.scoresUpdatedAt)
+        ? await SurveyService.recomputeProducerScores(prisma, producer.id)
+        : producer;
+
       res.json({
         ok: true,
-        data: producer
+        data: {
+          ...producer,
+          qualityScore: scores.qualityScore,
+          deliveryScore: scores.deliveryScore,
+          ratingScore: scores.ratingScore,
+          surveyCount: scores.surveyCount,
+          scoresUpdatedAt: scores.scoresUpdatedAt
+        }
       });
     } catch (error) {
       next(error);
@@ -184,23 +225,36 @@ export class ProducerController {
       }
 
       // Actualizar
-      const updatedProducer = await prisma.producer.update({
-        where: { id },
-        data: {
-          businessName,
-          description,
-          location,
-          contactInfo: contactInfo ? JSON.stringify(contactInfo) : undefined
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true
+      const updatedProducer = await prisma.$transaction(async (tx) => {
+        const updated = await tx.producer.update({
+          where: { id },
+          data: {
+            businessName,
+            description,
+            location,
+            contactInfo: contactInfo ? JSON.stringify(contactInfo) : undefined,
+            // Si fue rechazado, corregir el perfil lo regresa a la cola de verificación
+            ...(producer.verificationStatus === 'rejected' && userRole !== 'admin'
+              ? { verificationStatus: 'pending', verificationNote: null }
+              : {})
+          },
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true
+              }
             }
           }
+        });
+
+        // El nombre comercial forma parte del texto de búsqueda de sus productos
+        if (businessName !== undefined && businessName !== producer.businessName) {
+          await ProductSearchService.refreshProducer(tx, id);
         }
+
+        return updated;
       });
 
       res.json({
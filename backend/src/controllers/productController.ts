@@ -1,33 +1,131 @@
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient, ProductCategory } from '@prisma/client';
+import { Prisma, PrismaClient, ProductCategory } from '@prisma/client';
+import { PAYOUT_RATE_TYPES } from '../services/payoutService';
+import { ProductSearchService } from '../services/productSearchService';
+import { CatalogFacetService, FacetFilters } from '../services/catalogFacetService';
+import { CartService } from '../services/cartService';
+import { cursorArgs, cursorPage, getCursorPagination } from '../utils/cursorPagination';
 
 const prisma = new PrismaClient();
 
+type ProductSort = 'newest' | 'name' | 'weight' | 'rating';
+
+// Órdenes del catálogo; todos terminan en id para que el cursor sea estable
+const PRODUCT_SORTS: Record<ProductSort, Prisma.ProductOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: 'desc' }, { id: 'desc' }],
+  name: [{ name: 'asc' }, { id: 'asc' }],
+  weight: [{ weightInKg: 'asc' }, { id: 'asc' }],
+  rating: [{ ratingAverage: { sort: 'desc', nulls: 'last' } }, { ratingCount: 'desc' }, { id: 'asc' }]
+};
+
+const isProductSort = (value: unknown): value is ProductSort =>
+  typeof value === 'string' && Object.keys(PRODUCT_SORTS).includes(value);
+
 export class ProductController {
   /**
-   * Obtener todos los productos con filtros
-   * GET /api/products?category=FRUITS&producerId=xxx&available=true
+   * Obtener productos con filtros, orden, facetas y paginación por cursor
+   * GET /api/products?category=FRUITS&producerId=xxx&season=Enero-Marzo&available=true&minRating=4&sort=newest&cursor=xxx&limit=20
    */
   static async getAll(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
-      const { category, producerId, available } = req.query;
+      const { category, producerId, season, available, minRating, sort = 'newest' } = req.query;
+      const pagination = getCursorPagination(req.query);
 
-      const where: any = {};
+      if (!isProductSort(sort)) {
+        return res.status(400).json({
+          ok: false,
+          message: 'sort debe ser newest, name, weight o rating'
+        });
+      }
 
-      if (category) {
-        where.category = category as ProductCategory;
+      // Filtros que no son facetas
+      const baseWhere: Prisma.ProductWhereInput = { deletedAt: null, moderationStatus: 'approved' };
+
+      if (available !== undefined) {
+        baseWhere.available = available === 'true';
       }
 
-      if (producerId) {
-        where.producerId = producerId as string;
+      if (minRating !== undefined) {
+        const rating = parseFloat(minRating as string);
+        if (!isNaN(rating)) {
+          baseWhere.ratingAverage = { gte: rating };
+        }
       }
 
-      if (available !== undefined) {
-        where.available = available === 'true';
+      const facetFilters: FacetFilters = {
+        category: category ? (category as ProductCategory) : undefined,
+        producerId: producerId ? (producerId as string) : undefined,
+        season: season ? (season as string) : undefined
+      };
+
+      const where: Prisma.ProductWhereInput = { ...baseWhere, ...facetFilters };
+
+      const [products, total, facets] = await Promise.all([
+        prisma.product.findMany({
+          where,
+          include: {
+            producer: {
+              select: {
+                id: true,
+                businessName: true,
+                location: true,
+                verified: true
+              }
+            }
+          },
+          orderBy: PRODUCT_SORTS[sort],
+          ...cursorArgs(pagination)
+        }),
+        prisma.product.count({ where }),
+        CatalogFacetService.getProductFacets(baseWhere, facetFilters)
+      ]);
+
+      const { items, meta } = cursorPage(products, pagination.limit, total);
+
+      res.json({
+        ok: true,
+        data: items,
+        meta,
+        facets
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Buscar productos por nombre, descripción, origen, etiquetas o productor.
+   * Tolera acentos y errores de escritura pequeños ("platano" encuentra "Plátano").
+   * GET /api/products/search?q=platano&category=FRUITS&available=true&limit=20
+   */
+  static async search(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { q, category, available } = req.query;
+      const query = typeof q === 'string' ? q.trim() : '';
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+
+      if (query.length < 2) {
+        return res.status(400).json({
+          ok: false,
+          message: 'La búsqueda debe tener al menos 2 caracteres'
+        });
+      }
+
+      if (category && !Object.values(ProductCategory).includes(category as ProductCategory)) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Categoría inválida'
+        });
       }
 
+      const ids = await ProductSearchService.search(query, {
+        category: category ? (category as ProductCategory) : undefined,
+        available: available !== undefined ? available === 'true' : undefined,
+        limit
+      });
+
       const products = await prisma.product.findMany({
-        where,
+        where: { id: { in: ids } },
         include: {
           producer: {
             select: {
@@ -37,10 +135,13 @@ export class ProductController {
               verified: true
             }
           }
-        },
-        orderBy: { createdAt: 'desc' }
+        }
       });
 
+      // findMany no conserva el orden de relevancia
+      const position = new Map(ids.map((productId, index) => [productId, index]));
+      products.sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+
       res.json({
         ok: true,
         data: products
@@ -76,7 +177,7 @@ export class ProductController {
         }
       });
 
-      if (!product) {
+      if (!product || product.deletedAt || product.moderationStatus === 'rejected') {
         return res.status(404).json({
           ok: false,
           message: 'Producto no encontrado'
@@ -93,30 +194,57 @@ export class ProductController {
   }
 
   /**
-   * Obtener productos por productor
-   * GET /api/products/by-producer/:producerId
+   * Obtener productos por productor con orden, facetas y paginación por cursor
+   * GET /api/products/by-producer/:producerId?category=FRUITS&season=Enero-Marzo&sort=name&cursor=xxx&limit=20
    */
   static async getByProducer(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
       const { producerId } = req.params;
+      const { category, season, sort = 'newest' } = req.query;
+      const pagination = getCursorPagination(req.query);
 
-      const products = await prisma.product.findMany({
-        where: { producerId },
-        include: {
-          producer: {
-            select: {
-              id: true,
-              businessName: true,
-              location: true
+      if (!isProductSort(sort)) {
+        return res.status(400).json({
+          ok: false,
+          message: 'sort debe ser newest, name, weight o rating'
+        });
+      }
+
+      const baseWhere: Prisma.ProductWhereInput = { producerId, deletedAt: null, moderationStatus: 'approved' };
+
+      const facetFilters: FacetFilters = {
+        category: category ? (category as ProductCategory) : undefined,
+        season: season ? (season as string) : undefined
+      };
+
+      const where: Prisma.ProductWhereInput = { ...baseWhere, ...facetFilters };
+
+      const [products, total, facets] = await Promise.all([
+        prisma.product.findMany({
+          where,
+          include: {
+            producer: {
+              select: {
+                id: true,
+                businessName: true,
+                location: true
+              }
             }
-          }
-        },
-        orderBy: { createdAt: 'desc' }
-      });
+          },
+          orderBy: PRODUCT_SORTS[sort],
+          ...cursorArgs(pagination)
+        }),
+        prisma.product.count({ where }),
+        CatalogFacetService.getProductFacets(baseWhere, facetFilters)
+      ]);
+
+      const { items, meta } = cursorPage(products, pagination.limit, total);
 
       res.json({
         ok: true,
-        data: products
+        data: items,
+        meta,
+        facets
       });
     } catch (error) {
       next(error);
@@ -147,6 +275,7 @@ export class ProductController {
         description,
         category,
         weightInKg,
+        available,
         stock,
         image,
         origin,
@@ -204,6 +333,8 @@ export class ProductController {
         });
       }
 
+      const serializedTags = tags ? JSON.stringify(tags) : JSON.stringify([]);
+
       // Crear producto
       const product = await prisma.product.create({
         data: {
@@ -212,13 +343,20 @@ export class ProductController {
           description,
           category: category as ProductCategory,
           weightInKg: parseFloat(weightInKg),
-          available: true,
+          available: available !== false,
           stock: stock ? parseInt(stock) : 0,
           image,
           origin,
           season,
           nutritionalInfo: nutritionalInfo ? JSON.stringify(nutritionalInfo) : undefined,
-          tags: tags ? JSON.stringify(tags) : JSON.stringify([])
+          tags: serializedTags,
+          searchText: ProductSearchService.buildSearchText({
+            name,
+            description: description ?? null,
+            origin: origin ?? null,
+            tags: serializedTags,
+            producer: { businessName: producerExists.businessName }
+          })
         },
         include: {
           producer: {
@@ -255,7 +393,7 @@ export class ProductController {
         include: { producer: true }
       });
 
-      if (!product) {
+      if (!product || product.deletedAt) {
         return res.status(404).json({
           ok: false,
           message: 'Producto no encontrado'
@@ -281,9 +419,35 @@ export class ProductController {
         origin,
         season,
         nutritionalInfo,
-        tags
+        tags,
+        payoutRate,
+        payoutRateType
       } = req.body;
 
+      // La tarifa de pago al productor solo la define un administrador
+      if ((payoutRate !== undefined || payoutRateType !== undefined) && userRole !== 'admin') {
+        return res.status(403).json({
+          ok: false,
+          message: 'Solo un administrador puede cambiar la tarifa de pago'
+        });
+      }
+
+      if (available === true && product.moderationStatus === 'rejected') {
+        return res.status(403).json({
+          ok: false,
+          message: 'El producto fue retirado por moderación y no puede publicarse'
+        });
+      }
+
+      if (payoutRateType !== undefined && !PAYOUT_RATE_TYPES.includes(payoutRateType)) {
+        return res.status(400).json({
+          ok: false,
+          message: 'payoutRateType debe ser per_kg o per_unit'
+        });
+      }
+
+      const serializedTags = tags ? JSON.stringify(tags) : undefined;
+
       const updatedProduct = await prisma.product.update({
         where: { id },
         data: {
@@ -297,7 +461,16 @@ export class ProductController {
           origin,
           season,
           nutritionalInfo: nutritionalInfo ? JSON.stringify(nutritionalInfo) : undefined,
-          tags: tags ? JSON.stringify(tags) : undefined
+          tags: serializedTags,
+          payoutRate: payoutRate === null ? null : payoutRate !== undefined ? parseFloat(payoutRate) : undefined,
+          payoutRateType,
+          searchText: ProductSearchService.buildSearchText({
+            name: name ?? product.name,
+            description: description !== undefined ? description : product.description,
+            origin: origin !== undefined ? origin : product.origin,
+            tags: serializedTags ?? product.tags,
+            producer: { businessName: product.producer.businessName }
+          })
         },
         include: {
           producer: {
@@ -318,5 +491,149 @@ export class ProductController {
       next(error);
     }
   }
-}
 
+  /**
+   * Obtener el catálogo del productor autenticado (incluye no disponibles)
+   * GET /api/products/mine
+   */
+  static async getMine(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+
+      const producer = await prisma.producer.findUnique({
+        where: { userId }
+      });
+
+      if (!producer) {
+        return res.status(404).json({
+          ok: false,
+          message: 'No se encontró tu perfil de productor'
+        });
+      }
+
+      const products = await prisma.product.findMany({
+        where: { producerId: producer.id, deletedAt: null },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      res.json({
+        ok: true,
+        data: products
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cambiar la disponibilidad de un producto
+   * PATCH /api/products/:id/availability
+   * Body: { available?: boolean } (si no se envía, se invierte el valor actual)
+   */
+  static async setAvailability(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const userRole = req.user!.role;
+      const { available } = req.body;
+
+      const product = await prisma.product.findUnique({
+        where: { id },
+        include: { producer: true }
+      });
+
+      if (!product || product.deletedAt) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Producto no encontrado'
+        });
+      }
+
+      // Verificar permisos
+      if (userRole !== 'admin' && product.producer.userId !== userId) {
+        return res.status(403).json({
+          ok: false,
+          message: 'No tienes permisos para actualizar este producto'
+        });
+      }
+
+      if (available !== undefined && typeof available !== 'boolean') {
+        return res.status(400).json({
+          ok: false,
+          message: 'available debe ser booleano'
+        });
+      }
+
+      const nextAvailable = available ?? !product.available;
+
+      if (nextAvailable && product.moderationStatus === 'rejected') {
+        return res.status(403).json({
+          ok: false,
+          message: 'El producto fue retirado por moderación y no puede publicarse'
+        });
+      }
+
+      const updatedProduct = await prisma.product.update({
+        where: { id },
+        data: { available: nextAvailable }
+      });
+
+      res.json({
+        ok: true,
+        message: updatedProduct.available ? 'Producto disponible' : 'Producto no disponible',
+        data: updatedProduct
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Eliminar producto (eliminación lógica)
+   * DELETE /api/products/:id
+   * El producto deja de mostrarse y de venderse, pero se conserva en los pedidos existentes
+   */
+  static async remove(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const userRole = req.user!.role;
+
+      const product = await prisma.product.findUnique({
+        where: { id },
+        include: { producer: true }
+      });
+
+      if (!product || product.deletedAt) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Producto no encontrado'
+        });
+      }
+
+      // Verificar permisos
+      if (userRole !== 'admin' && product.producer.userId !== userId) {
+        return res.status(403).json({
+          ok: false,
+          message: 'No tienes permisos para eliminar este producto'
+        });
+      }
+
+      // Quitarlo de los carritos para que nadie intente comprarlo
+      await prisma.$transaction(async (tx) => {
+        await tx.product.update({
+          where: { id },
+          data: { deletedAt: new Date(), available: false }
+        });
+        await CartService.removeProductFromAllCarts(tx, id);
+      });
+
+      res.json({
+        ok: true,
+        message: 'Producto eliminado exitosamente'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { ReviewService } from '../services/reviewService';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const createReviewSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(2000).optional()
+});
+
+const updateReviewSchema = createReviewSchema.partial();
+
+const reviewAuthorSelect = {
+  user: { select: { id: true, name: true } }
+};
+
+export class ReviewController {
+  /**
+   * Listar reseñas visibles de un producto (paginado)
+   * GET /api/products/:id/reviews?page=1&limit=10
+   */
+  static async getByProduct(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 10));
+
+      const product = await prisma.product.findUnique({
+        where: { id },
+        select: { id: true, ratingAverage: true, ratingCount: true, deletedAt: true }
+      });
+
+      if (!product || product.deletedAt) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Producto no encontrado'
+        });
+      }
+
+      const where = { productId: id, status: 'visible' };
+
+      const [reviews, total] = await Promise.all([
+        prisma.productReview.findMany({
+          where,
+          include: reviewAuthorSelect,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.productReview.count({ where })
+      ]);
+
+      res.json({
+        ok: true,
+        data: {
+          ratingAverage: product.ratingAverage,
+          ratingCount: product.ratingCount,
+          reviews
+        },
+        meta: {
+          total,
+          page,
+          limit,
+          hasNext: page * limit < total,
+          hasPrev: page > 1
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reseñar un producto recibido en un pedido entregado
+   * POST /api/products/:id/reviews
+   * Body: { rating: 1-5, comment?: string }
+   */
+  static async create(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { rating, comment } = createReviewSchema.parse(req.body);
+
+      const product = await prisma.product.findUnique({ where: { id } });
+
+      if (!product || product.deletedAt) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Producto no encontrado'
+        });
+      }
+
+      const orderId = await ReviewService.findQualifyingOrder(prisma, userId, id);
+
+      if (!orderId) {
+        return res.status(403).json({
+          ok: false,
+          message: 'Solo puedes reseñar productos que ya recibiste'
+        });
+      }
+
+      const review = await prisma.$transaction(async (tx) => {
+        const created = await tx.productReview.create({
+          data: {
+            productId: id,
+            userId,
+            orderId,
+            rating,
+            comment: comment || null
+          },
+          include: reviewAuthorSelect
+        });
+
+        await ReviewService.recomputeProductRating(tx, id);
+
+        return created;
+      });
+
+      res.status(201).json({
+        ok: true,
+        message: 'Reseña publicada',
+        data: review
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return res.status(409).json({
+          ok: false,
+          message: 'Ya reseñaste este producto; puedes editar tu reseña'
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Editar una reseña propia
+   * PUT /api/reviews/:id
+   * Body: { rating?: 1-5, comment?: string }
+   */
+  static async update(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const data = updateReviewSchema.parse(req.body);
+
+      const review = await prisma.productReview.findUnique({ where: { id } });
+
+      if (!review) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Reseña no encontrada'
+        });
+      }
+
+      if (review.userId !== userId) {
+        return res.status(403).json({
+          ok: false,
+          message: 'No tienes permisos para editar esta reseña'
+        });
+      }
+
+      const updatedReview = await prisma.$transaction(async (tx) => {
+        const updated = await tx.productReview.update({
+          where: { id },
+          data: {
+            rating: data.rating,
+            comment: data.comment !== undefined ? data.comment || null : undefined
+          },
+          include: reviewAuthorSelect
+        });
+
+        await ReviewService.recomputeProductRating(tx, review.productId);
+
+        return updated;
+      });
+
+      res.json({
+        ok: true,
+        message: 'Reseña actualizada',
+        data: updatedReview
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Eliminar una reseña propia
+   * DELETE /api/reviews/:id
+   */
+  static async remove(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const review = await prisma.productReview.findUnique({ where: { id } });
+
+      if (!review) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Reseña no encontrada'
+        });
+      }
+
+      if (review.userId !== userId && req.user!.role !== 'admin') {
+        return res.status(403).json({
+          ok: false,
+          message: 'No tienes permisos para eliminar esta reseña'
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.productReview.delete({ where: { id } });
+        await ReviewService.recomputeProductRating(tx, review.productId);
+      });
+
+      res.json({
+        ok: true,
+        message: 'Reseña eliminada'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
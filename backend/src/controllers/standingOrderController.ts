@@ -0,0 +1,452 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { STANDING_ORDER_FREQUENCIES, addInterval, nextOccurrence } from '../services/standingOrderService';
+import { startOfToday } from '../services/deliverySlotService';
+
+const prisma = new PrismaClient();
+
+// Límite de canastas por cliente
+const MAX_STANDING_ORDERS = 5;
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validation schemas
+const itemsSchema = z.array(z.object({
+  productId: z.string(),
+  quantity: z.number().int().positive().max(99)
+})).min(1, 'La canasta debe tener al menos un producto').max(50)
+  .refine(items => new Set(items.map(item => item.productId)).size === items.length, {
+    message: 'Hay productos repetidos en la canasta'
+  });
+
+const createStandingOrderSchema = z.object({
+  name: z.string().trim().min(1).max(60).optional(),
+  frequency: z.enum(STANDING_ORDER_FREQUENCIES).default('weekly'),
+  startDate: z.string().regex(DATE_REGEX, 'La fecha debe tener formato YYYY-MM-DD').optional(), // Primer pedido
+  addressId: z.string().nullable().optional(), // null = dirección predeterminada
+  notes: z.string().max(500).nullable().optional(),
+  items: itemsSchema
+});
+
+const updateStandingOrderSchema = createStandingOrderSchema.partial();
+
+const toDate = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const standingOrderInclude = {
+  items: {
+    include: {
+      product: {
+        select: { id: true, name: true, image: true, category: true, weightInKg: true, available: true, stock: true, deletedAt: true }
+      }
+    }
+  },
+  address: true,
+  // Última ejecución para mostrar qué se omitió
+  runs: {
+    orderBy: { scheduledFor: 'desc' as const },
+    take: 1
+  }
+};
+
+/**
+ * Verificar que los productos existan y sigan a la venta
+ */
+async function findInvalidProducts(productIds: string[]): Promise<string[]> {
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds }, deletedAt: null, moderationStatus: 'approved' },
+    select: { id: true }
+  });
+  const found = new Set(products.map(product => product.id));
+
+  return productIds.filter(id => !found.has(id));
+}
+
+async function isOwnAddress(addressId: string, userId: string): Promise<boolean> {
+  const address = await prisma.address.findUnique({ where: { id: addressId }, select: { userId: true } });
+  return address?.userId === userId;
+}
+
+async function findOwnStandingOrder(id: string, userId: string) {
+  const standingOrder = await prisma.standingOrder.findUnique({ where: { id } });
+  return standingOrder && standingOrder.userId === userId ? standingOrder : null;
+}
+
+export class StandingOrderController {
+  /**
+   * Listar las canastas recurrentes del usuario
+   * GET /api/standing-orders
+   */
+  static async getMine(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+
+      const standingOrders = await prisma.standingOrder.findMany({
+        where: { userId },
+        include: standingOrderInclude,
+        orderBy: { createdAt: 'desc' }
+      });
+
+      res.json({
+        ok: true,
+        data: standingOrders
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Detalle de una canasta con su historial de ejecuciones
+   * GET /api/standing-orders/:id
+   */
+  static async getById(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const standingOrder = await prisma.standingOrder.findFirst({
+        where: { id, userId },
+        include: {
+          ...standingOrderInclude,
+          runs: {
+            orderBy: { scheduledFor: 'desc' },
+            take: 20
+          }
+        }
+      });
+
+      if (!standingOrder) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Canasta no encontrada'
+        });
+      }
+
+      res.json({
+        ok: true,
+        data: standingOrder
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Crear una canasta recurrente
+   * POST /api/standing-orders
+   * Body: { name?, frequency: 'weekly' | 'biweekly', startDate?: 'YYYY-MM-DD', addressId?, notes?, items: [{ productId, quantity }] }
+   */
+  static async create(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const data = createStandingOrderSchema.parse(req.body);
+
+      const count = await prisma.standingOrder.count({ where: { userId } });
+
+      if (count >= MAX_STANDING_ORDERS) {
+        return res.status(400).json({
+          ok: false,
+          message: `Puedes tener hasta ${MAX_STANDING_ORDERS} canastas recurrentes`
+        });
+      }
+
+      // Por defecto el primer pedido sale en un intervalo: el cliente acaba de hacer su pedido
+      const nextRunAt = data.startDate ? toDate(data.startDate) : addInterval(startOfToday(), data.frequency);
+
+      if (nextRunAt < startOfToday()) {
+        return res.status(400).json({
+          ok: false,
+          message: 'La fecha de inicio no puede estar en el pasado'
+        });
+      }
+
+      if (data.addressId && !(await isOwnAddress(data.addressId, userId))) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Dirección no encontrada'
+        });
+      }
+
+      const invalidProducts = await findInvalidProducts(data.items.map(item => item.productId));
+
+      if (invalidProducts.length > 0) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Algunos productos ya no están a la venta',
+          data: { invalidProducts }
+        });
+      }
+
+      const standingOrder = await prisma.standingOrder.create({
+        data: {
+          userId,
+          name: data.name,
+          frequency: data.frequency,
+          nextRunAt,
+          addressId: data.addressId ?? null,
+          notes: data.notes ?? null,
+          items: {
+            create: data.items
+          }
+        },
+        include: standingOrderInclude
+      });
+
+      res.status(201).json({
+        ok: true,
+        message: 'Canasta recurrente creada',
+        data: standingOrder
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Editar una canasta; si se envían items, reemplazan a los actuales
+   * PUT /api/standing-orders/:id
+   */
+  static async update(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const data = updateStandingOrderSchema.parse(req.body);
+
+      const standingOrder = await findOwnStandingOrder(id, userId);
+
+      if (!standingOrder) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Canasta no encontrada'
+        });
+      }
+
+      if (data.startDate && toDate(data.startDate) < startOfToday()) {
+        return res.status(400).json({
+          ok: false,
+          message: 'La fecha de inicio no puede estar en el pasado'
+        });
+      }
+
+      if (data.addressId && !(await isOwnAddress(data.addressId, userId))) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Dirección no encontrada'
+        });
+      }
+
+      if (data.items) {
+        const invalidProducts = await findInvalidProducts(data.items.map(item => item.productId));
+
+        if (invalidProducts.length > 0) {
+          return res.status(400).json({
+            ok: false,
+            message: 'Algunos productos ya no están a la venta',
+            data: { invalidProducts }
+          });
+        }
+      }
+
+      const updatedStandingOrder = await prisma.$transaction(async (tx) => {
+        if (data.items) {
+          await tx.standingOrderItem.deleteMany({ where: { standingOrderId: id } });
+          await tx.standingOrderItem.createMany({
+            data: data.items.map(item => ({ standingOrderId: id, ...item }))
+          });
+        }
+
+        return tx.standingOrder.update({
+          where: { id },
+          data: {
+            name: data.name,
+            frequency: data.frequency,
+            nextRunAt: data.startDate ? toDate(data.startDate) : undefined,
+            addressId: data.addressId,
+            notes: data.notes
+          },
+          include: standingOrderInclude
+        });
+      });
+
+      res.json({
+        ok: true,
+        message: 'Canasta actualizada',
+        data: updatedStandingOrder
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Pausar una canasta: el job deja de generar pedidos
+   * POST /api/standing-orders/:id/pause
+   */
+  static async pause(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const standingOrder = await findOwnStandingOrder(id, req.user!.id);
+
+      if (!standingOrder) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Canasta no encontrada'
+        });
+      }
+
+      const updatedStandingOrder = await prisma.standingOrder.update({
+        where: { id },
+        data: { status: 'paused' },
+        include: standingOrderInclude
+      });
+
+      res.json({
+        ok: true,
+        message: 'Canasta pausada',
+        data: updatedStandingOrder
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reanudar una canasta; las fechas que pasaron durante la pausa no se generan
+   * POST /api/standing-orders/:id/resume
+   */
+  static async resume(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const standingOrder = await findOwnStandingOrder(id, req.user!.id);
+
+      if (!standingOrder) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Canasta no encontrada'
+        });
+      }
+
+      const now = new Date();
+      const nextRunAt = standingOrder.nextRunAt > now
+        ? standingOrder.nextRunAt
+        : nextOccurrence(standingOrder.nextRunAt, standingOrder.frequency, now);
+
+      const updatedStandingOrder = await prisma.standingOrder.update({
+        where: { id },
+        data: { status: 'active', nextRunAt },
+        include: standingOrderInclude
+      });
+
+      res.json({
+        ok: true,
+        message: 'Canasta reanudada',
+        data: updatedStandingOrder
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Saltar el próximo pedido (una semana o quincena)
+   * POST /api/standing-orders/:id/skip
+   */
+  static async skip(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const standingOrder = await findOwnStandingOrder(id, req.user!.id);
+
+      if (!standingOrder) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Canasta no encontrada'
+        });
+      }
+
+      const scheduledFor = standingOrder.nextRunAt;
+
+      const updatedStandingOrder = await prisma.$transaction(async (tx) => {
+        // Misma reclamación que el job: si ya generó el pedido de esa fecha, no se salta
+        const { count } = await tx.standingOrder.updateMany({
+          where: { id, nextRunAt: scheduledFor },
+          data: { nextRunAt: addInterval(scheduledFor, standingOrder.frequency) }
+        });
+
+        if (count === 0) {
+          return null;
+        }
+
+        await tx.standingOrderRun.create({
+          data: {
+            standingOrderId: id,
+            scheduledFor,
+            status: 'skipped',
+            message: 'El cliente saltó este pedido'
+          }
+        });
+
+        return tx.standingOrder.findUniqueOrThrow({
+          where: { id },
+          include: standingOrderInclude
+        });
+      });
+
+      if (!updatedStandingOrder) {
+        return res.status(409).json({
+          ok: false,
+          message: 'El pedido de esta fecha ya se está generando; intenta de nuevo'
+        });
+      }
+
+      res.json({
+        ok: true,
+        message: 'Pedido saltado',
+        data: updatedStandingOrder
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Eliminar una canasta (los pedidos ya generados se conservan)
+   * DELETE /api/standing-orders/:id
+   */
+  static async remove(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { id } = req.params;
+      const standingOrder = await findOwnStandingOrder(id, req.user!.id);
+
+      if (!standingOrder) {
+        return res.status(404).json({
+          ok: false,
+          message: 'Canasta no encontrada'
+        });
+      }
+
+      await prisma.standingOrder.delete({ where: { id } });
+
+      res.json({
+        ok: true,
+        message: 'Canasta eliminada'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,9 +1,39 @@
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient, SubscriptionPlan } from '@prisma/client';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { SubscriptionRenewalService } from '../services/subscriptionRenewalService';
+import { PlanService } from '../services/planService';
+import { PlanChangeError, PlanChangeService } from '../services/planChangeService';
+import { RolloverService } from '../services/rolloverService';
+import { SubscriptionPauseError, SubscriptionPauseService } from '../services/subscriptionPauseService';
+import { UsageLedgerService } from '../services/usageLedgerService';
 
 const prisma = new PrismaClient();
 
+// Validation schemas
+const pauseSchema = z.object({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date()
+});
+
 export class SubscriptionController {
+  /**
+   * Catálogo de planes disponibles (público, se usa al registrarse y al pagar)
+   * GET /api/subscription/plans
+   */
+  static async getPlans(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const plans = await PlanService.getActive();
+
+      res.json({
+        ok: true,
+        data: plans.map(({ isActive, retiredAt, createdAt, updatedAt, ...plan }) => plan)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Obtener suscripción actual del usuario
    * GET /api/subscription/current
@@ -12,6 +42,9 @@ export class SubscriptionController {
     try {
       const userId = req.user!.id;
 
+      // Cerrar el periodo si ya venció antes de leer el uso
+      await SubscriptionRenewalService.renewForUser(userId);
+
       const subscription = await prisma.subscription.findUnique({
         where: { userId },
         include: { user: { select: { id: true, email: true, name: true } } }
@@ -24,14 +57,24 @@ export class SubscriptionController {
         });
       }
 
-      // Calcular kg restantes
-      const remainingKg = subscription.limitInKg - subscription.usedKg;
+      // Calcular kg restantes (incluye los heredados del periodo anterior)
+      const { remainingKg } = RolloverService.getAllowance(subscription);
+
+      // Datos del plan contratado (aunque ya se haya retirado del catálogo)
+      const [planDetails, pendingPlanDetails, pause] = await Promise.all([
+        PlanService.findByCode(subscription.plan),
+        subscription.pendingPlan ? PlanService.findByCode(subscription.pendingPlan) : null,
+        SubscriptionPauseService.getStatus(subscription)
+      ]);
 
       res.json({
         ok: true,
         data: {
           ...subscription,
-          remainingKg: Math.max(0, remainingKg)
+          remainingKg,
+          planDetails,
+          pendingPlanDetails,
+          pause
         }
       });
     } catch (error) {
@@ -47,6 +90,9 @@ export class SubscriptionController {
     try {
       const userId = req.user!.id;
 
+      // Cerrar el periodo si ya venció antes de leer el uso
+      await SubscriptionRenewalService.renewForUser(userId);
+
       const subscription = await prisma.subscription.findUnique({
         where: { userId }
       });
@@ -58,16 +104,28 @@ export class SubscriptionController {
         });
       }
 
-      const remainingKg = subscription.limitInKg - subscription.usedKg;
+      const allowance = RolloverService.getAllowance(subscription);
 
       res.json({
         ok: true,
         data: {
           plan: subscription.plan,
           limitInKg: subscription.limitInKg,
-          usedKg: subscription.usedKg,
-          remainingKg: Math.max(0, remainingKg),
+          usedKg: allowance.usedKg,
+          remainingKg: allowance.remainingKg,
+          // Kg heredados del periodo anterior: se consumen antes que el límite del plan
+          rollover: {
+            kg: allowance.rolloverKg,
+            usedKg: allowance.rolloverUsedKg,
+            remainingKg: allowance.rolloverRemainingKg,
+            expiresAt: allowance.rolloverExpiresAt
+          },
+          totalLimitKg: allowance.totalLimitKg,
+          baseUsedKg: allowance.baseUsedKg,
+          periodStart: subscription.periodStart,
           renewalDate: subscription.renewalDate,
+          pendingPlan: subscription.pendingPlan,
+          pause: await SubscriptionPauseService.getStatus(subscription),
           isActive: subscription.isActive
         }
       });
@@ -77,22 +135,65 @@ export class SubscriptionController {
   }
 
   /**
-   * Cambiar plan de suscripción
-   * POST /api/subscription/change
-   * Body: { plan: 'BASIC' | 'STANDARD' | 'PREMIUM' }
+   * Obtener historial de uso por periodo (totales y movimientos)
+   * GET /api/subscription/history?limit=12
    */
-  static async changePlan(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+  static async getHistory(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
       const userId = req.user!.id;
-      const { plan } = req.body;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 12, 1), 36);
+
+      // Cerrar el periodo si ya venció antes de leer el uso
+      await SubscriptionRenewalService.renewForUser(userId);
+
+      const subscription = await prisma.subscription.findUnique({
+        where: { userId }
+      });
+
+      if (!subscription) {
+        return res.status(404).json({
+          ok: false,
+          message: 'No se encontró suscripción'
+        });
+      }
+
+      const periods = await UsageLedgerService.getHistory(subscription.id, limit);
+      const allowance = RolloverService.getAllowance(subscription);
 
-      if (!plan || !['BASIC', 'STANDARD', 'PREMIUM'].includes(plan)) {
+      res.json({
+        ok: true,
+        data: {
+          plan: subscription.plan,
+          limitInKg: subscription.limitInKg,
+          usedKg: allowance.usedKg,
+          rolloverKg: allowance.rolloverKg,
+          periods
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Ver el efecto de un cambio de plan antes de confirmarlo
+   * GET /api/subscription/change/preview?plan=PREMIUM
+   */
+  static async previewChange(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const { plan } = req.query;
+
+      if (!plan || typeof plan !== 'string') {
         return res.status(400).json({
           ok: false,
-          message: 'Plan inválido. Debe ser BASIC, STANDARD o PREMIUM'
+          message: 'Indica el plan'
         });
       }
 
+      // Cerrar el periodo si ya venció antes de leer el uso
+      await SubscriptionRenewalService.renewForUser(userId);
+
       const subscription = await prisma.subscription.findUnique({
         where: { userId }
       });
@@ -104,38 +205,149 @@ export class SubscriptionController {
         });
       }
 
-      // Definir límites por plan
-      const planLimits: Record<SubscriptionPlan, number> = {
-        BASIC: 5.0,
-        STANDARD: 8.0,
-        PREMIUM: 10.0
-      };
+      const preview = await PlanChangeService.preview(subscription, plan);
 
-      const newLimit = planLimits[plan as SubscriptionPlan];
+      res.json({
+        ok: true,
+        data: preview
+      });
+    } catch (error) {
+      if (error instanceof PlanChangeError) {
+        return res.status(error.statusCode).json({
+          ok: false,
+          message: error.message,
+          ...(error.data && { data: error.data })
+        });
+      }
+      next(error);
+    }
+  }
 
-      // Advertencia si ya usó parte del límite
-      const hasUsedLimit = subscription.usedKg > 0;
-      const warning = hasUsedLimit 
-        ? `Ya has usado ${subscription.usedKg} kg de tu plan actual. El nuevo límite será ${newLimit} kg.`
-        : null;
+  /**
+   * Cambiar plan de suscripción. La subida aplica de inmediato con kg prorrateados;
+   * la bajada se programa para la fecha de renovación.
+   * POST /api/subscription/change
+   * Body: { plan: string } (código de un plan activo; el plan actual cancela una bajada pendiente)
+   */
+  static async changePlan(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const { plan } = req.body;
 
-      // Actualizar suscripción
-      const updatedSubscription = await prisma.subscription.update({
-        where: { userId },
+      if (!plan || typeof plan !== 'string') {
+        return res.status(400).json({
+          ok: false,
+          message: 'Indica el plan'
+        });
+      }
+
+      // Cerrar el periodo si ya venció antes de leer el uso
+      await SubscriptionRenewalService.renewForUser(userId);
+
+      const { subscription, change } = await PlanChangeService.apply(userId, plan);
+
+      const renewal = change.effectiveAt.toLocaleDateString('es-MX', { day: 'numeric', month: 'long' });
+      const message = {
+        upgrade: `Ahora tienes el plan ${change.targetPlan.name}. Este periodo suma ${change.addedKg} kg.`,
+        downgrade: `Tu plan cambiará a ${change.targetPlan.name} el ${renewal}. Hasta entonces conservas tu plan actual.`,
+        cancel_pending: `Conservarás tu plan ${change.currentPlan.name}.`
+      }[change.type];
+
+      console.log(`🔁 Cambio de plan (${change.type}): ${userId} ${change.currentPlan.code} → ${change.targetPlan.code}`);
+
+      res.json({
+        ok: true,
+        message,
+        data: subscription,
+        change
+      });
+    } catch (error) {
+      if (error instanceof PlanChangeError) {
+        return res.status(error.statusCode).json({
+          ok: false,
+          message: error.message,
+          ...(error.data && { data: error.data })
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Pausar la suscripción (modo vacaciones): no se puede pedir, las canastas se saltan
+   * y la renovación se recorre lo que dure la pausa
+   * POST /api/subscription/pause
+   * Body: { startDate: string, endDate: string } (ISO; startDate puede ser hoy)
+   */
+  static async pause(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const { startDate, endDate } = pauseSchema.parse(req.body);
+
+      // Cerrar el periodo si ya venció antes de mover la renovación
+      await SubscriptionRenewalService.renewForUser(userId);
+
+      const { subscription } = await SubscriptionPauseService.pause(userId, startDate, endDate);
+
+      console.log(`⏸️ Suscripción en pausa: ${userId} (${subscription.pausedFrom?.toISOString()} → ${subscription.pausedUntil?.toISOString()})`);
+
+      res.json({
+        ok: true,
+        message: 'Suscripción pausada',
         data: {
-          plan: plan as SubscriptionPlan,
-          limitInKg: newLimit,
-          // Si el nuevo límite es menor que lo usado, ajustar usedKg
-          usedKg: Math.min(subscription.usedKg, newLimit)
+          ...subscription,
+          pause: await SubscriptionPauseService.getStatus(subscription)
         }
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      if (error instanceof SubscriptionPauseError) {
+        return res.status(error.statusCode).json({
+          ok: false,
+          message: error.message,
+          ...(error.data && { data: error.data })
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Reanudar la suscripción ahora, o cancelar una pausa que todavía no empieza
+   * POST /api/subscription/resume
+   */
+  static async resume(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+
+      await SubscriptionRenewalService.renewForUser(userId);
+
+      const { subscription, cancelled } = await SubscriptionPauseService.resume(userId);
+
+      console.log(`▶️ Suscripción reanudada: ${userId}${cancelled ? ' (pausa cancelada)' : ''}`);
 
       res.json({
         ok: true,
-        data: updatedSubscription,
-        warning
+        message: cancelled ? 'Pausa cancelada' : 'Suscripción reanudada',
+        data: {
+          ...subscription,
+          pause: await SubscriptionPauseService.getStatus(subscription)
+        }
       });
     } catch (error) {
+      if (error instanceof SubscriptionPauseError) {
+        return res.status(error.statusCode).json({
+          ok: false,
+          message: error.message,
+          ...(error.data && { data: error.data })
+        });
+      }
       next(error);
     }
   }
@@ -157,6 +369,9 @@ export class SubscriptionController {
         });
       }
 
+      // Cerrar el periodo si ya venció antes de leer el uso
+      await SubscriptionRenewalService.renewForUser(userId);
+
       const subscription = await prisma.subscription.findUnique({
         where: { userId }
       });
@@ -168,7 +383,7 @@ export class SubscriptionController {
         });
       }
 
-      const remainingKg = subscription.limitInKg - subscription.usedKg;
+      const { remainingKg, totalLimitKg, usedKg } = RolloverService.getAllowance(subscription);
       const canAdd = remainingKg >= weightInKg;
 
       res.json({
@@ -176,9 +391,9 @@ export class SubscriptionController {
         data: {
           canAdd,
           weightToAdd: weightInKg,
-          currentUsed: subscription.usedKg,
-          limit: subscription.limitInKg,
-          remaining: Math.max(0, remainingKg),
+          currentUsed: usedKg,
+          limit: totalLimitKg,
+          remaining: remainingKg,
           wouldExceed: !canAdd,
           excessKg: canAdd ? 0 : weightInKg - remainingKg
         }
@@ -0,0 +1,177 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { ChatParserService } from '../services/chatParserService';
+import { ProductSearchService, ProductMatch } from '../services/productSearchService';
+
+const prisma = new PrismaClient();
+
+// Candidatos del catálogo que se guardan por producto pedido
+const CANDIDATES_PER_PRODUCT = 5;
+
+// Validation schemas
+const createSuggestionSchema = z.object({
+  text: z.string().trim().min(3, 'Cuéntanos qué producto te gustaría').max(300)
+});
+
+const toJson = (value: unknown) => value as Prisma.InputJsonValue;
+
+export class SuggestionController {
+  /**
+   * Sugerir un producto en texto libre ("quiero pitahaya orgánica"). Se extraen los
+   * productos pedidos y se adjuntan los parecidos del catálogo para que el admin decida.
+   * POST /api/suggestions
+   * Body: { text: string }
+   */
+  static async create(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+      const { text } = createSuggestionSchema.parse(req.body);
+
+      // Evitar que la misma petición se encole dos veces mientras está pendiente
+      const duplicate = await prisma.suggestion.findFirst({
+        where: {
+          userId,
+          status: 'pending',
+          originalText: { equals: text, mode: 'insensitive' }
+        }
+      });
+
+      if (duplicate) {
+        return res.status(409).json({
+          ok: false,
+          message: 'Ya enviaste esta sugerencia; la estamos revisando',
+          data: duplicate
+        });
+      }
+
+      const entities = ChatParserService.extractProductRequests(text);
+
+      if (entities.length === 0) {
+        return res.status(400).json({
+          ok: false,
+          message: 'No identificamos qué producto te gustaría. Intenta con algo como "quiero pitahaya orgánica"'
+        });
+      }
+
+      // Parecidos del catálogo de todos los productos pedidos, sin repetir
+      const candidatesById = new Map<string, ProductMatch>();
+      for (const entity of entities) {
+        const matches = await ProductSearchService.match(entity.product, CANDIDATES_PER_PRODUCT);
+        for (const match of matches) {
+          const current = candidatesById.get(match.id);
+          if (!current || current.score < match.score) {
+            candidatesById.set(match.id, match);
+          }
+        }
+      }
+
+      const candidates = [...candidatesById.values()]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, CANDIDATES_PER_PRODUCT);
+
+      const suggestion = await prisma.suggestion.create({
+        data: {
+          userId,
+          originalText: text,
+          extractedEntities: toJson(entities),
+          fuzzyCandidates: toJson(candidates),
+          confidence: candidates[0]?.score ?? 0
+        }
+      });
+
+      console.log(`💡 Nueva sugerencia: "${entities.map(entity => entity.product).join(', ')}" (${candidates.length} candidatos)`);
+
+      res.status(201).json({
+        ok: true,
+        message: candidates.length > 0
+          ? '¡Gracias! Mientras la revisamos, ¿quizás buscas alguno de estos productos?'
+          : '¡Gracias! Revisaremos tu sugerencia y te avisaremos',
+        data: suggestion
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          ok: false,
+          message: 'Datos inválidos',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Mis sugerencias y su resultado
+   * GET /api/suggestions/mine
+   */
+  static async getMine(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userId = req.user!.id;
+
+      const suggestions = await prisma.suggestion.findMany({
+        where: { userId },
+        include: {
+          linkedProduct: {
+            select: { id: true, name: true, image: true, available: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      res.json({
+        ok: true,
+        data: suggestions
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Demanda aprobada agrupada por producto, para que los productores sepan qué sembrar
+   * GET /api/suggestions/demand
+   * Solo productores y admins
+   */
+  static async getDemand(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const userRole = req.user!.role;
+
+      if (userRole !== 'producer' && userRole !== 'admin') {
+        return res.status(403).json({
+          ok: false,
+          message: 'Solo los productores pueden ver la demanda'
+        });
+      }
+
+      const groups = await prisma.suggestion.groupBy({
+        by: ['demandKey'],
+        where: { status: 'approved', demandKey: { not: null } },
+        _count: { _all: true },
+        _max: { createdAt: true },
+        orderBy: { _count: { demandKey: 'desc' } }
+      });
+
+      // Etiqueta más reciente de cada grupo
+      const labels = await prisma.suggestion.findMany({
+        where: { status: 'approved', demandKey: { in: groups.map(group => group.demandKey!) } },
+        select: { demandKey: true, demandLabel: true },
+        orderBy: { reviewedAt: 'desc' },
+        distinct: ['demandKey']
+      });
+      const labelByKey = new Map(labels.map(label => [label.demandKey, label.demandLabel]));
+
+      res.json({
+        ok: true,
+        data: groups.map(group => ({
+          demandKey: group.demandKey,
+          label: labelByKey.get(group.demandKey) ?? group.demandKey,
+          requests: group._count._all,
+          lastRequestedAt: group._max.createdAt
+        }))
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -13,6 +13,14 @@ import { PrismaClient } from '@prisma/client';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
 
+// Import services
+import { SubscriptionRenewalService } from './services/subscriptionRenewalService';
+import { ProductSearchService } from './services/productSearchService';
+import { StandingOrderService } from './services/standingOrderService';
+import { UsageLedgerService } from './services/usageLedgerService';
+import { FulfillmentService } from './services/fulfillmentService';
+import { MailService } from './services/mailService';
+
 // Import routes
 // import catalogRoutes from './routes/catalog'; // DESHABILITADO - Reemplazado por products
 import cartRoutes from './routes/cart_nutrifresco'; // NUTRIFRESCO version
@@ -24,11 +32,18 @@ import orderRoutes from './routes/orders_nutrifresco'; // NUTRIFRESCO version
 // import employeeRoutes from './routes/employee'; // DESHABILITADO - NUTRIFRESCO no tiene empleados
 import chatRoutes from './routes/chat';
 import suggestionRoutes from './routes/suggestions';
-// import adminRoutes from './routes/admin'; // DESHABILITADO temporalmente - necesita actualización para Product
+// import adminRoutes from './routes/admin'; // DESHABILITADO - Reemplazado por admin_nutrifresco
+import adminRoutes from './routes/admin_nutrifresco'; // NUTRIFRESCO version
 // NUTRIFRESCO routes
 import subscriptionRoutes from './routes/subscription';
 import producerRoutes from './routes/producer';
 import productRoutes from './routes/product';
+import payoutRoutes from './routes/payouts';
+import reviewRoutes from './routes/reviews';
+import addressRoutes from './routes/addresses';
+import deliverySlotRoutes from './routes/deliverySlots';
+import standingOrderRoutes from './routes/standingOrders';
+import notificationRoutes from './routes/notifications';
 
 // Import controllers for direct endpoint use
 // import { CartController } from './controllers/cartController'; // DESHABILITADO
@@ -98,11 +113,17 @@ app.use('/api/orders', orderRoutes); // NUTRIFRESCO version
 // app.use('/api/employee', employeeRoutes); // DESHABILITADO - NUTRIFRESCO no tiene empleados
 app.use('/api/chat', chatRoutes);
 app.use('/api/suggestions', suggestionRoutes);
-// app.use('/api/admin', adminRoutes); // DESHABILITADO temporalmente - necesita actualización para Product
+app.use('/api/admin', adminRoutes); // NUTRIFRESCO version
 // NUTRIFRESCO routes
 app.use('/api/subscription', subscriptionRoutes);
 app.use('/api/producers', producerRoutes);
 app.use('/api/products', productRoutes);
+app.use('/api/payouts', payoutRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/addresses', addressRoutes);
+app.use('/api/delivery-slots', deliverySlotRoutes);
+app.use('/api/standing-orders', standingOrderRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // Validation endpoint (as per design spec)
 // app.post('/api/validate', CartController.validateCart); // DESHABILITADO - Usar /api/subscription/validate
@@ -126,6 +147,8 @@ const gracefulShutdown = async () => {
   console.log('🛑 Received shutdown signal...');
   
   try {
+    SubscriptionRenewalService.stop();
+    StandingOrderService.stop();
     await prisma.$disconnect();
     console.log('✅ Database disconnected');
     process.exit(0);
@@ -145,6 +168,35 @@ const startServer = async () => {
     await prisma.$connect();
     console.log('✅ Database connected successfully');
 
+    // Transporte de correo (códigos de verificación y recuperación)
+    MailService.configure();
+
+    // Productos creados antes del índice de búsqueda
+    const indexedProducts = await ProductSearchService.backfill();
+    if (indexedProducts > 0) {
+      console.log(`🔎 Search text generated for ${indexedProducts} products`);
+    }
+
+    // Pedidos creados antes de los surtidos por productor
+    const createdFulfillments = await FulfillmentService.backfill();
+    if (createdFulfillments > 0) {
+      console.log(`📦 Producer fulfillments created for ${createdFulfillments} legacy order groups`);
+    }
+
+    // Consumo registrado antes del libro de uso
+    const openedLedgers = await UsageLedgerService.backfillOpeningBalances();
+    if (openedLedgers > 0) {
+      console.log(`📒 Opening usage balance recorded for ${openedLedgers} subscriptions`);
+    }
+
+    // Job de renovación mensual de suscripciones
+    SubscriptionRenewalService.start();
+    console.log('🔄 Subscription renewal job started');
+
+    // Job que convierte las canastas recurrentes en pedidos
+    StandingOrderService.start();
+    console.log('🧺 Standing order job started');
+
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`🌍 Environment: ${process.env.NODE_ENV}`);
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import { prisma } from '../index';
 import { CustomError } from './errorHandler';
+import { SessionService } from '../services/sessionService';
 
 // Extend Request interface to include user
 declare global {
@@ -12,13 +12,14 @@ declare global {
         name: string;
         role: string;
       };
+      sessionId?: string; // Sesión del access token, para cerrarla en logout
     }
   }
 }
 
 /**
  * JWT Authentication middleware
- * Verifies JWT token from Authorization header
+ * Verifies JWT token from Authorization header and that its session is still active
  */
 export async function authenticateUser(req: Request, res: Response, next: NextFunction) {
   try {
@@ -34,27 +35,12 @@ export async function authenticateUser(req: Request, res: Response, next: NextFu
       throw new CustomError('Authentication token not provided', 401);
     }
 
-    // Verify JWT token
-    const jwt = require('jsonwebtoken');
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret_key_for_dev') as any;
-
-    // Verify user still exists
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true
-      }
-    });
-
-    if (!user) {
-      throw new CustomError('User not found', 404);
-    }
+    // Verify JWT token and its session (revoked sessions are rejected)
+    const { user, sessionId } = await SessionService.verifyAccessToken(token);
 
     // Add user to request object
     req.user = user;
+    req.sessionId = sessionId;
     next();
 
   } catch (error: any) {
@@ -118,22 +104,10 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
       const token = authHeader.substring(7);
       
       if (token) {
-        const jwt = require('jsonwebtoken');
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret_key_for_dev') as any;
-
-        const user = await prisma.user.findUnique({
-          where: { id: decoded.userId },
-          select: {
-            id: true,
-            email: true,
-            name: true,
-            role: true
-          }
-        });
-
-        if (user) {
-          req.user = user;
-        }
+        const { user, sessionId } = await SessionService.verifyAccessToken(token);
+
+        req.user = user;
+        req.sessionId = sessionId;
       }
     }
 
@@ -5,16 +5,19 @@ import { ZodError } from 'zod';
 export interface AppError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  code?: string; // Machine-readable reason the app can react to (e.g. EMAIL_NOT_VERIFIED)
 }
 
 export class CustomError extends Error implements AppError {
   statusCode: number;
   isOperational: boolean;
+  code?: string;
 
-  constructor(message: string, statusCode: number = 500, isOperational: boolean = true) {
+  constructor(message: string, statusCode: number = 500, isOperational: boolean = true, code?: string) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = isOperational;
+    this.code = code;
     
     Error.captureStackTrace(this, this.constructor);
   }
@@ -76,6 +79,7 @@ export const errorHandler = (
   res.status(statusCode).json({
     ok: false,
     error: message,
+    ...(error.code && { code: error.code }),
     ...(process.env.NODE_ENV === 'development' && {
       stack: err.stack,
       details: err
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { AddressController } from '../controllers/addressController';
+import { authenticateUser } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticateUser);
+
+// GET /api/addresses - Mis direcciones
+router.get('/', AddressController.getMine);
+
+// POST /api/addresses - Guardar dirección
+router.post('/', AddressController.create);
+
+// POST /api/addresses/import - Migrar direcciones guardadas en el dispositivo
+router.post('/import', AddressController.importLocal);
+
+// PUT /api/addresses/:id - Editar dirección
+router.put('/:id', AddressController.update);
+
+// PATCH /api/addresses/:id/default - Marcar como predeterminada
+router.patch('/:id/default', AddressController.setDefault);
+
+// DELETE /api/addresses/:id - Eliminar dirección
+router.delete('/:id', AddressController.remove);
+
+export default router;
@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/adminController_nutrifresco';
+import { authenticateUser, requireAdminRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación y rol de administrador
+router.use(authenticateUser);
+router.use(requireAdminRole);
+
+// ===== PRODUCTORES =====
+// GET /api/admin/producers - Cola de verificación de productores
+router.get('/producers', AdminController.getProducers);
+
+// POST /api/admin/producers/:id/approve - Verificar productor
+router.post('/producers/:id/approve', AdminController.approveProducer);
+
+// POST /api/admin/producers/:id/reject - Rechazar productor
+router.post('/producers/:id/reject', AdminController.rejectProducer);
+
+// ===== PRODUCTOS =====
+// GET /api/admin/products - Listar productos para moderación
+router.get('/products', AdminController.getProducts);
+
+// PUT /api/admin/products/:id/moderation - Aprobar o retirar producto
+router.put('/products/:id/moderation', AdminController.moderateProduct);
+
+// ===== RESEÑAS =====
+// GET /api/admin/reviews - Listar reseñas para moderación
+router.get('/reviews', AdminController.getReviews);
+
+// PUT /api/admin/reviews/:id/visibility - Ocultar o mostrar reseña
+router.put('/reviews/:id/visibility', AdminController.setReviewVisibility);
+
+// ===== USUARIOS =====
+// GET /api/admin/users - Listar usuarios
+router.get('/users', AdminController.getUsers);
+
+// PUT /api/admin/users/:id/role - Cambiar rol
+router.put('/users/:id/role', AdminController.updateUserRole);
+
+// ===== SUSCRIPCIONES =====
+// GET /api/admin/subscriptions - Buscar suscripciones
+router.get('/subscriptions', AdminController.getSubscriptions);
+
+// GET /api/admin/subscriptions/:userId - Ver suscripción e historial
+router.get('/subscriptions/:userId', AdminController.getSubscription);
+
+// POST /api/admin/subscriptions/:userId/adjust - Ajustar kg o estado
+router.post('/subscriptions/:userId/adjust', AdminController.adjustSubscription);
+
+// ===== SUGERENCIAS =====
+// GET /api/admin/suggestions - Cola de sugerencias de productos
+router.get('/suggestions', AdminController.getSuggestions);
+
+// POST /api/admin/suggestions/:id/approve - Aprobar como demanda para productores
+router.post('/suggestions/:id/approve', AdminController.approveSuggestion);
+
+// POST /api/admin/suggestions/:id/reject - Rechazar
+router.post('/suggestions/:id/reject', AdminController.rejectSuggestion);
+
+// POST /api/admin/suggestions/:id/link - Vincular con un producto existente
+router.post('/suggestions/:id/link', AdminController.linkSuggestion);
+
+// ===== PLANES =====
+// GET /api/admin/plans - Catálogo completo de planes
+router.get('/plans', AdminController.getPlans);
+
+// POST /api/admin/plans - Crear plan
+router.post('/plans', AdminController.createPlan);
+
+// PUT /api/admin/plans/:id/rollover-cap - Tope de kg que pasan al siguiente periodo
+router.put('/plans/:id/rollover-cap', AdminController.updatePlanRolloverCap);
+
+// POST /api/admin/plans/:id/retire - Retirar plan
+router.post('/plans/:id/retire', AdminController.retirePlan);
+
+export default router;
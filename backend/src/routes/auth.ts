@@ -7,11 +7,20 @@ const router = Router();
 // Public routes (no auth required)
 router.post('/register', AuthController.register);
 router.post('/login', AuthController.login);
+router.post('/refresh', AuthController.refresh);
+router.post('/forgot-password', AuthController.forgotPassword);
+router.post('/reset-password', AuthController.resetPassword);
 router.post('/logout', optionalAuth, AuthController.logout);
+// Without a session they take the email in the body (login blocked until the email is confirmed)
+router.post('/verify-email', optionalAuth, AuthController.verifyEmail);
+router.post('/resend-verification', optionalAuth, AuthController.resendVerification);
 
 // Protected routes (auth required)
 router.get('/me', authenticateUser, AuthController.getProfile);
 router.put('/profile', authenticateUser, AuthController.updateProfile);
+router.post('/logout-all', authenticateUser, AuthController.logoutAll);
+router.get('/sessions', authenticateUser, AuthController.getSessions);
+router.delete('/sessions/:id', authenticateUser, AuthController.revokeSession);
 
 // Health check
 router.get('/health', (req, res) => {
@@ -1,15 +1,16 @@
 import { Router } from 'express';
-// import { ChatController } from '../controllers/chatController';
+import { ChatController } from '../controllers/chatController';
+import { authenticateUser } from '../middleware/authMiddleware';
 
 const router = Router();
 
-// TODO: Implementar chat en Phase 6
-// POST /api/chat - Process chat message
-// GET /api/chat/:userId/history - Get chat history
+// Todas las rutas requieren autenticación
+router.use(authenticateUser);
 
-// Placeholder para Phase 1
-router.get('/health', (req, res) => {
-  res.json({ message: 'Chat routes ready for implementation' });
-});
+// POST /api/chat - Enviar un mensaje al asistente de compras
+router.post('/', ChatController.sendMessage);
 
-export default router;
\ No newline at end of file
+// GET /api/chat/history - Historial de conversación
+router.get('/history', ChatController.getHistory);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { DeliverySlotController } from '../controllers/deliverySlotController';
+import { authenticateUser } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticateUser);
+
+// GET /api/delivery-slots - Horarios con cupo para el checkout
+router.get('/', DeliverySlotController.getAvailable);
+
+// GET /api/delivery-slots/manage - Horarios que administro (admin o productor)
+router.get('/manage', DeliverySlotController.getManaged);
+
+// POST /api/delivery-slots - Crear horario (admin o productor)
+router.post('/', DeliverySlotController.create);
+
+// PUT /api/delivery-slots/:id - Editar horario
+router.put('/:id', DeliverySlotController.update);
+
+// DELETE /api/delivery-slots/:id - Cerrar horario
+router.delete('/:id', DeliverySlotController.deactivate);
+
+export default router;
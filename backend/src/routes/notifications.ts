@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { NotificationController } from '../controllers/notificationController';
+import { authenticateUser } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticateUser);
+
+// GET /api/notifications - Mis avisos
+router.get('/', NotificationController.getMine);
+
+// PATCH /api/notifications/read-all - Marcar todos como leídos
+router.patch('/read-all', NotificationController.markAllRead);
+
+// PATCH /api/notifications/:id/read - Marcar como leído
+router.patch('/:id/read', NotificationController.markRead);
+
+export default router;
@@ -16,6 +16,15 @@ router.get('/producer/my-orders', OrderController.getProducerOrders);
 // PUT /api/orders/producer/:id/status - Actualizar estado de pedido (productor)
 router.put('/producer/:id/status', OrderController.updateOrderStatus);
 
+// GET /api/orders/:id/events - Seguir el estado del pedido en tiempo real (SSE)
+router.get('/:id/events', OrderController.streamOrderEvents);
+
+// POST /api/orders/:id/cancel - Cancelar pedido (cliente)
+router.post('/:id/cancel', OrderController.cancelOrder);
+
+// POST /api/orders/:id/survey - Encuesta de satisfacción (pedido entregado)
+router.post('/:id/survey', OrderController.submitSurvey);
+
 // GET /api/orders - Obtener historial de pedidos
 router.get('/', OrderController.getOrders);
 
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { PayoutController } from '../controllers/payoutController';
+import { authenticateUser, requireAdminRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticateUser);
+
+// GET /api/payouts/earnings - Ganancias del productor y resumen
+router.get('/earnings', PayoutController.getMyEarnings);
+
+// GET /api/payouts/admin - Listar lotes de pago (admin)
+router.get('/admin', requireAdminRole, PayoutController.listPayouts);
+
+// POST /api/payouts/admin/batches - Agrupar ganancias en lotes de pago (admin)
+router.post('/admin/batches', requireAdminRole, PayoutController.createBatches);
+
+// PATCH /api/payouts/admin/:id/status - Marcar lote en proceso o pagado (admin)
+router.patch('/admin/:id/status', requireAdminRole, PayoutController.updatePayoutStatus);
+
+// GET /api/payouts - Lotes de pago del productor
+router.get('/', PayoutController.getMyPayouts);
+
+export default router;
@@ -1,17 +1,28 @@
 import { Router } from 'express';
 import { ProductController } from '../controllers/productController';
+import { ReviewController } from '../controllers/reviewController';
 import { authenticateUser, optionalAuth } from '../middleware/authMiddleware';
 
 const router = Router();
 
+// Rutas del productor autenticado (antes de /:id)
+router.get('/mine', authenticateUser, ProductController.getMine); // Mi catálogo
+
 // Rutas públicas
 router.get('/', ProductController.getAll); // Listar productos con filtros
+router.get('/search', ProductController.search); // Búsqueda por texto (antes de /:id)
 router.get('/:id', ProductController.getById); // Ver producto
 router.get('/by-producer/:producerId', ProductController.getByProducer); // Productos por productor
+router.get('/:id/reviews', ReviewController.getByProduct); // Reseñas del producto
 
 // Rutas protegidas (solo productores y admin)
 router.post('/', authenticateUser, ProductController.create); // Crear producto
 router.put('/:id', authenticateUser, ProductController.update); // Actualizar producto
+router.patch('/:id/availability', authenticateUser, ProductController.setAvailability); // Cambiar disponibilidad
+router.delete('/:id', authenticateUser, ProductController.remove); // Eliminar producto (lógico)
+
+// Reseñas (solo clientes que recibieron el producto)
+router.post('/:id/reviews', authenticateUser, ReviewController.create); // Reseñar producto
 
 export default router;
 
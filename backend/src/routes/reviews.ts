@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { ReviewController } from '../controllers/reviewController';
+import { authenticateUser } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticateUser);
+
+// PUT /api/reviews/:id - Editar reseña propia
+router.put('/:id', ReviewController.update);
+
+// DELETE /api/reviews/:id - Eliminar reseña propia
+router.delete('/:id', ReviewController.remove);
+
+export default router;
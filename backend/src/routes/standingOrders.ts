@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { StandingOrderController } from '../controllers/standingOrderController';
+import { authenticateUser } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticateUser);
+
+// GET /api/standing-orders - Mis canastas recurrentes
+router.get('/', StandingOrderController.getMine);
+
+// POST /api/standing-orders - Crear canasta
+router.post('/', StandingOrderController.create);
+
+// GET /api/standing-orders/:id - Detalle con historial de ejecuciones
+router.get('/:id', StandingOrderController.getById);
+
+// PUT /api/standing-orders/:id - Editar canasta
+router.put('/:id', StandingOrderController.update);
+
+// POST /api/standing-orders/:id/pause - Pausar
+router.post('/:id/pause', StandingOrderController.pause);
+
+// POST /api/standing-orders/:id/resume - Reanudar
+router.post('/:id/resume', StandingOrderController.resume);
+
+// POST /api/standing-orders/:id/skip - Saltar el próximo pedido
+router.post('/:id/skip', StandingOrderController.skip);
+
+// DELETE /api/standing-orders/:id - Eliminar canasta
+router.delete('/:id', StandingOrderController.remove);
+
+export default router;
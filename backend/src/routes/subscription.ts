@@ -4,7 +4,10 @@ import { authenticateUser } from '../middleware/authMiddleware';
 
 const router = Router();
 
-// Todas las rutas requieren autenticación
+// GET /api/subscription/plans - Catálogo de planes (público)
+router.get('/plans', SubscriptionController.getPlans);
+
+// El resto de las rutas requieren autenticación
 router.use(authenticateUser);
 
 // GET /api/subscription/current - Obtener suscripción actual
@@ -13,9 +16,21 @@ router.get('/current', SubscriptionController.getCurrent);
 // GET /api/subscription/usage - Obtener uso (kg usados y restantes)
 router.get('/usage', SubscriptionController.getUsage);
 
+// GET /api/subscription/history - Historial de uso por periodo
+router.get('/history', SubscriptionController.getHistory);
+
+// GET /api/subscription/change/preview - Efecto de un cambio de plan
+router.get('/change/preview', SubscriptionController.previewChange);
+
 // POST /api/subscription/change - Cambiar plan
 router.post('/change', SubscriptionController.changePlan);
 
+// POST /api/subscription/pause - Pausar (modo vacaciones)
+router.post('/pause', SubscriptionController.pause);
+
+// POST /api/subscription/resume - Reanudar o cancelar la pausa programada
+router.post('/resume', SubscriptionController.resume);
+
 // POST /api/subscription/validate - Validar peso antes de agregar
 router.post('/validate', SubscriptionController.validateWeight);
 
@@ -1,17 +1,21 @@
 import { Router } from 'express';
-// import { SuggestionController } from '../controllers/suggestionController';
+import { SuggestionController } from '../controllers/suggestionController';
+import { authenticateUser } from '../middleware/authMiddleware';
 
 const router = Router();
 
-// TODO: Implementar sugerencias en Phase 6
-// POST /api/suggestions - Create suggestion
-// GET /api/suggestions/pending - Get pending suggestions (admin)
-// POST /api/admin/suggestions/:id/approve - Approve suggestion
-// POST /api/admin/suggestions/:id/reject - Reject suggestion
+// Todas las rutas requieren autenticación
+router.use(authenticateUser);
 
-// Placeholder para Phase 1
-router.get('/health', (req, res) => {
-  res.json({ message: 'Suggestions routes ready for implementation' });
-});
+// POST /api/suggestions - Sugerir un producto en texto libre
+router.post('/', SuggestionController.create);
 
-export default router;
\ No newline at end of file
+// GET /api/suggestions/mine - Mis sugerencias y su resultado
+router.get('/mine', SuggestionController.getMine);
+
+// GET /api/suggestions/demand - Demanda aprobada (productores y admins)
+router.get('/demand', SuggestionController.getDemand);
+
+// La revisión de sugerencias vive en /api/admin/suggestions
+
+export default router;
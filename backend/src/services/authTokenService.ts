@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type AuthTokenType = 'password_reset' | 'email_verification';
+
+// Vigencia de cada tipo de código, en minutos
+const TOKEN_TTL_MINUTES: Record<AuthTokenType, number> = {
+  password_reset: 60,
+  email_verification: 24 * 60
+};
+
+// Intentos fallidos antes de invalidar el código (evita adivinarlo por fuerza bruta)
+const MAX_ATTEMPTS = 5;
+
+// Tiempo mínimo entre dos códigos del mismo tipo para un usuario
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Sin 0/O ni 1/I para que se pueda dictar o copiar a mano
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+// "ab2c-d3ef" → "AB2CD3EF"
+const normalizeCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export class AuthTokenService {
+  /**
+   * Emitir un código nuevo; los anteriores del mismo tipo dejan de servir
+   * @returns el código en claro para enviarlo por correo, o null si se pidió otro hace menos de un minuto
+   */
+  static async issue(userId: string, type: AuthTokenType): Promise<{ code: string; expiresAt: Date } | null> {
+    const recent = await prisma.authToken.findFirst({
+      where: { userId, type, createdAt: { gt: new Date(Date.now() - RESEND_COOLDOWN_MS) } }
+    });
+
+    if (recent) {
+      return null;
+    }
+
+    const code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join('');
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_MINUTES[type] * 60 * 1000);
+
+    await prisma.$transaction([
+      prisma.authToken.updateMany({
+        where: { userId, type, usedAt: null },
+        data: { usedAt: new Date() }
+      }),
+      prisma.authToken.create({
+        data: { userId, type, tokenHash: hashCode(code), expiresAt }
+      })
+    ]);
+
+    return { code, expiresAt };
+  }
+
+  /**
+   * Usar el código vigente del usuario. Solo funciona una vez; cada intento fallido cuenta.
+   * @returns false si el código no coincide, venció o ya se usó
+   */
+  static async consume(userId: string, type: AuthTokenType, code: string): Promise<boolean> {
+    const token = await prisma.authToken.findFirst({
+      where: { userId, type, usedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!token) {
+      return false;
+    }
+
+    const matches = crypto.timingSafeEqual(
+      Buffer.from(hashCode(normalizeCode(code)), 'hex'),
+      Buffer.from(token.tokenHash, 'hex')
+    );
+
+    if (!matches) {
+      const attempts = token.attempts + 1;
+      await prisma.authToken.update({
+        where: { id: token.id },
+        data: { attempts, usedAt: attempts >= MAX_ATTEMPTS ? new Date() : null }
+      });
+      return false;
+    }
+
+    // Dos solicitudes con el mismo código: solo una lo consume
+    const { count } = await prisma.authToken.updateMany({
+      where: { id: token.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    return count > 0;
+  }
+}
@@ -0,0 +1,232 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SubscriptionRenewalService } from './subscriptionRenewalService';
+import { PlanService } from './planService';
+import { RolloverService } from './rolloverService';
+
+const prisma = new PrismaClient();
+
+// Producto con su productor, como se muestra en el carrito
+export const cartItemInclude = {
+  product: {
+    include: {
+      producer: {
+        select: {
+          id: true,
+          businessName: true,
+          location: true
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Error de negocio al modificar el carrito; se responde con su código y datos
+ */
+export class CartError extends Error {
+  constructor(public statusCode: number, message: string, public data?: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+export class CartService {
+  /**
+   * Agregar un producto al carrito (o sumar cantidad si ya está) validando
+   * disponibilidad, stock, suscripción activa, límite de kg y categoría del plan.
+   */
+  static async addItem(userId: string, productId: string, quantity: number) {
+    // Verificar que el producto existe
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: { producer: true }
+    });
+
+    if (!product) {
+      throw new CartError(404, 'Producto no encontrado');
+    }
+
+    if (!product.available) {
+      throw new CartError(400, 'El producto no está disponible');
+    }
+
+    if (product.stock < quantity) {
+      throw new CartError(400, `Solo hay ${product.stock} unidades disponibles`);
+    }
+
+    // Cerrar el periodo si ya venció antes de leer el uso
+    await SubscriptionRenewalService.renewForUser(userId);
+
+    // Obtener suscripción y validar límite
+    const subscription = await prisma.subscription.findUnique({
+      where: { userId }
+    });
+
+    if (!subscription || !subscription.isActive) {
+      throw new CartError(403, 'No tienes una suscripción activa');
+    }
+
+    // Calcular peso del item a agregar
+    const itemWeight = product.weightInKg * quantity;
+    const { totalLimitKg, rolloverKg, remainingKg, usedKg: currentUsedKg } = RolloverService.getAllowance(subscription);
+
+    // Validar que no exceda el límite (incluye los kg heredados del periodo anterior)
+    if (itemWeight > remainingKg) {
+      throw new CartError(
+        400,
+        `No puedes agregar este producto. Excederías tu límite de ${totalLimitKg} kg. Te quedan ${remainingKg.toFixed(2)} kg disponibles.`,
+        {
+          weightToAdd: itemWeight,
+          remainingKg,
+          limitInKg: subscription.limitInKg,
+          rolloverKg,
+          wouldExceed: true
+        }
+      );
+    }
+
+    // Validar categoría según plan
+    const plan = await PlanService.findByCode(subscription.plan);
+    if (!PlanService.isCategoryAllowed(plan, product.category)) {
+      throw new CartError(
+        403,
+        `Tu plan ${plan?.name ?? subscription.plan} no permite productos de la categoría ${product.category}.`,
+        {
+          category: product.category,
+          plan: subscription.plan
+        }
+      );
+    }
+
+    // Obtener o crear carrito
+    let cart = await prisma.cart.findFirst({
+      where: { userId }
+    });
+
+    if (!cart) {
+      cart = await prisma.cart.create({
+        data: { userId, totalWeightInKg: 0 }
+      });
+    }
+
+    // Verificar si el producto ya está en el carrito
+    const existingItem = await prisma.cartItem.findFirst({
+      where: {
+        cartId: cart.id,
+        productId: product.id
+      }
+    });
+
+    let cartItem;
+    let newTotalWeight = cart.totalWeightInKg;
+
+    if (existingItem) {
+      // Actualizar cantidad
+      const newQuantity = existingItem.quantity + quantity;
+      const newItemWeight = product.weightInKg * newQuantity;
+
+      // Validar nuevo peso total
+      const newTotalUsed = currentUsedKg - (existingItem.weightInKg) + newItemWeight;
+      if (newTotalUsed > totalLimitKg) {
+        throw new CartError(400, 'No puedes agregar más cantidad. Excederías tu límite.', {
+          currentQuantity: existingItem.quantity,
+          requestedQuantity: newQuantity,
+          wouldExceed: true
+        });
+      }
+
+      cartItem = await prisma.cartItem.update({
+        where: { id: existingItem.id },
+        data: {
+          quantity: newQuantity,
+          weightInKg: newItemWeight
+        },
+        include: cartItemInclude
+      });
+
+      newTotalWeight = cart.totalWeightInKg - existingItem.weightInKg + newItemWeight;
+    } else {
+      // Crear nuevo item
+      cartItem = await prisma.cartItem.create({
+        data: {
+          cartId: cart.id,
+          productId: product.id,
+          quantity,
+          weightInKg: itemWeight,
+          name: product.name,
+          image: product.image || null
+        },
+        include: cartItemInclude
+      });
+
+      newTotalWeight = cart.totalWeightInKg + itemWeight;
+    }
+
+    // Actualizar peso total del carrito
+    await prisma.cart.update({
+      where: { id: cart.id },
+      data: { totalWeightInKg: newTotalWeight }
+    });
+
+    return {
+      item: cartItem,
+      cartId: cart.id,
+      remainingKg: Math.max(0, remainingKg - itemWeight)
+    };
+  }
+
+  /**
+   * Quitar un producto del carrito del usuario
+   * @returns el item eliminado, o null si el producto no estaba en el carrito
+   */
+  static async removeProduct(userId: string, productId: string) {
+    const cartItem = await prisma.cartItem.findFirst({
+      where: { productId, cart: { userId } },
+      include: { cart: true }
+    });
+
+    if (!cartItem) {
+      return null;
+    }
+
+    await prisma.cartItem.delete({
+      where: { id: cartItem.id }
+    });
+
+    // Actualizar peso total del carrito
+    await prisma.cart.update({
+      where: { id: cartItem.cartId },
+      data: { totalWeightInKg: Math.max(0, cartItem.cart.totalWeightInKg - cartItem.weightInKg) }
+    });
+
+    return cartItem;
+  }
+
+  /**
+   * Quitar un producto de todos los carritos (producto eliminado o retirado) y recalcular
+   * el peso de cada carrito afectado. Debe ejecutarse dentro de la misma transacción.
+   * @returns número de carritos afectados
+   */
+  static async removeProductFromAllCarts(tx: Prisma.TransactionClient, productId: string): Promise<number> {
+    const items = await tx.cartItem.findMany({
+      where: { productId },
+      select: { cartId: true }
+    });
+    const cartIds = [...new Set(items.map(item => item.cartId))];
+
+    await tx.cartItem.deleteMany({ where: { productId } });
+
+    for (const cartId of cartIds) {
+      const { _sum } = await tx.cartItem.aggregate({
+        where: { cartId },
+        _sum: { weightInKg: true }
+      });
+
+      await tx.cart.update({
+        where: { id: cartId },
+        data: { totalWeightInKg: _sum.weightInKg ?? 0 }
+      });
+    }
+
+    return cartIds.length;
+  }
+}
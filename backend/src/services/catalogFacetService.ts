@@ -0,0 +1,62 @@
+import { Prisma, PrismaClient, ProductCategory } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Filtros que el catálogo permite combinar con las facetas
+export interface FacetFilters {
+  category?: ProductCategory;
+  producerId?: string;
+  season?: string;
+}
+
+export interface ProductFacets {
+  categories: { value: ProductCategory; count: number }[];
+  producers: { id: string; businessName: string; count: number }[];
+  seasons: { value: string; count: number }[];
+}
+
+export class CatalogFacetService {
+  /**
+   * Contar productos por categoría, productor y temporada.
+   * Cada faceta ignora su propio filtro para que el cliente vea las demás opciones
+   * (con FRUITS seleccionado siguen apareciendo los conteos del resto de categorías).
+   */
+  static async getProductFacets(baseWhere: Prisma.ProductWhereInput, filters: FacetFilters): Promise<ProductFacets> {
+    const categoryWhere = { ...baseWhere, producerId: filters.producerId ?? baseWhere.producerId, season: filters.season };
+    const producerWhere = { ...baseWhere, category: filters.category, season: filters.season };
+    const seasonWhere = {
+      ...baseWhere,
+      category: filters.category,
+      producerId: filters.producerId ?? baseWhere.producerId,
+      season: { not: null }
+    };
+
+    const [categories, producers, seasons] = await Promise.all([
+      prisma.product.groupBy({ by: ['category'], where: categoryWhere, _count: { _all: true } }),
+      prisma.product.groupBy({ by: ['producerId'], where: producerWhere, _count: { _all: true } }),
+      prisma.product.groupBy({ by: ['season'], where: seasonWhere, _count: { _all: true } })
+    ]);
+
+    const producerNames = await prisma.producer.findMany({
+      where: { id: { in: producers.map(group => group.producerId) } },
+      select: { id: true, businessName: true }
+    });
+    const nameById = new Map(producerNames.map(producer => [producer.id, producer.businessName]));
+
+    return {
+      categories: categories
+        .map(group => ({ value: group.category, count: group._count._all }))
+        .sort((a, b) => b.count - a.count),
+      producers: producers
+        .map(group => ({
+          id: group.producerId,
+          businessName: nameById.get(group.producerId) ?? '',
+          count: group._count._all
+        }))
+        .sort((a, b) => b.count - a.count),
+      seasons: seasons
+        .map(group => ({ value: group.season as string, count: group._count._all }))
+        .sort((a, b) => b.count - a.count)
+    };
+  }
+}
@@ -0,0 +1,216 @@
+import { ProductSearchService } from './productSearchService';
+
+export type ChatIntent =
+  | 'add_to_cart'
+  | 'remove_from_cart'
+  | 'view_cart'
+  | 'remaining_kg'
+  | 'order_status'
+  | 'search_product'
+  | 'greeting'
+  | 'help'
+  | 'unknown';
+
+export type QuantityUnit = 'kg' | 'piece';
+
+export interface ParsedItem {
+  text: string; // Producto tal como lo escribió el cliente, sin cantidad ni unidad
+  quantity: number | null;
+  unit: QuantityUnit | null; // null = no dijo unidad (se interpreta como piezas)
+}
+
+export interface ParsedMessage {
+  intent: ChatIntent;
+  confidence: number;
+  normalized: string;
+  items: ParsedItem[];
+}
+
+export interface ProductRequest {
+  product: string; // "pitahaya"
+  attributes: string[]; // ["organica"]
+  quantity: number | null;
+  unit: QuantityUnit | null;
+}
+
+interface IntentRule {
+  intent: ChatIntent;
+  pattern: RegExp;
+  confidence: number;
+}
+
+// Se evalúan en orden: las preguntas específicas antes que los verbos genéricos ("quiero saber dónde está mi pedido")
+const INTENT_RULES: IntentRule[] = [
+  { intent: 'remaining_kg', pattern: /\bcuant[oa]s? ((kilos?|kg) )?(me )?(queda|quedan|resta|restan|tengo)\b|\b(mi|mis) (limite|saldo|kilos)\b|\bkilos disponibles\b/, confidence: 0.95 },
+  { intent: 'order_status', pattern: /\b(donde|como va|cuando llega|estado|rastrear|seguimiento)\b.*\bpedido\b|\bmi pedido\b/, confidence: 0.9 },
+  { intent: 'view_cart', pattern: /\b(que (tengo|hay|llevo)|ver|muestrame|mostrar|revisar)\b.*\bcarrito\b|^(mi )?carrito$/, confidence: 0.9 },
+  { intent: 'remove_from_cart', pattern: /^(quita|quitar|quitame|elimina|eliminar|saca|sacar|sacame|borra|borrar)\b/, confidence: 0.9 },
+  { intent: 'add_to_cart', pattern: /^(agrega|agregar|agregame|agregue|anade|anadir|anademe|pon|ponme|mete|meteme|quiero|dame|compra|comprar|suma|sumale|necesito|manda|mandame)\b/, confidence: 0.9 },
+  { intent: 'search_product', pattern: /^(tienen|tienes|hay|venden|vendes|busco|buscar|manejan)\b/, confidence: 0.85 },
+  { intent: 'help', pattern: /\b(ayuda|ayudame|que puedes hacer|como funciona|que sabes hacer)\b/, confidence: 0.9 },
+  { intent: 'greeting', pattern: /^(hola|buenas|buenos dias|buenas tardes|buenas noches|que tal|hey)\b/, confidence: 0.8 }
+];
+
+// Cortesías y muletillas que no aportan al producto
+const FILLER_PATTERN = /\b(por favor|porfa|porfavor|gracias|tambien|ademas|porfis)\b/g;
+
+// Saludos y cortesías antes de la orden
+const LEADING_COURTESY_PATTERN = /^((oye|hola|buenas|buenos dias|buenas tardes|por favor|porfa)[\s,]+)+/;
+
+// Referencias al carrito que acompañan a los verbos ("agrega ... al carrito")
+const CART_REFERENCE_PATTERN = /\b(al|a mi|del|de mi|en mi|en el|mi) carrito\b/g;
+
+// Formas de pedir un producto que todavía no existe ("me gustaría que vendan...")
+const REQUEST_PATTERN = /^(quiero|quisiera|necesito|busco|sugiero|me gustaria( que (vendan|tengan|hubiera|haya))?( comprar| encontrar)?|ojala (vendan|tengan|hubiera|tuvieran|vendieran|trajeran)|(podrian|pueden|deberian) (vender|tener|traer|agregar)|vendan|traigan|tengan|agreguen)\b/;
+
+// Calificativos que no cambian el producto pero sí importan a quien lo produce
+const ATTRIBUTE_PATTERN = /\b(organic[oa]s?|locale?s?|artesanale?s?|fresc[oa]s?|integrale?s?|naturale?s?|silvestres?|crioll[oa]s?|deshidratad[oa]s?|congelad[oa]s?|sin azucar|sin gluten|de temporada)\b/g;
+
+const NUMBER_WORDS: Record<string, number> = {
+  un: 1, una: 1, uno: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5,
+  seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12,
+  medio: 0.5, media: 0.5
+};
+
+const UNIT_WORDS: Array<{ pattern: RegExp; unit: QuantityUnit; factor: number }> = [
+  { pattern: /^(kilos?|kg|kgs|kilogramos?)$/, unit: 'kg', factor: 1 },
+  { pattern: /^(gramos?|grs?|g)$/, unit: 'kg', factor: 0.001 },
+  { pattern: /^(docenas?)$/, unit: 'piece', factor: 12 },
+  { pattern: /^(piezas?|pzas?|pz|unidades?|bolsas?|paquetes?|manojos?|frascos?)$/, unit: 'piece', factor: 1 }
+];
+
+const LEADING_ARTICLES = /^(el|la|los|las|unos|unas|de|del)\s+/;
+
+/**
+ * Quitar signos de puntuación; los de interrogación y exclamación no cambian el sentido
+ */
+const stripPunctuation = (text: string) => text
+  .replace(/[¿?¡!;:"()]/g, ' ')
+  .replace(/(?<!\d)\.|\.(?!\d)/g, ' ') // El punto decimal se conserva ("1.5 kg")
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * Leer la cantidad y unidad al inicio de un fragmento: "2 kilos de jitomate", "medio kilo de queso",
+ * "1.5 kg jitomate", "una docena de huevos", "3 aguacates"
+ */
+function parseItem(segment: string): ParsedItem | null {
+  const words = segment.split(' ').filter(Boolean);
+  let quantity: number | null = null;
+  let unit: QuantityUnit | null = null;
+  let index = 0;
+
+  const numberWord = words[index];
+  if (numberWord !== undefined) {
+    const numeric = parseFloat(numberWord.replace(',', '.'));
+    if (!Number.isNaN(numeric) && /^\d/.test(numberWord)) {
+      quantity = numeric;
+      index++;
+    } else if (NUMBER_WORDS[numberWord] !== undefined && words.length > 1) {
+      quantity = NUMBER_WORDS[numberWord];
+      index++;
+    }
+  }
+
+  const unitWord = words[index];
+  const unitMatch = unitWord !== undefined ? UNIT_WORDS.find(candidate => candidate.pattern.test(unitWord)) : undefined;
+  if (unitMatch) {
+    unit = unitMatch.unit;
+    quantity = (quantity ?? 1) * unitMatch.factor;
+    index++;
+
+    // "un kilo y medio"
+    if (words[index] === 'y' && (words[index + 1] === 'medio' || words[index + 1] === 'media')) {
+      quantity += 0.5 * unitMatch.factor;
+      index += 2;
+    }
+  }
+
+  const text = words.slice(index).join(' ').replace(LEADING_ARTICLES, '').replace(LEADING_ARTICLES, '').trim();
+
+  if (!text) {
+    return null;
+  }
+
+  return { text, quantity, unit };
+}
+
+export class ChatParserService {
+  /**
+   * Interpretar un mensaje en español: intención, productos, cantidades y unidades.
+   * Es un analizador por reglas; la confianza refleja qué tan explícito fue el mensaje.
+   */
+  static parse(message: string): ParsedMessage {
+    const normalized = stripPunctuation(ProductSearchService.normalize(message));
+    // "oye, por favor agrega..." → "agrega..."; un "hola" solo sigue siendo saludo
+    const command = normalized.replace(LEADING_COURTESY_PATTERN, '');
+    const rule = INTENT_RULES.find(candidate => candidate.pattern.test(command));
+
+    let intent: ChatIntent = rule?.intent ?? 'unknown';
+    let confidence = rule?.confidence ?? 0;
+    let items: ParsedItem[] = [];
+
+    if (intent === 'add_to_cart' || intent === 'remove_from_cart' || intent === 'search_product') {
+      items = ChatParserService.extractItems(command.replace(rule!.pattern, ''));
+    } else if (intent === 'unknown') {
+      // "2 kilos de jitomate" sin verbo: se entiende como agregar, con menos certeza
+      const implicit = ChatParserService.extractItems(command);
+      if (implicit.length > 0 && implicit.every(item => item.quantity !== null)) {
+        intent = 'add_to_cart';
+        confidence = 0.6;
+        items = implicit;
+      }
+    }
+
+    // Un verbo de compra sin producto reconocible no alcanza para actuar
+    if ((intent === 'add_to_cart' || intent === 'remove_from_cart') && items.length === 0) {
+      confidence = Math.min(confidence, 0.3);
+    }
+
+    return { intent, confidence, normalized, items };
+  }
+
+  /**
+   * Extraer qué productos pide una sugerencia libre: "quiero pitahaya orgánica" →
+   * [{ product: 'pitahaya', attributes: ['organica'] }]
+   */
+  static extractProductRequests(message: string): ProductRequest[] {
+    const normalized = stripPunctuation(ProductSearchService.normalize(message))
+      .replace(LEADING_COURTESY_PATTERN, '')
+      .replace(REQUEST_PATTERN, '');
+
+    return ChatParserService.extractItems(normalized)
+      .map(item => {
+        const attributes = item.text.match(ATTRIBUTE_PATTERN) ?? [];
+        const product = item.text
+          .replace(ATTRIBUTE_PATTERN, ' ')
+          .replace(/\b(que|de|del|para)\s*$/, '')
+          .replace(LEADING_ARTICLES, '')
+          .replace(/\s+/g, ' ')
+          .trim();
+
+        return { product, attributes, quantity: item.quantity, unit: item.unit };
+      })
+      .filter(request => request.product.length > 0);
+  }
+
+  /**
+   * Separar varios productos en un mismo mensaje: "2 kilos de jitomate, 1 kilo de cebolla y 3 aguacates"
+   */
+  static extractItems(text: string): ParsedItem[] {
+    const cleaned = text
+      .replace(FILLER_PATTERN, ' ')
+      .replace(CART_REFERENCE_PATTERN, ' ')
+      // "kilo y medio" no es un segundo producto
+      .replace(/\b(kilos?|kg) y (medio|media)\b/g, '$1 ymedio')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return cleaned
+      .split(/,(?!\d)| y | e /) // "1,5 kg" es un decimal, no una lista
+      .map(segment => segment.replace('ymedio', 'y medio').trim())
+      .filter(Boolean)
+      .map(parseItem)
+      .filter((item): item is ParsedItem => item !== null);
+  }
+}
@@ -0,0 +1,419 @@
+import { PrismaClient } from '@prisma/client';
+import { CartError, CartService } from './cartService';
+import { ChatIntent, ChatParserService, ParsedItem, ParsedMessage } from './chatParserService';
+import { ProductMatch, ProductSearchService } from './productSearchService';
+import { RolloverService } from './rolloverService';
+import { SubscriptionRenewalService } from './subscriptionRenewalService';
+
+const prisma = new PrismaClient();
+
+// Puntaje mínimo para agregar sin preguntar, y ventaja mínima sobre la segunda opción
+const AUTO_MATCH_SCORE = 0.75;
+const AUTO_MATCH_MARGIN = 0.1;
+
+// Opciones que se ofrecen cuando hay duda
+const MAX_OPTIONS = 3;
+
+// Por debajo de esta confianza el mensaje no se ejecuta
+const MIN_INTENT_CONFIDENCE = 0.5;
+
+export type ChatAction =
+  | 'added_to_cart'
+  | 'removed_from_cart'
+  | 'ask_clarification'
+  | 'not_found'
+  | 'rejected'
+  | 'answered';
+
+export interface ChatOption {
+  productId: string;
+  name: string;
+  score: number;
+  quantity: number; // Piezas a agregar si el cliente elige esta opción
+  available: boolean;
+}
+
+export interface ChatItemResult extends ParsedItem {
+  status: 'added' | 'removed' | 'found' | 'ambiguous' | 'not_found' | 'not_in_cart' | 'rejected';
+  matchedId: string | null;
+  confidence: number;
+  message?: string;
+}
+
+export interface ChatReply {
+  intent: ChatIntent;
+  confidence: number;
+  action: ChatAction;
+  message: string;
+  items: ChatItemResult[];
+  options: ChatOption[];
+  data?: Record<string, unknown>;
+}
+
+const ORDER_STATUS_LABELS: Record<string, string> = {
+  pending: 'pendiente de confirmar',
+  confirmed: 'confirmado',
+  preparing: 'en preparación',
+  partially_ready: 'parcialmente listo',
+  ready: 'listo / en camino',
+  partially_delivered: 'parcialmente entregado',
+  delivered: 'entregado',
+  cancelled: 'cancelado'
+};
+
+const HELP_MESSAGE = 'Puedo ayudarte con tu carrito y tu suscripción. Prueba con:\n'
+  + '• "agrega 2 kilos de jitomate"\n'
+  + '• "quita la cebolla"\n'
+  + '• "¿qué tengo en mi carrito?"\n'
+  + '• "¿cuánto me queda?"\n'
+  + '• "¿dónde está mi pedido?"\n'
+  + '• "¿tienen pitahaya?"';
+
+const formatKg = (kg: number) => `${Math.round(kg * 100) / 100} kg`;
+
+const formatDate = (date: Date) => date.toLocaleDateString('es-MX', { day: 'numeric', month: 'long', timeZone: 'UTC' });
+
+/**
+ * Convertir lo que pidió el cliente a piezas del producto: "2 kilos" de un producto de 0.5 kg son 4 piezas
+ */
+function toUnits(item: Pick<ParsedItem, 'quantity' | 'unit'>, weightInKg: number): number {
+  if (item.unit === 'kg' && item.quantity !== null && weightInKg > 0) {
+    return Math.max(1, Math.round(item.quantity / weightInKg));
+  }
+
+  return Math.max(1, Math.round(item.quantity ?? 1));
+}
+
+/**
+ * Hay un ganador claro si supera el umbral y le saca ventaja a la segunda opción
+ */
+const isConfidentMatch = (matches: ProductMatch[]) =>
+  matches.length > 0
+  && matches[0].score >= AUTO_MATCH_SCORE
+  && (matches.length === 1 || matches[0].score - matches[1].score >= AUTO_MATCH_MARGIN);
+
+/**
+ * Elegir la acción general a partir del resultado de cada producto
+ */
+function summarizeAction(items: ChatItemResult[], added: ChatAction): ChatAction {
+  if (items.some(item => item.status === 'added' || item.status === 'removed')) return added;
+  if (items.some(item => item.status === 'ambiguous')) return 'ask_clarification';
+  if (items.some(item => item.status === 'rejected')) return 'rejected';
+  return 'not_found';
+}
+
+export class ChatService {
+  /**
+   * Interpretar un mensaje y ejecutar la acción correspondiente
+   */
+  static async handleMessage(userId: string, message: string): Promise<{ parsed: ParsedMessage; reply: ChatReply }> {
+    const parsed = ChatParserService.parse(message);
+    const base = { intent: parsed.intent, confidence: parsed.confidence, items: [], options: [] };
+
+    if (parsed.confidence < MIN_INTENT_CONFIDENCE) {
+      const message = parsed.intent === 'add_to_cart' || parsed.intent === 'remove_from_cart'
+        ? '¿Qué producto? Por ejemplo: "agrega 2 kilos de jitomate".'
+        : `No entendí tu mensaje. ${HELP_MESSAGE}`;
+      return { parsed, reply: { ...base, action: 'ask_clarification', message } };
+    }
+
+    switch (parsed.intent) {
+      case 'add_to_cart':
+        return { parsed, reply: await ChatService.addItems(userId, parsed) };
+      case 'remove_from_cart':
+        return { parsed, reply: await ChatService.removeItems(userId, parsed) };
+      case 'view_cart':
+        return { parsed, reply: await ChatService.describeCart(userId, parsed) };
+      case 'remaining_kg':
+        return { parsed, reply: await ChatService.describeRemaining(userId, parsed) };
+      case 'order_status':
+        return { parsed, reply: await ChatService.describeLatestOrder(userId, parsed) };
+      case 'search_product':
+        return { parsed, reply: await ChatService.searchProducts(parsed) };
+      case 'greeting':
+        return { parsed, reply: { ...base, action: 'answered', message: `¡Hola! ${HELP_MESSAGE}` } };
+      default:
+        return { parsed, reply: { ...base, action: 'answered', message: HELP_MESSAGE } };
+    }
+  }
+
+  /**
+   * Agregar la opción que eligió el cliente después de una pregunta de aclaración
+   */
+  static async applyChoice(userId: string, productId: string, quantity: number): Promise<ChatReply> {
+    const product = await prisma.product.findUnique({ where: { id: productId }, select: { name: true } });
+    const item: ParsedItem = { text: product?.name ?? productId, quantity, unit: 'piece' };
+    const base = { intent: 'add_to_cart' as const, confidence: 1, options: [] };
+
+    try {
+      await CartService.addItem(userId, productId, quantity);
+      return {
+        ...base,
+        action: 'added_to_cart',
+        message: `Listo, agregué ${quantity} × ${item.text} a tu carrito.`,
+        items: [{ ...item, status: 'added', matchedId: productId, confidence: 1 }]
+      };
+    } catch (error) {
+      if (!(error instanceof CartError)) throw error;
+      return {
+        ...base,
+        action: 'rejected',
+        message: error.message,
+        items: [{ ...item, status: 'rejected', matchedId: productId, confidence: 1, message: error.message }]
+      };
+    }
+  }
+
+  private static async addItems(userId: string, parsed: ParsedMessage): Promise<ChatReply> {
+    const items: ChatItemResult[] = [];
+    const options: ChatOption[] = [];
+    const lines: string[] = [];
+
+    for (const item of parsed.items) {
+      const matches = await ProductSearchService.match(item.text, MAX_OPTIONS);
+
+      if (matches.length === 0) {
+        items.push({ ...item, status: 'not_found', matchedId: null, confidence: 0 });
+        lines.push(`No encontré "${item.text}" en el catálogo.`);
+        continue;
+      }
+
+      const products = await prisma.product.findMany({
+        where: { id: { in: matches.map(match => match.id) } },
+        select: { id: true, name: true, weightInKg: true, available: true, stock: true }
+      });
+      const productById = new Map(products.map(product => [product.id, product]));
+
+      if (!isConfidentMatch(matches)) {
+        items.push({ ...item, status: 'ambiguous', matchedId: null, confidence: matches[0].score });
+        lines.push(`¿A cuál te refieres con "${item.text}"?`);
+        for (const match of matches) {
+          const product = productById.get(match.id);
+          if (!product) continue;
+          options.push({
+            productId: product.id,
+            name: product.name,
+            score: match.score,
+            quantity: toUnits(item, product.weightInKg),
+            available: product.available && product.stock > 0
+          });
+        }
+        continue;
+      }
+
+      const best = matches[0];
+      const product = productById.get(best.id);
+
+      if (!product) {
+        items.push({ ...item, status: 'not_found', matchedId: null, confidence: 0 });
+        lines.push(`No encontré "${item.text}" en el catálogo.`);
+        continue;
+      }
+
+      const units = toUnits(item, product.weightInKg);
+
+      try {
+        await CartService.addItem(userId, product.id, units);
+        items.push({ ...item, status: 'added', matchedId: product.id, confidence: best.score });
+        lines.push(item.unit === 'kg'
+          ? `Agregué ${units} × ${product.name} (${formatKg(units * product.weightInKg)}).`
+          : `Agregué ${units} × ${product.name}.`);
+      } catch (error) {
+        if (!(error instanceof CartError)) throw error;
+        items.push({ ...item, status: 'rejected', matchedId: product.id, confidence: best.score, message: error.message });
+        lines.push(`${product.name}: ${error.message}`);
+      }
+    }
+
+    return {
+      intent: parsed.intent,
+      confidence: parsed.confidence,
+      action: summarizeAction(items, 'added_to_cart'),
+      message: lines.join('\n'),
+      items,
+      options
+    };
+  }
+
+  private static async removeItems(userId: string, parsed: ParsedMessage): Promise<ChatReply> {
+    const cartItems = await prisma.cartItem.findMany({
+      where: { cart: { userId } },
+      select: { productId: true, name: true, quantity: true }
+    });
+    const items: ChatItemResult[] = [];
+    const lines: string[] = [];
+
+    for (const item of parsed.items) {
+      const term = ProductSearchService.normalize(item.text);
+      // Primero por nombre ("cebolla" en "Cebolla blanca"), luego por similitud con el catálogo ("cebollas")
+      let cartItem = cartItems.find(candidate => ProductSearchService.normalize(candidate.name).includes(term));
+      let confidence = cartItem ? 1 : 0;
+
+      if (!cartItem) {
+        const matches = await ProductSearchService.match(item.text, MAX_OPTIONS);
+        const match = matches.find(candidate => cartItems.some(cart => cart.productId === candidate.id));
+        cartItem = match ? cartItems.find(cart => cart.productId === match.id) : undefined;
+        confidence = match?.score ?? 0;
+      }
+
+      if (!cartItem) {
+        items.push({ ...item, status: 'not_in_cart', matchedId: null, confidence: 0 });
+        lines.push(`No tienes "${item.text}" en tu carrito.`);
+        continue;
+      }
+
+      await CartService.removeProduct(userId, cartItem.productId);
+      items.push({ ...item, status: 'removed', matchedId: cartItem.productId, confidence });
+      lines.push(`Quité ${cartItem.name} de tu carrito.`);
+    }
+
+    return {
+      intent: parsed.intent,
+      confidence: parsed.confidence,
+      action: summarizeAction(items, 'removed_from_cart'),
+      message: lines.join('\n'),
+      items,
+      options: []
+    };
+  }
+
+  private static async describeCart(userId: string, parsed: ParsedMessage): Promise<ChatReply> {
+    const cart = await prisma.cart.findFirst({
+      where: { userId },
+      include: { items: { orderBy: { createdAt: 'asc' } } }
+    });
+    const base = { intent: parsed.intent, confidence: parsed.confidence, action: 'answered' as const, items: [], options: [] };
+
+    if (!cart || cart.items.length === 0) {
+      return { ...base, message: 'Tu carrito está vacío.' };
+    }
+
+    const lines = cart.items.map(item => `• ${item.quantity} × ${item.name} (${formatKg(item.weightInKg)})`);
+
+    return {
+      ...base,
+      message: `Tu carrito (${formatKg(cart.totalWeightInKg)}):\n${lines.join('\n')}`,
+      data: { totalWeightInKg: cart.totalWeightInKg, itemCount: cart.items.length }
+    };
+  }
+
+  private static async describeRemaining(userId: string, parsed: ParsedMessage): Promise<ChatReply> {
+    const base = { intent: parsed.intent, confidence: parsed.confidence, action: 'answered' as const, items: [], options: [] };
+
+    // Cerrar el periodo si ya venció antes de leer el uso
+    await SubscriptionRenewalService.renewForUser(userId);
+
+    const [subscription, cart] = await Promise.all([
+      prisma.subscription.findUnique({ where: { userId } }),
+      prisma.cart.findFirst({ where: { userId }, select: { totalWeightInKg: true } })
+    ]);
+
+    if (!subscription || !subscription.isActive) {
+      return { ...base, message: 'No tienes una suscripción activa.' };
+    }
+
+    const { remainingKg, rolloverKg, rolloverRemainingKg, usedKg } = RolloverService.getAllowance(subscription);
+    const cartKg = cart?.totalWeightInKg ?? 0;
+    const lines = [
+      `Te quedan ${formatKg(remainingKg)} de ${formatKg(subscription.limitInKg + rolloverKg)} de tu plan ${subscription.plan}.`,
+      `Tu periodo se renueva el ${formatDate(subscription.renewalDate)}.`
+    ];
+
+    if (rolloverRemainingKg > 0) {
+      lines.splice(1, 0, `Incluye ${formatKg(rolloverRemainingKg)} que pasaron del mes anterior y se usan primero.`);
+    }
+
+    if (cartKg > 0) {
+      lines.push(`Tu carrito suma ${formatKg(cartKg)}; al confirmarlo te quedarían ${formatKg(Math.max(0, remainingKg - cartKg))}.`);
+    }
+
+    return {
+      ...base,
+      message: lines.join(' '),
+      data: {
+        plan: subscription.plan,
+        limitInKg: subscription.limitInKg,
+        usedKg,
+        rolloverKg,
+        remainingKg,
+        cartKg,
+        renewalDate: subscription.renewalDate
+      }
+    };
+  }
+
+  private static async describeLatestOrder(userId: string, parsed: ParsedMessage): Promise<ChatReply> {
+    const base = { intent: parsed.intent, confidence: parsed.confidence, action: 'answered' as const, items: [], options: [] };
+    const include = { deliverySlot: { select: { date: true, startTime: true, endTime: true } } };
+
+    // El pedido en curso más reciente; si no hay, el último que hizo
+    const order = await prisma.order.findFirst({
+      where: { userId, status: { notIn: ['delivered', 'cancelled'] } },
+      orderBy: { createdAt: 'desc' },
+      include
+    }) ?? await prisma.order.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      include
+    });
+
+    if (!order) {
+      return { ...base, message: 'Todavía no tienes pedidos.' };
+    }
+
+    const lines = [`Tu pedido del ${formatDate(order.createdAt)} está ${ORDER_STATUS_LABELS[order.status] ?? order.status}.`];
+
+    if (order.deliverySlot && order.status !== 'delivered' && order.status !== 'cancelled') {
+      lines.push(`Entrega programada: ${formatDate(order.deliverySlot.date)}, ${order.deliverySlot.startTime}-${order.deliverySlot.endTime}.`);
+    }
+
+    return {
+      ...base,
+      message: lines.join(' '),
+      data: { orderId: order.id, status: order.status }
+    };
+  }
+
+  private static async searchProducts(parsed: ParsedMessage): Promise<ChatReply> {
+    const items: ChatItemResult[] = [];
+    const options: ChatOption[] = [];
+    const lines: string[] = [];
+
+    for (const item of parsed.items) {
+      const matches = await ProductSearchService.match(item.text, MAX_OPTIONS);
+
+      if (matches.length === 0) {
+        items.push({ ...item, status: 'not_found', matchedId: null, confidence: 0 });
+        lines.push(`No tenemos "${item.text}" por ahora.`);
+        continue;
+      }
+
+      const products = await prisma.product.findMany({
+        where: { id: { in: matches.map(match => match.id) } },
+        select: { id: true, name: true, weightInKg: true, available: true, stock: true }
+      });
+      const productById = new Map(products.map(product => [product.id, product]));
+      const found: string[] = [];
+
+      for (const match of matches) {
+        const product = productById.get(match.id);
+        if (!product) continue;
+        const available = product.available && product.stock > 0;
+        options.push({ productId: product.id, name: product.name, score: match.score, quantity: toUnits(item, product.weightInKg), available });
+        found.push(available ? product.name : `${product.name} (agotado)`);
+      }
+
+      items.push({ ...item, status: 'found', matchedId: isConfidentMatch(matches) ? matches[0].id : null, confidence: matches[0].score });
+      lines.push(`Para "${item.text}" encontré: ${found.join(', ')}.`);
+    }
+
+    return {
+      intent: parsed.intent,
+      confidence: parsed.confidence,
+      action: options.length > 0 ? 'answered' : 'not_found',
+      message: lines.join('\n'),
+      items,
+      options
+    };
+  }
+}
@@ -0,0 +1,337 @@
+import { Order, Prisma } from '@prisma/client';
+import { UsageLedgerService } from './usageLedgerService';
+import { OrderStatusService, StatusActor } from './orderStatusService';
+import { DeliverySlotService } from './deliverySlotService';
+import { AddressSnapshot } from '../utils/address';
+import { PlanService } from './planService';
+import { RolloverService } from './rolloverService';
+import { SubscriptionPauseService } from './subscriptionPauseService';
+import { EmailVerificationService, EMAIL_NOT_VERIFIED } from './emailVerificationService';
+
+export interface CheckoutLine {
+  productId: string;
+  quantity: number;
+}
+
+export interface PlaceOrderParams {
+  userId: string;
+  lines: CheckoutLine[];
+  deliveryAddress?: string | null;
+  addressId?: string | null;
+  deliverySnapshot?: AddressSnapshot | null;
+  deliverySlotId?: string | null;
+  notes?: string | null;
+  actor: StatusActor;
+  // Pedidos recurrentes: omitir los productos que no se pueden surtir en lugar de rechazar el pedido
+  skipUnavailable?: boolean;
+  // Pedidos recurrentes: sin horario elegido, tomar el primero con cupo
+  autoReserveSlot?: boolean;
+}
+
+export type SkipReason = 'unavailable' | 'out_of_stock' | 'category_not_allowed';
+
+export interface SkippedLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  reason: SkipReason;
+}
+
+export interface PlaceOrderResult {
+  order: Order;
+  skipped: SkippedLine[];
+}
+
+interface OutOfStockItem {
+  productId: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Error de negocio lanzado dentro de la transacción de checkout.
+ * Hace rollback y se responde con su código y datos estructurados.
+ */
+export class CheckoutError extends Error {
+  constructor(public statusCode: number, message: string, public data?: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+export class CheckoutService {
+  /**
+   * Crear un pedido validando suscripción, categorías del plan, stock y límite de kg.
+   * Descuenta stock, reserva la ventana de entrega, crea un surtido por productor y
+   * registra el consumo. Debe ejecutarse dentro de una transacción; los errores de
+   * negocio se lanzan como CheckoutError para que hagan rollback.
+   */
+  static async placeOrder(tx: Prisma.TransactionClient, params: PlaceOrderParams): Promise<PlaceOrderResult> {
+    const { userId } = params;
+
+    // Bloquear la suscripción para que dos checkouts no validen el mismo saldo
+    await tx.subscription.updateMany({
+      where: { userId },
+      data: { updatedAt: new Date() }
+    });
+
+    const subscription = await tx.subscription.findUnique({
+      where: { userId }
+    });
+
+    if (!subscription || !subscription.isActive) {
+      throw new CheckoutError(403, 'No tienes una suscripción activa');
+    }
+
+    // Vencido el plazo sin confirmar el correo no se puede pedir: la cuenta podría usar un correo ajeno
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { emailVerifiedAt: true, emailVerificationDueAt: true }
+    });
+
+    if (!user || EmailVerificationService.isOverdue(user)) {
+      throw new CheckoutError(403, 'Confirma tu correo antes de hacer pedidos. Puedes pedir un código nuevo desde tu perfil.', {
+        code: EMAIL_NOT_VERIFIED
+      });
+    }
+
+    if (SubscriptionPauseService.isPaused(subscription)) {
+      throw new CheckoutError(403, SubscriptionPauseService.pausedMessage(subscription), {
+        pausedUntil: subscription.pausedUntil
+      });
+    }
+
+    const plan = await PlanService.findByCode(subscription.plan, tx);
+
+    const products = await tx.product.findMany({
+      where: { id: { in: params.lines.map(line => line.productId) } },
+      include: { producer: true }
+    });
+    const productById = new Map(products.map(product => [product.id, product]));
+
+    const skipped: SkippedLine[] = [];
+    const outOfStock: OutOfStockItem[] = [];
+    const candidates: Array<{ line: CheckoutLine; product: typeof products[number] }> = [];
+
+    for (const line of params.lines) {
+      const product = productById.get(line.productId);
+
+      if (!product) {
+        if (params.skipUnavailable) {
+          skipped.push({ productId: line.productId, name: 'Producto eliminado', quantity: line.quantity, reason: 'unavailable' });
+        } else {
+          outOfStock.push({ productId: line.productId, name: 'Producto eliminado', requested: line.quantity, available: 0 });
+        }
+        continue;
+      }
+
+      if (!PlanService.isCategoryAllowed(plan, product.category)) {
+        if (!params.skipUnavailable) {
+          throw new CheckoutError(
+            403,
+            `Tu plan ${plan?.name ?? subscription.plan} no permite productos de la categoría ${product.category}.`,
+            { productId: product.id, category: product.category, plan: subscription.plan }
+          );
+        }
+
+        skipped.push({ productId: product.id, name: product.name, quantity: line.quantity, reason: 'category_not_allowed' });
+        continue;
+      }
+
+      if (params.skipUnavailable && (!product.available || product.deletedAt || product.moderationStatus !== 'approved')) {
+        skipped.push({ productId: product.id, name: product.name, quantity: line.quantity, reason: 'unavailable' });
+        continue;
+      }
+
+      candidates.push({ line, product });
+    }
+
+    // Descontar stock de forma condicional: solo si todavía alcanza
+    const accepted: typeof candidates = [];
+
+    for (const candidate of candidates) {
+      const { count } = await tx.product.updateMany({
+        where: {
+          id: candidate.product.id,
+          available: true,
+          deletedAt: null,
+          stock: { gte: candidate.line.quantity }
+        },
+        data: {
+          stock: { decrement: candidate.line.quantity }
+        }
+      });
+
+      if (count > 0) {
+        accepted.push(candidate);
+      } else if (params.skipUnavailable) {
+        skipped.push({
+          productId: candidate.product.id,
+          name: candidate.product.name,
+          quantity: candidate.line.quantity,
+          reason: 'out_of_stock'
+        });
+      } else {
+        const product = await tx.product.findUnique({
+          where: { id: candidate.product.id },
+          select: { stock: true, available: true }
+        });
+
+        outOfStock.push({
+          productId: candidate.product.id,
+          name: candidate.product.name,
+          requested: candidate.line.quantity,
+          available: product && product.available ? product.stock : 0
+        });
+      }
+    }
+
+    if (outOfStock.length > 0) {
+      throw new CheckoutError(
+        409,
+        'Algunos productos ya no tienen stock suficiente',
+        { outOfStock }
+      );
+    }
+
+    if (accepted.length === 0) {
+      throw new CheckoutError(400, 'Ninguno de los productos se puede surtir', { skipped });
+    }
+
+    // Calcular peso total del pedido
+    const weightOf = (candidate: typeof accepted[number]) => candidate.product.weightInKg * candidate.line.quantity;
+    const totalWeightInKg = accepted.reduce((sum, candidate) => sum + weightOf(candidate), 0);
+
+    // Validar que no exceda el límite (incluye los kg heredados del periodo anterior)
+    const { totalLimitKg, rolloverKg, remainingKg, usedKg } = RolloverService.getAllowance(subscription);
+    const newUsedKg = usedKg + totalWeightInKg;
+    if (newUsedKg > totalLimitKg) {
+      throw new CheckoutError(
+        400,
+        `No puedes crear este pedido. Excederías tu límite de ${totalLimitKg} kg. Te quedan ${remainingKg.toFixed(2)} kg disponibles.`,
+        {
+          totalWeightInKg,
+          currentUsed: usedKg,
+          limit: subscription.limitInKg,
+          rolloverKg,
+          wouldExceed: true
+        }
+      );
+    }
+
+    // Reservar cupo en la ventana de entrega elegida
+    let deliverySlotId = params.deliverySlotId ?? null;
+    let deliveryDate: Date | null = null;
+
+    if (params.deliverySlotId) {
+      const reservation = await DeliverySlotService.reserve(tx, params.deliverySlotId, totalWeightInKg);
+
+      if (!reservation.ok) {
+        if (reservation.reason === 'not_found') {
+          throw new CheckoutError(404, 'Horario de entrega no encontrado');
+        }
+
+        throw new CheckoutError(
+          409,
+          reservation.reason === 'full'
+            ? 'El horario de entrega elegido ya está lleno'
+            : 'El horario de entrega elegido ya no está disponible',
+          { slotId: params.deliverySlotId, slotUnavailable: true, ...DeliverySlotService.remaining(reservation.slot!) }
+        );
+      }
+
+      deliveryDate = reservation.slot.date;
+    } else {
+      // Sin horario elegido solo se puede pedir si no hay ventanas en los próximos días;
+      // si no, cualquier cliente se saltaría el cupo
+      const upcoming = await DeliverySlotService.findUpcoming(tx);
+
+      if (upcoming.length > 0) {
+        const withCapacity = upcoming.filter(slot => DeliverySlotService.hasCapacity(slot, totalWeightInKg));
+
+        if (withCapacity.length > 0 && !params.autoReserveSlot) {
+          throw new CheckoutError(400, 'Elige un horario de entrega', { slotRequired: true });
+        }
+
+        for (const candidate of withCapacity) {
+          const reservation = await DeliverySlotService.reserve(tx, candidate.id, totalWeightInKg);
+
+          if (reservation.ok) {
+            deliverySlotId = candidate.id;
+            deliveryDate = reservation.slot.date;
+            break;
+          }
+        }
+
+        if (!deliverySlotId) {
+          throw new CheckoutError(409, 'No hay horarios de entrega con cupo en los próximos días', { slotUnavailable: true });
+        }
+      }
+    }
+
+    // Crear pedido
+    const order = await tx.order.create({
+      data: {
+        userId,
+        totalWeightInKg,
+        status: 'pending',
+        deliveryAddress: params.deliveryAddress ?? null,
+        addressId: params.addressId ?? null,
+        deliverySnapshot: params.deliverySnapshot ?? undefined,
+        deliverySlotId,
+        deliveryDate,
+        notes: params.notes ?? null
+      }
+    });
+
+    await OrderStatusService.recordEvent(tx, {
+      orderId: order.id,
+      fromStatus: null,
+      toStatus: 'pending',
+      ...params.actor
+    });
+
+    // Un surtido por productor, cada uno con sus propios items
+    const itemsByProducer = new Map<string, typeof accepted>();
+    for (const candidate of accepted) {
+      const producerItems = itemsByProducer.get(candidate.product.producerId) || [];
+      producerItems.push(candidate);
+      itemsByProducer.set(candidate.product.producerId, producerItems);
+    }
+
+    for (const [producerId, producerItems] of itemsByProducer) {
+      const fulfillment = await tx.orderFulfillment.create({
+        data: {
+          orderId: order.id,
+          producerId,
+          status: 'pending',
+          totalWeightInKg: producerItems.reduce((sum, candidate) => sum + weightOf(candidate), 0)
+        }
+      });
+
+      await tx.orderItem.createMany({
+        data: producerItems.map(candidate => ({
+          orderId: order.id,
+          fulfillmentId: fulfillment.id,
+          productId: candidate.product.id,
+          quantity: candidate.line.quantity,
+          weightInKg: weightOf(candidate),
+          name: candidate.product.name,
+          image: candidate.product.image,
+          producerName: candidate.product.producer.businessName
+        }))
+      });
+    }
+
+    // Registrar el consumo en el libro de uso (actualiza usedKg)
+    await UsageLedgerService.recordEntry(tx, {
+      subscriptionId: subscription.id,
+      type: 'order_debit',
+      amountKg: totalWeightInKg,
+      orderId: order.id,
+      actorId: params.actor.actorId
+    });
+
+    return { order, skipped };
+  }
+}
@@ -0,0 +1,113 @@
+import { DeliverySlot, Prisma } from '@prisma/client';
+
+export type SlotReservation =
+  | { ok: true; slot: DeliverySlot }
+  | { ok: false; reason: 'not_found' | 'closed' | 'full'; slot?: DeliverySlot };
+
+export interface SlotRelease {
+  orders: number;
+  kg: number;
+}
+
+// Inicio del día actual (UTC); las ventanas se guardan como fecha sin hora
+export const startOfToday = () => new Date(`${new Date().toISOString().slice(0, 10)}T00:00:00.000Z`);
+
+// Días hacia adelante que ve el cliente en el checkout
+export const DEFAULT_DAYS_AHEAD = 14;
+
+export class DeliverySlotService {
+  /**
+   * Cupo restante de una ventana; null = sin límite en esa dimensión
+   */
+  static remaining(slot: DeliverySlot) {
+    return {
+      remainingOrders: slot.maxOrders !== null ? Math.max(0, slot.maxOrders - slot.reservedOrders) : null,
+      remainingKg: slot.maxKg !== null ? Math.max(0, Math.round((slot.maxKg - slot.reservedKg) * 100) / 100) : null
+    };
+  }
+
+  /**
+   * Indicar si la ventana admite un pedido más del peso indicado
+   */
+  static hasCapacity(slot: DeliverySlot, weightKg: number): boolean {
+    const ordersOk = slot.maxOrders === null || slot.reservedOrders + 1 <= slot.maxOrders;
+    const kgOk = slot.maxKg === null || slot.reservedKg + weightKg <= slot.maxKg + 1e-9;
+    return ordersOk && kgOk;
+  }
+
+  /**
+   * Ventanas activas de los próximos días (las que ofrece el checkout), en orden de entrega
+   */
+  static async findUpcoming(db: Prisma.TransactionClient): Promise<DeliverySlot[]> {
+    const today = startOfToday();
+
+    return db.deliverySlot.findMany({
+      where: {
+        isActive: true,
+        date: { gte: today, lte: new Date(today.getTime() + DEFAULT_DAYS_AHEAD * 24 * 60 * 60 * 1000) }
+      },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }, { zone: 'asc' }]
+    });
+  }
+
+  /**
+   * Reservar cupo para un pedido. Bloquea la fila para que dos checkouts
+   * simultáneos no tomen el último lugar. Debe ejecutarse dentro de una transacción.
+   */
+  static async reserve(tx: Prisma.TransactionClient, slotId: string, weightKg: number): Promise<SlotReservation> {
+    // Bloquear la ventana hasta el fin de la transacción
+    const { count } = await tx.deliverySlot.updateMany({
+      where: { id: slotId },
+      data: { updatedAt: new Date() }
+    });
+
+    if (count === 0) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    const slot = await tx.deliverySlot.findUniqueOrThrow({ where: { id: slotId } });
+
+    if (!slot.isActive || slot.date < startOfToday()) {
+      return { ok: false, reason: 'closed', slot };
+    }
+
+    if (!DeliverySlotService.hasCapacity(slot, weightKg)) {
+      return { ok: false, reason: 'full', slot };
+    }
+
+    const reserved = await tx.deliverySlot.update({
+      where: { id: slotId },
+      data: {
+        reservedOrders: { increment: 1 },
+        reservedKg: { increment: weightKg }
+      }
+    });
+
+    return { ok: true, slot: reserved };
+  }
+
+  /**
+   * Liberar cupo al cancelar un pedido o el surtido de un productor
+   */
+  static async release(tx: Prisma.TransactionClient, slotId: string, release: SlotRelease): Promise<void> {
+    // Mismo bloqueo que reserve() para no perder reservas concurrentes
+    const { count } = await tx.deliverySlot.updateMany({
+      where: { id: slotId },
+      data: { updatedAt: new Date() }
+    });
+
+    if (count === 0) {
+      return;
+    }
+
+    const slot = await tx.deliverySlot.findUniqueOrThrow({ where: { id: slotId } });
+
+    await tx.deliverySlot.update({
+      where: { id: slotId },
+      data: {
+        reservedOrders: Math.max(0, slot.reservedOrders - release.orders),
+        reservedKg: Math.max(0, Math.round((slot.reservedKg - release.kg) * 1000) / 1000)
+      }
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { User } from '@prisma/client';
+
+// Días que una cuenta puede seguir entrando y pidiendo sin confirmar su correo
+const GRACE_DAYS = parseInt(process.env.EMAIL_VERIFICATION_GRACE_DAYS || '7');
+
+// Código que recibe la app para mostrar la pantalla de confirmación
+export const EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED';
+
+type VerificationFields = Pick<User, 'emailVerifiedAt' | 'emailVerificationDueAt'>;
+
+export class EmailVerificationService {
+  /**
+   * Fecha límite para confirmar el correo si el plazo empieza ahora
+   */
+  static dueDate(now: Date = new Date()): Date {
+    return new Date(now.getTime() + GRACE_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * ¿Ya venció el plazo sin confirmar el correo? Las cuentas anteriores a la verificación
+   * (sin fecha límite) todavía no: su plazo empieza en el siguiente inicio de sesión.
+   */
+  static isOverdue(user: VerificationFields, now: Date = new Date()): boolean {
+    return !user.emailVerifiedAt && !!user.emailVerificationDueAt && user.emailVerificationDueAt <= now;
+  }
+}
@@ -0,0 +1,90 @@
+import { Order, Prisma, PrismaClient } from '@prisma/client';
+import { deriveOrderStatus, FULFILLMENT_STATUSES } from '../utils/orderStatus';
+import { OrderStatusService, StatusActor } from './orderStatusService';
+
+const prisma = new PrismaClient();
+
+export class FulfillmentService {
+  /**
+   * Crear los surtidos de pedidos hechos antes de que existieran: uno por productor,
+   * con el estado actual del pedido, para que el productor los vea y los pueda avanzar.
+   * @returns número de surtidos creados
+   */
+  static async backfill(): Promise<number> {
+    const items = await prisma.orderItem.findMany({
+      where: { fulfillmentId: null },
+      select: {
+        id: true,
+        orderId: true,
+        weightInKg: true,
+        product: { select: { producerId: true } },
+        order: { select: { status: true } }
+      }
+    });
+
+    const groups = new Map<string, typeof items>();
+    for (const item of items) {
+      const key = `${item.orderId}:${item.product.producerId}`;
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+
+    for (const group of groups.values()) {
+      const [{ orderId, product, order }] = group;
+      // Los estados parciales solo existen con surtidos; un pedido antiguo no los tiene
+      const status = FULFILLMENT_STATUSES.includes(order.status) ? order.status : 'pending';
+      const totalWeightInKg = group.reduce((sum, item) => sum + item.weightInKg, 0);
+
+      await prisma.$transaction(async (tx) => {
+        const fulfillment = await tx.orderFulfillment.upsert({
+          where: { orderId_producerId: { orderId, producerId: product.producerId } },
+          create: { orderId, producerId: product.producerId, status, totalWeightInKg },
+          update: { totalWeightInKg: { increment: totalWeightInKg } }
+        });
+
+        await tx.orderItem.updateMany({
+          where: { id: { in: group.map(item => item.id) }, fulfillmentId: null },
+          data: { fulfillmentId: fulfillment.id }
+        });
+      });
+    }
+
+    return groups.size;
+  }
+
+  /**
+   * Recalcular el estado del pedido padre a partir de sus surtidos por productor.
+   * Si cambia, se registra la transición en el historial del pedido.
+   * Debe ejecutarse dentro de la misma transacción que modificó los surtidos.
+   */
+  static async syncOrderStatus(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    actor: StatusActor
+  ): Promise<Order> {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: { fulfillments: { select: { status: true } } }
+    });
+
+    const { fulfillments, ...orderData } = order;
+    const status = deriveOrderStatus(fulfillments.map(fulfillment => fulfillment.status));
+
+    if (status === orderData.status) {
+      return orderData;
+    }
+
+    const updatedOrder = await tx.order.update({
+      where: { id: orderId },
+      data: { status }
+    });
+
+    await OrderStatusService.recordEvent(tx, {
+      orderId,
+      fromStatus: orderData.status,
+      toStatus: status,
+      ...actor
+    });
+
+    return updatedOrder;
+  }
+}
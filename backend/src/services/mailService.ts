@@ -0,0 +1,128 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Medio por el que sale el correo. En desarrollo y pruebas se usa consola o archivo;
+ * un proveedor real (SMTP, API) solo tiene que implementar send.
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Imprime el correo en la consola del servidor
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`📧 Correo para ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Guarda cada correo como archivo JSON en una carpeta (bandeja local para pruebas)
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private outboxDir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Envía por SMTP con las variables SMTP_*; es el transporte de producción
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(options: { host: string; port: number; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.port === 465, // 465 = TLS directo; 587 negocia STARTTLS
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  static fromEnv(): SmtpMailTransport {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required for the smtp mail transport');
+    }
+
+    return new SmtpMailTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'GreenFit <no-reply@greenfit.app>';
+
+// Consola y archivo dejan los códigos a la vista: solo sirven fuera de producción
+const LOCAL_ENVIRONMENTS = ['development', 'test'];
+
+function createTransportFromEnv(): MailTransport {
+  const environment = process.env.NODE_ENV ?? '';
+  const isLocal = LOCAL_ENVIRONMENTS.includes(environment);
+  const transportName = process.env.MAIL_TRANSPORT || (isLocal ? 'console' : 'smtp');
+
+  if (transportName === 'smtp') {
+    return SmtpMailTransport.fromEnv();
+  }
+
+  if (!isLocal) {
+    throw new Error(
+      `MAIL_TRANSPORT="${transportName}" is only allowed in development or test (NODE_ENV="${environment}"); use smtp`
+    );
+  }
+
+  switch (transportName) {
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || './mail-outbox');
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export class MailService {
+  /**
+   * Elegir el transporte según el entorno. Se llama al arrancar el servidor para que
+   * una configuración inválida falle ahí y no al enviar el primer código.
+   */
+  static configure(): void {
+    transport = transport ?? createTransportFromEnv();
+  }
+
+  /**
+   * Reemplazar el transporte (por ejemplo, uno que guarde en memoria para pruebas)
+   */
+  static setTransport(nextTransport: MailTransport): void {
+    transport = nextTransport;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    MailService.configure();
+    await transport!.send({ ...message, from: MAIL_FROM });
+  }
+}
@@ -0,0 +1,27 @@
+import { Notification, Prisma } from '@prisma/client';
+
+export interface CreateNotificationParams {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  data?: Prisma.InputJsonValue;
+}
+
+export class NotificationService {
+  /**
+   * Crear un aviso para el usuario. Recibe la transacción para que el aviso
+   * solo exista si la operación que lo origina se confirma.
+   */
+  static async create(tx: Prisma.TransactionClient, params: CreateNotificationParams): Promise<Notification> {
+    return tx.notification.create({
+      data: {
+        userId: params.userId,
+        type: params.type,
+        title: params.title,
+        message: params.message,
+        data: params.data ?? undefined
+      }
+    });
+  }
+}
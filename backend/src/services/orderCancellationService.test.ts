@@ -0,0 +1,109 @@
+import { Order, Prisma } from '@prisma/client';
+import { OrderCancellationService } from './orderCancellationService';
+import { UsageLedgerService } from './usageLedgerService';
+
+const currentPeriod = new Date('2025-03-01T00:00:00.000Z');
+const closedPeriod = new Date('2025-02-01T00:00:00.000Z');
+
+const order = {
+  id: 'order-1',
+  userId: 'user-1',
+  totalWeightInKg: 5,
+  createdAt: new Date('2025-03-10T00:00:00.000Z')
+} as Order;
+
+type LedgerEntry = { type: string; amountKg: number; periodStart: Date };
+
+/**
+ * Cliente transaccional con la suscripción y los movimientos del pedido
+ */
+function createRefundTx(entries: LedgerEntry[]) {
+  return {
+    subscription: {
+      findUnique: jest.fn(async () => ({ id: 'sub-1', periodStart: currentPeriod }))
+    },
+    subscriptionUsageEntry: {
+      findMany: jest.fn(async () => entries)
+    },
+    subscriptionPeriod: {
+      findFirst: jest.fn(async () => ({ periodStart: closedPeriod }))
+    }
+  } as unknown as Prisma.TransactionClient;
+}
+
+const refundKg = (tx: Prisma.TransactionClient, target: Order, amountKg?: number) =>
+  OrderCancellationService['refundKg'](tx, target, 'user-1', null, amountKg);
+
+describe('OrderCancellationService.refundKg', () => {
+  let recordEntry: jest.SpyInstance;
+
+  beforeEach(() => {
+    recordEntry = jest.spyOn(UsageLedgerService, 'recordEntry').mockResolvedValue({} as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('devuelve el cobro completo al periodo en que se hizo', async () => {
+    const tx = createRefundTx([{ type: 'order_debit', amountKg: 5, periodStart: currentPeriod }]);
+
+    const result = await refundKg(tx, order);
+
+    expect(result).toEqual({ refundedKg: 5, refundPeriodStart: currentPeriod, creditedToCurrentPeriod: true });
+    expect(recordEntry).toHaveBeenCalledWith(tx, expect.objectContaining({
+      type: 'order_cancellation',
+      amountKg: -5,
+      periodStart: currentPeriod
+    }));
+  });
+
+  it('no devuelve más de lo que queda sin devolver del pedido', async () => {
+    const tx = createRefundTx([
+      { type: 'order_debit', amountKg: 5, periodStart: currentPeriod },
+      { type: 'order_cancellation', amountKg: -2, periodStart: currentPeriod }
+    ]);
+
+    const result = await refundKg(tx, order, 4);
+
+    expect(result.refundedKg).toBe(3);
+  });
+
+  it('no devuelve nada si el pedido ya se devolvió completo', async () => {
+    const tx = createRefundTx([
+      { type: 'order_debit', amountKg: 5, periodStart: currentPeriod },
+      { type: 'order_cancellation', amountKg: -5, periodStart: currentPeriod }
+    ]);
+
+    const result = await refundKg(tx, order);
+
+    expect(result.refundedKg).toBe(0);
+    expect(recordEntry).not.toHaveBeenCalled();
+  });
+
+  it('deja en el historial la devolución de un periodo cerrado', async () => {
+    const tx = createRefundTx([{ type: 'order_debit', amountKg: 5, periodStart: closedPeriod }]);
+
+    const result = await refundKg(tx, order);
+
+    expect(result).toEqual({ refundedKg: 5, refundPeriodStart: closedPeriod, creditedToCurrentPeriod: false });
+  });
+
+  it('acota un pedido anterior al libro a lo registrado en su periodo', async () => {
+    jest.spyOn(UsageLedgerService, 'getPeriodUsage').mockResolvedValue(3.5);
+    const tx = createRefundTx([]);
+
+    const result = await refundKg(tx, order);
+
+    expect(result.refundedKg).toBe(3.5);
+  });
+
+  it('descuenta las devoluciones parciales de un pedido anterior al libro', async () => {
+    jest.spyOn(UsageLedgerService, 'getPeriodUsage').mockResolvedValue(10);
+    const tx = createRefundTx([{ type: 'order_cancellation', amountKg: -2, periodStart: currentPeriod }]);
+
+    const result = await refundKg(tx, order);
+
+    expect(result.refundedKg).toBe(3);
+  });
+});
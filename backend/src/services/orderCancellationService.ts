@@ -0,0 +1,296 @@
+import { Order, OrderItem, Prisma } from '@prisma/client';
+import { UsageLedgerService } from './usageLedgerService';
+import { FulfillmentService } from './fulfillmentService';
+import { OrderStatusService } from './orderStatusService';
+import { DeliverySlotService } from './deliverySlotService';
+import { canTransition, OrderActorRole } from '../utils/orderStatus';
+
+export interface CancelOrderParams {
+  orderId: string;
+  actorId: string;
+  actorRole: OrderActorRole;
+  reason?: string | null;
+}
+
+export interface CancelFulfillmentParams extends CancelOrderParams {
+  producerId: string;
+}
+
+export interface OrderCancellationResult {
+  order: Order;
+  refundedKg: number;
+  refundPeriodStart: Date | null;
+  creditedToCurrentPeriod: boolean; // false = el periodo ya cerró y el crédito quedó en el historial
+  restoredStock: Array<{ productId: string; name: string; quantity: number }>;
+}
+
+export class OrderCancellationService {
+  /**
+   * Cancelar un pedido completo: cancela todos sus surtidos, devuelve los kg a la
+   * suscripción, restaura el stock y registra quién canceló y por qué.
+   * Debe ejecutarse dentro de una transacción.
+   * @returns null si el pedido no existe o el rol ya no puede cancelarlo desde su estado
+   */
+  static async cancelOrder(
+    tx: Prisma.TransactionClient,
+    params: CancelOrderParams
+  ): Promise<OrderCancellationResult | null> {
+    const current = await tx.order.findUnique({
+      where: { id: params.orderId },
+      include: { fulfillments: true }
+    });
+
+    if (!current || !canTransition(current.status, 'cancelled', params.actorRole)) {
+      return null;
+    }
+
+    // Cambio de estado condicional: si otro proceso lo movió, no se cancela dos veces
+    const { count } = await tx.order.updateMany({
+      where: {
+        id: params.orderId,
+        status: current.status
+      },
+      data: {
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        cancelledById: params.actorId,
+        cancellationReason: params.reason || null
+      }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: params.orderId },
+      include: { items: { include: { fulfillment: true } } }
+    });
+
+    // Solo se restaura el stock de los surtidos que no se habían cancelado antes
+    const itemsToRestore = order.items.filter(
+      item => !item.fulfillment || item.fulfillment.status !== 'cancelled'
+    );
+
+    await tx.orderFulfillment.updateMany({
+      where: { orderId: order.id, status: { not: 'cancelled' } },
+      data: { status: 'cancelled' }
+    });
+
+    // Historial: el pedido y cada surtido que seguía activo
+    await OrderStatusService.recordEvent(tx, {
+      orderId: order.id,
+      fromStatus: current.status,
+      toStatus: 'cancelled',
+      actorId: params.actorId,
+      actorRole: params.actorRole,
+      note: params.reason
+    });
+
+    for (const fulfillment of current.fulfillments.filter(f => f.status !== 'cancelled')) {
+      await OrderStatusService.recordEvent(tx, {
+        orderId: order.id,
+        fulfillmentId: fulfillment.id,
+        fromStatus: fulfillment.status,
+        toStatus: 'cancelled',
+        actorId: params.actorId,
+        actorRole: params.actorRole,
+        note: params.reason
+      });
+    }
+
+    const restoredStock = await OrderCancellationService.restoreStock(tx, itemsToRestore);
+
+    // Liberar el cupo de la ventana de entrega: el pedido y el peso de los surtidos activos
+    if (order.deliverySlotId) {
+      const activeFulfillments = current.fulfillments.filter(f => f.status !== 'cancelled');
+      await DeliverySlotService.release(tx, order.deliverySlotId, {
+        orders: 1,
+        kg: current.fulfillments.length > 0
+          ? activeFulfillments.reduce((sum, f) => sum + f.totalWeightInKg, 0)
+          : order.totalWeightInKg
+      });
+    }
+
+    // Devolver lo que quede por devolver del pedido
+    const { items, ...cancelledOrder } = order;
+    const refund = await OrderCancellationService.refundKg(tx, cancelledOrder, params.actorId, params.reason);
+
+    return { order: cancelledOrder, ...refund, restoredStock };
+  }
+
+  /**
+   * Cancelar solo el surtido de un productor dentro de un pedido.
+   * Devuelve los kg de esos items y recalcula el estado del pedido padre.
+   * @returns null si el surtido no existe o el rol ya no puede cancelarlo desde su estado
+   */
+  static async cancelFulfillment(
+    tx: Prisma.TransactionClient,
+    params: CancelFulfillmentParams
+  ): Promise<OrderCancellationResult | null> {
+    const fulfillment = await tx.orderFulfillment.findUnique({
+      where: {
+        orderId_producerId: { orderId: params.orderId, producerId: params.producerId }
+      },
+      include: { items: true }
+    });
+
+    if (!fulfillment || !canTransition(fulfillment.status, 'cancelled', params.actorRole)) {
+      return null;
+    }
+
+    const actor = {
+      actorId: params.actorId,
+      actorRole: params.actorRole,
+      note: params.reason
+    };
+
+    const transitioned = await OrderStatusService.transitionFulfillment(tx, {
+      fulfillmentId: fulfillment.id,
+      fromStatus: fulfillment.status,
+      toStatus: 'cancelled',
+      ...actor
+    });
+
+    if (!transitioned) {
+      return null;
+    }
+
+    const restoredStock = await OrderCancellationService.restoreStock(tx, fulfillment.items);
+
+    let order = await FulfillmentService.syncOrderStatus(tx, params.orderId, actor);
+
+    // Si era el último surtido activo, el pedido completo queda cancelado
+    if (order.status === 'cancelled' && !order.cancelledAt) {
+      order = await tx.order.update({
+        where: { id: order.id },
+        data: {
+          cancelledAt: new Date(),
+          cancelledById: params.actorId,
+          cancellationReason: params.reason || null
+        }
+      });
+    }
+
+    // El peso del surtido deja de ocupar la ventana; el pedido solo si quedó cancelado completo
+    if (order.deliverySlotId) {
+      await DeliverySlotService.release(tx, order.deliverySlotId, {
+        orders: order.status === 'cancelled' ? 1 : 0,
+        kg: fulfillment.totalWeightInKg
+      });
+    }
+
+    const refund = await OrderCancellationService.refundKg(
+      tx,
+      order,
+      params.actorId,
+      params.reason,
+      fulfillment.totalWeightInKg
+    );
+
+    return { order, ...refund, restoredStock };
+  }
+
+  /**
+   * Regresar al inventario las unidades de los items cancelados
+   */
+  private static async restoreStock(tx: Prisma.TransactionClient, items: OrderItem[]) {
+    for (const item of items) {
+      await tx.product.update({
+        where: { id: item.productId },
+        data: { stock: { increment: item.quantity } }
+      });
+    }
+
+    return items.map(item => ({
+      productId: item.productId,
+      name: item.name,
+      quantity: item.quantity
+    }));
+  }
+
+  /**
+   * Registrar en el libro de uso el crédito por la cancelación.
+   * Si el periodo del cobro ya cerró, el crédito se imputa a ese periodo (historial)
+   * y no al periodo actual.
+   * @param amountKg kg a devolver; por defecto, lo que quede sin devolver del pedido
+   */
+  private static async refundKg(
+    tx: Prisma.TransactionClient,
+    order: Order,
+    actorId: string,
+    reason?: string | null,
+    amountKg?: number
+  ) {
+    const noRefund = { refundedKg: 0, refundPeriodStart: null, creditedToCurrentPeriod: false };
+
+    const subscription = await tx.subscription.findUnique({
+      where: { userId: order.userId }
+    });
+
+    if (!subscription) {
+      return noRefund;
+    }
+
+    const entries = await tx.subscriptionUsageEntry.findMany({
+      where: { orderId: order.id }
+    });
+
+    let pendingKg: number;
+    let periodStart: Date | null;
+
+    // Neto del pedido: cobro menos devoluciones parciales anteriores
+    const netKg = entries.reduce((sum, entry) => sum + entry.amountKg, 0);
+    const debit = entries.find(entry => entry.type === 'order_debit');
+
+    if (debit) {
+      pendingKg = netKg;
+      periodStart = debit.periodStart;
+    } else {
+      // Pedido anterior al libro de uso: su consumo solo está en el saldo inicial del periodo.
+      // netKg aquí son las devoluciones parciales que ya se hicieron (negativas).
+      pendingKg = order.totalWeightInKg + netKg;
+
+      if (order.createdAt >= subscription.periodStart) {
+        periodStart = subscription.periodStart;
+      } else {
+        const period = await tx.subscriptionPeriod.findFirst({
+          where: {
+            subscriptionId: subscription.id,
+            periodStart: { lte: order.createdAt },
+            periodEnd: { gt: order.createdAt }
+          }
+        });
+        periodStart = period?.periodStart ?? null;
+      }
+
+      // No devolver más de lo que el libro tiene registrado para ese periodo
+      if (periodStart) {
+        const recordedKg = await UsageLedgerService.getPeriodUsage(tx, subscription.id, periodStart);
+        pendingKg = Math.min(pendingKg, recordedKg);
+      }
+    }
+
+    const refundedKg = Math.min(amountKg ?? pendingKg, pendingKg);
+
+    if (refundedKg <= 0 || !periodStart) {
+      return noRefund;
+    }
+
+    await UsageLedgerService.recordEntry(tx, {
+      subscriptionId: subscription.id,
+      type: 'order_cancellation',
+      amountKg: -refundedKg,
+      periodStart,
+      orderId: order.id,
+      actorId,
+      note: reason || null
+    });
+
+    return {
+      refundedKg,
+      refundPeriodStart: periodStart,
+      creditedToCurrentPeriod: periodStart.getTime() === subscription.periodStart.getTime()
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { EventEmitter } from 'events';
+import { PrismaClient } from '@prisma/client';
+import { OrderStatusService } from './orderStatusService';
+
+const prisma = new PrismaClient();
+
+export interface OrderStatusUpdate {
+  orderId: string;
+  status: string;
+  fulfillments: Array<{ id: string; producerId: string; status: string }>;
+  timeline: Awaited<ReturnType<typeof OrderStatusService.getTimeline>>;
+  updatedAt: Date;
+}
+
+type OrderStatusListener = (update: OrderStatusUpdate) => void;
+
+// Canal en memoria: los suscriptores deben estar en la misma instancia del servidor
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export class OrderEventsService {
+  /**
+   * Obtener el estado actual de un pedido en el formato que se envía a los clientes
+   * @returns null si el pedido no existe
+   */
+  static async getSnapshot(orderId: string): Promise<OrderStatusUpdate | null> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        fulfillments: { select: { id: true, producerId: true, status: true } }
+      }
+    });
+
+    if (!order) {
+      return null;
+    }
+
+    return {
+      orderId: order.id,
+      status: order.status,
+      fulfillments: order.fulfillments,
+      timeline: await OrderStatusService.getTimeline(prisma, order.id),
+      updatedAt: order.updatedAt
+    };
+  }
+
+  /**
+   * Notificar a los suscriptores que el pedido cambió.
+   * Llamar después de confirmar la transacción, nunca dentro de ella.
+   */
+  static async publish(orderId: string): Promise<void> {
+    if (emitter.listenerCount(orderId) === 0) {
+      return;
+    }
+
+    try {
+      const update = await OrderEventsService.getSnapshot(orderId);
+
+      if (update) {
+        emitter.emit(orderId, update);
+      }
+    } catch (error) {
+      // Un fallo al notificar no debe afectar la respuesta de quien cambió el estado
+      console.error('❌ Error publicando estado del pedido:', error);
+    }
+  }
+
+  /**
+   * Escuchar los cambios de un pedido
+   * @returns función para dejar de escuchar
+   */
+  static subscribe(orderId: string, listener: OrderStatusListener): () => void {
+    emitter.on(orderId, listener);
+    return () => {
+      emitter.off(orderId, listener);
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import { OrderStatusEvent, Prisma } from '@prisma/client';
+import { OrderActorRole } from '../utils/orderStatus';
+
+export interface StatusActor {
+  actorId: string | null;
+  actorRole: OrderActorRole | 'system';
+  note?: string | null;
+}
+
+export interface RecordStatusEventParams extends StatusActor {
+  orderId: string;
+  fulfillmentId?: string | null;
+  fromStatus: string | null;
+  toStatus: string;
+}
+
+export class OrderStatusService {
+  /**
+   * Registrar una transición de estado en el historial del pedido
+   */
+  static async recordEvent(
+    tx: Prisma.TransactionClient,
+    params: RecordStatusEventParams
+  ): Promise<OrderStatusEvent> {
+    return tx.orderStatusEvent.create({
+      data: {
+        orderId: params.orderId,
+        fulfillmentId: params.fulfillmentId ?? null,
+        fromStatus: params.fromStatus,
+        toStatus: params.toStatus,
+        actorId: params.actorId,
+        actorRole: params.actorRole,
+        note: params.note ?? null
+      }
+    });
+  }
+
+  /**
+   * Mover el surtido de un productor a un nuevo estado.
+   * El cambio es condicional sobre el estado leído: si otro proceso lo movió antes,
+   * no se aplica y se devuelve false.
+   */
+  static async transitionFulfillment(
+    tx: Prisma.TransactionClient,
+    params: { fulfillmentId: string; fromStatus: string; toStatus: string } & StatusActor
+  ): Promise<boolean> {
+    const { count } = await tx.orderFulfillment.updateMany({
+      where: { id: params.fulfillmentId, status: params.fromStatus },
+      data: { status: params.toStatus }
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    const fulfillment = await tx.orderFulfillment.findUniqueOrThrow({
+      where: { id: params.fulfillmentId }
+    });
+
+    await OrderStatusService.recordEvent(tx, {
+      orderId: fulfillment.orderId,
+      fulfillmentId: fulfillment.id,
+      fromStatus: params.fromStatus,
+      toStatus: params.toStatus,
+      actorId: params.actorId,
+      actorRole: params.actorRole,
+      note: params.note
+    });
+
+    return true;
+  }
+
+  /**
+   * Historial de estados del pedido y de cada productor (más antiguo primero)
+   */
+  static async getTimeline(client: Prisma.TransactionClient, orderId: string) {
+    const events = await client.orderStatusEvent.findMany({
+      where: { orderId },
+      include: {
+        fulfillment: {
+          select: {
+            producerId: true,
+            producer: { select: { businessName: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return events.map(({ fulfillment, ...event }) => ({
+      ...event,
+      producerId: fulfillment?.producerId ?? null,
+      producerName: fulfillment?.producer.businessName ?? null
+    }));
+  }
+}
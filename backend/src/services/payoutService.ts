@@ -0,0 +1,194 @@
+import { Prisma, PrismaClient, Product, ProducerPayout } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export const PAYOUT_STATUSES = ['pending', 'processing', 'completed'];
+export const PAYOUT_RATE_TYPES = ['per_kg', 'per_unit'];
+
+// Avance permitido de un lote de pago
+const PAYOUT_TRANSITIONS: Record<string, string[]> = {
+  pending: ['processing', 'completed'],
+  processing: ['completed'],
+  completed: []
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Tarifa que se paga al productor por un producto
+ */
+function getProductRate(product: Pick<Product, 'payoutRate' | 'payoutRateType'>) {
+  if (product.payoutRate !== null && product.payoutRate !== undefined) {
+    return { rateType: product.payoutRateType, rate: product.payoutRate };
+  }
+
+  return {
+    rateType: 'per_kg',
+    rate: parseFloat(process.env.PRODUCER_PAYOUT_RATE_PER_KG || '40')
+  };
+}
+
+export class PayoutService {
+  /**
+   * Generar las ganancias del productor por los items de un surtido entregado.
+   * Idempotente: un item que ya generó ganancia no se vuelve a contar.
+   * Debe ejecutarse dentro de la transacción que marcó el surtido como entregado.
+   */
+  static async accrueFulfillmentEarnings(tx: Prisma.TransactionClient, fulfillmentId: string): Promise<number> {
+    const fulfillment = await tx.orderFulfillment.findUniqueOrThrow({
+      where: { id: fulfillmentId },
+      include: {
+        items: {
+          where: { earning: null },
+          include: { product: true }
+        }
+      }
+    });
+
+    if (fulfillment.items.length === 0) {
+      return 0;
+    }
+
+    const earnings = fulfillment.items.map(item => {
+      const { rateType, rate } = getProductRate(item.product);
+      const base = rateType === 'per_unit' ? item.quantity : item.weightInKg;
+
+      return {
+        producerId: fulfillment.producerId,
+        orderId: fulfillment.orderId,
+        orderItemId: item.id,
+        productId: item.productId,
+        quantity: item.quantity,
+        weightInKg: item.weightInKg,
+        rateType,
+        rate,
+        amount: roundAmount(base * rate)
+      };
+    });
+
+    await tx.producerEarning.createMany({
+      data: earnings,
+      skipDuplicates: true
+    });
+
+    return roundAmount(earnings.reduce((sum, earning) => sum + earning.amount, 0));
+  }
+
+  /**
+   * Agrupar las ganancias sin lote en un pago pendiente por productor
+   * @param producerId limitar a un productor (opcional)
+   */
+  static async createBatches(producerId?: string): Promise<ProducerPayout[]> {
+    const producers = await prisma.producerEarning.groupBy({
+      by: ['producerId'],
+      where: { payoutId: null, ...(producerId ? { producerId } : {}) }
+    });
+
+    const payouts: ProducerPayout[] = [];
+
+    for (const { producerId: id } of producers) {
+      const payout = await prisma.$transaction(async (tx) => {
+        const earnings = await tx.producerEarning.findMany({
+          where: { producerId: id, payoutId: null },
+          select: { id: true, amount: true }
+        });
+
+        if (earnings.length === 0) {
+          return null;
+        }
+
+        const batch = await tx.producerPayout.create({
+          data: {
+            producerId: id,
+            totalAmount: roundAmount(earnings.reduce((sum, earning) => sum + earning.amount, 0))
+          }
+        });
+
+        // Condicional: si otra ejecución ya tomó una ganancia, se revierte el lote
+        const { count } = await tx.producerEarning.updateMany({
+          where: { id: { in: earnings.map(earning => earning.id) }, payoutId: null },
+          data: { payoutId: batch.id }
+        });
+
+        if (count !== earnings.length) {
+          throw new Error('Las ganancias cambiaron mientras se creaba el lote de pago');
+        }
+
+        return batch;
+      });
+
+      if (payout) {
+        payouts.push(payout);
+      }
+    }
+
+    return payouts;
+  }
+
+  /**
+   * Avanzar el estado de un lote de pago
+   * @returns null si el lote no existe o la transición no es válida
+   */
+  static async updateBatchStatus(
+    payoutId: string,
+    status: string,
+    actorId: string,
+    reference?: string | null
+  ): Promise<ProducerPayout | null> {
+    const payout = await prisma.producerPayout.findUnique({
+      where: { id: payoutId }
+    });
+
+    if (!payout || !PAYOUT_TRANSITIONS[payout.status]?.includes(status)) {
+      return null;
+    }
+
+    const now = new Date();
+    const { count } = await prisma.producerPayout.updateMany({
+      where: { id: payoutId, status: payout.status },
+      data: {
+        status,
+        reference: reference ?? payout.reference,
+        processedAt: status === 'processing' ? now : payout.processedAt,
+        paidAt: status === 'completed' ? now : null,
+        paidById: status === 'completed' ? actorId : null
+      }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return prisma.producerPayout.findUniqueOrThrow({ where: { id: payoutId } });
+  }
+
+  /**
+   * Resumen de montos del productor por estado
+   */
+  static async getSummary(producerId: string) {
+    const [unbatched, byStatus] = await Promise.all([
+      prisma.producerEarning.aggregate({
+        where: { producerId, payoutId: null },
+        _sum: { amount: true }
+      }),
+      prisma.producerPayout.groupBy({
+        by: ['status'],
+        where: { producerId },
+        _sum: { totalAmount: true }
+      })
+    ]);
+
+    const totalFor = (status: string) =>
+      roundAmount(byStatus.find(group => group.status === status)?._sum.totalAmount ?? 0);
+
+    const accrued = roundAmount(unbatched._sum.amount ?? 0);
+
+    return {
+      accruedAmount: accrued, // Ganado, aún sin lote
+      pendingAmount: totalFor('pending'),
+      processingAmount: totalFor('processing'),
+      paidAmount: totalFor('completed'),
+      totalAmount: roundAmount(accrued + totalFor('pending') + totalFor('processing') + totalFor('completed'))
+    };
+  }
+}
@@ -0,0 +1,201 @@
+import { Plan, Prisma, PrismaClient, Subscription } from '@prisma/client';
+import { PlanService } from './planService';
+import { RolloverService } from './rolloverService';
+
+const prisma = new PrismaClient();
+
+export class PlanChangeError extends Error {
+  constructor(public statusCode: number, message: string, public data?: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+/**
+ * upgrade: entra en vigor ya, con los kg extra prorrateados por lo que queda del periodo.
+ * downgrade: queda pendiente y se aplica en la renovación, así no se pierde el uso del periodo.
+ * cancel_pending: volver al plan actual descarta la bajada pendiente.
+ */
+export type PlanChangeType = 'upgrade' | 'downgrade' | 'cancel_pending';
+
+type PlanSummary = Pick<Plan, 'code' | 'name' | 'limitInKg' | 'monthlyPrice'>;
+
+export interface BlockedCartItem {
+  productId: string;
+  name: string;
+  category: string;
+}
+
+export interface PlanChangePreview {
+  type: PlanChangeType;
+  currentPlan: PlanSummary;
+  targetPlan: PlanSummary;
+  effectiveAt: Date;
+  remainingFraction: number; // Parte del periodo que falta por transcurrir (0 a 1)
+  limitInKg: number; // Límite del periodo actual después del cambio
+  addedKg: number; // Kg extra que se suman al periodo actual
+  proratedCharge: number; // Diferencia de precio por lo que queda del periodo (MXN)
+  usedKg: number;
+  remainingKg: number;
+  nextPeriodLimitInKg: number;
+  blockedCartItems: BlockedCartItem[];
+  canChange: boolean;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toSummary = (plan: PlanSummary): PlanSummary => ({
+  code: plan.code,
+  name: plan.name,
+  limitInKg: plan.limitInKg,
+  monthlyPrice: plan.monthlyPrice
+});
+
+export class PlanChangeService {
+  /**
+   * Calcular el efecto de cambiar al plan indicado sin modificar nada
+   */
+  static async preview(
+    subscription: Subscription,
+    targetCode: string,
+    db: PrismaClient | Prisma.TransactionClient = prisma,
+    now: Date = new Date()
+  ): Promise<PlanChangePreview> {
+    const targetPlan = await PlanService.findByCode(targetCode, db);
+
+    if (!targetPlan || (!targetPlan.isActive && targetPlan.code !== subscription.plan)) {
+      throw new PlanChangeError(400, 'Plan inválido o ya no disponible');
+    }
+
+    // Si el plan actual ya no existe en el catálogo, se toma lo que tiene la suscripción
+    const currentPlan: PlanSummary = (await PlanService.findByCode(subscription.plan, db)) ?? {
+      code: subscription.plan,
+      name: subscription.plan,
+      limitInKg: subscription.limitInKg,
+      monthlyPrice: 0
+    };
+
+    let type: PlanChangeType;
+    if (targetPlan.code === subscription.plan) {
+      if (!subscription.pendingPlan) {
+        throw new PlanChangeError(400, `Ya tienes el plan ${currentPlan.name}`);
+      }
+      type = 'cancel_pending';
+    } else if (
+      targetPlan.limitInKg < currentPlan.limitInKg ||
+      (targetPlan.limitInKg === currentPlan.limitInKg && targetPlan.monthlyPrice < currentPlan.monthlyPrice)
+    ) {
+      type = 'downgrade';
+    } else {
+      type = 'upgrade';
+    }
+
+    const periodMs = subscription.renewalDate.getTime() - subscription.periodStart.getTime();
+    const remainingMs = subscription.renewalDate.getTime() - now.getTime();
+    const remainingFraction = periodMs > 0 ? Math.min(1, Math.max(0, remainingMs / periodMs)) : 0;
+
+    const addedKg = type === 'upgrade'
+      ? round2(Math.max(0, targetPlan.limitInKg - currentPlan.limitInKg) * remainingFraction)
+      : 0;
+    const proratedCharge = type === 'upgrade'
+      ? round2(Math.max(0, targetPlan.monthlyPrice - currentPlan.monthlyPrice) * remainingFraction)
+      : 0;
+    const limitInKg = round2(subscription.limitInKg + addedKg);
+
+    // Lo que ya está en el carrito tiene que seguir siendo válido con el plan nuevo
+    const cartItems = type === 'cancel_pending'
+      ? []
+      : await db.cartItem.findMany({
+          where: { cart: { userId: subscription.userId } },
+          include: { product: { select: { id: true, name: true, category: true } } }
+        });
+
+    const blockedCartItems = cartItems
+      .filter(item => !PlanService.isCategoryAllowed(targetPlan, item.product.category))
+      .map(item => ({
+        productId: item.product.id,
+        name: item.product.name,
+        category: item.product.category
+      }));
+
+    return {
+      type,
+      currentPlan: toSummary(currentPlan),
+      targetPlan: toSummary(targetPlan),
+      effectiveAt: type === 'downgrade' ? subscription.renewalDate : now,
+      remainingFraction: round2(remainingFraction),
+      limitInKg,
+      addedKg,
+      proratedCharge,
+      usedKg: RolloverService.getAllowance(subscription).usedKg,
+      remainingKg: round2(RolloverService.getAllowance({ ...subscription, limitInKg }).remainingKg),
+      nextPeriodLimitInKg: type === 'cancel_pending' ? currentPlan.limitInKg : targetPlan.limitInKg,
+      blockedCartItems,
+      canChange: blockedCartItems.length === 0
+    };
+  }
+
+  /**
+   * Aplicar el cambio de plan: la subida entra ya, la bajada queda pendiente hasta la renovación
+   */
+  static async apply(userId: string, targetCode: string) {
+    return prisma.$transaction(async (tx) => {
+      const subscription = await tx.subscription.findUnique({
+        where: { userId }
+      });
+
+      if (!subscription) {
+        throw new PlanChangeError(404, 'No se encontró suscripción');
+      }
+
+      const preview = await PlanChangeService.preview(subscription, targetCode, tx);
+
+      if (!preview.canChange) {
+        const names = preview.blockedCartItems.map(item => item.name).join(', ');
+        throw new PlanChangeError(
+          409,
+          `Tu carrito tiene productos que el plan ${preview.targetPlan.name} no permite: ${names}. Quítalos antes de cambiar de plan.`,
+          { blockedCartItems: preview.blockedCartItems }
+        );
+      }
+
+      let data: Prisma.SubscriptionUpdateManyMutationInput;
+      switch (preview.type) {
+        case 'upgrade':
+          data = {
+            plan: preview.targetPlan.code,
+            limitInKg: preview.limitInKg,
+            pendingPlan: null,
+            pendingPlanRequestedAt: null
+          };
+          break;
+        case 'downgrade':
+          data = { pendingPlan: preview.targetPlan.code, pendingPlanRequestedAt: new Date() };
+          break;
+        case 'cancel_pending':
+          data = { pendingPlan: null, pendingPlanRequestedAt: null };
+          break;
+      }
+
+      // Solo aplica si nadie cambió el plan o renovó el periodo mientras se calculaba
+      const { count } = await tx.subscription.updateMany({
+        where: {
+          id: subscription.id,
+          plan: subscription.plan,
+          limitInKg: subscription.limitInKg,
+          periodStart: subscription.periodStart
+        },
+        data
+      });
+
+      if (count === 0) {
+        throw new PlanChangeError(409, 'Tu suscripción cambió mientras se procesaba. Intenta de nuevo.');
+      }
+
+      const updatedSubscription = await tx.subscription.findUniqueOrThrow({
+        where: { id: subscription.id }
+      });
+
+      return { subscription: updatedSubscription, change: preview };
+    });
+  }
+}
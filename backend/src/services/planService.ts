@@ -0,0 +1,39 @@
+import { Plan, Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+type PlanClient = PrismaClient | Prisma.TransactionClient;
+
+export class PlanService {
+  /**
+   * Planes que se ofrecen a clientes nuevos, en el orden de las tarjetas
+   */
+  static async getActive(db: PlanClient = prisma): Promise<Plan[]> {
+    return db.plan.findMany({
+      where: { isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { monthlyPrice: 'asc' }]
+    });
+  }
+
+  /**
+   * Buscar un plan por su código, esté activo o retirado
+   */
+  static async findByCode(code: string, db: PlanClient = prisma): Promise<Plan | null> {
+    return db.plan.findUnique({ where: { code } });
+  }
+
+  /**
+   * Plan con el que se registra quien no eligió uno válido: el primero del catálogo
+   */
+  static async getDefault(db: PlanClient = prisma): Promise<Plan | null> {
+    const [plan] = await PlanService.getActive(db);
+    return plan ?? null;
+  }
+
+  /**
+   * Validar si una categoría está permitida para un plan
+   */
+  static isCategoryAllowed(plan: Pick<Plan, 'allowedCategories'> | null, category: string): boolean {
+    return !!plan && (plan.allowedCategories as string[]).includes(category);
+  }
+}
@@ -0,0 +1,186 @@
+import { Prisma, PrismaClient, ProductCategory } from '@prisma/client';
+import { parseJsonArray } from '../utils/jsonHelpers';
+
+const prisma = new PrismaClient();
+
+// Umbral de pg_trgm para aceptar coincidencias con errores de escritura ("platno" → "plátano")
+const TYPO_THRESHOLD = 0.4;
+
+export interface ProductSearchOptions {
+  category?: ProductCategory;
+  available?: boolean;
+  limit: number;
+}
+
+interface SearchRow {
+  id: string;
+  rank: number;
+}
+
+export interface ProductMatch {
+  id: string;
+  name: string;
+  score: number; // 0-1; 1 = el término aparece tal cual en el nombre
+}
+
+// Las coincidencias que solo aparecen en descripción, origen o productor valen menos
+const NON_NAME_MATCH_FACTOR = 0.85;
+
+const productSearchSelect = {
+  name: true,
+  description: true,
+  origin: true,
+  tags: true,
+  producer: { select: { businessName: true } }
+} as const;
+
+export class ProductSearchService {
+  /**
+   * Quitar acentos y mayúsculas para que "Plátano" y "platano" coincidan
+   */
+  static normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Construir el texto indexado de un producto (se guarda al crearlo o editarlo)
+   */
+  static buildSearchText(product: Prisma.ProductGetPayload<{ select: typeof productSearchSelect }>): string {
+    return ProductSearchService.normalize(
+      [
+        product.name,
+        product.description,
+        product.origin,
+        ...parseJsonArray(product.tags).filter((tag): tag is string => typeof tag === 'string'),
+        product.producer.businessName
+      ]
+        .filter(Boolean)
+        .join(' ')
+    );
+  }
+
+  /**
+   * Recalcular los productos de un productor (cambia su nombre comercial)
+   */
+  static async refreshProducer(client: Prisma.TransactionClient, producerId: string): Promise<void> {
+    const products = await client.product.findMany({
+      where: { producerId },
+      select: { id: true, ...productSearchSelect }
+    });
+
+    for (const product of products) {
+      await client.product.update({
+        where: { id: product.id },
+        data: { searchText: ProductSearchService.buildSearchText(product) }
+      });
+    }
+  }
+
+  /**
+   * Completar el texto de búsqueda de productos creados antes de que existiera
+   * @returns número de productos actualizados
+   */
+  static async backfill(): Promise<number> {
+    const products = await prisma.product.findMany({
+      where: { searchText: '' },
+      select: { id: true, ...productSearchSelect }
+    });
+
+    for (const product of products) {
+      await prisma.product.update({
+        where: { id: product.id },
+        data: { searchText: ProductSearchService.buildSearchText(product) }
+      });
+    }
+
+    return products.length;
+  }
+
+  /**
+   * Buscar productos publicados combinando texto completo en español y similitud por trigramas.
+   * El rango favorece coincidencias exactas de palabras sobre las aproximadas.
+   * @returns ids ordenados por relevancia
+   */
+  static async search(query: string, options: ProductSearchOptions): Promise<string[]> {
+    const term = ProductSearchService.normalize(query);
+
+    if (!term) {
+      return [];
+    }
+
+    const filters: Prisma.Sql[] = [
+      Prisma.sql`"deletedAt" IS NULL`,
+      Prisma.sql`"moderationStatus" = 'approved'`
+    ];
+
+    if (options.category) {
+      filters.push(Prisma.sql`"category" = ${options.category}::"ProductCategory"`);
+    }
+
+    if (options.available !== undefined) {
+      filters.push(Prisma.sql`"available" = ${options.available}`);
+    }
+
+    const rows = await prisma.$transaction(async (tx) => {
+      // Solo afecta a esta transacción
+      await tx.$executeRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(TYPO_THRESHOLD)}, true)`;
+
+      return tx.$queryRaw<SearchRow[]>`
+        SELECT "id",
+               ts_rank(to_tsvector('spanish', "searchText"), plainto_tsquery('spanish', ${term})) * 2
+                 + word_similarity(${term}, "searchText") AS "rank"
+        FROM "products"
+        WHERE ${Prisma.join(filters, ' AND ')}
+          AND (
+            to_tsvector('spanish', "searchText") @@ plainto_tsquery('spanish', ${term})
+            OR ${term} <% "searchText"
+          )
+        ORDER BY "rank" DESC, "ratingCount" DESC
+        LIMIT ${options.limit}
+      `;
+    });
+
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Productos que mejor coinciden con un término suelto ("jitomate", "pitahaya organica"),
+   * con un puntaje de confianza para decidir si se actúa directo o se pregunta.
+   * Incluye productos sin stock para poder explicar por qué no se agregan.
+   */
+  static async match(query: string, limit: number): Promise<ProductMatch[]> {
+    const term = ProductSearchService.normalize(query);
+
+    if (!term) {
+      return [];
+    }
+
+    const rows = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(TYPO_THRESHOLD)}, true)`;
+
+      return tx.$queryRaw<Array<{ id: string; name: string; score: number }>>`
+        SELECT "id", "name", word_similarity(${term}, "searchText") AS "score"
+        FROM "products"
+        WHERE "deletedAt" IS NULL
+          AND "moderationStatus" = 'approved'
+          AND ${term} <% "searchText"
+        ORDER BY "score" DESC, "available" DESC, "ratingCount" DESC
+        LIMIT ${limit * 2}
+      `;
+    });
+
+    return rows
+      .map(row => {
+        const inName = ProductSearchService.normalize(row.name).includes(term);
+        const score = Number(row.score) * (inName ? 1 : NON_NAME_MATCH_FACTOR);
+        return { id: row.id, name: row.name, score: Math.round(score * 100) / 100 };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
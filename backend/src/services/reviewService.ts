@@ -0,0 +1,49 @@
+import { Prisma } from '@prisma/client';
+
+export class ReviewService {
+  /**
+   * Buscar un pedido entregado del cliente que incluya el producto.
+   * Cuenta el surtido del productor entregado aunque el resto del pedido siga en camino.
+   * @returns id del pedido más reciente, o null si el cliente no ha recibido el producto
+   */
+  static async findQualifyingOrder(
+    client: Prisma.TransactionClient,
+    userId: string,
+    productId: string
+  ): Promise<string | null> {
+    const item = await client.orderItem.findFirst({
+      where: {
+        productId,
+        order: { userId },
+        OR: [
+          { fulfillment: { status: 'delivered' } },
+          // Pedidos anteriores a los surtidos por productor
+          { fulfillmentId: null, order: { status: 'delivered' } }
+        ]
+      },
+      orderBy: { order: { createdAt: 'desc' } },
+      select: { orderId: true }
+    });
+
+    return item?.orderId ?? null;
+  }
+
+  /**
+   * Recalcular el promedio y el conteo de reseñas visibles de un producto
+   */
+  static async recomputeProductRating(client: Prisma.TransactionClient, productId: string): Promise<void> {
+    const result = await client.productReview.aggregate({
+      where: { productId, status: 'visible' },
+      _avg: { rating: true },
+      _count: { _all: true }
+    });
+
+    await client.product.update({
+      where: { id: productId },
+      data: {
+        ratingAverage: result._avg.rating !== null ? Math.round(result._avg.rating * 100) / 100 : null,
+        ratingCount: result._count._all
+      }
+    });
+  }
+}
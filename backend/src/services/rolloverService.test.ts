@@ -0,0 +1,67 @@
+import { RolloverService } from './rolloverService';
+
+const now = new Date('2025-03-15T00:00:00.000Z');
+const later = new Date('2025-04-01T00:00:00.000Z');
+
+const subscription = (fields: { usedKg: number; rolloverKg?: number; rolloverExpiresAt?: Date | null }) => ({
+  limitInKg: 10,
+  rolloverKg: 0,
+  rolloverExpiresAt: null,
+  isActive: true,
+  ...fields
+});
+
+describe('RolloverService.getAllowance', () => {
+  it('consume primero los kg heredados', () => {
+    const allowance = RolloverService.getAllowance(
+      subscription({ usedKg: 3, rolloverKg: 2, rolloverExpiresAt: later }),
+      now
+    );
+
+    expect(allowance).toMatchObject({
+      totalLimitKg: 12,
+      rolloverUsedKg: 2,
+      baseUsedKg: 1,
+      rolloverRemainingKg: 0,
+      remainingKg: 9
+    });
+  });
+
+  it('al vencer solo conserva lo heredado que ya se consumió', () => {
+    const allowance = RolloverService.getAllowance(
+      subscription({ usedKg: 1, rolloverKg: 4, rolloverExpiresAt: now }),
+      now
+    );
+
+    expect(allowance).toMatchObject({
+      rolloverKg: 1,
+      rolloverExpiresAt: null,
+      totalLimitKg: 11,
+      remainingKg: 10
+    });
+  });
+
+  it('no da kg de más con un saldo negativo', () => {
+    const allowance = RolloverService.getAllowance(subscription({ usedKg: -2 }), now);
+
+    expect(allowance.usedKg).toBe(0);
+    expect(allowance.remainingKg).toBe(10);
+  });
+});
+
+describe('RolloverService.computeCarryOver', () => {
+  it('pasa lo que quedó del límite del plan hasta el tope', () => {
+    expect(RolloverService.computeCarryOver(subscription({ usedKg: 7 }), 5, now)).toBe(3);
+    expect(RolloverService.computeCarryOver(subscription({ usedKg: 2 }), 5, now)).toBe(5);
+  });
+
+  it('no vuelve a pasar los kg heredados sin usar', () => {
+    const closing = subscription({ usedKg: 3, rolloverKg: 4, rolloverExpiresAt: later });
+    expect(RolloverService.computeCarryOver(closing, 20, later)).toBe(10);
+  });
+
+  it('no pasa nada sin tope o con la suscripción inactiva', () => {
+    expect(RolloverService.computeCarryOver(subscription({ usedKg: 0 }), 0, now)).toBe(0);
+    expect(RolloverService.computeCarryOver({ ...subscription({ usedKg: 0 }), isActive: false }, 5, now)).toBe(0);
+  });
+});
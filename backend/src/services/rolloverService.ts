@@ -0,0 +1,84 @@
+import { Prisma, PrismaClient, Subscription } from '@prisma/client';
+
+type AllowanceFields = Pick<Subscription, 'limitInKg' | 'usedKg' | 'rolloverKg' | 'rolloverExpiresAt'>;
+
+export interface SubscriptionAllowance {
+  limitInKg: number; // Límite del plan para el periodo
+  rolloverKg: number; // Kg heredados que siguen contando
+  rolloverExpiresAt: Date | null;
+  totalLimitKg: number; // limitInKg + rolloverKg
+  usedKg: number;
+  rolloverUsedKg: number; // Lo consumido sale primero de los kg heredados
+  baseUsedKg: number;
+  rolloverRemainingKg: number;
+  remainingKg: number;
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+export class RolloverService {
+  /**
+   * Desglosar el cupo del periodo: kg heredados primero, después el límite del plan
+   */
+  static getAllowance(subscription: AllowanceFields, now: Date = new Date()): SubscriptionAllowance {
+    // El libro de uso guarda la suma con signo; un saldo negativo no da kg de más
+    const usedKg = Math.max(0, subscription.usedKg);
+
+    // Vencidos: solo cuenta lo que ya se había consumido (lo mismo que guarda expireIfDue)
+    const expired = !!subscription.rolloverExpiresAt && subscription.rolloverExpiresAt <= now;
+    const rolloverKg = expired ? Math.min(subscription.rolloverKg, usedKg) : subscription.rolloverKg;
+
+    const rolloverUsedKg = Math.min(usedKg, rolloverKg);
+    const baseUsedKg = usedKg - rolloverUsedKg;
+    const totalLimitKg = subscription.limitInKg + rolloverKg;
+
+    return {
+      limitInKg: subscription.limitInKg,
+      rolloverKg,
+      rolloverExpiresAt: expired ? null : subscription.rolloverExpiresAt,
+      totalLimitKg: round3(totalLimitKg),
+      usedKg,
+      rolloverUsedKg: round3(rolloverUsedKg),
+      baseUsedKg: round3(baseUsedKg),
+      rolloverRemainingKg: round3(rolloverKg - rolloverUsedKg),
+      remainingKg: round3(Math.max(0, totalLimitKg - usedKg))
+    };
+  }
+
+  /**
+   * Kg del límite del plan que quedaron sin usar al cerrar el periodo, hasta el tope del plan.
+   * Los kg heredados que no se usaron vencen: no vuelven a pasar.
+   */
+  static computeCarryOver(closing: AllowanceFields & Pick<Subscription, 'isActive'>, capKg: number, periodEnd: Date): number {
+    if (!closing.isActive || capKg <= 0) {
+      return 0;
+    }
+
+    const { limitInKg, baseUsedKg } = RolloverService.getAllowance(closing, periodEnd);
+    return round3(Math.min(capKg, Math.max(0, limitInKg - baseUsedKg)));
+  }
+
+  /**
+   * Dar por vencidos los kg heredados sin usar. Lo ya consumido se conserva como heredado
+   * para que no pase a contar contra el límite del plan.
+   */
+  static async expireIfDue(
+    db: PrismaClient | Prisma.TransactionClient,
+    subscription: Subscription,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    if (!subscription.rolloverExpiresAt || subscription.rolloverExpiresAt > now) {
+      return false;
+    }
+
+    const { count } = await db.subscription.updateMany({
+      where: { id: subscription.id, rolloverExpiresAt: subscription.rolloverExpiresAt },
+      data: {
+        rolloverKg: round3(Math.min(subscription.rolloverKg, Math.max(0, subscription.usedKg))),
+        rolloverExpiresAt: null
+      }
+    });
+
+    return count > 0;
+  }
+}
@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+const JWT_SECRET = process.env.JWT_SECRET || 'fallback_secret_key_for_dev';
+
+// El access token dura poco; la sesión se mantiene con el refresh token
+const ACCESS_TOKEN_TTL = (process.env.JWT_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
+
+// Días sin usar la app antes de tener que iniciar sesión de nuevo
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+export type SessionRevokeReason = 'logout' | 'logout_all' | 'revoked' | 'token_reuse';
+
+export interface DeviceInfo {
+  deviceName?: string | null;
+  platform?: string | null;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  token: string; // Access token (JWT)
+  expiresAt: string; // Vencimiento del access token
+  refreshToken: string;
+}
+
+interface AccessTokenPayload {
+  userId: string;
+  email: string;
+  role: string;
+  sessionId?: string;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+function signAccessToken(user: SessionUser, sessionId: string) {
+  const token = jwt.sign(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId
+    },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL }
+  );
+
+  const { exp } = jwt.decode(token) as { exp: number };
+  return { token, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+export class SessionService {
+  /**
+   * Abrir una sesión para el dispositivo y emitir su par de tokens
+   */
+  static async start(user: SessionUser, device: DeviceInfo): Promise<SessionTokens> {
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+    const session = await prisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: hashToken(refreshToken),
+        deviceName: device.deviceName ?? null,
+        platform: device.platform ?? null,
+        userAgent: device.userAgent ?? null,
+        ipAddress: device.ipAddress ?? null,
+        expiresAt: refreshExpiry()
+      }
+    });
+
+    return { sessionId: session.id, ...signAccessToken(user, session.id), refreshToken };
+  }
+
+  /**
+   * Cambiar un refresh token por un par nuevo. El token usado deja de servir; si alguien
+   * presenta uno ya rotado, la sesión se revoca porque el token fue copiado.
+   */
+  static async refresh(refreshToken: string, device: DeviceInfo): Promise<SessionTokens> {
+    const tokenHash = hashToken(refreshToken);
+
+    const session = await prisma.session.findUnique({
+      where: { refreshTokenHash: tokenHash },
+      include: {
+        user: {
+          select: { id: true, email: true, role: true }
+        }
+      }
+    });
+
+    if (!session) {
+      const reused = await prisma.session.findFirst({
+        where: { previousTokenHash: tokenHash, revokedAt: null }
+      });
+
+      if (reused) {
+        await SessionService.revoke(reused.id, 'token_reuse');
+        console.warn(`⚠️ Refresh token reutilizado, sesión ${reused.id} revocada`);
+      }
+
+      throw new CustomError('Invalid refresh token', 401);
+    }
+
+    if (session.revokedAt || session.expiresAt <= new Date()) {
+      throw new CustomError('Session expired, please log in again', 401);
+    }
+
+    const nextRefreshToken = crypto.randomBytes(48).toString('base64url');
+
+    // Solo rota quien todavía tiene el token vigente (dos refresh simultáneos no ganan ambos)
+    const { count } = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashToken(nextRefreshToken),
+        previousTokenHash: tokenHash,
+        lastUsedAt: new Date(),
+        expiresAt: refreshExpiry(),
+        userAgent: device.userAgent ?? session.userAgent,
+        ipAddress: device.ipAddress ?? session.ipAddress
+      }
+    });
+
+    if (count === 0) {
+      throw new CustomError('Invalid refresh token', 401);
+    }
+
+    return { sessionId: session.id, ...signAccessToken(session.user, session.id), refreshToken: nextRefreshToken };
+  }
+
+  /**
+   * Validar un access token contra su sesión: un token de una sesión revocada ya no sirve
+   */
+  static async verifyAccessToken(token: string) {
+    const payload = jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+
+    // Tokens emitidos antes de las sesiones no se pueden revocar
+    if (!payload.sessionId) {
+      throw new CustomError('Session required, please log in again', 401);
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: payload.sessionId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            role: true
+          }
+        }
+      }
+    });
+
+    if (!session || session.userId !== payload.userId || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new CustomError('Session expired, please log in again', 401);
+    }
+
+    return { user: session.user, sessionId: session.id };
+  }
+
+  /**
+   * Sesiones abiertas del usuario, la más reciente primero
+   */
+  static async listActive(userId: string) {
+    return prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        deviceName: true,
+        platform: true,
+        userAgent: true,
+        ipAddress: true,
+        lastUsedAt: true,
+        createdAt: true
+      },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+  }
+
+  /**
+   * Revocar una sesión
+   * @returns false si ya estaba revocada
+   */
+  static async revoke(sessionId: string, reason: SessionRevokeReason, userId?: string): Promise<boolean> {
+    const { count } = await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null, ...(userId ? { userId } : {}) },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Revocar la sesión dueña de un refresh token (cierre de sesión sin access token vigente)
+   */
+  static async revokeByRefreshToken(refreshToken: string): Promise<boolean> {
+    const { count } = await prisma.session.updateMany({
+      where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'logout' }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Cerrar todas las sesiones del usuario
+   * @returns cuántas sesiones se revocaron
+   */
+  static async revokeAll(userId: string): Promise<number> {
+    const { count } = await prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'logout_all' }
+    });
+
+    return count;
+  }
+}
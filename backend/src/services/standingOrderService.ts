@@ -0,0 +1,272 @@
+import { PrismaClient, Prisma, StandingOrder } from '@prisma/client';
+import { CheckoutError, CheckoutService, SkipReason, SkippedLine } from './checkoutService';
+import { NotificationService } from './notificationService';
+import { SubscriptionRenewalService } from './subscriptionRenewalService';
+import { SubscriptionPauseService } from './subscriptionPauseService';
+import { formatAddress, toAddressSnapshot } from '../utils/address';
+
+const prisma = new PrismaClient();
+
+// Cada cuánto revisa el job las canastas pendientes (por defecto cada 15 minutos)
+const STANDING_ORDER_INTERVAL_MS = parseInt(process.env.STANDING_ORDER_INTERVAL_MS || '900000');
+
+export const STANDING_ORDER_FREQUENCIES = ['weekly', 'biweekly'] as const;
+export type StandingOrderFrequency = typeof STANDING_ORDER_FREQUENCIES[number];
+
+const FREQUENCY_DAYS: Record<StandingOrderFrequency, number> = {
+  weekly: 7,
+  biweekly: 14
+};
+
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  unavailable: 'no disponible',
+  out_of_stock: 'sin stock',
+  category_not_allowed: 'no incluido en tu plan'
+};
+
+let standingOrderTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Sumar un intervalo de la frecuencia (1 o 2 semanas) a una fecha
+ */
+export function addInterval(date: Date, frequency: string): Date {
+  const days = FREQUENCY_DAYS[frequency as StandingOrderFrequency] ?? FREQUENCY_DAYS.weekly;
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Primera fecha de la serie posterior a `now`. Conserva el día y la hora
+ * originales, así que una canasta pausada no se corre de día al reanudarla.
+ */
+export function nextOccurrence(date: Date, frequency: string, now: Date = new Date()): Date {
+  let next = addInterval(date, frequency);
+
+  while (next <= now) {
+    next = addInterval(next, frequency);
+  }
+
+  return next;
+}
+
+const describeSkipped = (skipped: SkippedLine[]) =>
+  skipped.map(line => `${line.name} (${SKIP_REASON_LABELS[line.reason]})`).join(', ');
+
+export class StandingOrderService {
+  /**
+   * Generar el pedido de una canasta si ya le toca.
+   * La fecha se reclama con un update condicional de nextRunAt, así que dos
+   * ejecuciones del job no pueden crear dos pedidos para la misma fecha.
+   * Los productos que no se pueden surtir se omiten y se avisa al cliente.
+   * El pedido ocupa el primer horario de entrega con cupo, como cualquier otro;
+   * si el pedido completo falla (sin suscripción, límite de kg, sin cupo...) se registra
+   * la ejecución como fallida y la canasta pasa a la siguiente fecha.
+   * Si la suscripción está en pausa, la fecha se registra como saltada.
+   *
+   * @returns true si se creó un pedido
+   */
+  static async runIfDue(standingOrder: StandingOrder, now: Date = new Date()): Promise<boolean> {
+    if (standingOrder.status !== 'active' || standingOrder.nextRunAt > now) {
+      return false;
+    }
+
+    const scheduledFor = standingOrder.nextRunAt;
+    const claim = {
+      where: { id: standingOrder.id, status: 'active', nextRunAt: scheduledFor },
+      data: { nextRunAt: nextOccurrence(scheduledFor, standingOrder.frequency, now), lastRunAt: now }
+    };
+
+    // Cerrar el periodo si ya venció antes de validar el límite de kg
+    await SubscriptionRenewalService.renewForUser(standingOrder.userId);
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const { count } = await tx.standingOrder.updateMany(claim);
+
+        if (count === 0) {
+          return false;
+        }
+
+        // Con la suscripción en pausa no se pide: la fecha se salta sin contar como fallo
+        const subscription = await tx.subscription.findUnique({
+          where: { userId: standingOrder.userId }
+        });
+
+        if (subscription && SubscriptionPauseService.isPaused(subscription, scheduledFor)) {
+          await tx.standingOrderRun.create({
+            data: {
+              standingOrderId: standingOrder.id,
+              scheduledFor,
+              status: 'skipped',
+              message: 'Suscripción en pausa'
+            }
+          });
+          return false;
+        }
+
+        const items = await tx.standingOrderItem.findMany({
+          where: { standingOrderId: standingOrder.id }
+        });
+
+        if (items.length === 0) {
+          throw new CheckoutError(400, 'La canasta no tiene productos');
+        }
+
+        // Dirección elegida en la canasta o, si se eliminó, la predeterminada
+        const address = standingOrder.addressId
+          ? await tx.address.findUnique({ where: { id: standingOrder.addressId } })
+          : await tx.address.findFirst({ where: { userId: standingOrder.userId, isDefault: true } });
+
+        if (!address) {
+          throw new CheckoutError(400, 'No tienes una dirección de entrega predeterminada');
+        }
+
+        const snapshot = toAddressSnapshot(address);
+
+        const { order, skipped } = await CheckoutService.placeOrder(tx, {
+          userId: standingOrder.userId,
+          lines: items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+          deliveryAddress: formatAddress(snapshot),
+          addressId: address.id,
+          deliverySnapshot: snapshot,
+          notes: standingOrder.notes,
+          actor: { actorId: null, actorRole: 'system', note: `Canasta recurrente: ${standingOrder.name}` },
+          skipUnavailable: true,
+          autoReserveSlot: true
+        });
+
+        await tx.standingOrderRun.create({
+          data: {
+            standingOrderId: standingOrder.id,
+            scheduledFor,
+            status: 'created',
+            orderId: order.id,
+            skippedItems: skipped as unknown as Prisma.InputJsonValue
+          }
+        });
+
+        await tx.standingOrder.update({
+          where: { id: standingOrder.id },
+          data: { lastOrderId: order.id }
+        });
+
+        await NotificationService.create(tx, {
+          userId: standingOrder.userId,
+          type: 'standing_order_created',
+          title: skipped.length > 0 ? `${standingOrder.name}: pedido creado con cambios` : `${standingOrder.name}: pedido creado`,
+          message: skipped.length > 0
+            ? `Creamos tu pedido de ${order.totalWeightInKg.toFixed(2)} kg. No incluimos: ${describeSkipped(skipped)}.`
+            : `Creamos tu pedido de ${order.totalWeightInKg.toFixed(2)} kg.`,
+          data: {
+            standingOrderId: standingOrder.id,
+            orderId: order.id,
+            skipped: skipped as unknown as Prisma.InputJsonValue
+          }
+        });
+
+        return true;
+      });
+    } catch (error) {
+      if (!(error instanceof CheckoutError)) {
+        throw error;
+      }
+
+      // La transacción anterior hizo rollback; registrar el fallo y avanzar a la siguiente fecha
+      await prisma.$transaction(async (tx) => {
+        const { count } = await tx.standingOrder.updateMany(claim);
+
+        if (count === 0) {
+          return;
+        }
+
+        const skipped = Array.isArray(error.data?.skipped) ? error.data!.skipped as SkippedLine[] : [];
+
+        await tx.standingOrderRun.create({
+          data: {
+            standingOrderId: standingOrder.id,
+            scheduledFor,
+            status: 'failed',
+            skippedItems: skipped as unknown as Prisma.InputJsonValue,
+            message: error.message
+          }
+        });
+
+        await NotificationService.create(tx, {
+          userId: standingOrder.userId,
+          type: 'standing_order_failed',
+          title: `${standingOrder.name}: no se pudo crear el pedido`,
+          message: skipped.length > 0
+            ? `${error.message}. No disponibles: ${describeSkipped(skipped)}.`
+            : error.message,
+          data: {
+            standingOrderId: standingOrder.id,
+            ...(error.data && { details: error.data as Prisma.InputJsonValue })
+          }
+        });
+      });
+
+      return false;
+    }
+  }
+
+  /**
+   * Generar los pedidos de todas las canastas activas que ya vencieron
+   * @returns número de pedidos creados
+   */
+  static async runDueStandingOrders(): Promise<number> {
+    const now = new Date();
+    const dueStandingOrders = await prisma.standingOrder.findMany({
+      where: {
+        status: 'active',
+        nextRunAt: { lte: now }
+      },
+      orderBy: { nextRunAt: 'asc' }
+    });
+
+    let created = 0;
+
+    for (const standingOrder of dueStandingOrders) {
+      try {
+        if (await StandingOrderService.runIfDue(standingOrder, now)) {
+          created++;
+        }
+      } catch (error) {
+        console.error(`❌ Error running standing order ${standingOrder.id}:`, error);
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Iniciar el job periódico de canastas recurrentes
+   */
+  static start(): void {
+    if (standingOrderTimer) {
+      return;
+    }
+
+    const run = async () => {
+      try {
+        const created = await StandingOrderService.runDueStandingOrders();
+        if (created > 0) {
+          console.log(`🧺 Created ${created} order(s) from standing orders`);
+        }
+      } catch (error) {
+        console.error('❌ Standing order job failed:', error);
+      }
+    };
+
+    void run();
+    standingOrderTimer = setInterval(run, STANDING_ORDER_INTERVAL_MS);
+  }
+
+  /**
+   * Detener el job periódico de canastas recurrentes
+   */
+  static stop(): void {
+    if (standingOrderTimer) {
+      clearInterval(standingOrderTimer);
+      standingOrderTimer = null;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { Prisma } from '@prisma/client';
+import { SubscriptionPauseService } from './subscriptionPauseService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const nextRenewalDate = new Date('2025-04-01T00:00:00.000Z');
+
+type PauseRow = {
+  id: string;
+  startsAt: Date;
+  endsAt: Date;
+  endedAt: Date | null;
+  cancelledAt: Date | null;
+  renewalShiftedAt: Date | null;
+};
+
+const pause = (id: string, startsAt: string, days: number, fields: Partial<PauseRow> = {}): PauseRow => ({
+  id,
+  startsAt: new Date(startsAt),
+  endsAt: new Date(new Date(startsAt).getTime() + days * DAY_MS),
+  endedAt: null,
+  cancelledAt: null,
+  renewalShiftedAt: null,
+  ...fields
+});
+
+/**
+ * Cliente transaccional en memoria con las pausas de una suscripción
+ */
+function createPauseTx(pauses: PauseRow[]) {
+  const tx = {
+    subscriptionPause: {
+      findMany: jest.fn(async ({ where }) => pauses.filter(row =>
+        row.cancelledAt === null && row.renewalShiftedAt === null && row.startsAt < where.startsAt.lt
+      )),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const rows = pauses.filter(row => where.id.in.includes(row.id));
+        rows.forEach(row => Object.assign(row, data));
+        return { count: rows.length };
+      })
+    }
+  };
+
+  return { tx, client: tx as unknown as Prisma.TransactionClient };
+}
+
+describe('SubscriptionPauseService.shiftForRenewal', () => {
+  it('recorre la renovación lo que dura una pausa del periodo que empieza', async () => {
+    const { client } = createPauseTx([pause('p1', '2025-03-20T00:00:00.000Z', 10)]);
+
+    await expect(SubscriptionPauseService.shiftForRenewal(client, 'sub-1', nextRenewalDate)).resolves.toBe(10 * DAY_MS);
+  });
+
+  it('recorre una sola vez cada pausa', async () => {
+    const { tx, client } = createPauseTx([pause('p1', '2025-03-20T00:00:00.000Z', 10)]);
+
+    await SubscriptionPauseService.shiftForRenewal(client, 'sub-1', nextRenewalDate);
+    const second = await SubscriptionPauseService.shiftForRenewal(client, 'sub-1', nextRenewalDate);
+
+    expect(second).toBe(0);
+    expect(tx.subscriptionPause.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('usa lo que duró de verdad una pausa que terminó antes', async () => {
+    const { client } = createPauseTx([
+      pause('p1', '2025-03-20T00:00:00.000Z', 10, { endedAt: new Date('2025-03-24T00:00:00.000Z') })
+    ]);
+
+    await expect(SubscriptionPauseService.shiftForRenewal(client, 'sub-1', nextRenewalDate)).resolves.toBe(4 * DAY_MS);
+  });
+
+  it('ignora las pausas canceladas y las que empiezan en un periodo posterior', async () => {
+    const { tx, client } = createPauseTx([
+      pause('p1', '2025-03-20T00:00:00.000Z', 10, { cancelledAt: new Date('2025-03-18T00:00:00.000Z') }),
+      pause('p2', '2025-04-05T00:00:00.000Z', 10)
+    ]);
+
+    await expect(SubscriptionPauseService.shiftForRenewal(client, 'sub-1', nextRenewalDate)).resolves.toBe(0);
+    expect(tx.subscriptionPause.updateMany).not.toHaveBeenCalled();
+  });
+});
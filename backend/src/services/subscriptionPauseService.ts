@@ -0,0 +1,279 @@
+import { Prisma, PrismaClient, Subscription, SubscriptionPause } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Duración permitida de una pausa, en días
+const MIN_PAUSE_DAYS = parseInt(process.env.SUBSCRIPTION_PAUSE_MIN_DAYS || '3');
+const MAX_PAUSE_DAYS = parseInt(process.env.SUBSCRIPTION_PAUSE_MAX_DAYS || '30');
+
+// Pausas que se pueden iniciar en 12 meses (las canceladas antes de empezar no cuentan)
+const MAX_PAUSES_PER_YEAR = parseInt(process.env.SUBSCRIPTION_PAUSES_PER_YEAR || '2');
+
+// Con cuánta anticipación se puede programar una pausa
+const MAX_SCHEDULE_AHEAD_DAYS = 60;
+
+export class SubscriptionPauseError extends Error {
+  constructor(public statusCode: number, message: string, public data?: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+export type PauseState = 'active' | 'scheduled' | 'none';
+
+export interface PauseStatus {
+  state: PauseState;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  pausesUsed: number; // Pausas iniciadas en los últimos 12 meses
+  pausesAllowed: number;
+  minDays: number;
+  maxDays: number;
+}
+
+type PauseFields = Pick<Subscription, 'pausedFrom' | 'pausedUntil'>;
+
+const formatDate = (date: Date) => date.toLocaleDateString('es-MX', { day: 'numeric', month: 'long' });
+
+const shiftDate = (date: Date | null, ms: number) => (date ? new Date(date.getTime() + ms) : date);
+
+/**
+ * Recorrer renewalDate (y el vencimiento de los kg heredados) por el tiempo indicado.
+ * Los periodos siguientes se renuevan el nuevo día del mes.
+ */
+function shiftSubscriptionDates(subscription: Subscription, ms: number): Prisma.SubscriptionUpdateInput {
+  const renewalDate = new Date(subscription.renewalDate.getTime() + ms);
+
+  return {
+    renewalDate,
+    billingDay: renewalDate.getUTCDate(),
+    rolloverExpiresAt: shiftDate(subscription.rolloverExpiresAt, ms)
+  };
+}
+
+/**
+ * Pausa que todavía no termina (en curso o programada)
+ */
+async function findOpenPause(
+  db: PrismaClient | Prisma.TransactionClient,
+  subscriptionId: string,
+  now: Date
+): Promise<SubscriptionPause | null> {
+  return db.subscriptionPause.findFirst({
+    where: { subscriptionId, cancelledAt: null, endedAt: null, endsAt: { gt: now } },
+    orderBy: { startsAt: 'asc' }
+  });
+}
+
+async function countRecentPauses(
+  db: PrismaClient | Prisma.TransactionClient,
+  subscriptionId: string,
+  now: Date
+): Promise<number> {
+  return db.subscriptionPause.count({
+    where: {
+      subscriptionId,
+      cancelledAt: null,
+      startsAt: { gt: new Date(now.getTime() - 365 * DAY_MS) }
+    }
+  });
+}
+
+export class SubscriptionPauseService {
+  /**
+   * ¿La suscripción está en pausa en ese momento?
+   */
+  static isPaused(subscription: PauseFields, at: Date = new Date()): boolean {
+    return !!subscription.pausedFrom && !!subscription.pausedUntil &&
+      subscription.pausedFrom <= at && at < subscription.pausedUntil;
+  }
+
+  /**
+   * Mensaje para quien intenta pedir con la suscripción en pausa
+   */
+  static pausedMessage(subscription: PauseFields): string {
+    return `Tu suscripción está en pausa hasta el ${formatDate(subscription.pausedUntil!)}. Reanúdala para hacer pedidos.`;
+  }
+
+  /**
+   * Estado de la pausa y cuántas quedan disponibles
+   */
+  static async getStatus(subscription: Subscription, now: Date = new Date()): Promise<PauseStatus> {
+    const open = subscription.pausedUntil && subscription.pausedUntil > now;
+    const pausesUsed = await countRecentPauses(prisma, subscription.id, now);
+
+    return {
+      state: !open ? 'none' : SubscriptionPauseService.isPaused(subscription, now) ? 'active' : 'scheduled',
+      startsAt: open ? subscription.pausedFrom : null,
+      endsAt: open ? subscription.pausedUntil : null,
+      pausesUsed,
+      pausesAllowed: MAX_PAUSES_PER_YEAR,
+      minDays: MIN_PAUSE_DAYS,
+      maxDays: MAX_PAUSE_DAYS
+    };
+  }
+
+  /**
+   * Pausar la suscripción entre dos fechas (puede empezar hoy o programarse).
+   * Si la pausa empieza antes de la próxima renovación, renewalDate se recorre de una vez;
+   * si empieza después, se recorre al renovar (ver shiftForRenewal).
+   */
+  static async pause(userId: string, requestedStart: Date, endsAt: Date, now: Date = new Date()) {
+    // Una fecha de hoy (sin hora) llega como medianoche: empezar ahora
+    if (requestedStart.getTime() < now.getTime() - DAY_MS) {
+      throw new SubscriptionPauseError(400, 'La pausa no puede empezar en el pasado');
+    }
+
+    // La duración se cuenta en días completos de calendario, antes de mover el inicio a ahora
+    // (redondear absorbe la hora de diferencia de un cambio de horario)
+    const days = Math.round((endsAt.getTime() - requestedStart.getTime()) / DAY_MS);
+    if (days < MIN_PAUSE_DAYS || days > MAX_PAUSE_DAYS) {
+      throw new SubscriptionPauseError(400, `La pausa debe durar entre ${MIN_PAUSE_DAYS} y ${MAX_PAUSE_DAYS} días`);
+    }
+
+    const startsAt = requestedStart < now ? now : requestedStart;
+    if (endsAt <= startsAt) {
+      throw new SubscriptionPauseError(400, 'La pausa debe terminar después de hoy');
+    }
+
+    if (startsAt.getTime() - now.getTime() > MAX_SCHEDULE_AHEAD_DAYS * DAY_MS) {
+      throw new SubscriptionPauseError(400, `Solo puedes programar una pausa con ${MAX_SCHEDULE_AHEAD_DAYS} días de anticipación`);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Bloquear la suscripción para que dos solicitudes no creen dos pausas
+      await tx.subscription.updateMany({
+        where: { userId },
+        data: { updatedAt: new Date() }
+      });
+
+      const subscription = await tx.subscription.findUnique({
+        where: { userId }
+      });
+
+      if (!subscription || !subscription.isActive) {
+        throw new SubscriptionPauseError(403, 'No tienes una suscripción activa');
+      }
+
+      const openPause = await findOpenPause(tx, subscription.id, now);
+      if (openPause) {
+        throw new SubscriptionPauseError(409, 'Ya tienes una pausa en curso o programada', {
+          startsAt: openPause.startsAt,
+          endsAt: openPause.endsAt
+        });
+      }
+
+      const pausesUsed = await countRecentPauses(tx, subscription.id, now);
+      if (pausesUsed >= MAX_PAUSES_PER_YEAR) {
+        throw new SubscriptionPauseError(
+          409,
+          `Solo puedes pausar tu suscripción ${MAX_PAUSES_PER_YEAR} veces en 12 meses`,
+          { pausesUsed, pausesAllowed: MAX_PAUSES_PER_YEAR }
+        );
+      }
+
+      const shiftNow = startsAt < subscription.renewalDate;
+      const durationMs = endsAt.getTime() - startsAt.getTime();
+
+      const pause = await tx.subscriptionPause.create({
+        data: {
+          subscriptionId: subscription.id,
+          startsAt,
+          endsAt,
+          renewalShiftedAt: shiftNow ? now : null
+        }
+      });
+
+      const updatedSubscription = await tx.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          pausedFrom: startsAt,
+          pausedUntil: endsAt,
+          ...(shiftNow && shiftSubscriptionDates(subscription, durationMs))
+        }
+      });
+
+      return { subscription: updatedSubscription, pause };
+    });
+  }
+
+  /**
+   * Reanudar: termina la pausa en curso ahora mismo, o cancela la que aún no empieza.
+   * La renovación se adelanta por el tiempo de pausa que no se usó.
+   */
+  static async resume(userId: string, now: Date = new Date()) {
+    return prisma.$transaction(async (tx) => {
+      await tx.subscription.updateMany({
+        where: { userId },
+        data: { updatedAt: new Date() }
+      });
+
+      const subscription = await tx.subscription.findUnique({
+        where: { userId }
+      });
+
+      if (!subscription) {
+        throw new SubscriptionPauseError(404, 'No se encontró suscripción');
+      }
+
+      const openPause = await findOpenPause(tx, subscription.id, now);
+      if (!openPause) {
+        throw new SubscriptionPauseError(404, 'No tienes una pausa en curso ni programada');
+      }
+
+      const started = openPause.startsAt <= now;
+      const unusedMs = openPause.endsAt.getTime() - (started ? now.getTime() : openPause.startsAt.getTime());
+
+      const pause = await tx.subscriptionPause.update({
+        where: { id: openPause.id },
+        data: started ? { endedAt: now } : { cancelledAt: now }
+      });
+
+      const updatedSubscription = await tx.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          pausedFrom: started ? openPause.startsAt : null,
+          pausedUntil: started ? now : null,
+          ...(openPause.renewalShiftedAt && shiftSubscriptionDates(subscription, -unusedMs))
+        }
+      });
+
+      return { subscription: updatedSubscription, pause, cancelled: !started };
+    });
+  }
+
+  /**
+   * Al renovar: si una pausa programada cae en el periodo que empieza, recorrer la siguiente
+   * renovación por su duración. Se ejecuta dentro de la transacción de la renovación.
+   * @returns milisegundos que hay que sumar a la siguiente renovación
+   */
+  static async shiftForRenewal(
+    tx: Prisma.TransactionClient,
+    subscriptionId: string,
+    nextRenewalDate: Date
+  ): Promise<number> {
+    const pauses = await tx.subscriptionPause.findMany({
+      where: {
+        subscriptionId,
+        cancelledAt: null,
+        renewalShiftedAt: null,
+        startsAt: { lt: nextRenewalDate }
+      }
+    });
+
+    if (pauses.length === 0) {
+      return 0;
+    }
+
+    await tx.subscriptionPause.updateMany({
+      where: { id: { in: pauses.map(pause => pause.id) } },
+      data: { renewalShiftedAt: new Date() }
+    });
+
+    return pauses.reduce(
+      (total, pause) => total + ((pause.endedAt ?? pause.endsAt).getTime() - pause.startsAt.getTime()),
+      0
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { addBillingPeriod, getBillingDay } from './subscriptionRenewalService';
+
+const utc = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+describe('addBillingPeriod', () => {
+  it('suma un mes conservando el día y la hora', () => {
+    const date = new Date('2025-03-15T10:30:00.000Z');
+    expect(addBillingPeriod(date).toISOString()).toBe('2025-04-15T10:30:00.000Z');
+  });
+
+  it('usa el último día del mes cuando el día de facturación no existe', () => {
+    expect(addBillingPeriod(utc('2025-01-31'))).toEqual(utc('2025-02-28'));
+    expect(addBillingPeriod(utc('2024-01-31'))).toEqual(utc('2024-02-29'));
+    expect(addBillingPeriod(utc('2025-03-31'))).toEqual(utc('2025-04-30'));
+  });
+
+  it('vuelve al día de facturación después de un mes corto', () => {
+    const february = addBillingPeriod(utc('2025-01-31'), 31);
+    expect(addBillingPeriod(february, 31)).toEqual(utc('2025-03-31'));
+  });
+
+  it('cruza el cambio de año', () => {
+    expect(addBillingPeriod(utc('2025-12-20'))).toEqual(utc('2026-01-20'));
+  });
+});
+
+describe('getBillingDay', () => {
+  it('usa el día guardado o, si no hay, el de alta', () => {
+    expect(getBillingDay({ billingDay: 31, createdAt: utc('2025-02-28') })).toBe(31);
+    expect(getBillingDay({ billingDay: null, createdAt: utc('2025-01-17') })).toBe(17);
+  });
+});
@@ -0,0 +1,208 @@
+import { PrismaClient, Subscription } from '@prisma/client';
+import { PlanService } from './planService';
+import { RolloverService } from './rolloverService';
+import { SubscriptionPauseService } from './subscriptionPauseService';
+
+const prisma = new PrismaClient();
+
+// Cada cuánto revisa el job las suscripciones vencidas (por defecto cada hora)
+const RENEWAL_INTERVAL_MS = parseInt(process.env.SUBSCRIPTION_RENEWAL_INTERVAL_MS || '3600000');
+
+let renewalTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Sumar un periodo de facturación (un mes) a una fecha, en UTC.
+ * Se renueva el día de facturación de la suscripción; si ese día no existe en el mes
+ * siguiente (ej. 31), se usa el último día del mes y al otro mes se vuelve al 31.
+ */
+export function addBillingPeriod(date: Date, billingDay: number = date.getUTCDate()): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(billingDay, lastDayOfMonth),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    date.getUTCMilliseconds()
+  ));
+}
+
+/**
+ * Día de facturación: el guardado, o el de alta para suscripciones anteriores al campo
+ */
+export function getBillingDay(subscription: Pick<Subscription, 'billingDay' | 'createdAt'>): number {
+  return subscription.billingDay ?? subscription.createdAt.getUTCDate();
+}
+
+export class SubscriptionRenewalService {
+  /**
+   * Renovar una suscripción si su fecha de renovación ya pasó.
+   * Archiva el uso del periodo cerrado, reinicia usedKg y mueve renewalDate un periodo.
+   * El periodo nuevo arranca con el límite completo del plan (o del plan pendiente, si hay
+   * una bajada programada), lo que también descarta el prorrateo de una subida, más los kg
+   * sin usar del periodo cerrado hasta el tope de rollover del plan. Si el periodo que empieza
+   * incluye una pausa programada, su renovación se recorre lo que dure la pausa.
+   * Si la suscripción lleva varios periodos vencidos, los cierra uno por uno.
+   *
+   * Es idempotente: el cambio de renewalDate se hace de forma condicional dentro de una
+   * transacción, así que si otro proceso ya renovó el periodo, esta llamada no hace nada.
+   */
+  static async renewIfDue(subscription: Subscription, now: Date = new Date()): Promise<Subscription> {
+    let current = subscription;
+
+    // Kg heredados que vencen antes de la renovación (por ejemplo, si la renovación se recorrió)
+    if (current.renewalDate > now && current.rolloverExpiresAt && current.rolloverExpiresAt <= now) {
+      await RolloverService.expireIfDue(prisma, current, now);
+      current = (await prisma.subscription.findUnique({ where: { id: current.id } })) ?? current;
+    }
+
+    while (current.renewalDate <= now) {
+      const periodEnd = current.renewalDate;
+      const nextRenewalDate = addBillingPeriod(periodEnd, getBillingDay(current));
+
+      await prisma.$transaction(async (tx) => {
+        // Reclamar el periodo: solo una ejecución puede mover renewalDate desde periodEnd
+        const { count } = await tx.subscription.updateMany({
+          where: { id: current.id, renewalDate: periodEnd },
+          data: { renewalDate: nextRenewalDate }
+        });
+
+        if (count === 0) {
+          return;
+        }
+
+        // La fila queda bloqueada por el update anterior, así que usedKg no puede cambiar
+        const closing = await tx.subscription.findUniqueOrThrow({
+          where: { id: current.id }
+        });
+
+        const pauseShiftMs = await SubscriptionPauseService.shiftForRenewal(tx, closing.id, nextRenewalDate);
+        const renewalDate = new Date(nextRenewalDate.getTime() + pauseShiftMs);
+
+        const nextPlan = await PlanService.findByCode(closing.pendingPlan ?? closing.plan, tx);
+        const carryOverKg = RolloverService.computeCarryOver(closing, nextPlan?.rolloverCapKg ?? 0, periodEnd);
+
+        await tx.subscriptionPeriod.create({
+          data: {
+            subscriptionId: closing.id,
+            plan: closing.plan,
+            limitInKg: closing.limitInKg,
+            usedKg: closing.usedKg,
+            rolloverKg: closing.rolloverKg,
+            rolledOverKg: carryOverKg,
+            periodStart: closing.periodStart,
+            periodEnd
+          }
+        });
+
+        await tx.subscription.update({
+          where: { id: closing.id },
+          data: {
+            usedKg: 0,
+            periodStart: periodEnd,
+            renewalDate,
+            // Una pausa mueve el ciclo: desde aquí se renueva el día en que terminó de recorrerse
+            ...(pauseShiftMs !== 0 && { billingDay: renewalDate.getUTCDate() }),
+            ...(nextPlan && { plan: nextPlan.code, limitInKg: nextPlan.limitInKg }),
+            pendingPlan: null,
+            pendingPlanRequestedAt: null,
+            // Lo heredado vale solo durante el periodo que empieza
+            rolloverKg: carryOverKg,
+            rolloverExpiresAt: carryOverKg > 0 ? renewalDate : null
+          }
+        });
+      });
+
+      const refreshed = await prisma.subscription.findUnique({
+        where: { id: current.id }
+      });
+
+      if (!refreshed) {
+        return current;
+      }
+
+      current = refreshed;
+    }
+
+    return current;
+  }
+
+  /**
+   * Renovar (si corresponde) la suscripción de un usuario.
+   * Se llama antes de leer usedKg para no trabajar con datos de un periodo ya terminado.
+   */
+  static async renewForUser(userId: string): Promise<void> {
+    const now = new Date();
+    const subscription = await prisma.subscription.findFirst({
+      where: {
+        userId,
+        OR: [{ renewalDate: { lte: now } }, { rolloverExpiresAt: { lte: now } }]
+      }
+    });
+
+    if (subscription) {
+      await SubscriptionRenewalService.renewIfDue(subscription);
+    }
+  }
+
+  /**
+   * Renovar todas las suscripciones vencidas (y vencer los kg heredados que ya caducaron)
+   * @returns número de suscripciones renovadas
+   */
+  static async renewDueSubscriptions(): Promise<number> {
+    const now = new Date();
+    const dueSubscriptions = await prisma.subscription.findMany({
+      where: { OR: [{ renewalDate: { lte: now } }, { rolloverExpiresAt: { lte: now } }] }
+    });
+
+    let renewed = 0;
+
+    for (const subscription of dueSubscriptions) {
+      try {
+        await SubscriptionRenewalService.renewIfDue(subscription, now);
+        renewed++;
+      } catch (error) {
+        console.error(`❌ Error renewing subscription ${subscription.id}:`, error);
+      }
+    }
+
+    return renewed;
+  }
+
+  /**
+   * Iniciar el job periódico de renovación
+   */
+  static start(): void {
+    if (renewalTimer) {
+      return;
+    }
+
+    const run = async () => {
+      try {
+        const renewed = await SubscriptionRenewalService.renewDueSubscriptions();
+        if (renewed > 0) {
+          console.log(`🔄 Renewed ${renewed} subscription(s)`);
+        }
+      } catch (error) {
+        console.error('❌ Subscription renewal job failed:', error);
+      }
+    };
+
+    void run();
+    renewalTimer = setInterval(run, RENEWAL_INTERVAL_MS);
+  }
+
+  /**
+   * Detener el job periódico de renovación
+   */
+  static stop(): void {
+    if (renewalTimer) {
+      clearInterval(renewalTimer);
+      renewalTimer = null;
+    }
+  }
+}
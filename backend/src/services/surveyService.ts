@@ -0,0 +1,94 @@
+import { OrderSurvey, Prisma, Producer } from '@prisma/client';
+
+export const SURVEY_LEVELS = ['excellent', 'good', 'regular', 'bad'] as const;
+export type SurveyLevel = typeof SURVEY_LEVELS[number];
+
+// Equivalencia de las respuestas cualitativas en la escala de 1 a 5
+const LEVEL_SCORES: Record<string, number> = {
+  excellent: 5,
+  good: 4,
+  regular: 3,
+  bad: 1
+};
+
+// Solo las encuestas recientes cuentan para los promedios del productor
+const SCORE_WINDOW_DAYS = parseInt(process.env.PRODUCER_SCORE_WINDOW_DAYS || '90');
+
+export interface SubmitSurveyParams {
+  orderId: string;
+  userId: string;
+  producerIds: string[];
+  generalRating: number;
+  productQuality: SurveyLevel;
+  deliveryExperience: SurveyLevel;
+  comments?: string | null;
+}
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100
+    : null;
+
+export class SurveyService {
+  /**
+   * Guardar la encuesta de un pedido y recalcular las calificaciones de sus productores.
+   * Debe ejecutarse dentro de una transacción.
+   */
+  static async submit(tx: Prisma.TransactionClient, params: SubmitSurveyParams): Promise<OrderSurvey> {
+    const survey = await tx.orderSurvey.create({
+      data: {
+        orderId: params.orderId,
+        userId: params.userId,
+        generalRating: params.generalRating,
+        productQuality: params.productQuality,
+        deliveryExperience: params.deliveryExperience,
+        comments: params.comments || null,
+        producers: {
+          create: params.producerIds.map(producerId => ({ producerId }))
+        }
+      }
+    });
+
+    for (const producerId of params.producerIds) {
+      await SurveyService.recomputeProducerScores(tx, producerId);
+    }
+
+    return survey;
+  }
+
+  /**
+   * Indicar si los promedios de un productor llevan más de un día sin recalcularse
+   */
+  static isStale(scoresUpdatedAt: Date | null): boolean {
+    return !scoresUpdatedAt || Date.now() - scoresUpdatedAt.getTime() > 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Recalcular los promedios móviles de un productor con las encuestas de la ventana
+   */
+  static async recomputeProducerScores(tx: Prisma.TransactionClient, producerId: string): Promise<Producer> {
+    const since = new Date(Date.now() - SCORE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const ratings = await tx.orderSurveyProducer.findMany({
+      where: { producerId, createdAt: { gte: since } },
+      include: {
+        survey: {
+          select: { generalRating: true, productQuality: true, deliveryExperience: true }
+        }
+      }
+    });
+
+    const surveys = ratings.map(rating => rating.survey);
+
+    return tx.producer.update({
+      where: { id: producerId },
+      data: {
+        qualityScore: average(surveys.map(survey => LEVEL_SCORES[survey.productQuality] ?? 0)),
+        deliveryScore: average(surveys.map(survey => LEVEL_SCORES[survey.deliveryExperience] ?? 0)),
+        ratingScore: average(surveys.map(survey => survey.generalRating)),
+        surveyCount: surveys.length,
+        scoresUpdatedAt: new Date()
+      }
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { Prisma } from '@prisma/client';
+import { UsageLedgerService } from './usageLedgerService';
+
+const currentPeriod = new Date('2025-03-01T00:00:00.000Z');
+const closedPeriod = new Date('2025-02-01T00:00:00.000Z');
+
+/**
+ * Cliente transaccional en memoria con lo que usa el libro de uso
+ */
+function createLedgerTx() {
+  const subscription = { id: 'sub-1', periodStart: currentPeriod, usedKg: 0 };
+  const entries: Array<{ periodStart: Date; amountKg: number }> = [];
+
+  const tx = {
+    subscription: {
+      update: jest.fn(async ({ data }) => Object.assign(subscription, data))
+    },
+    subscriptionUsageEntry: {
+      create: jest.fn(async ({ data }) => {
+        entries.push(data);
+        return data;
+      }),
+      aggregate: jest.fn(async ({ where }) => {
+        const matching = entries.filter(entry => entry.periodStart.getTime() === where.periodStart.getTime());
+        return {
+          _sum: { amountKg: matching.length > 0 ? matching.reduce((sum, entry) => sum + entry.amountKg, 0) : null }
+        };
+      })
+    },
+    subscriptionPeriod: {
+      updateMany: jest.fn(async () => ({ count: 1 }))
+    }
+  };
+
+  return { tx, client: tx as unknown as Prisma.TransactionClient, subscription };
+}
+
+describe('UsageLedgerService.recordEntry', () => {
+  it('recalcula usedKg del periodo actual como la suma del libro', async () => {
+    const { client, subscription } = createLedgerTx();
+
+    await UsageLedgerService.recordEntry(client, { subscriptionId: 'sub-1', type: 'order_debit', amountKg: 0.1 });
+    const result = await UsageLedgerService.recordEntry(client, { subscriptionId: 'sub-1', type: 'order_debit', amountKg: 0.2 });
+
+    expect(result.usedKg).toBe(0.3);
+    expect(subscription.usedKg).toBe(0.3);
+  });
+
+  it('imputa una devolución sobre un periodo cerrado a su archivo', async () => {
+    const { tx, client, subscription } = createLedgerTx();
+
+    await UsageLedgerService.recordEntry(client, {
+      subscriptionId: 'sub-1', type: 'order_debit', amountKg: 4, periodStart: closedPeriod
+    });
+    const result = await UsageLedgerService.recordEntry(client, {
+      subscriptionId: 'sub-1', type: 'order_cancellation', amountKg: -1.5, periodStart: closedPeriod
+    });
+
+    expect(result.usedKg).toBe(2.5);
+    expect(subscription.usedKg).toBe(0);
+    expect(tx.subscriptionPeriod.updateMany).toHaveBeenLastCalledWith({
+      where: { subscriptionId: 'sub-1', periodStart: closedPeriod },
+      data: { usedKg: 2.5 }
+    });
+  });
+});
+
+describe('UsageLedgerService.getPeriodUsage', () => {
+  it('devuelve cero si el periodo no tiene movimientos', async () => {
+    const { client } = createLedgerTx();
+    await expect(UsageLedgerService.getPeriodUsage(client, 'sub-1', currentPeriod)).resolves.toBe(0);
+  });
+
+  it('conserva el signo de un saldo negativo', async () => {
+    const { client } = createLedgerTx();
+
+    await UsageLedgerService.recordEntry(client, { subscriptionId: 'sub-1', type: 'admin_adjustment', amountKg: -2 });
+
+    await expect(UsageLedgerService.getPeriodUsage(client, 'sub-1', currentPeriod)).resolves.toBe(-2);
+  });
+});
@@ -0,0 +1,180 @@
+import { Prisma, PrismaClient, SubscriptionUsageEntry } from '@prisma/client';
+import { RolloverService } from './rolloverService';
+
+const prisma = new PrismaClient();
+
+export type UsageEntryType = 'opening_balance' | 'order_debit' | 'order_cancellation' | 'plan_change' | 'admin_adjustment';
+
+export interface RecordUsageEntryParams {
+  subscriptionId: string;
+  type: UsageEntryType;
+  amountKg: number; // Positivo = consumo, negativo = devolución
+  periodStart?: Date; // Por defecto, el periodo actual de la suscripción
+  orderId?: string | null;
+  actorId?: string | null;
+  note?: string | null;
+}
+
+export interface RecordUsageEntryResult {
+  entry: SubscriptionUsageEntry;
+  usedKg: number; // Nuevo total del periodo al que se imputó el movimiento
+}
+
+export class UsageLedgerService {
+  /**
+   * Registrar un movimiento inmutable en el libro de uso y recalcular usedKg del periodo.
+   * Debe ejecutarse dentro de una transacción (recibe el cliente transaccional).
+   */
+  static async recordEntry(
+    tx: Prisma.TransactionClient,
+    params: RecordUsageEntryParams
+  ): Promise<RecordUsageEntryResult> {
+    // Bloquear la fila de la suscripción para serializar movimientos concurrentes
+    const subscription = await tx.subscription.update({
+      where: { id: params.subscriptionId },
+      data: { updatedAt: new Date() }
+    });
+
+    const periodStart = params.periodStart ?? subscription.periodStart;
+
+    const entry = await tx.subscriptionUsageEntry.create({
+      data: {
+        subscriptionId: subscription.id,
+        periodStart,
+        type: params.type,
+        amountKg: params.amountKg,
+        orderId: params.orderId ?? null,
+        actorId: params.actorId ?? null,
+        note: params.note ?? null
+      }
+    });
+
+    const usedKg = await UsageLedgerService.getPeriodUsage(tx, subscription.id, periodStart);
+
+    if (periodStart.getTime() === subscription.periodStart.getTime()) {
+      await tx.subscription.update({
+        where: { id: subscription.id },
+        data: { usedKg }
+      });
+    } else {
+      // Movimiento sobre un periodo ya cerrado: actualizar el archivo de ese periodo
+      await tx.subscriptionPeriod.updateMany({
+        where: { subscriptionId: subscription.id, periodStart },
+        data: { usedKg }
+      });
+    }
+
+    return { entry, usedKg };
+  }
+
+  /**
+   * Saldo inicial para suscripciones que ya tenían consumo antes de que existiera el libro de uso.
+   * Sin él, el primer movimiento recalcularía usedKg desde cero y borraría lo ya consumido.
+   * @returns número de suscripciones a las que se les registró saldo inicial
+   */
+  static async backfillOpeningBalances(): Promise<number> {
+    const subscriptions = await prisma.subscription.findMany({
+      where: { usedKg: { gt: 0 }, usageEntries: { none: {} } },
+      select: { id: true, periodStart: true, usedKg: true }
+    });
+
+    for (const subscription of subscriptions) {
+      await prisma.subscriptionUsageEntry.create({
+        data: {
+          subscriptionId: subscription.id,
+          periodStart: subscription.periodStart,
+          type: 'opening_balance',
+          amountKg: subscription.usedKg,
+          note: 'Consumo del periodo registrado antes del libro de uso'
+        }
+      });
+    }
+
+    return subscriptions.length;
+  }
+
+  /**
+   * Calcular los kg consumidos en un periodo a partir del libro de uso.
+   * La suma conserva el signo para que un saldo negativo se note en vez de absorber consumos;
+   * se acota a cero solo al mostrarla (ver RolloverService.getAllowance).
+   */
+  static async getPeriodUsage(
+    client: Prisma.TransactionClient,
+    subscriptionId: string,
+    periodStart: Date
+  ): Promise<number> {
+    const result = await client.subscriptionUsageEntry.aggregate({
+      where: { subscriptionId, periodStart },
+      _sum: { amountKg: true }
+    });
+
+    // Redondear para evitar arrastrar errores de punto flotante
+    return Math.round((result._sum.amountKg ?? 0) * 1000) / 1000;
+  }
+
+  /**
+   * Obtener el historial de uso agrupado por periodo (más reciente primero)
+   */
+  static async getHistory(subscriptionId: string, limit: number = 12) {
+    const subscription = await prisma.subscription.findUniqueOrThrow({
+      where: { id: subscriptionId },
+      include: {
+        periods: {
+          orderBy: { periodStart: 'desc' },
+          take: Math.max(0, limit - 1)
+        }
+      }
+    });
+
+    const periods = [
+      {
+        periodStart: subscription.periodStart,
+        periodEnd: subscription.renewalDate,
+        isCurrent: true,
+        plan: subscription.plan,
+        limitInKg: subscription.limitInKg,
+        rolloverKg: RolloverService.getAllowance(subscription).rolloverKg,
+        rolloverExpiresAt: subscription.rolloverExpiresAt,
+        rolledOverKg: null as number | null // Se sabe hasta que cierre el periodo
+      },
+      ...subscription.periods.map(period => ({
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
+        isCurrent: false,
+        plan: period.plan,
+        limitInKg: period.limitInKg,
+        rolloverKg: period.rolloverKg,
+        rolloverExpiresAt: null as Date | null,
+        rolledOverKg: period.rolledOverKg as number | null
+      }))
+    ];
+
+    const entries = await prisma.subscriptionUsageEntry.findMany({
+      where: {
+        subscriptionId,
+        periodStart: { in: periods.map(period => period.periodStart) }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return periods.map(period => {
+      const periodEntries = entries.filter(
+        entry => entry.periodStart.getTime() === period.periodStart.getTime()
+      );
+      const debitKg = periodEntries
+        .filter(entry => entry.amountKg > 0)
+        .reduce((sum, entry) => sum + entry.amountKg, 0);
+      const creditKg = periodEntries
+        .filter(entry => entry.amountKg < 0)
+        .reduce((sum, entry) => sum - entry.amountKg, 0);
+
+      return {
+        ...period,
+        debitKg: Math.round(debitKg * 1000) / 1000,
+        creditKg: Math.round(creditKg * 1000) / 1000,
+        usedKg: Math.max(0, Math.round((debitKg - creditKg) * 1000) / 1000),
+        entries: periodEntries
+      };
+    });
+  }
+}
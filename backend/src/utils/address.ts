@@ -0,0 +1,54 @@
+// Validación y formato de direcciones de entrega (NUTRIFRESCO)
+import { z } from 'zod';
+
+// Código postal mexicano: 5 dígitos, los dos primeros identifican el estado (01-99)
+export const POSTAL_CODE_REGEX = /^(0[1-9]|[1-9]\d)\d{3}$/;
+
+// 10 dígitos nacionales, opcionalmente con lada internacional, espacios o guiones
+const PHONE_REGEX = /^\+?[\d\s-]{10,16}$/;
+
+export const addressInputSchema = z.object({
+  label: z.string().trim().max(40).optional(),
+  street: z.string().trim().min(1, 'La calle es requerida').max(120),
+  number: z.string().trim().min(1, 'El número es requerido').max(20),
+  neighborhood: z.string().trim().min(1, 'La colonia es requerida').max(120),
+  postalCode: z.string().trim().regex(POSTAL_CODE_REGEX, 'El código postal debe tener 5 dígitos'),
+  city: z.string().trim().min(1, 'La ciudad es requerida').max(80),
+  state: z.string().trim().min(1, 'El estado es requerido').max(80),
+  contactPhone: z.string().trim().regex(PHONE_REGEX, 'El teléfono debe tener 10 dígitos'),
+  references: z.string().trim().max(300).optional()
+});
+
+export type AddressInput = z.infer<typeof addressInputSchema>;
+
+// Copia que se guarda en el pedido (JSON); no cambia si después se edita la libreta
+export type AddressSnapshot = {
+  street: string;
+  number: string;
+  neighborhood: string;
+  postalCode: string;
+  city: string;
+  state: string;
+  contactPhone: string;
+  references: string | null;
+};
+
+export function toAddressSnapshot(address: AddressInput | AddressSnapshot): AddressSnapshot {
+  return {
+    street: address.street,
+    number: address.number,
+    neighborhood: address.neighborhood,
+    postalCode: address.postalCode,
+    city: address.city,
+    state: address.state,
+    contactPhone: address.contactPhone,
+    references: address.references || null
+  };
+}
+
+/**
+ * Texto de una línea para listados y notificaciones
+ */
+export function formatAddress(address: AddressSnapshot): string {
+  return `${address.street} ${address.number}, ${address.neighborhood}, ${address.postalCode}, ${address.city}, ${address.state}`;
+}
@@ -0,0 +1,48 @@
+// Paginación por cursor para los listados del catálogo (NUTRIFRESCO)
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export interface CursorPagination {
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * Leer ?cursor=<id>&limit=20 de la query
+ */
+export function getCursorPagination(query: Record<string, unknown>): CursorPagination {
+  const cursor = typeof query.cursor === 'string' && query.cursor ? query.cursor : undefined;
+  const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(query.limit as string) || DEFAULT_LIMIT));
+  return { cursor, limit };
+}
+
+/**
+ * Argumentos de findMany: se pide un registro extra para saber si hay otra página.
+ * El orderBy debe terminar en id para que el orden sea estable.
+ */
+export function cursorArgs({ cursor, limit }: CursorPagination) {
+  return {
+    cursor: cursor ? { id: cursor } : undefined,
+    skip: cursor ? 1 : 0,
+    take: limit + 1
+  };
+}
+
+/**
+ * Recortar el registro extra y calcular el siguiente cursor
+ */
+export function cursorPage<T extends { id: string }>(rows: T[], limit: number, total: number) {
+  const hasNext = rows.length > limit;
+  const items = hasNext ? rows.slice(0, limit) : rows;
+
+  return {
+    items,
+    meta: {
+      total,
+      limit,
+      hasNext,
+      nextCursor: hasNext ? items[items.length - 1].id : null
+    }
+  };
+}
@@ -0,0 +1,61 @@
+import { canTransition, deriveOrderStatus, getAllowedTransitions, getSourceStatuses } from './orderStatus';
+
+describe('deriveOrderStatus', () => {
+  it('queda pendiente si el pedido no tiene surtidos', () => {
+    expect(deriveOrderStatus([])).toBe('pending');
+  });
+
+  it('se cancela solo cuando todos los surtidos están cancelados', () => {
+    expect(deriveOrderStatus(['cancelled', 'cancelled'])).toBe('cancelled');
+    expect(deriveOrderStatus(['cancelled', 'pending'])).toBe('pending');
+  });
+
+  it('toma el estado menos avanzado de los surtidos activos', () => {
+    expect(deriveOrderStatus(['confirmed', 'preparing'])).toBe('confirmed');
+    expect(deriveOrderStatus(['preparing', 'preparing', 'cancelled'])).toBe('preparing');
+  });
+
+  it('marca listo o parcialmente listo', () => {
+    expect(deriveOrderStatus(['ready', 'ready'])).toBe('ready');
+    expect(deriveOrderStatus(['ready', 'preparing'])).toBe('partially_ready');
+    expect(deriveOrderStatus(['ready', 'cancelled'])).toBe('ready');
+  });
+
+  it('marca entregado o parcialmente entregado', () => {
+    expect(deriveOrderStatus(['delivered', 'delivered', 'cancelled'])).toBe('delivered');
+    expect(deriveOrderStatus(['delivered', 'ready'])).toBe('partially_delivered');
+    expect(deriveOrderStatus(['delivered', 'pending'])).toBe('partially_delivered');
+  });
+});
+
+describe('canTransition', () => {
+  it('deja al cliente cancelar solo antes de la preparación', () => {
+    expect(canTransition('pending', 'cancelled', 'customer')).toBe(true);
+    expect(canTransition('confirmed', 'cancelled', 'customer')).toBe(true);
+    expect(canTransition('preparing', 'cancelled', 'customer')).toBe(false);
+  });
+
+  it('reserva el avance del surtido al productor y al admin', () => {
+    expect(canTransition('preparing', 'ready', 'producer')).toBe(true);
+    expect(canTransition('ready', 'delivered', 'admin')).toBe(true);
+    expect(canTransition('preparing', 'ready', 'customer')).toBe(false);
+  });
+
+  it('no permite saltar estados ni retroceder', () => {
+    expect(canTransition('pending', 'ready', 'admin')).toBe(false);
+    expect(canTransition('ready', 'preparing', 'producer')).toBe(false);
+  });
+
+  it('trata delivered y cancelled como estados finales', () => {
+    expect(getAllowedTransitions('delivered', 'admin')).toEqual([]);
+    expect(getAllowedTransitions('cancelled', 'admin')).toEqual([]);
+  });
+
+  it('rechaza estados desconocidos', () => {
+    expect(canTransition('shipped', 'delivered', 'admin')).toBe(false);
+  });
+
+  it('lista los estados desde los que un rol puede llegar a un destino', () => {
+    expect(getSourceStatuses('cancelled', 'customer')).toEqual(['pending', 'confirmed']);
+  });
+});
@@ -0,0 +1,102 @@
+// Estados de pedido y de surtido por productor (NUTRIFRESCO)
+
+// Estados que puede tener el surtido de un productor dentro de un pedido
+export const FULFILLMENT_STATUSES = ['pending', 'confirmed', 'preparing', 'ready', 'delivered', 'cancelled'];
+
+// Estados del pedido padre: los de surtido más los estados parciales derivados
+export const ORDER_STATUSES = [...FULFILLMENT_STATUSES, 'partially_ready', 'partially_delivered'];
+
+// Orden de avance de un surtido (cancelled queda fuera)
+const PROGRESS = ['pending', 'confirmed', 'preparing', 'ready', 'delivered'];
+
+/**
+ * Derivar el estado del pedido a partir de los estados de sus surtidos por productor.
+ * - Todos cancelados → cancelled
+ * - Todos los activos entregados → delivered; algunos entregados → partially_delivered
+ * - Todos los activos listos → ready; algunos listos → partially_ready
+ * - En otro caso, el estado menos avanzado de los surtidos activos
+ */
+export function deriveOrderStatus(fulfillmentStatuses: string[]): string {
+  const active = fulfillmentStatuses.filter(status => status !== 'cancelled');
+
+  if (fulfillmentStatuses.length === 0) {
+    return 'pending';
+  }
+
+  if (active.length === 0) {
+    return 'cancelled';
+  }
+
+  const progress = active.map(status => Math.max(0, PROGRESS.indexOf(status)));
+  const minProgress = Math.min(...progress);
+  const readyIndex = PROGRESS.indexOf('ready');
+  const deliveredIndex = PROGRESS.indexOf('delivered');
+
+  if (minProgress === deliveredIndex) {
+    return 'delivered';
+  }
+
+  if (progress.some(value => value === deliveredIndex)) {
+    return 'partially_delivered';
+  }
+
+  if (minProgress === readyIndex) {
+    return 'ready';
+  }
+
+  if (progress.some(value => value >= readyIndex)) {
+    return 'partially_ready';
+  }
+
+  return PROGRESS[minProgress];
+}
+
+export type OrderActorRole = 'customer' | 'producer' | 'admin';
+
+/**
+ * Máquina de estados de un surtido/pedido: transiciones permitidas y qué rol puede
+ * ejecutar cada una. delivered y cancelled son estados finales.
+ */
+export const STATUS_TRANSITIONS: Record<string, Record<string, OrderActorRole[]>> = {
+  pending: {
+    confirmed: ['producer', 'admin'],
+    preparing: ['producer', 'admin'], // Aceptar el pedido lo pasa directo a preparación
+    cancelled: ['customer', 'producer', 'admin']
+  },
+  confirmed: {
+    preparing: ['producer', 'admin'],
+    cancelled: ['customer', 'producer', 'admin']
+  },
+  preparing: {
+    ready: ['producer', 'admin'],
+    cancelled: ['producer', 'admin']
+  },
+  ready: {
+    delivered: ['producer', 'admin'],
+    cancelled: ['producer', 'admin']
+  },
+  delivered: {},
+  cancelled: {}
+};
+
+/**
+ * Verificar si un rol puede mover un surtido/pedido de un estado a otro
+ */
+export function canTransition(from: string, to: string, role: OrderActorRole): boolean {
+  return STATUS_TRANSITIONS[from]?.[to]?.includes(role) ?? false;
+}
+
+/**
+ * Estados a los que un rol puede mover un surtido/pedido desde su estado actual
+ */
+export function getAllowedTransitions(from: string, role: OrderActorRole): string[] {
+  const transitions = STATUS_TRANSITIONS[from] || {};
+  return Object.keys(transitions).filter(to => transitions[to].includes(role));
+}
+
+/**
+ * Estados desde los que un rol puede llegar a un estado destino
+ */
+export function getSourceStatuses(to: string, role: OrderActorRole): string[] {
+  return Object.keys(STATUS_TRANSITIONS).filter(from => canTransition(from, to, role));
+}
@@ -22,6 +22,7 @@ import OrdersScreen from '../screens/OrdersScreen';
 import OrderDetailScreen from '../screens/OrderDetailScreen';
 import { OrderTrackingScreen } from '../screens/OrderTrackingScreen';
 import { SatisfactionSurveyScreen } from '../screens/SatisfactionSurveyScreen';
+import { StandingOrdersScreen } from '../screens/StandingOrdersScreen';
 
 // Settings Screens
 import { ThemeSettingsScreen } from '../screens/main/ThemeSettingsScreen';
@@ -39,6 +40,7 @@ export type RootStackParamList = {
   OrderDetail: { orderId: string };
   OrderTracking: { orderId: string };
   SatisfactionSurvey: { orderId: string };
+  StandingOrders: undefined;
   Employee: undefined;
   EmployeeLogin: undefined; // Add Employee Login to auth stack
   Producer: undefined; // Producer Panel
@@ -188,6 +190,20 @@ export const AppNavigator: React.FC = () => {
                 },
               }}
             />
+            <Stack.Screen 
+              name="StandingOrders" 
+              component={StandingOrdersScreen}
+              options={{
+                title: 'Canastas Recurrentes',
+                headerStyle: {
+                  backgroundColor: '#22c55e',
+                },
+                headerTintColor: '#fff',
+                headerTitleStyle: {
+                  fontWeight: 'bold',
+                },
+              }}
+            />
             <Stack.Screen 
               name="ThemeSettings" 
               component={ThemeSettingsScreen}
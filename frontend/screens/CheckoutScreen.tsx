@@ -15,7 +15,8 @@ import { useCartStore } from '../stores/cartStore';
 import { useOrderStore } from '../stores/orderStore_nutrifresco';
 import { useSubscriptionStore } from '../stores/subscriptionStore';
 import { useAuthStore } from '../stores/authStore';
-import { useAddressStore, DeliveryAddress } from '../stores/addressStore';
+import { useAddressStore, DeliveryAddress, DeliveryAddressInput, POSTAL_CODE_REGEX } from '../stores/addressStore';
+import { useDeliverySlotStore, formatDeliverySlot } from '../stores/deliverySlotStore';
 import { useThemeStore } from '../stores/themeStore';
 import { ToastManager } from '../utils/ToastManager';
 import { AlertManager } from '../utils/AlertManager';
@@ -34,9 +35,11 @@ export const CheckoutScreen: React.FC = () => {
     selectAddress, 
     loadAddresses,
     getFavoriteAddresses,
+    getDefaultAddress,
     setFavorite,
     loading: addressesLoading 
   } = useAddressStore();
+  const { slots, fetchAvailableSlots, loading: slotsLoading } = useDeliverySlotStore();
   const { getThemeColors, currentTheme, colorMode } = useThemeStore();
   const COLORS = getThemeColors();
 
@@ -44,6 +47,7 @@ export const CheckoutScreen: React.FC = () => {
   const [saveAsFavorite, setSaveAsFavorite] = useState(false);
   const [useFavoriteAddress, setUseFavoriteAddress] = useState(false);
   const [selectedFavoriteId, setSelectedFavoriteId] = useState<string | null>(null);
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null);
 
   // Form fields
   const [street, setStreet] = useState('');
@@ -64,6 +68,29 @@ export const CheckoutScreen: React.FC = () => {
     }
   }, []);
 
+  // Horarios con cupo para el peso actual del carrito
+  useEffect(() => {
+    if (step === 'review') {
+      fetchAvailableSlots(getTotalWeightInKg());
+    }
+  }, [step]);
+
+  // Si el horario elegido se llenó, quitar la selección
+  useEffect(() => {
+    if (selectedSlotId && !slots.some(slot => slot.id === selectedSlotId)) {
+      setSelectedSlotId(null);
+    }
+  }, [slots]);
+
+  // Precargar la dirección predeterminada de la libreta
+  useEffect(() => {
+    const defaultAddress = getDefaultAddress();
+    if (defaultAddress && !selectedFavoriteId && !street) {
+      setUseFavoriteAddress(true);
+      setSelectedFavoriteId(defaultAddress.id);
+    }
+  }, [addresses]);
+
   useEffect(() => {
     if (selectedFavoriteId) {
       const favorite = addresses.find(addr => addr.id === selectedFavoriteId);
@@ -98,6 +125,10 @@ export const CheckoutScreen: React.FC = () => {
       ToastManager.error('Error', 'El código postal es requerido');
       return false;
     }
+    if (!POSTAL_CODE_REGEX.test(postalCode.trim())) {
+      ToastManager.error('Error', 'El código postal debe tener 5 dígitos');
+      return false;
+    }
     if (!city.trim()) {
       ToastManager.error('Error', 'La ciudad es requerida');
       return false;
@@ -113,23 +144,38 @@ export const CheckoutScreen: React.FC = () => {
     return true;
   };
 
+  const buildAddressInput = (isFavorite: boolean): DeliveryAddressInput => ({
+    street: street.trim(),
+    number: number.trim(),
+    neighborhood: neighborhood.trim(),
+    postalCode: postalCode.trim(),
+    city: city.trim(),
+    state: state.trim(),
+    contactPhone: contactPhone.trim(),
+    references: references.trim() || undefined,
+    isFavorite,
+  });
+
+  // La dirección de la libreta solo se reutiliza si el formulario no se modificó
+  const matchesSelectedAddress = (address: DeliveryAddress | null): address is DeliveryAddress => {
+    if (!address || address.id !== selectedFavoriteId) return false;
+    const input = buildAddressInput(address.isFavorite);
+    return input.street === address.street
+      && input.number === address.number
+      && input.neighborhood === address.neighborhood
+      && input.postalCode === address.postalCode
+      && input.city === address.city
+      && input.state === address.state
+      && input.contactPhone === address.contactPhone
+      && (input.references || '') === (address.references || '');
+  };
+
   const handleSaveAddress = async () => {
     if (!validateAddress()) return;
 
-    const addressData: Omit<DeliveryAddress, 'id' | 'createdAt'> = {
-      street: street.trim(),
-      number: number.trim(),
-      neighborhood: neighborhood.trim(),
-      postalCode: postalCode.trim(),
-      city: city.trim(),
-      state: state.trim(),
-      contactPhone: contactPhone.trim(),
-      references: references.trim() || undefined,
-      isFavorite: saveAsFavorite,
-    };
-
-    const success = await addAddress(addressData);
-    if (success) {
+    const savedAddress = await addAddress(buildAddressInput(saveAsFavorite));
+    if (savedAddress) {
+      setSelectedFavoriteId(savedAddress.id);
       if (saveAsFavorite) {
         ToastManager.success('Dirección guardada', 'La dirección se guardó en favoritos');
       }
@@ -173,23 +219,20 @@ export const CheckoutScreen: React.FC = () => {
       return;
     }
 
-    const deliveryAddress = formatAddress();
+    if (slots.length > 0 && !selectedSlotId) {
+      ToastManager.error('Horario requerido', 'Elige un horario de entrega');
+      return;
+    }
+
     const notes = references.trim() || undefined;
 
+    // Usar la dirección de la libreta si no se modificó; si no, enviar la capturada
+    let addressId = matchesSelectedAddress(selectedAddress) ? selectedAddress.id : undefined;
+
     // Save address as favorite if requested
-    if (saveAsFavorite && !selectedFavoriteId) {
-      const addressData: Omit<DeliveryAddress, 'id' | 'createdAt'> = {
-        street: street.trim(),
-        number: number.trim(),
-        neighborhood: neighborhood.trim(),
-        postalCode: postalCode.trim(),
-        city: city.trim(),
-        state: state.trim(),
-        contactPhone: contactPhone.trim(),
-        references: references.trim() || undefined,
-        isFavorite: true,
-      };
-      await addAddress(addressData);
+    if (saveAsFavorite && !addressId) {
+      const savedAddress = await addAddress(buildAddressInput(true));
+      addressId = savedAddress?.id;
     }
 
     // Simulate payment (no real payment in NUTRIFRESCO)
@@ -198,7 +241,8 @@ export const CheckoutScreen: React.FC = () => {
       `¿Deseas confirmar tu pedido de ${totalWeight.toFixed(2)} kg?`,
       async () => {
         const success = await createOrder({
-          deliveryAddress,
+          ...(addressId ? { addressId } : { address: buildAddressInput(false) }),
+          deliverySlotId: selectedSlotId ?? undefined,
           notes,
         });
 
@@ -222,7 +266,11 @@ export const CheckoutScreen: React.FC = () => {
             }
           }, 2000);
         } else {
-          ToastManager.error('Error', 'No se pudo crear el pedido');
+          ToastManager.error('Error', useOrderStore.getState().error || 'No se pudo crear el pedido');
+          // El horario pudo llenarse mientras se confirmaba
+          if (selectedSlotId) {
+            fetchAvailableSlots(totalWeight);
+          }
         }
       }
     );
@@ -308,6 +356,42 @@ export const CheckoutScreen: React.FC = () => {
           </Text>
         </View>
 
+        {/* Delivery Slot */}
+        <View style={[styles.section, { backgroundColor: COLORS.surface, borderColor: COLORS.border }]}>
+          <Text style={[styles.sectionTitle, { color: COLORS.text }]}>🕒 Horario de Entrega</Text>
+          {slotsLoading && slots.length === 0 ? (
+            <ActivityIndicator size="small" color={COLORS.primary} />
+          ) : slots.length === 0 ? (
+            <Text style={[styles.slotEmptyText, { color: COLORS.textSecondary }]}>
+              No hay horarios disponibles por ahora; te contactaremos para coordinar la entrega.
+            </Text>
+          ) : (
+            slots.map((slot) => {
+              const isSelected = selectedSlotId === slot.id;
+              return (
+                <TouchableOpacity
+                  key={slot.id}
+                  style={[
+                    styles.slotCard,
+                    {
+                      backgroundColor: isSelected ? COLORS.primary + '20' : COLORS.background,
+                      borderColor: isSelected ? COLORS.primary : COLORS.border,
+                    },
+                  ]}
+                  onPress={() => setSelectedSlotId(slot.id)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.slotTime, { color: COLORS.text }]}>{formatDeliverySlot(slot)}</Text>
+                  <Text style={[styles.slotDetails, { color: COLORS.textSecondary }]}>
+                    📍 {slot.zone}
+                    {slot.remainingOrders !== null ? ` • ${slot.remainingOrders} lugares` : ''}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+
         {/* Action Buttons */}
         <View style={styles.actions}>
           <Button
@@ -734,6 +818,24 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     fontSize: 14,
     marginTop: 8,
   },
+  slotCard: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  slotTime: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  slotDetails: {
+    fontSize: 13,
+  },
+  slotEmptyText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
   actions: {
     flexDirection: 'row',
     gap: 12,
@@ -9,6 +9,7 @@ import {
   Alert,
 } from 'react-native';
 import { useOrderStore } from '../stores/orderStore';
+import { useOrderStore as useSubscriptionOrderStore } from '../stores/orderStore_nutrifresco';
 import { useConfigStore } from '../stores/configStore';
 import { useCatalogStore } from '../stores/catalogStore';
 import { useCartStore } from '../stores/cartStore';
@@ -37,7 +38,9 @@ const OrderDetailScreen: React.FC<OrderDetailScreenProps> = ({ navigation, route
   const { config } = useConfigStore();
   const { catalog } = useCatalogStore();
   const { addItem } = useCartStore();
+  const { cancelOrder } = useSubscriptionOrderStore();
   
+  const [cancelling, setCancelling] = useState(false);
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -216,6 +219,43 @@ const OrderDetailScreen: React.FC<OrderDetailScreenProps> = ({ navigation, route
     }
   };
 
+  const handleCancelOrder = () => {
+    Alert.alert(
+      'Cancel Order',
+      'Why do you want to cancel this order? The kilograms will be returned to your subscription.',
+      [
+        { text: 'Keep Order', style: 'cancel' },
+        { text: 'No longer needed', onPress: () => confirmCancelOrder('No longer needed') },
+        { text: 'Ordered by mistake', onPress: () => confirmCancelOrder('Ordered by mistake') },
+      ]
+    );
+  };
+
+  const confirmCancelOrder = async (reason: string) => {
+    if (!order) return;
+
+    setCancelling(true);
+    const result = await cancelOrder(order.id, reason);
+    setCancelling(false);
+
+    if (!result) {
+      ToastManager.error(useSubscriptionOrderStore.getState().error || 'Failed to cancel order');
+      return;
+    }
+
+    setOrder({ ...order, status: 'cancelled' });
+
+    const refundMessage = result.refundedKg <= 0
+      ? 'No kilograms needed to be returned.'
+      : result.creditedToCurrentPeriod
+        ? `${result.refundedKg.toFixed(2)} kg were returned to your current period.`
+        : `Your billing period already renewed, so the ${result.refundedKg.toFixed(2)} kg credit was recorded in your subscription history.`;
+
+    Alert.alert('Order Cancelled', refundMessage);
+  };
+
+  const canCancel = order?.status === 'pending' || order?.status === 'confirmed';
+
   if (loading) {
     return (
       <View style={styles.centerContainer}>
@@ -409,6 +449,20 @@ const OrderDetailScreen: React.FC<OrderDetailScreenProps> = ({ navigation, route
           </TouchableOpacity>
         )}
         
+        {canCancel && (
+          <TouchableOpacity
+            style={[styles.button, styles.cancelButton]}
+            onPress={handleCancelOrder}
+            disabled={cancelling}
+          >
+            {cancelling ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.buttonText}>Cancel Order</Text>
+            )}
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={[styles.button, styles.outlineButton]}
           onPress={() => navigation.goBack()}
@@ -630,6 +684,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  cancelButton: {
+    backgroundColor: '#ef4444',
+  },
   outlineButton: {
     backgroundColor: 'transparent',
     borderWidth: 1,
@@ -9,6 +9,7 @@ import {
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { useOrderStore } from '../stores/orderStore_nutrifresco';
+import { formatDeliverySlot } from '../stores/deliverySlotStore';
 import { useAuthStore } from '../stores/authStore';
 import { useThemeStore } from '../stores/themeStore';
 import { ToastManager } from '../utils/ToastManager';
@@ -58,8 +59,35 @@ const DELIVERY_STEPS: DeliveryStep[] = [
   },
 ];
 
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pendiente',
+  confirmed: 'Confirmado',
+  preparing: 'En preparación',
+  partially_ready: 'Parcialmente listo',
+  ready: 'Listo / en camino',
+  partially_delivered: 'Parcialmente entregado',
+  delivered: 'Entregado',
+  cancelled: 'Cancelado',
+};
+
+const formatEventTime = (dateString: string): string => {
+  const date = new Date(dateString);
+  return date.toLocaleString('es-MX', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
 const getStatusIndex = (status: string): number => {
-  const index = DELIVERY_STEPS.findIndex(step => step.id === status);
+  // Estados parciales (pedido con varios productores): mostrar el paso anterior
+  const normalized = status === 'partially_ready'
+    ? 'preparing'
+    : status === 'partially_delivered'
+      ? 'ready'
+      : status;
+  const index = DELIVERY_STEPS.findIndex(step => step.id === normalized);
   return index >= 0 ? index : 0;
 };
 
@@ -83,12 +111,12 @@ export const OrderTrackingScreen: React.FC = () => {
   const route = useRoute<OrderTrackingRouteProp>();
   const { orderId } = route.params;
   const { user } = useAuthStore();
-  const { currentOrder, fetchOrderById, loading } = useOrderStore();
+  const { currentOrder, fetchOrderById, subscribeToOrder, trackingMode, loading } = useOrderStore();
   const { getThemeColors, currentTheme, colorMode } = useThemeStore();
   const COLORS = getThemeColors();
 
   const [currentStatus, setCurrentStatus] = useState<OrderStatus>('confirmed');
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const previousStatusRef = useRef<string | null>(null);
 
   const styles = useMemo(() => createStyles(COLORS, colorMode), [currentTheme.id, colorMode]);
 
@@ -98,67 +126,32 @@ export const OrderTrackingScreen: React.FC = () => {
     }
   }, [orderId]);
 
+  // Seguir el pedido en tiempo real (SSE, con polling si se cae la conexión)
   useEffect(() => {
-    if (currentOrder) {
-      setCurrentStatus(currentOrder.status as OrderStatus);
-    }
-  }, [currentOrder]);
+    if (!orderId) return;
+    const unsubscribe = subscribeToOrder(orderId);
+    return unsubscribe;
+  }, [orderId]);
 
-  // Simulación automática de estados cada 2 segundos
+  // Reflejar el estado real del pedido y avisar cuando cambia
   useEffect(() => {
-    // Limpiar intervalo anterior si existe
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
+    if (!currentOrder || currentOrder.id !== orderId) return;
+
+    const status = currentOrder.status;
+    const previousStatus = previousStatusRef.current;
+    previousStatusRef.current = status;
+    setCurrentStatus(status as OrderStatus);
 
-    // Solo simular si no está entregado
-    if (currentStatus === 'delivered') return;
-
-    const statusOrder: OrderStatus[] = ['confirmed', 'preparing', 'ready', 'delivered'];
-    const currentIndex = statusOrder.indexOf(currentStatus);
-    
-    // Si ya está en el último estado, no hacer nada
-    if (currentIndex >= statusOrder.length - 1) return;
-
-    // Usar setTimeout para evitar actualizar durante el renderizado
-    intervalRef.current = setInterval(() => {
-      setCurrentStatus((prevStatus) => {
-        const prevIndex = statusOrder.indexOf(prevStatus);
-        
-        // Si ya está entregado, no avanzar más
-        if (prevIndex >= statusOrder.length - 1) {
-          if (intervalRef.current) {
-            clearInterval(intervalRef.current);
-            intervalRef.current = null;
-          }
-          return prevStatus;
-        }
-
-        const nextStatus = statusOrder[prevIndex + 1];
-        
-        // Usar setTimeout para mostrar notificaciones después del renderizado
-        setTimeout(() => {
-          if (nextStatus === 'delivered') {
-            ToastManager.success('Pedido Entregado', '¡Tu pedido ha sido entregado exitosamente!');
-          } else {
-            const stepLabel = DELIVERY_STEPS.find(s => s.id === nextStatus)?.label || nextStatus;
-            ToastManager.success('Estado Actualizado', `Tu pedido ahora está: ${stepLabel}`);
-          }
-        }, 0);
-
-        return nextStatus;
-      });
-    }, 2000); // 2 segundos
-
-    // Limpiar intervalo cuando el componente se desmonte o cambie el estado
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    };
-  }, [currentStatus]);
+    if (!previousStatus || previousStatus === status) return;
+
+    if (status === 'delivered') {
+      ToastManager.success('Pedido Entregado', '¡Tu pedido ha sido entregado exitosamente!');
+    } else if (status === 'cancelled') {
+      ToastManager.error('Pedido Cancelado', 'Tu pedido ha sido cancelado');
+    } else {
+      ToastManager.success('Estado Actualizado', `Tu pedido ahora está: ${STATUS_LABELS[status] || status}`);
+    }
+  }, [currentOrder?.id, currentOrder?.status]);
 
   const currentStepIndex = getStatusIndex(currentStatus);
   const isDelivered = currentStatus === 'delivered';
@@ -282,6 +275,35 @@ export const OrderTrackingScreen: React.FC = () => {
         })}
       </View>
 
+      {/* Status History */}
+      {currentOrder.timeline && currentOrder.timeline.length > 0 && (
+        <View style={[styles.historySection, { backgroundColor: COLORS.surface, borderColor: COLORS.border }]}>
+          <Text style={[styles.sectionTitle, { color: COLORS.text }]}>Historial</Text>
+          {[...currentOrder.timeline].reverse().map((event) => (
+            <View key={event.id} style={[styles.historyItem, { borderBottomColor: COLORS.border }]}>
+              <View style={styles.historyHeader}>
+                <Text style={[styles.historyStatus, { color: COLORS.text }]}>
+                  {STATUS_LABELS[event.toStatus] || event.toStatus}
+                </Text>
+                <Text style={[styles.historyTime, { color: COLORS.textSecondary }]}>
+                  {formatEventTime(event.createdAt)}
+                </Text>
+              </View>
+              {event.producerName && (
+                <Text style={[styles.historyDetail, { color: COLORS.textSecondary }]}>
+                  Productor: {event.producerName}
+                </Text>
+              )}
+              {event.note && (
+                <Text style={[styles.historyDetail, { color: COLORS.textSecondary }]}>
+                  {event.note}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Delivery Address */}
       <View style={[styles.addressSection, { backgroundColor: COLORS.surface, borderColor: COLORS.border }]}>
         <Text style={[styles.sectionTitle, { color: COLORS.text }]}>Dirección de entrega</Text>
@@ -290,6 +312,11 @@ export const OrderTrackingScreen: React.FC = () => {
             {currentOrder.deliveryAddress}
           </Text>
         )}
+        {currentOrder.deliverySlot && (
+          <Text style={[styles.addressText, { color: COLORS.textSecondary }]}>
+            🕒 {formatDeliverySlot(currentOrder.deliverySlot)}
+          </Text>
+        )}
         {currentOrder.notes && (
           <View style={styles.referencesContainer}>
             <Text style={[styles.referencesLabel, { color: COLORS.textSecondary }]}>Referencias:</Text>
@@ -298,11 +325,13 @@ export const OrderTrackingScreen: React.FC = () => {
         )}
       </View>
 
-      {/* Auto-simulation indicator */}
-      {!isDelivered && (
-        <View style={[styles.simulationIndicator, { backgroundColor: COLORS.primary + '15', borderColor: COLORS.primary + '40' }]}>
-          <Text style={[styles.simulationIndicatorText, { color: COLORS.primary }]}>
-            ⚡ Simulación automática: El estado avanzará cada 2 segundos
+      {/* Live tracking indicator */}
+      {!isDelivered && currentStatus !== 'cancelled' && trackingMode !== 'idle' && (
+        <View style={[styles.trackingIndicator, { backgroundColor: COLORS.primary + '15', borderColor: COLORS.primary + '40' }]}>
+          <Text style={[styles.trackingIndicatorText, { color: COLORS.primary }]}>
+            {trackingMode === 'live'
+              ? '🟢 En vivo: el estado se actualiza automáticamente'
+              : '🔄 Sin conexión en vivo: actualizando cada 10 segundos'}
           </Text>
         </View>
       )}
@@ -485,6 +514,35 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     lineHeight: 20,
     marginTop: 4,
   },
+  historySection: {
+    padding: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 16,
+    backgroundColor: COLORS.surface,
+    borderColor: COLORS.border,
+  },
+  historyItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  historyStatus: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  historyTime: {
+    fontSize: 13,
+  },
+  historyDetail: {
+    fontSize: 14,
+    marginTop: 4,
+    lineHeight: 20,
+  },
   addressSection: {
     padding: 20,
     borderRadius: 12,
@@ -516,7 +574,7 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     color: COLORS.text,
     lineHeight: 20,
   },
-  simulationIndicator: {
+  trackingIndicator: {
     padding: 12,
     borderRadius: 12,
     borderWidth: 1,
@@ -524,7 +582,7 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     alignItems: 'center',
     justifyContent: 'center',
   },
-  simulationIndicatorText: {
+  trackingIndicatorText: {
     fontSize: 14,
     fontWeight: '600',
     textAlign: 'center',
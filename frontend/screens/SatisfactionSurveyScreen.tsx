@@ -11,6 +11,7 @@ import {
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { useAuthStore } from '../stores/authStore';
 import { useThemeStore } from '../stores/themeStore';
+import { useOrderStore } from '../stores/orderStore_nutrifresco';
 import { ToastManager } from '../utils/ToastManager';
 import { Button } from '../components/ui/Button';
 
@@ -77,6 +78,7 @@ export const SatisfactionSurveyScreen: React.FC = () => {
   const route = useRoute<SatisfactionSurveyRouteProp>();
   const { orderId } = route.params;
   const { user } = useAuthStore();
+  const { submitSurvey } = useOrderStore();
   const { getThemeColors, currentTheme, colorMode } = useThemeStore();
   const COLORS = getThemeColors();
 
@@ -105,9 +107,18 @@ export const SatisfactionSurveyScreen: React.FC = () => {
 
     setSubmitting(true);
     try {
-      // TODO: Send survey data to backend
-      // For now, just simulate submission
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      const sent = await submitSurvey(orderId, {
+        generalRating,
+        productQuality,
+        deliveryExperience,
+        comments: additionalComments.trim() || undefined,
+      });
+
+      if (!sent) {
+        const message = useOrderStore.getState().error;
+        ToastManager.error('Error', message || 'No se pudo enviar la encuesta. Inténtalo de nuevo.');
+        return;
+      }
       
       ToastManager.success('Encuesta Enviada', '¡Gracias por tu feedback!');
       
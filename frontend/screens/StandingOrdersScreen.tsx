@@ -0,0 +1,523 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import {
+  useStandingOrderStore,
+  StandingOrder,
+  StandingOrderFrequency,
+  FREQUENCY_LABELS,
+  SKIP_REASON_LABELS,
+} from '../stores/standingOrderStore';
+import { useThemeStore } from '../stores/themeStore';
+import { ToastManager } from '../utils/ToastManager';
+import { AlertManager } from '../utils/AlertManager';
+import { Button } from '../components/ui/Button';
+
+// Cantidades editadas por canasta, antes de guardar: { [standingOrderId]: { [productId]: quantity } }
+type QuantityDrafts = Record<string, Record<string, number>>;
+
+const formatRunDate = (dateString: string): string => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('es-MX', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+};
+
+const RUN_STATUS_LABELS: Record<string, string> = {
+  created: 'Pedido creado',
+  skipped: 'Saltado',
+  failed: 'No se pudo crear',
+};
+
+export const StandingOrdersScreen: React.FC = () => {
+  const {
+    standingOrders,
+    loading,
+    fetchStandingOrders,
+    updateStandingOrder,
+    pauseStandingOrder,
+    resumeStandingOrder,
+    skipNextOrder,
+    deleteStandingOrder,
+  } = useStandingOrderStore();
+  const { getThemeColors, currentTheme, colorMode } = useThemeStore();
+  const COLORS = getThemeColors();
+
+  const [drafts, setDrafts] = useState<QuantityDrafts>({});
+
+  const styles = useMemo(() => createStyles(COLORS, colorMode), [currentTheme.id, colorMode]);
+
+  useEffect(() => {
+    fetchStandingOrders();
+  }, []);
+
+  const getQuantity = (standingOrder: StandingOrder, productId: string, quantity: number) =>
+    drafts[standingOrder.id]?.[productId] ?? quantity;
+
+  const changeQuantity = (standingOrderId: string, productId: string, quantity: number) => {
+    setDrafts(prev => ({
+      ...prev,
+      [standingOrderId]: { ...prev[standingOrderId], [productId]: Math.max(0, Math.min(99, quantity)) },
+    }));
+  };
+
+  const discardDraft = (standingOrderId: string) => {
+    setDrafts(prev => {
+      const { [standingOrderId]: _discarded, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleSaveItems = async (standingOrder: StandingOrder) => {
+    const items = standingOrder.items
+      .map(item => ({ productId: item.productId, quantity: getQuantity(standingOrder, item.productId, item.quantity) }))
+      .filter(item => item.quantity > 0);
+
+    if (items.length === 0) {
+      ToastManager.error('Canasta vacía', 'Deja al menos un producto o elimina la canasta');
+      return;
+    }
+
+    const success = await updateStandingOrder(standingOrder.id, { items });
+
+    if (success) {
+      discardDraft(standingOrder.id);
+      ToastManager.success('Canasta actualizada', 'Los cambios aplican desde el próximo pedido');
+    } else {
+      ToastManager.error('Error', useStandingOrderStore.getState().error || 'No se pudo actualizar la canasta');
+    }
+  };
+
+  const handleChangeFrequency = async (standingOrder: StandingOrder, frequency: StandingOrderFrequency) => {
+    if (frequency === standingOrder.frequency) return;
+
+    const success = await updateStandingOrder(standingOrder.id, { frequency });
+    if (!success) {
+      ToastManager.error('Error', useStandingOrderStore.getState().error || 'No se pudo cambiar la frecuencia');
+    }
+  };
+
+  const handleTogglePause = async (standingOrder: StandingOrder) => {
+    const isPaused = standingOrder.status === 'paused';
+    const success = isPaused
+      ? await resumeStandingOrder(standingOrder.id)
+      : await pauseStandingOrder(standingOrder.id);
+
+    if (success) {
+      ToastManager.success(isPaused ? 'Canasta reanudada' : 'Canasta pausada');
+    } else {
+      ToastManager.error('Error', useStandingOrderStore.getState().error || 'Intenta de nuevo');
+    }
+  };
+
+  const handleSkip = (standingOrder: StandingOrder) => {
+    AlertManager.confirm(
+      'Saltar próximo pedido',
+      `No se generará el pedido del ${formatRunDate(standingOrder.nextRunAt)}. La canasta sigue activa para las siguientes fechas.`,
+      async () => {
+        const success = await skipNextOrder(standingOrder.id);
+        if (success) {
+          ToastManager.success('Pedido saltado');
+        } else {
+          ToastManager.error('Error', useStandingOrderStore.getState().error || 'No se pudo saltar el pedido');
+        }
+      }
+    );
+  };
+
+  const handleDelete = (standingOrder: StandingOrder) => {
+    AlertManager.confirmDestructive(
+      'Eliminar canasta',
+      `¿Eliminar "${standingOrder.name}"? Los pedidos ya generados no se cancelan.`,
+      async () => {
+        const success = await deleteStandingOrder(standingOrder.id);
+        if (success) {
+          discardDraft(standingOrder.id);
+          ToastManager.success('Canasta eliminada');
+        } else {
+          ToastManager.error('Error', useStandingOrderStore.getState().error || 'No se pudo eliminar la canasta');
+        }
+      }
+    );
+  };
+
+  const renderLastRun = (standingOrder: StandingOrder) => {
+    const lastRun = standingOrder.runs[0];
+    if (!lastRun) return null;
+
+    return (
+      <View style={styles.lastRun}>
+        <Text style={styles.lastRunTitle}>
+          Último: {RUN_STATUS_LABELS[lastRun.status] || lastRun.status} • {formatRunDate(lastRun.scheduledFor)}
+        </Text>
+        {lastRun.status === 'failed' && lastRun.message && (
+          <Text style={styles.lastRunError}>{lastRun.message}</Text>
+        )}
+        {lastRun.skippedItems.length > 0 && (
+          <Text style={styles.lastRunSkipped}>
+            No incluidos: {lastRun.skippedItems
+              .map(item => `${item.name} (${SKIP_REASON_LABELS[item.reason] || item.reason})`)
+              .join(', ')}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderStandingOrder = (standingOrder: StandingOrder) => {
+    const isPaused = standingOrder.status === 'paused';
+    const hasDraft = Boolean(drafts[standingOrder.id]);
+    const totalWeight = standingOrder.items.reduce(
+      (sum, item) => sum + item.product.weightInKg * getQuantity(standingOrder, item.productId, item.quantity),
+      0
+    );
+
+    return (
+      <View key={standingOrder.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>{standingOrder.name}</Text>
+          <View style={[styles.statusBadge, isPaused && styles.statusBadgePaused]}>
+            <Text style={styles.statusBadgeText}>{isPaused ? 'Pausada' : 'Activa'}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.nextRun}>
+          {isPaused
+            ? 'No se generarán pedidos hasta que la reanudes'
+            : `Próximo pedido: ${formatRunDate(standingOrder.nextRunAt)}`}
+        </Text>
+        {standingOrder.address && (
+          <Text style={styles.address} numberOfLines={1}>
+            📍 {standingOrder.address.label || `${standingOrder.address.street} ${standingOrder.address.number}`}
+          </Text>
+        )}
+
+        <View style={styles.frequencyRow}>
+          {(Object.keys(FREQUENCY_LABELS) as StandingOrderFrequency[]).map(frequency => (
+            <TouchableOpacity
+              key={frequency}
+              style={[styles.frequencyChip, standingOrder.frequency === frequency && styles.frequencyChipActive]}
+              onPress={() => handleChangeFrequency(standingOrder, frequency)}
+              disabled={loading}
+            >
+              <Text
+                style={[styles.frequencyChipText, standingOrder.frequency === frequency && styles.frequencyChipTextActive]}
+              >
+                {FREQUENCY_LABELS[frequency]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {standingOrder.items.map(item => {
+          const quantity = getQuantity(standingOrder, item.productId, item.quantity);
+          const unavailable = !item.product.available || Boolean(item.product.deletedAt);
+
+          return (
+            <View key={item.id} style={styles.itemRow}>
+              <View style={styles.itemInfo}>
+                <Text style={[styles.itemName, quantity === 0 && styles.itemRemoved]}>{item.product.name}</Text>
+                <Text style={styles.itemMeta}>
+                  {(item.product.weightInKg * quantity).toFixed(2)} kg
+                  {unavailable ? ' • No disponible por ahora' : ''}
+                </Text>
+              </View>
+              <View style={styles.quantityControls}>
+                <TouchableOpacity
+                  style={styles.quantityButton}
+                  onPress={() => changeQuantity(standingOrder.id, item.productId, quantity - 1)}
+                >
+                  <Text style={styles.quantityButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.quantityText}>{quantity}</Text>
+                <TouchableOpacity
+                  style={styles.quantityButton}
+                  onPress={() => changeQuantity(standingOrder.id, item.productId, quantity + 1)}
+                >
+                  <Text style={styles.quantityButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+
+        <Text style={styles.totalWeight}>Total aproximado: {totalWeight.toFixed(2)} kg</Text>
+
+        {hasDraft && (
+          <View style={styles.draftActions}>
+            <Button title="Descartar" variant="outline" onPress={() => discardDraft(standingOrder.id)} style={styles.draftButton} />
+            <Button title="Guardar cambios" onPress={() => handleSaveItems(standingOrder)} style={styles.draftButton} disabled={loading} />
+          </View>
+        )}
+
+        {renderLastRun(standingOrder)}
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleTogglePause(standingOrder)} disabled={loading}>
+            <Text style={styles.actionText}>{isPaused ? '▶️ Reanudar' : '⏸️ Pausar'}</Text>
+          </TouchableOpacity>
+          {!isPaused && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleSkip(standingOrder)} disabled={loading}>
+              <Text style={styles.actionText}>⏭️ Saltar próximo</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(standingOrder)} disabled={loading}>
+            <Text style={[styles.actionText, styles.deleteText]}>🗑️ Eliminar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading && standingOrders.length === 0) {
+    return (
+      <View style={[styles.container, styles.centerContainer]}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+        <Text style={styles.emptySubtitle}>Cargando canastas...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={loading} onRefresh={fetchStandingOrders} />}
+    >
+      {standingOrders.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.emptyIcon}>🧺</Text>
+          <Text style={styles.emptyTitle}>Aún no tienes canastas recurrentes</Text>
+          <Text style={styles.emptySubtitle}>
+            Desde tu carrito puedes guardar tus productos como canasta y recibirlos cada semana
+          </Text>
+        </View>
+      ) : (
+        standingOrders.map(renderStandingOrder)
+      )}
+    </ScrollView>
+  );
+};
+
+const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  centerContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyIcon: {
+    fontSize: 56,
+    marginBottom: 12,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: colorMode === 'dark' ? 0.3 : 0.08,
+    shadowRadius: 6,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.text,
+    flex: 1,
+  },
+  statusBadge: {
+    backgroundColor: COLORS.primary,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusBadgePaused: {
+    backgroundColor: COLORS.textSecondary,
+  },
+  statusBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  nextRun: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    marginBottom: 4,
+  },
+  address: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginBottom: 8,
+  },
+  frequencyRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginVertical: 8,
+  },
+  frequencyChip: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  frequencyChipActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  frequencyChipText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  frequencyChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  itemRemoved: {
+    textDecorationLine: 'line-through',
+    color: COLORS.textSecondary,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  quantityControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  quantityButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: COLORS.surfaceElevated,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  quantityButtonText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  quantityText: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  totalWeight: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: 8,
+    textAlign: 'right',
+  },
+  draftActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  draftButton: {
+    flex: 1,
+  },
+  lastRun: {
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: COLORS.surfaceElevated,
+  },
+  lastRunTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  lastRunError: {
+    fontSize: 13,
+    color: COLORS.error,
+    marginTop: 4,
+  },
+  lastRunSkipped: {
+    fontSize: 13,
+    color: COLORS.warning || COLORS.textSecondary,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  deleteText: {
+    color: COLORS.error,
+  },
+});
@@ -46,6 +46,7 @@ const AdminLoginScreen: React.FC<Props> = ({ navigation }) => {
             email: response.data.user.email,
             role: response.data.user.role,
             token: response.data.token, // Store token in adminStore
+            refreshToken: response.data.refreshToken, // Renews the short-lived token
           });
 
           console.log('✅ Admin login successful:', response.data.user.name);
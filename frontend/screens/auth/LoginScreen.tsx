@@ -24,6 +24,10 @@ import type { RootStackParamList } from '../../navigation/AppNavigator';
 
 const { width } = Dimensions.get('window');
 
+// login → forgot (pedir código) → reset (código + nueva contraseña)
+// login → verify (el correo no se confirmó a tiempo: código y se vuelve a iniciar sesión)
+type LoginMode = 'login' | 'forgot' | 'reset' | 'verify';
+
 export const LoginScreen: React.FC = () => {
   const [email, setEmail] = useState('test@greenfit.mx');
   const [password, setPassword] = useState('test123');
@@ -32,6 +36,9 @@ export const LoginScreen: React.FC = () => {
   const [isEmailFocused, setIsEmailFocused] = useState(false);
   const [isPasswordFocused, setIsPasswordFocused] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [mode, setMode] = useState<LoginMode>('login');
+  const [resetCode, setResetCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
 
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
   const { login, setLoading: setAuthLoading, user, isAuthenticated } = useAuthStore();
@@ -82,8 +89,13 @@ export const LoginScreen: React.FC = () => {
       const response = await AuthService.default.login({ email, password });
       if (response.ok && response.data) {
         const user = { ...response.data.user, phone: response.data.user.phone ?? undefined };
-        await login(user, response.data.token);
+        await login(user, response.data.token, response.data);
         ToastManager.loginSuccess(user.name || 'Usuario');
+      } else if (response.code === 'EMAIL_NOT_VERIFIED') {
+        ToastManager.warning('Confirma tu correo', `Te enviamos un código a ${email.trim()}`);
+        setErrors({});
+        setResetCode('');
+        setMode('verify');
       } else {
         ToastManager.error('Error', response.message || 'Credenciales inválidas');
       }
@@ -96,6 +108,102 @@ export const LoginScreen: React.FC = () => {
     }
   };
 
+  const handleForgotPassword = async () => {
+    if (!/\S+@\S+\.\S+/.test(email)) {
+      setErrors({ email: 'Escribe el email de tu cuenta' });
+      return;
+    }
+
+    setErrors({});
+    setLoading(true);
+    try {
+      const AuthService = await import('../../services/authService');
+      const response = await AuthService.default.forgotPassword(email.trim());
+      if (response.ok) {
+        ToastManager.success('Revisa tu correo', 'Si el email está registrado, te enviamos un código');
+        setMode('reset');
+      } else {
+        ToastManager.error('Error', 'No se pudo enviar el código');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    const newErrors: { email?: string; password?: string } = {};
+    if (!resetCode.trim()) newErrors.email = 'Escribe el código que recibiste';
+    if (newPassword.length < 6) newErrors.password = 'Mínimo 6 caracteres';
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setLoading(true);
+    try {
+      const AuthService = await import('../../services/authService');
+      const response = await AuthService.default.resetPassword({
+        email: email.trim(),
+        code: resetCode.trim(),
+        password: newPassword,
+      });
+      if (response.ok) {
+        ToastManager.success('Contraseña actualizada', 'Inicia sesión con tu nueva contraseña');
+        setPassword(newPassword);
+        setResetCode('');
+        setNewPassword('');
+        setMode('login');
+      } else {
+        ToastManager.error('Código inválido', 'Revisa el código o pide uno nuevo');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerifyEmail = async () => {
+    if (!resetCode.trim()) {
+      setErrors({ email: 'Escribe el código que recibiste' });
+      return;
+    }
+
+    setErrors({});
+    setLoading(true);
+    try {
+      const AuthService = await import('../../services/authService');
+      const response = await AuthService.default.verifyEmail(resetCode.trim(), email.trim());
+      if (!response.ok) {
+        ToastManager.error('Código inválido', 'Revisa el código o pide uno nuevo');
+        return;
+      }
+      ToastManager.success('Correo confirmado');
+      setResetCode('');
+      setMode('login');
+    } finally {
+      setLoading(false);
+    }
+
+    await handleLogin();
+  };
+
+  const handleResendVerification = async () => {
+    setLoading(true);
+    try {
+      const AuthService = await import('../../services/authService');
+      const response = await AuthService.default.resendVerification(email.trim());
+      if (response.ok) {
+        ToastManager.success('Revisa tu correo', 'Te enviamos un código nuevo');
+      } else {
+        ToastManager.error('Error', 'No se pudo enviar el código');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const backToLogin = () => {
+    setErrors({});
+    setMode('login');
+  };
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -155,11 +263,9 @@ export const LoginScreen: React.FC = () => {
             {isAuthenticated && subscription && (
               <View style={[styles.subscriptionBadge, { backgroundColor: COLORS.primaryLight, borderColor: COLORS.primary }]}>
                 <Text style={[styles.subscriptionBadgeText, { color: COLORS.primary }]}>
-                  {subscription.plan === 'BASIC' && '🥬'} 
-                  {subscription.plan === 'STANDARD' && '🌱'} 
-                  {subscription.plan === 'PREMIUM' && '🌟'} 
+                  {subscription.planDetails?.emoji || '📦'}
                   {' '}
-                  Plan {subscription.plan === 'BASIC' ? 'Básico' : subscription.plan === 'STANDARD' ? 'Estándar' : 'Premium'}
+                  Plan {subscription.planDetails?.name || subscription.plan}
                   {' • '}
                   {subscription.limitInKg} kg/mes
                 </Text>
@@ -167,68 +273,181 @@ export const LoginScreen: React.FC = () => {
             )}
           </View>
 
+          {/* Password Recovery */}
+          {mode !== 'login' && (
+            <View style={styles.form}>
+              <Text style={styles.recoveryTitle}>
+                {mode === 'forgot' ? 'Recupera tu contraseña' : mode === 'verify' ? 'Confirma tu correo' : 'Crea una nueva contraseña'}
+              </Text>
+              <Text style={styles.recoveryText}>
+                {mode === 'forgot'
+                  ? 'Te enviaremos un código a tu correo para crear una nueva contraseña.'
+                  : mode === 'verify'
+                    ? `Para seguir usando tu cuenta, escribe el código que enviamos a ${email.trim()}.`
+                    : `Escribe el código que enviamos a ${email.trim()}. Vence en 1 hora.`}
+              </Text>
+
+              {mode === 'forgot' ? (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Email</Text>
+                  <View style={styles.inputContainer}>
+                    <TextInput
+                      value={email}
+                      onChangeText={setEmail}
+                      placeholder="tu@email.com"
+                      placeholderTextColor={COLORS.textSecondary}
+                      keyboardType="email-address"
+                      autoCapitalize="none"
+                      style={styles.textInput}
+                    />
+                  </View>
+                  {errors.email && <Text style={styles.errorText}>{errors.email}</Text>}
+                </View>
+              ) : (
+                <>
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Código</Text>
+                    <View style={styles.inputContainer}>
+                      <TextInput
+                        value={resetCode}
+                        onChangeText={setResetCode}
+                        placeholder="ABCD2345"
+                        placeholderTextColor={COLORS.textSecondary}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                        style={styles.textInput}
+                      />
+                    </View>
+                    {errors.email && <Text style={styles.errorText}>{errors.email}</Text>}
+                  </View>
+                  {mode === 'reset' && (
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.inputLabel}>Nueva contraseña</Text>
+                      <View style={styles.inputContainer}>
+                        <TextInput
+                          value={newPassword}
+                          onChangeText={setNewPassword}
+                          placeholder="••••••••"
+                          placeholderTextColor={COLORS.textSecondary}
+                          secureTextEntry={!showPassword}
+                          style={styles.textInput}
+                        />
+                        <TouchableOpacity
+                          style={styles.eyeIcon}
+                          onPress={() => setShowPassword(!showPassword)}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={styles.eyeIconText}>
+                            {showPassword ? '👁️' : '👁️‍🗨️'}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                      {errors.password && <Text style={styles.errorText}>{errors.password}</Text>}
+                    </View>
+                  )}
+                </>
+              )}
+
+              <TouchableOpacity
+                onPress={mode === 'forgot' ? handleForgotPassword : mode === 'verify' ? handleVerifyEmail : handleResetPassword}
+                disabled={loading}
+                activeOpacity={0.85}
+                style={[styles.loginButton, loading && styles.loginButtonDisabled]}
+              >
+                {loading ? (
+                  <ActivityIndicator color={COLORS.background} size="small" />
+                ) : (
+                  <Text style={styles.loginButtonText}>
+                    {mode === 'forgot' ? 'Enviar código' : mode === 'verify' ? 'Confirmar y entrar' : 'Cambiar contraseña'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+
+              {mode !== 'forgot' && (
+                <TouchableOpacity
+                  onPress={mode === 'verify' ? handleResendVerification : handleForgotPassword}
+                  disabled={loading}
+                  style={styles.linkButton}
+                >
+                  <Text style={styles.linkText}>Reenviar código</Text>
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity onPress={backToLogin} style={styles.linkButton}>
+                <Text style={styles.linkText}>Volver a iniciar sesión</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Form */}
-          <View style={styles.form}>
-            <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Email</Text>
-              <View style={[
-                styles.inputContainer,
-                isEmailFocused && styles.inputContainerFocused
-              ]}>
-                <TextInput
-                  value={email}
-                  onChangeText={setEmail}
-                  placeholder="User name"
-                  placeholderTextColor={COLORS.textSecondary}
-                  keyboardType="email-address"
-                  autoCapitalize="none"
-                  style={styles.textInput}
-                  onFocus={() => setIsEmailFocused(true)}
-                  onBlur={() => setIsEmailFocused(false)}
-                />
+          {mode === 'login' && (
+            <View style={styles.form}>
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Email</Text>
+                <View style={[
+                  styles.inputContainer,
+                  isEmailFocused && styles.inputContainerFocused
+                ]}>
+                  <TextInput
+                    value={email}
+                    onChangeText={setEmail}
+                    placeholder="User name"
+                    placeholderTextColor={COLORS.textSecondary}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    style={styles.textInput}
+                    onFocus={() => setIsEmailFocused(true)}
+                    onBlur={() => setIsEmailFocused(false)}
+                  />
+                </View>
+                {errors.email && <Text style={styles.errorText}>{errors.email}</Text>}
               </View>
-              {errors.email && <Text style={styles.errorText}>{errors.email}</Text>}
-            </View>
 
-            <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Contraseña</Text>
-              <View style={[
-                styles.inputContainer,
-                isPasswordFocused && styles.inputContainerFocused
-              ]}>
-                <TextInput
-                  value={password}
-                  onChangeText={setPassword}
-                  placeholder="Password"
-                  placeholderTextColor={COLORS.textSecondary}
-                  secureTextEntry={!showPassword}
-                  style={styles.textInput}
-                  onFocus={() => setIsPasswordFocused(true)}
-                  onBlur={() => setIsPasswordFocused(false)}
-                />
-                <TouchableOpacity 
-                  style={styles.eyeIcon}
-                  onPress={() => setShowPassword(!showPassword)}
-                  activeOpacity={0.7}
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Contraseña</Text>
+                <View style={[
+                  styles.inputContainer,
+                  isPasswordFocused && styles.inputContainerFocused
+                ]}>
+                  <TextInput
+                    value={password}
+                    onChangeText={setPassword}
+                    placeholder="Password"
+                    placeholderTextColor={COLORS.textSecondary}
+                    secureTextEntry={!showPassword}
+                    style={styles.textInput}
+                    onFocus={() => setIsPasswordFocused(true)}
+                    onBlur={() => setIsPasswordFocused(false)}
+                  />
+                  <TouchableOpacity 
+                    style={styles.eyeIcon}
+                    onPress={() => setShowPassword(!showPassword)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.eyeIconText}>
+                      {showPassword ? '👁️' : '👁️‍🗨️'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {errors.password && <Text style={styles.errorText}>{errors.password}</Text>}
+                <TouchableOpacity
+                  onPress={() => { setErrors({}); setMode('forgot'); }}
+                  style={styles.forgotButton}
                 >
-                  <Text style={styles.eyeIconText}>
-                    {showPassword ? '👁️' : '👁️‍🗨️'}
-                  </Text>
+                  <Text style={styles.linkText}>¿Olvidaste tu contraseña?</Text>
                 </TouchableOpacity>
               </View>
-              {errors.password && <Text style={styles.errorText}>{errors.password}</Text>}
-            </View>
 
-            <TouchableOpacity
-              onPress={handleLogin}
-              disabled={loading}
-              activeOpacity={0.85}
-              style={[styles.loginButton, loading && styles.loginButtonDisabled]}
-            >
-              {loading ? (
-                <ActivityIndicator color={COLORS.background} size="small" />
-              ) : (
-                <Text style={styles.loginButtonText}>Iniciar Sesión</Text>
+              <TouchableOpacity
+                onPress={handleLogin}
+                disabled={loading}
+                activeOpacity={0.85}
+                style={[styles.loginButton, loading && styles.loginButtonDisabled]}
+              >
+                {loading ? (
+                  <ActivityIndicator color={COLORS.background} size="small" />
+                ) : (
+                  <Text style={styles.loginButtonText}>Iniciar Sesión</Text>
               )}
             </TouchableOpacity>
 
@@ -252,6 +471,7 @@ export const LoginScreen: React.FC = () => {
               </TouchableOpacity>
             </View>
           </View>
+          )}
 
           {/* Footer */}
           <View style={styles.footer}>
@@ -416,6 +636,31 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     marginTop: 6,
     fontWeight: '500',
   },
+  forgotButton: {
+    alignSelf: 'flex-end',
+    marginTop: 10,
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  recoveryTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+  recoveryText: {
+    fontSize: 15,
+    color: COLORS.textSecondary,
+    marginBottom: 24,
+    lineHeight: 21,
+  },
   loginButton: {
     backgroundColor: COLORS.primary,
     paddingVertical: 16,
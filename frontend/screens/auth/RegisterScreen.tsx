@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   View,
   Text,
@@ -17,7 +17,7 @@ import { useThemeStore } from '../../stores/themeStore';
 import type { RootStackParamList } from '../../navigation/AppNavigator';
 import AuthService from '../../services/authService';
 import { ToastManager } from '../../utils/ToastManager';
-import type { SubscriptionPlan } from '../../stores/subscriptionStore';
+import { useSubscriptionStore, type SubscriptionPlan } from '../../stores/subscriptionStore';
 
 interface FormData {
   name: string;
@@ -36,33 +36,6 @@ interface FormErrors {
   confirmPassword?: string;
 }
 
-const SUBSCRIPTION_PLANS = [
-  {
-    id: 'BASIC' as SubscriptionPlan,
-    name: 'Básico',
-    limit: 5,
-    description: 'Solo frutas y verduras',
-    features: ['Frutas', 'Verduras'],
-    emoji: '🥬',
-  },
-  {
-    id: 'STANDARD' as SubscriptionPlan,
-    name: 'Estándar',
-    limit: 8,
-    description: 'Frutas, verduras + más',
-    features: ['Frutas', 'Verduras', 'Leguminosas', 'Hierbas', 'Snacks', 'Café', 'Chocolate'],
-    emoji: '🌱',
-  },
-  {
-    id: 'PREMIUM' as SubscriptionPlan,
-    name: 'Premium',
-    limit: 10,
-    description: 'Todo lo anterior + proteínas',
-    features: ['Todo del Estándar', 'Proteínas frescas'],
-    emoji: '🌟',
-  },
-];
-
 export const RegisterScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
   const route = useRoute();
@@ -74,16 +47,27 @@ export const RegisterScreen: React.FC = () => {
     phone: routeParams?.userData?.phone || '',
     password: routeParams?.userData?.password || '',
     confirmPassword: routeParams?.userData?.password || '',
-    subscriptionPlan: routeParams?.subscriptionPlan || 'BASIC',
+    subscriptionPlan: routeParams?.subscriptionPlan || '',
   });
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<FormErrors>({});
 
   const { login, setLoading: setAuthLoading } = useAuthStore();
+  const { plans, fetchPlans } = useSubscriptionStore();
   const { getThemeColors, currentTheme, colorMode } = useThemeStore();
   const COLORS = getThemeColors();
   const styles = useMemo(() => createStyles(COLORS, colorMode), [currentTheme.id, colorMode]);
 
+  // Load the plan catalog and preselect the first plan
+  useEffect(() => {
+    fetchPlans().then((availablePlans) => {
+      if (availablePlans.length > 0) {
+        setFormData(prev => (prev.subscriptionPlan ? prev : { ...prev, subscriptionPlan: availablePlans[0].code }));
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   // Handle payment confirmation
   React.useEffect(() => {
     if (routeParams?.paymentConfirmed) {
@@ -140,6 +124,11 @@ export const RegisterScreen: React.FC = () => {
   const handleContinueToPayment = () => {
     if (!validateForm()) return;
 
+    if (!formData.subscriptionPlan) {
+      ToastManager.error('Error', 'Selecciona un plan de suscripción');
+      return;
+    }
+
     // Navigate to payment screen
     (navigation as any).navigate('SubscriptionPayment', {
       subscriptionPlan: formData.subscriptionPlan,
@@ -181,7 +170,7 @@ export const RegisterScreen: React.FC = () => {
           ...response.data.user,
           phone: response.data.user.phone ?? undefined,
         };
-        await login(user, response.data.token);
+        await login(user, response.data.token, response.data);
         ToastManager.success('¡Bienvenido!', 'Tu cuenta ha sido creada exitosamente');
       } else {
         // Registration failed
@@ -233,6 +222,9 @@ export const RegisterScreen: React.FC = () => {
             error={errors.email}
             required
           />
+          <Text style={[styles.fieldHint, { color: COLORS.textSecondary }]}>
+            Te enviaremos un código para confirmar que el correo es tuyo
+          </Text>
 
           <Input
             label="Teléfono"
@@ -274,11 +266,11 @@ export const RegisterScreen: React.FC = () => {
             </Text>
 
             <View style={styles.plansContainer}>
-              {SUBSCRIPTION_PLANS.map((plan) => {
-                const isSelected = formData.subscriptionPlan === plan.id;
+              {plans.map((plan) => {
+                const isSelected = formData.subscriptionPlan === plan.code;
                 return (
                   <TouchableOpacity
-                    key={plan.id}
+                    key={plan.code}
                     style={[
                       styles.planCard,
                       {
@@ -287,7 +279,7 @@ export const RegisterScreen: React.FC = () => {
                         borderWidth: isSelected ? 2 : 1,
                       },
                     ]}
-                    onPress={() => updateField('subscriptionPlan', plan.id)}
+                    onPress={() => updateField('subscriptionPlan', plan.code)}
                     activeOpacity={0.7}
                   >
                     <Text style={styles.planEmoji}>{plan.emoji}</Text>
@@ -295,7 +287,7 @@ export const RegisterScreen: React.FC = () => {
                       {plan.name}
                     </Text>
                     <Text style={[styles.planLimit, { color: COLORS.primary }]}>
-                      {plan.limit} kg/mes
+                      {plan.limitInKg} kg/mes
                     </Text>
                     <Text style={[styles.planDescription, { color: COLORS.textSecondary }]}>
                       {plan.description}
@@ -375,6 +367,11 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     borderRadius: 16,
     borderWidth: 1,
   },
+  fieldHint: {
+    fontSize: 13,
+    marginTop: -8,
+    marginBottom: 16,
+  },
   planSection: {
     marginTop: 24,
     marginBottom: 16,
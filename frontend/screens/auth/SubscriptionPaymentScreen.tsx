@@ -19,7 +19,7 @@ import { useAuthStore } from '../../stores/authStore';
 import { ToastManager } from '../../utils/ToastManager';
 import { AlertManager } from '../../utils/AlertManager';
 import AuthService from '../../services/authService';
-import type { SubscriptionPlan } from '../../stores/subscriptionStore';
+import { useSubscriptionStore, type SubscriptionPlan } from '../../stores/subscriptionStore';
 import type { RootStackParamList } from '../../navigation/AppNavigator';
 
 type PaymentMethod = 'card' | 'paypal';
@@ -38,12 +38,6 @@ type SubscriptionPaymentRouteParams = {
 
 type SubscriptionPaymentRouteProp = RouteProp<SubscriptionPaymentRouteParams, 'SubscriptionPayment'>;
 
-const SUBSCRIPTION_PLANS = {
-  BASIC: { name: 'Básico', limit: 5, price: 199, emoji: '🥬' },
-  STANDARD: { name: 'Estándar', limit: 8, price: 399, emoji: '🌱' },
-  PREMIUM: { name: 'Premium', limit: 10, price: 599, emoji: '🌟' },
-};
-
 export const SubscriptionPaymentScreen: React.FC = () => {
   const navigation = useNavigation();
   const route = useRoute<SubscriptionPaymentRouteProp>();
@@ -51,6 +45,7 @@ export const SubscriptionPaymentScreen: React.FC = () => {
 
   const { getThemeColors, currentTheme, colorMode } = useThemeStore();
   const { login, setLoading: setAuthLoading } = useAuthStore();
+  const { plans, fetchPlans } = useSubscriptionStore();
   const COLORS = getThemeColors();
   const styles = useMemo(() => createStyles(COLORS, colorMode), [currentTheme.id, colorMode]);
 
@@ -69,10 +64,18 @@ export const SubscriptionPaymentScreen: React.FC = () => {
   const [paypalEmail, setPaypalEmail] = useState('');
   const [paypalPassword, setPaypalPassword] = useState('');
 
-  const plan = SUBSCRIPTION_PLANS[subscriptionPlan];
+  const plan = plans.find(p => p.code === subscriptionPlan);
   const fadeAnim = useMemo(() => new Animated.Value(0), []);
   const processingOpacity = useRef(new Animated.Value(0)).current;
 
+  // The plan list may not be loaded yet when arriving via deep link
+  useEffect(() => {
+    if (plans.length === 0) {
+      fetchPlans();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   useEffect(() => {
     Animated.timing(fadeAnim, {
       toValue: 1,
@@ -202,7 +205,7 @@ export const SubscriptionPaymentScreen: React.FC = () => {
               ...response.data.user,
               phone: response.data.user.phone ?? undefined,
             };
-            await login(user, response.data.token);
+            await login(user, response.data.token, response.data);
             ToastManager.success('¡Bienvenido!', 'Tu cuenta ha sido creada y activada');
             
             // Navigation will happen automatically via auth state change in AppNavigator
@@ -227,6 +230,14 @@ export const SubscriptionPaymentScreen: React.FC = () => {
     }
   };
 
+  if (!plan) {
+    return (
+      <View style={[styles.container, styles.loadingPlan, { backgroundColor: COLORS.background }]}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
   return (
     <KeyboardAvoidingView
       style={[styles.container, { backgroundColor: COLORS.background }]}
@@ -252,14 +263,14 @@ export const SubscriptionPaymentScreen: React.FC = () => {
               <View>
                 <Text style={[styles.planName, { color: COLORS.text }]}>{plan.name}</Text>
                 <Text style={[styles.planLimit, { color: COLORS.textSecondary }]}>
-                  {plan.limit} kg/mes
+                  {plan.limitInKg} kg/mes
                 </Text>
               </View>
             </View>
             <View style={styles.priceRow}>
               <Text style={[styles.priceLabel, { color: COLORS.textSecondary }]}>Total a pagar</Text>
               <Text style={[styles.price, { color: COLORS.primary }]}>
-                ${plan.price.toFixed(2)} MXN
+                ${plan.monthlyPrice.toFixed(2)} MXN
               </Text>
             </View>
           </View>
@@ -449,7 +460,7 @@ export const SubscriptionPaymentScreen: React.FC = () => {
 
           {/* Payment Button */}
           <Button
-            title={loading ? 'Procesando...' : `Pagar $${plan.price.toFixed(2)} MXN`}
+            title={loading ? 'Procesando...' : `Pagar $${plan.monthlyPrice.toFixed(2)} MXN`}
             onPress={handlePayment}
             disabled={loading || processing}
             size="large"
@@ -507,6 +518,10 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     flex: 1,
     backgroundColor: COLORS.background,
   },
+  loadingPlan: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   scrollContent: {
     flexGrow: 1,
     padding: 24,
@@ -12,6 +12,7 @@ import { useCartStore } from '../../stores/cartStore';
 import { useSubscriptionStore } from '../../stores/subscriptionStore';
 import { useAuthStore } from '../../stores/authStore';
 import { useThemeStore } from '../../stores/themeStore';
+import { useStandingOrderStore } from '../../stores/standingOrderStore';
 import { Button } from '../../components/ui/Button';
 import { ToastManager } from '../../utils/ToastManager';
 import { AlertManager } from '../../utils/AlertManager';
@@ -91,8 +92,9 @@ export const CartScreen: React.FC = () => {
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const navigation = useNavigation();
   const { cart, removeItem, clearCart, getTotalItems, getTotalWeightInKg, updateQuantity, fetchCart } = useCartStore();
-  const { subscription, getRemainingKg, getUsedKg } = useSubscriptionStore();
+  const { subscription, getRemainingKg, getUsedKg, getRolloverKg, isPaused } = useSubscriptionStore();
   const { user } = useAuthStore();
+  const { createStandingOrder, loading: savingStandingOrder } = useStandingOrderStore();
   const { getThemeColors, currentTheme, colorMode } = useThemeStore();
   const COLORS = getThemeColors();
   
@@ -102,6 +104,28 @@ export const CartScreen: React.FC = () => {
     fetchCart();
   }, []);
 
+  // Guardar el carrito como canasta semanal; el primer pedido automático sale en una semana
+  const handleSaveAsStandingOrder = () => {
+    if (!cart || cart.items.length === 0) return;
+
+    AlertManager.confirm(
+      'Canasta semanal',
+      'Guardaremos estos productos y crearemos el pedido automáticamente cada semana en tu dirección predeterminada. Puedes pausarla o editarla desde tu perfil.',
+      async () => {
+        const standingOrder = await createStandingOrder({
+          frequency: 'weekly',
+          items: cart.items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+        });
+
+        if (standingOrder) {
+          ToastManager.success('Canasta guardada', 'La encuentras en Perfil → Canastas recurrentes');
+        } else {
+          ToastManager.error('Error', useStandingOrderStore.getState().error || 'No se pudo guardar la canasta');
+        }
+      }
+    );
+  };
+
   const handleUpdateQuantity = async (itemId: string, newQuantity: number) => {
     if (newQuantity <= 0) {
       await removeItem(itemId);
@@ -175,6 +199,15 @@ export const CartScreen: React.FC = () => {
       return;
     }
 
+    // Mismo plazo que el servidor: sin confirmar el correo se puede pedir hasta la fecha límite
+    if (!user.emailVerifiedAt && user.emailVerificationDueAt && new Date(user.emailVerificationDueAt) <= new Date()) {
+      AlertManager.alert(
+        'Confirma tu correo',
+        'Antes de hacer pedidos confirma tu correo con el código que te enviamos. Puedes pedir uno nuevo desde tu perfil.'
+      );
+      return;
+    }
+
     if (!subscription || !subscription.isActive) {
       AlertManager.alert(
         'Suscripción Requerida',
@@ -183,6 +216,14 @@ export const CartScreen: React.FC = () => {
       return;
     }
 
+    if (isPaused()) {
+      AlertManager.alert(
+        'Suscripción en pausa',
+        `Tu suscripción está en pausa hasta el ${new Date(subscription.pausedUntil!).toLocaleDateString('es-MX', { day: 'numeric', month: 'long' })}. Reanúdala desde tu perfil para hacer pedidos.`
+      );
+      return;
+    }
+
     const totalWeight = getTotalWeightInKg();
     const remainingKg = getRemainingKg();
 
@@ -203,8 +244,13 @@ export const CartScreen: React.FC = () => {
   const remainingKg = getRemainingKg();
   const usedKg = getUsedKg();
   const limitInKg = subscription?.limitInKg || 0;
-  const progressPercentage = limitInKg > 0 ? (usedKg / limitInKg) * 100 : 0;
-  const canCheckout = totalWeightInKg <= remainingKg && subscription?.isActive;
+  const rolloverKg = getRolloverKg();
+  const totalLimitKg = limitInKg + rolloverKg;
+  const progressPercentage = totalLimitKg > 0 ? (usedKg / totalLimitKg) * 100 : 0;
+  // Kg heredados del mes anterior: se gastan primero, así que ocupan el inicio de la barra
+  const rolloverPercentage = totalLimitKg > 0 ? (rolloverKg / totalLimitKg) * 100 : 0;
+  const paused = isPaused();
+  const canCheckout = totalWeightInKg <= remainingKg && subscription?.isActive && !paused;
 
   if (loading && (!cart || cart.items.length === 0)) {
     return (
@@ -251,13 +297,21 @@ export const CartScreen: React.FC = () => {
         <View style={[styles.progressSection, { backgroundColor: COLORS.surface, borderBottomColor: COLORS.border }]}>
           <View style={styles.progressHeader}>
             <Text style={[styles.progressLabel, { color: COLORS.text }]}>
-              Plan {subscription.plan} • {limitInKg.toFixed(2)} kg/mes
+              Plan {subscription.planDetails?.name || subscription.plan} • {limitInKg.toFixed(2)} kg/mes
             </Text>
             <Text style={[styles.progressRemaining, { color: COLORS.primary }]}>
               {remainingKg.toFixed(2)} kg restantes
             </Text>
           </View>
           <View style={[styles.progressBarContainer, { backgroundColor: COLORS.border }]}>
+            {rolloverKg > 0 && (
+              <View
+                style={[
+                  styles.progressBarRollover,
+                  { width: `${Math.min(rolloverPercentage, 100)}%`, backgroundColor: COLORS.primaryLight },
+                ]}
+              />
+            )}
             <View
               style={[
                 styles.progressBarFill,
@@ -276,6 +330,14 @@ export const CartScreen: React.FC = () => {
               {remainingKg.toFixed(2)} kg disponibles
             </Text>
           </View>
+          {rolloverKg > 0 && (
+            <Text style={[styles.progressText, styles.rolloverText, { color: COLORS.textSecondary }]}>
+              Incluye {rolloverKg.toFixed(2)} kg del mes anterior
+              {subscription.rolloverExpiresAt
+                ? ` (vencen el ${new Date(subscription.rolloverExpiresAt).toLocaleDateString('es-MX', { day: 'numeric', month: 'short' })})`
+                : ''}
+            </Text>
+          )}
         </View>
       )}
 
@@ -316,10 +378,20 @@ export const CartScreen: React.FC = () => {
         {!canCheckout && (
           <View style={[styles.warningRow, { backgroundColor: COLORS.error + '20', borderColor: COLORS.error }]}>
             <Text style={[styles.warningText, { color: COLORS.error }]}>
-              ⚠️ El peso total excede tu límite disponible
+              {paused ? '⏸️ Tu suscripción está en pausa' : '⚠️ El peso total excede tu límite disponible'}
             </Text>
           </View>
         )}
+
+        <TouchableOpacity
+          onPress={handleSaveAsStandingOrder}
+          disabled={savingStandingOrder}
+          style={styles.standingOrderLink}
+        >
+          <Text style={[styles.standingOrderLinkText, { color: COLORS.primary }]}>
+            🧺 Guardar como canasta semanal
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {/* Actions */}
@@ -349,7 +421,7 @@ export const CartScreen: React.FC = () => {
         )}
         
         <Button
-          title={canCheckout ? "🚀 Ir a Checkout" : "⚠️ Límite Excedido"}
+          title={canCheckout ? "🚀 Ir a Checkout" : paused ? "⏸️ Suscripción en pausa" : "⚠️ Límite Excedido"}
           onPress={handleCheckout}
           style={[styles.checkoutButton, !canCheckout && styles.checkoutButtonDisabled]}
           size="large"
@@ -448,6 +520,12 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     height: '100%',
     borderRadius: 5,
   },
+  progressBarRollover: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+  },
   progressTextContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -456,6 +534,9 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     fontSize: 13,
     fontWeight: '600',
   },
+  rolloverText: {
+    marginTop: 6,
+  },
   itemsList: {
     flex: 1,
   },
@@ -494,6 +575,14 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     fontWeight: '600',
     textAlign: 'center',
   },
+  standingOrderLink: {
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  standingOrderLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   actions: {
     backgroundColor: COLORS.background,
     padding: 20,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -6,10 +6,11 @@ import {
   FlatList,
   TouchableOpacity,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import type { NavigationProp } from '@react-navigation/native';
-import { useProductStore, type ProductCategory } from '../../stores/productStore';
+import { useProductStore, type ProductCategory, type ProductSort } from '../../stores/productStore';
 import { useCartStore } from '../../stores/cartStore';
 import { useSubscriptionStore } from '../../stores/subscriptionStore';
 import { useThemeStore } from '../../stores/themeStore';
@@ -29,25 +30,78 @@ const CATEGORIES: { id: ProductCategory | null; name: string; emoji: string }[]
   { id: 'PROTEINS', name: 'Proteínas', emoji: '🥚' },
 ];
 
+const SORTS: { id: ProductSort; name: string }[] = [
+  { id: 'newest', name: 'Recientes' },
+  { id: 'name', name: 'Nombre' },
+  { id: 'weight', name: 'Peso' },
+  { id: 'rating', name: 'Calificación' },
+];
+
+// Espera tras la última tecla antes de consultar la búsqueda
+const SEARCH_DEBOUNCE_MS = 350;
+
 export const CatalogScreen: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState<ProductCategory | null>(null);
+  const [selectedSort, setSelectedSort] = useState<ProductSort>('newest');
+  const [searchText, setSearchText] = useState('');
+  const isSearchingRef = useRef(false);
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
-  const { products, loading, error, fetchProducts, filterByCategory } = useProductStore();
+  const {
+    products,
+    loading,
+    loadingMore,
+    error,
+    facets,
+    total,
+    fetchProducts,
+    fetchMoreProducts,
+    searchProducts,
+  } = useProductStore();
   const { addItem } = useCartStore();
-  const { canAddProduct, validateCategory, subscription } = useSubscriptionStore();
+  const { canAddProduct, validateCategory, subscription, getRemainingKg } = useSubscriptionStore();
   const { getThemeColors, currentTheme, colorMode } = useThemeStore();
   const COLORS = getThemeColors();
   const styles = useMemo(() => createStyles(COLORS, colorMode), [currentTheme.id, colorMode]);
 
+  const loadCatalog = () =>
+    fetchProducts({ available: true, category: selectedCategory ?? undefined, sort: selectedSort });
+
+  // La categoría y el orden se aplican en el servidor para que la paginación sea correcta
   useEffect(() => {
-    fetchProducts({ available: true });
-  }, []);
+    if (isSearchingRef.current) {
+      searchProducts(searchText.trim(), { available: true, category: selectedCategory ?? undefined });
+    } else {
+      loadCatalog();
+    }
+  }, [selectedCategory, selectedSort]);
 
   useEffect(() => {
-    if (selectedCategory !== null) {
-      filterByCategory(selectedCategory);
+    const query = searchText.trim();
+
+    // Al vaciar la búsqueda se vuelve al catálogo completo
+    if (query.length < 2) {
+      if (isSearchingRef.current) {
+        isSearchingRef.current = false;
+        loadCatalog();
+      }
+      return;
     }
-  }, [selectedCategory]);
+
+    const timeout = setTimeout(() => {
+      isSearchingRef.current = true;
+      searchProducts(query, { available: true, category: selectedCategory ?? undefined });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  // Conteo por categoría; "Todos" suma todas las categorías
+  const getCategoryCount = (category: ProductCategory | null) => {
+    if (!facets) return null;
+    return category
+      ? facets.categories.find(facet => facet.value === category)?.count ?? 0
+      : facets.categories.reduce((sum, facet) => sum + facet.count, 0);
+  };
 
   const handleAddToCart = async (product: any) => {
     if (!product.available) {
@@ -66,7 +120,7 @@ export const CatalogScreen: React.FC = () => {
 
     // Validar peso
     if (!canAddProduct(product.weightInKg)) {
-      const remaining = subscription ? subscription.limitInKg - subscription.usedKg : 0;
+      const remaining = getRemainingKg();
       AlertManager.alert(
         'Límite excedido',
         `No puedes agregar este producto. Te quedan ${remaining.toFixed(2)} kg disponibles.`
@@ -157,7 +211,7 @@ export const CatalogScreen: React.FC = () => {
     </View>
   );
 
-  if (loading && products.length === 0) {
+  if (loading && products.length === 0 && !isSearchingRef.current) {
     return (
       <View style={[styles.container, styles.centered, { backgroundColor: COLORS.background }]}>
         <ActivityIndicator size="large" color={COLORS.primary} />
@@ -178,12 +232,32 @@ export const CatalogScreen: React.FC = () => {
     );
   }
 
-  const filteredProducts = selectedCategory
-    ? products.filter(p => p.category === selectedCategory)
-    : products;
-
   return (
     <View style={[styles.container, { backgroundColor: COLORS.background }]}>
+      {/* Search Bar */}
+      <View style={styles.searchContainer}>
+        <View style={[styles.searchBox, { backgroundColor: COLORS.surface, borderColor: COLORS.border }]}>
+          <Text style={styles.searchIcon}>🔎</Text>
+          <TextInput
+            style={[styles.searchInput, { color: COLORS.text }]}
+            value={searchText}
+            onChangeText={setSearchText}
+            placeholder="Buscar productos, origen o productor"
+            placeholderTextColor={COLORS.textSecondary}
+            autoCorrect={false}
+            autoCapitalize="none"
+            returnKeyType="search"
+          />
+          {loading && isSearchingRef.current ? (
+            <ActivityIndicator size="small" color={COLORS.primary} />
+          ) : searchText.length > 0 ? (
+            <TouchableOpacity onPress={() => setSearchText('')} activeOpacity={0.6}>
+              <Text style={[styles.searchClear, { color: COLORS.textSecondary }]}>✕</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </View>
+
       {/* Category Filter */}
       <View style={[styles.categoryContainer, { borderBottomColor: COLORS.border }]}>
         <FlatList
@@ -192,6 +266,7 @@ export const CatalogScreen: React.FC = () => {
           keyExtractor={(item) => item.id || 'all'}
           renderItem={({ item }) => {
             const isSelected = selectedCategory === item.id;
+            const count = isSearchingRef.current ? null : getCategoryCount(item.id);
             return (
               <TouchableOpacity
                 style={[
@@ -214,6 +289,7 @@ export const CatalogScreen: React.FC = () => {
                   ]}
                 >
                   {item.name}
+                  {count !== null ? ` (${count})` : ''}
                 </Text>
               </TouchableOpacity>
             );
@@ -223,17 +299,57 @@ export const CatalogScreen: React.FC = () => {
         />
       </View>
 
+      {/* Sort Options */}
+      {!isSearchingRef.current && (
+        <View style={styles.sortContainer}>
+          <Text style={[styles.resultCount, { color: COLORS.textSecondary }]}>
+            {total} productos
+          </Text>
+          <View style={styles.sortOptions}>
+            {SORTS.map((option) => {
+              const isSelected = selectedSort === option.id;
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  onPress={() => setSelectedSort(option.id)}
+                  activeOpacity={0.7}
+                >
+                  <Text
+                    style={[
+                      styles.sortOption,
+                      { color: isSelected ? COLORS.primary : COLORS.textSecondary },
+                      isSelected && styles.sortOptionSelected,
+                    ]}
+                  >
+                    {option.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
       {/* Products List */}
       <FlatList
-        data={filteredProducts}
+        data={products}
         renderItem={renderProduct}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
+        onEndReached={fetchMoreProducts}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator style={styles.listFooter} size="small" color={COLORS.primary} />
+          ) : null
+        }
         ListEmptyComponent={
           <View style={styles.emptyState}>
             <Text style={[styles.emptyText, { color: COLORS.textSecondary }]}>
-              No hay productos disponibles
+              {isSearchingRef.current
+                ? `Sin resultados para "${searchText.trim()}"`
+                : 'No hay productos disponibles'}
             </Text>
           </View>
         }
@@ -258,6 +374,31 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     fontSize: 16,
     fontWeight: '600',
   },
+  searchContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  searchIcon: {
+    fontSize: 16,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 10,
+  },
+  searchClear: {
+    fontSize: 16,
+    fontWeight: '600',
+    paddingHorizontal: 4,
+  },
   categoryContainer: {
     borderBottomWidth: 1,
     paddingVertical: 12,
@@ -282,6 +423,30 @@ const createStyles = (COLORS: any, colorMode: 'dark' | 'light') => StyleSheet.cr
     fontSize: 14,
     fontWeight: '600',
   },
+  sortContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  resultCount: {
+    fontSize: 13,
+  },
+  sortOptions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  sortOption: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  sortOptionSelected: {
+    fontWeight: '700',
+  },
+  listFooter: {
+    paddingVertical: 16,
+  },
   listContent: {
     padding: 16,
     gap: 12,
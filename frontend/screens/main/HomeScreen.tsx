@@ -26,34 +26,6 @@ import { ToastManager } from '../../utils/ToastManager';
 
 const { width } = Dimensions.get('window');
 
-// Helper function to get plan display name
-const getPlanDisplayName = (plan: string): string => {
-  switch (plan) {
-    case 'BASIC':
-      return 'Básico';
-    case 'STANDARD':
-      return 'Estándar';
-    case 'PREMIUM':
-      return 'Premium';
-    default:
-      return plan;
-  }
-};
-
-// Helper function to get plan emoji
-const getPlanEmoji = (plan: string): string => {
-  switch (plan) {
-    case 'BASIC':
-      return '🥬';
-    case 'STANDARD':
-      return '🌱';
-    case 'PREMIUM':
-      return '🌟';
-    default:
-      return '📦';
-  }
-};
-
 export const HomeScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
@@ -392,11 +364,11 @@ export const HomeScreen: React.FC = () => {
               <View style={styles.subscriptionHeader}>
                 <View style={styles.subscriptionPlanContainer}>
                   <Text style={styles.subscriptionPlanEmoji}>
-                    {getPlanEmoji(subscription.plan)}
+                    {subscription.planDetails?.emoji || '📦'}
                   </Text>
                   <View>
                     <Text style={styles.subscriptionPlan}>
-                      Plan {getPlanDisplayName(subscription.plan)}
+                      Plan {subscription.planDetails?.name || subscription.plan}
                     </Text>
                     <Text style={styles.subscriptionLimit}>
                       {limitInKg.toFixed(0)} kg/mes
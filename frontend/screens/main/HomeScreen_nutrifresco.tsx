@@ -98,15 +98,6 @@ export const HomeScreen: React.FC = () => {
     navigation.navigate('Subscription' as never);
   };
 
-  const getPlanName = (plan: string) => {
-    const names: Record<string, string> = {
-      BASIC: 'Básico',
-      STANDARD: 'Estándar',
-      PREMIUM: 'Premium',
-    };
-    return names[plan] || plan;
-  };
-
   // Featured products (seasonal)
   const featuredProducts = products
     .filter(p => p.available && p.season)
@@ -176,7 +167,7 @@ export const HomeScreen: React.FC = () => {
             <View style={styles.subscriptionHeader}>
               <View>
                 <Text style={[styles.subscriptionTitle, { color: COLORS.text }]}>
-                  Plan {getPlanName(subscription.plan)}
+                  Plan {subscription.planDetails?.name || subscription.plan}
                 </Text>
                 <Text style={[styles.subscriptionSubtitle, { color: COLORS.textSecondary }]}>
                   {limitInKg} kg/mes
@@ -30,7 +30,7 @@ export const MenuScreen: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState<ProductCategory | null>(null);
   const { products, loading, error, fetchProducts, filterByCategory } = useProductStore();
   const { addItem } = useCartStore();
-  const { canAddProduct, validateCategory, subscription } = useSubscriptionStore();
+  const { canAddProduct, validateCategory, subscription, getRemainingKg } = useSubscriptionStore();
   const { getThemeColors, currentTheme, colorMode } = useThemeStore();
   const COLORS = getThemeColors();
   
@@ -67,7 +67,7 @@ export const MenuScreen: React.FC = () => {
       }
 
       if (!canAddProduct(product.weightInKg)) {
-        const remaining = subscription ? subscription.limitInKg - subscription.usedKg : 0;
+        const remaining = getRemainingKg();
         AlertManager.alert(
           'Límite excedido',
           `No puedes agregar este producto. Te quedan ${remaining.toFixed(2)} kg disponibles.`
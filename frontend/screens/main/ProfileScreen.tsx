@@ -1,7 +1,8 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
@@ -11,18 +12,157 @@ import { useNavigation } from '@react-navigation/native';
 import type { NavigationProp } from '@react-navigation/native';
 import { useAuthStore } from '../../stores/authStore';
 import { useThemeStore } from '../../stores/themeStore';
+import { useSubscriptionStore } from '../../stores/subscriptionStore';
 import type { RootStackParamList } from '../../navigation/AppNavigator';
+import type { ActiveSession } from '../../services/authService';
+import { AlertManager } from '../../utils/AlertManager';
+import { ToastManager } from '../../utils/ToastManager';
+
+const PLATFORM_LABELS: Record<string, string> = {
+  ios: '📱 iPhone',
+  android: '📱 Android',
+  web: '💻 Navegador',
+};
+
+const DATE_INPUT_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Fecha local en formato AAAA-MM-DD para los campos de la pausa
+ */
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * "2025-12-20" → medianoche local de ese día, o null si no es una fecha válida
+ */
+const parseDateInput = (value: string): Date | null => {
+  const match = DATE_INPUT_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date : null;
+};
+
+const formatPauseDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('es-MX', { day: 'numeric', month: 'long' }) : '';
+
+/**
+ * Nombre reconocible de la sesión: el que dio el dispositivo o su plataforma
+ */
+const sessionLabel = (session: ActiveSession) =>
+  session.deviceName || PLATFORM_LABELS[session.platform ?? ''] || '🔑 Dispositivo desconocido';
 
 export const ProfileScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
-  const { user, logout } = useAuthStore();
+  const { user, logout, sessions, fetchSessions, revokeSession, logoutAllDevices, verifyEmail, resendVerification } = useAuthStore();
+  const [verificationCode, setVerificationCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const { subscription, fetchCurrentSubscription, pauseSubscription, resumeSubscription } = useSubscriptionStore();
+  const [pauseStart, setPauseStart] = useState(() => toDateInput(new Date()));
+  const [pauseEnd, setPauseEnd] = useState(() => toDateInput(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)));
+  const [pausing, setPausing] = useState(false);
   const { currentTheme, colorMode, getThemeColors } = useThemeStore();
   const COLORS = getThemeColors();
 
+  useEffect(() => {
+    fetchSessions();
+    fetchCurrentSubscription();
+  }, []);
+
   const handleLogout = () => {
     logout();
   };
 
+  const handleVerifyEmail = async () => {
+    if (!verificationCode.trim()) return;
+
+    setVerifying(true);
+    const success = await verifyEmail(verificationCode.trim());
+    setVerifying(false);
+
+    if (success) {
+      setVerificationCode('');
+      ToastManager.success('Correo confirmado', '¡Gracias por verificar tu cuenta!');
+    } else {
+      ToastManager.error('Código inválido', 'Revisa el código o pide uno nuevo');
+    }
+  };
+
+  const handleResendVerification = async () => {
+    const success = await resendVerification();
+    if (success) {
+      ToastManager.success('Código enviado', `Revisa ${user?.email}`);
+    } else {
+      ToastManager.error('Espera un momento', 'Puedes pedir un código nuevo cada minuto');
+    }
+  };
+
+  const handlePauseSubscription = async () => {
+    const startDate = parseDateInput(pauseStart);
+    const endDate = parseDateInput(pauseEnd);
+
+    if (!startDate || !endDate) {
+      ToastManager.error('Fecha inválida', 'Usa el formato AAAA-MM-DD');
+      return;
+    }
+
+    setPausing(true);
+    const success = await pauseSubscription(startDate.toISOString(), endDate.toISOString());
+    setPausing(false);
+
+    if (success) {
+      ToastManager.success('Suscripción pausada', `Del ${formatPauseDate(startDate.toISOString())} al ${formatPauseDate(endDate.toISOString())}`);
+    } else {
+      ToastManager.error('No se pudo pausar', useSubscriptionStore.getState().error || 'Intenta de nuevo');
+    }
+  };
+
+  const handleResumeSubscription = () => {
+    const scheduled = subscription?.pause?.state === 'scheduled';
+
+    AlertManager.confirmDestructive(
+      scheduled ? 'Cancelar pausa' : 'Reanudar suscripción',
+      scheduled
+        ? '¿Cancelar la pausa programada? No contará para tu límite de pausas.'
+        : 'Podrás volver a hacer pedidos desde hoy y tu renovación se adelantará los días que no usaste.',
+      async () => {
+        const success = await resumeSubscription();
+        if (success) {
+          ToastManager.success(scheduled ? 'Pausa cancelada' : 'Suscripción reanudada');
+        } else {
+          ToastManager.error('Error', useSubscriptionStore.getState().error || 'Intenta de nuevo');
+        }
+      }
+    );
+  };
+
+  const handleRevokeSession = (session: ActiveSession) => {
+    AlertManager.confirmDestructive(
+      'Cerrar sesión',
+      `¿Cerrar la sesión de ${sessionLabel(session)}? Tendrá que volver a iniciar sesión.`,
+      async () => {
+        const success = await revokeSession(session.id);
+        if (success) {
+          ToastManager.success('Sesión cerrada');
+        } else {
+          ToastManager.error('Error', 'No se pudo cerrar la sesión');
+        }
+      }
+    );
+  };
+
+  const handleLogoutAllDevices = () => {
+    AlertManager.confirmDestructive(
+      'Cerrar todas las sesiones',
+      'Se cerrará la sesión en todos tus dispositivos, incluido este.',
+      async () => {
+        const success = await logoutAllDevices();
+        if (!success) {
+          ToastManager.error('Error', 'No se pudieron cerrar las sesiones');
+        }
+      }
+    );
+  };
+
   return (
     <ScrollView
       style={[styles.container, { backgroundColor: COLORS.background }]}
@@ -44,6 +184,141 @@ export const ProfileScreen: React.FC = () => {
         </Text>
       </View>
 
+      {/* Email Verification */}
+      {user && !user.emailVerifiedAt && (
+        <View style={[styles.infoCard, styles.section, { backgroundColor: COLORS.surface, borderColor: COLORS.primary }]}>
+          <Text style={[styles.settingTitle, { color: COLORS.text }]}>
+            ✉️ Confirma tu correo
+          </Text>
+          <Text style={[styles.settingSubtitle, { color: COLORS.textSecondary }]}>
+            Escribe el código que enviamos a {user.email}
+          </Text>
+          <View style={styles.verificationRow}>
+            <TextInput
+              value={verificationCode}
+              onChangeText={setVerificationCode}
+              placeholder="Código"
+              placeholderTextColor={COLORS.textSecondary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              style={[styles.verificationInput, { color: COLORS.text, borderColor: COLORS.border }]}
+            />
+            <TouchableOpacity
+              onPress={handleVerifyEmail}
+              disabled={verifying || !verificationCode.trim()}
+              style={[styles.verificationButton, { backgroundColor: COLORS.primary }, (verifying || !verificationCode.trim()) && styles.disabled]}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.verificationButtonText}>{verifying ? '...' : 'Confirmar'}</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity onPress={handleResendVerification} activeOpacity={0.7}>
+            <Text style={[styles.resendText, { color: COLORS.primary }]}>Reenviar código</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Subscription Pause */}
+      {subscription?.pause && (
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: COLORS.text }]}>
+            Suscripción
+          </Text>
+
+          <View
+            style={[
+              styles.infoCard,
+              { backgroundColor: COLORS.surface, borderColor: subscription.pause.state === 'none' ? COLORS.border : COLORS.primary },
+            ]}
+          >
+            {subscription.pause.state === 'none' ? (
+              <>
+                <Text style={[styles.settingTitle, { color: COLORS.text }]}>
+                  🏖️ Modo vacaciones
+                </Text>
+                <Text style={[styles.settingSubtitle, { color: COLORS.textSecondary }]}>
+                  Pausa tu suscripción de {subscription.pause.minDays} a {subscription.pause.maxDays} días. Tu renovación se recorre lo que dure la pausa.
+                  {' '}Te quedan {Math.max(0, subscription.pause.pausesAllowed - subscription.pause.pausesUsed)} de {subscription.pause.pausesAllowed} este año.
+                </Text>
+                <View style={styles.pauseRow}>
+                  <TextInput
+                    value={pauseStart}
+                    onChangeText={setPauseStart}
+                    placeholder="Desde (AAAA-MM-DD)"
+                    placeholderTextColor={COLORS.textSecondary}
+                    autoCorrect={false}
+                    style={[styles.pauseInput, { color: COLORS.text, borderColor: COLORS.border }]}
+                  />
+                  <TextInput
+                    value={pauseEnd}
+                    onChangeText={setPauseEnd}
+                    placeholder="Hasta (AAAA-MM-DD)"
+                    placeholderTextColor={COLORS.textSecondary}
+                    autoCorrect={false}
+                    style={[styles.pauseInput, { color: COLORS.text, borderColor: COLORS.border }]}
+                  />
+                </View>
+                <TouchableOpacity
+                  onPress={handlePauseSubscription}
+                  disabled={pausing || subscription.pause.pausesUsed >= subscription.pause.pausesAllowed}
+                  style={[
+                    styles.pauseButton,
+                    { backgroundColor: COLORS.primary },
+                    (pausing || subscription.pause.pausesUsed >= subscription.pause.pausesAllowed) && styles.disabled,
+                  ]}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.verificationButtonText}>{pausing ? '...' : 'Pausar suscripción'}</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <Text style={[styles.settingTitle, { color: COLORS.text }]}>
+                  {subscription.pause.state === 'active' ? '⏸️ Suscripción en pausa' : '🗓️ Pausa programada'}
+                </Text>
+                <Text style={[styles.settingSubtitle, { color: COLORS.textSecondary }]}>
+                  {subscription.pause.state === 'active'
+                    ? `No puedes hacer pedidos y tus canastas se saltan hasta el ${formatPauseDate(subscription.pause.endsAt)}.`
+                    : `Del ${formatPauseDate(subscription.pause.startsAt)} al ${formatPauseDate(subscription.pause.endsAt)}.`}
+                  {' '}Tu renovación será el {formatPauseDate(subscription.renewalDate)}.
+                </Text>
+                <TouchableOpacity onPress={handleResumeSubscription} activeOpacity={0.7}>
+                  <Text style={[styles.resendText, { color: COLORS.primary }]}>
+                    {subscription.pause.state === 'active' ? 'Reanudar ahora' : 'Cancelar pausa'}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Orders Section */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: COLORS.text }]}>
+          Pedidos
+        </Text>
+
+        <TouchableOpacity
+          onPress={() => navigation.navigate('StandingOrders')}
+          style={[styles.settingItem, { backgroundColor: COLORS.surface, borderColor: COLORS.border }]}
+          activeOpacity={0.7}
+        >
+          <View style={styles.settingLeft}>
+            <Text style={styles.settingEmoji}>🧺</Text>
+            <View style={styles.settingText}>
+              <Text style={[styles.settingTitle, { color: COLORS.text }]}>
+                Canastas recurrentes
+              </Text>
+              <Text style={[styles.settingSubtitle, { color: COLORS.textSecondary }]}>
+                Pausar, saltar una semana o editar
+              </Text>
+            </View>
+          </View>
+          <Text style={[styles.arrow, { color: COLORS.textSecondary }]}>→</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* Settings Section */}
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, { color: COLORS.text }]}>
@@ -109,6 +384,44 @@ export const ProfileScreen: React.FC = () => {
         </View>
       </View>
 
+      {/* Sessions Section */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: COLORS.text }]}>
+          Sesiones activas
+        </Text>
+
+        {sessions.map(session => (
+          <View
+            key={session.id}
+            style={[styles.settingItem, { backgroundColor: COLORS.surface, borderColor: COLORS.border }]}
+          >
+            <View style={styles.settingText}>
+              <Text style={[styles.settingTitle, { color: COLORS.text }]}>
+                {sessionLabel(session)}
+              </Text>
+              <Text style={[styles.settingSubtitle, { color: COLORS.textSecondary }]}>
+                {session.current
+                  ? 'Este dispositivo'
+                  : `Último uso: ${new Date(session.lastUsedAt).toLocaleString('es-MX', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}`}
+              </Text>
+            </View>
+            {!session.current && (
+              <TouchableOpacity onPress={() => handleRevokeSession(session)} activeOpacity={0.7}>
+                <Text style={[styles.revokeText, { color: COLORS.error }]}>Cerrar</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+
+        {sessions.length > 1 && (
+          <TouchableOpacity onPress={handleLogoutAllDevices} activeOpacity={0.7}>
+            <Text style={[styles.logoutAllText, { color: COLORS.error }]}>
+              Cerrar sesión en todos los dispositivos
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
       {/* Logout Button */}
       <TouchableOpacity
         onPress={handleLogout}
@@ -239,6 +552,70 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '600',
   },
+  verificationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  verificationInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 18,
+    fontWeight: '600',
+    letterSpacing: 2,
+    marginRight: 12,
+  },
+  verificationButton: {
+    paddingHorizontal: 18,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  verificationButtonText: {
+    color: '#000000',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  pauseRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  pauseInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+  },
+  pauseButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  resendText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  revokeText: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginLeft: 12,
+  },
+  logoutAllText: {
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
   logoutButton: {
     padding: 20,
     borderRadius: 20,
@@ -11,27 +11,19 @@ import {
   ActivityIndicator,
   TextInput,
   Switch,
+  Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { useAuthStore } from '../../stores/authStore';
 import { useThemeStore } from '../../stores/themeStore';
+import { useProducerStore } from '../../stores/producerStore';
+import type { Product, ProductCategory } from '../../stores/productStore';
 import { ToastManager } from '../../utils/ToastManager';
 import producerOrderService, { ProducerOrder } from '../../services/producerOrderService';
+import producerPayoutService, { ProducerEarningsSummary } from '../../services/producerPayoutService';
 
 type TabType = 'orders' | 'deliveries' | 'payments' | 'products' | 'add';
 
-interface ProducerProduct {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  weightInKg: number;
-  stock: number;
-  available: boolean;
-  origin: string;
-  image?: string;
-}
-
 interface PaymentTransaction {
   id: string;
   orderNumber: string;
@@ -46,12 +38,13 @@ export const ProducerDashboardScreen: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>('orders');
   const [orders, setOrders] = useState<ProducerOrder[]>([]);
   const [deliveries, setDeliveries] = useState<ProducerOrder[]>([]);
-  const [products, setProducts] = useState<ProducerProduct[]>([]);
   const [payments, setPayments] = useState<PaymentTransaction[]>([]);
+  const [paymentSummary, setPaymentSummary] = useState<ProducerEarningsSummary | null>(null);
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   
-  // Form state for adding product
+  // Form state for adding/editing product
+  const [editingProductId, setEditingProductId] = useState<string | null>(null);
   const [newProduct, setNewProduct] = useState({
     name: '',
     description: '',
@@ -64,6 +57,14 @@ export const ProducerDashboardScreen: React.FC = () => {
 
   const navigation = useNavigation();
   const { user, logout } = useAuthStore();
+  const {
+    myProducts: products,
+    fetchMyProducts,
+    createProduct,
+    updateProduct,
+    toggleProductAvailability,
+    deleteProduct,
+  } = useProducerStore();
   const { getThemeColors, currentTheme, colorMode } = useThemeStore();
   const COLORS = getThemeColors();
   
@@ -352,134 +353,49 @@ export const ProducerDashboardScreen: React.FC = () => {
     }
   };
 
-  const loadProducts = () => {
-    // Datos de demostración de productos
-    const demoProducts: ProducerProduct[] = [
-      {
-        id: '1',
-        name: 'Café Chiapaneco Molido',
-        description: 'Café molido de altura, tostado artesanalmente',
-        category: 'COFFEE',
-        weightInKg: 0.25,
-        stock: 45,
-        available: true,
-        origin: 'Sierra de Chiapas',
-      },
-      {
-        id: '2',
-        name: 'Miel Orgánica',
-        description: 'Miel 100% natural de flores silvestres',
-        category: 'SNACKS',
-        weightInKg: 0.5,
-        stock: 28,
-        available: true,
-        origin: 'Valle de Chiapas',
-      },
-      {
-        id: '3',
-        name: 'Cacao Chiapaneco',
-        description: 'Cacao en grano de la región Soconusco',
-        category: 'CHOCOLATE',
-        weightInKg: 0.5,
-        stock: 15,
-        available: true,
-        origin: 'Soconusco, Chiapas',
-      },
-      {
-        id: '4',
-        name: 'Chocolate Artesanal 70%',
-        description: 'Chocolate artesanal con 70% cacao',
-        category: 'CHOCOLATE',
-        weightInKg: 0.2,
-        stock: 32,
-        available: true,
-        origin: 'Sierra de Chiapas',
-      },
-      {
-        id: '5',
-        name: 'Café en Grano Premium',
-        description: 'Café en grano sin tostar, calidad exportación',
-        category: 'COFFEE',
-        weightInKg: 0.5,
-        stock: 8,
-        available: true,
-        origin: 'Montañas de Chiapas',
-      },
-      {
-        id: '6',
-        name: 'Polen de Abeja',
-        description: 'Polen natural recolectado por abejas',
-        category: 'SNACKS',
-        weightInKg: 0.1,
-        stock: 0,
-        available: false,
-        origin: 'Valle de Chiapas',
-      },
-    ];
-
-    setProducts(demoProducts);
+  const loadProducts = async () => {
+    await fetchMyProducts();
+    const { error } = useProducerStore.getState();
+    if (error) {
+      ToastManager.error('Error', 'No se pudieron cargar tus productos');
+    }
   };
 
-  const loadPayments = () => {
-    // Datos de demostración de transacciones
-    const demoPayments: PaymentTransaction[] = [
-      {
-        id: '1',
-        orderNumber: 'NF51434161',
-        customerName: 'María González',
-        date: new Date(2025, 10, 18).toISOString(),
-        amount: 750.00,
-        status: 'completed',
-        items: ['Café Chiapaneco (2 kg)', 'Miel Orgánica (1 kg)'],
-      },
-      {
-        id: '2',
-        orderNumber: 'NF51434162',
-        customerName: 'Juan Pérez Martínez',
-        date: new Date(2025, 10, 19).toISOString(),
-        amount: 450.00,
-        status: 'processing',
-        items: ['Cacao Chiapaneco (3 kg)'],
-      },
-      {
-        id: '3',
-        orderNumber: 'NF51434163',
-        customerName: 'Ana López Silva',
-        date: new Date(2025, 10, 20).toISOString(),
-        amount: 325.00,
-        status: 'pending',
-        items: ['Café Chiapaneco (1 kg)', 'Chocolate Artesanal (2 kg)'],
-      },
-      {
-        id: '4',
-        orderNumber: 'NF51434164',
-        customerName: 'Carlos Ramírez Torres',
-        date: new Date(2025, 10, 20).toISOString(),
-        amount: 1200.00,
-        status: 'pending',
-        items: ['Miel Orgánica (3 kg)', 'Café Chiapaneco (2 kg)'],
-      },
-      {
-        id: '5',
-        orderNumber: 'NF51434160',
-        customerName: 'Patricia Hernández',
-        date: new Date(2025, 10, 17).toISOString(),
-        amount: 500.00,
-        status: 'completed',
-        items: ['Cacao Chiapaneco (2 kg)'],
-      },
-      {
-        id: '6',
-        orderNumber: 'NF51434159',
-        customerName: 'Roberto Sánchez',
-        date: new Date(2025, 10, 16).toISOString(),
-        amount: 750.00,
-        status: 'completed',
-        items: ['Chocolate Artesanal (5 kg)', 'Miel Orgánica (1 kg)'],
-      },
-    ];
-
-    setPayments(demoPayments);
+  const loadPayments = async () => {
+    const response = await producerPayoutService.getMyEarnings();
+
+    if (!response.ok || !response.data) {
+      ToastManager.error('Error', response.message || 'No se pudieron cargar tus cobros');
+      return;
+    }
+
+    // Agrupar las ganancias por pedido; un pedido aún sin lote de pago cuenta como pendiente
+    const byOrder = new Map<string, PaymentTransaction>();
+    for (const earning of response.data.earnings) {
+      const status = earning.payoutStatus === 'accrued' ? 'pending' : earning.payoutStatus;
+      const itemLabel = earning.rateType === 'per_unit'
+        ? `${earning.product.name} (${earning.quantity} pzas)`
+        : `${earning.product.name} (${earning.weightInKg} kg)`;
+      const existing = byOrder.get(earning.orderId);
+
+      if (existing) {
+        existing.amount += earning.amount;
+        existing.items.push(itemLabel);
+      } else {
+        byOrder.set(earning.orderId, {
+          id: earning.orderId,
+          orderNumber: earning.orderId.slice(-8).toUpperCase(),
+          customerName: earning.order.user.name,
+          date: earning.createdAt,
+          amount: earning.amount,
+          status,
+          items: [itemLabel],
+        });
+      }
+    }
+
+    setPayments(Array.from(byOrder.values()));
+    setPaymentSummary(response.data.summary);
   };
 
   const handleRefresh = () => {
@@ -494,20 +410,67 @@ export const ProducerDashboardScreen: React.FC = () => {
     setRefreshing(false);
   };
 
-  const handleToggleProductAvailability = (productId: string) => {
-    setProducts(prev => 
-      prev.map(product => 
-        product.id === productId 
-          ? { ...product, available: !product.available }
-          : product
-      )
-    );
-    ToastManager.success(
-      'Actualizado', 
-      'Disponibilidad del producto actualizada'
+  const handleToggleProductAvailability = async (productId: string) => {
+    const product = await toggleProductAvailability(productId);
+    if (product) {
+      ToastManager.success(
+        'Actualizado', 
+        product.available ? 'El producto está disponible' : 'El producto quedó oculto para los clientes'
+      );
+    } else {
+      ToastManager.error('Error', useProducerStore.getState().error || 'No se pudo actualizar la disponibilidad');
+    }
+  };
+
+  const handleEditProduct = (product: Product) => {
+    setEditingProductId(product.id);
+    setNewProduct({
+      name: product.name,
+      description: product.description || '',
+      category: product.category,
+      weightInKg: String(product.weightInKg),
+      stock: String(product.stock),
+      origin: product.origin || '',
+      available: product.available,
+    });
+    setActiveTab('add');
+  };
+
+  const handleDeleteProduct = (product: Product) => {
+    Alert.alert(
+      'Eliminar producto',
+      `¿Seguro que deseas eliminar ${product.name}? Dejará de mostrarse a los clientes.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            const deleted = await deleteProduct(product.id);
+            if (deleted) {
+              ToastManager.success('Producto eliminado', `${product.name} se eliminó de tu catálogo`);
+            } else {
+              ToastManager.error('Error', useProducerStore.getState().error || 'No se pudo eliminar el producto');
+            }
+          },
+        },
+      ]
     );
   };
 
+  const resetProductForm = () => {
+    setEditingProductId(null);
+    setNewProduct({
+      name: '',
+      description: '',
+      category: 'FRUITS',
+      weightInKg: '',
+      stock: '',
+      origin: '',
+      available: true,
+    });
+  };
+
   const getCategoryName = (category: string): string => {
     const categoryMap: { [key: string]: string } = {
       'FRUITS': 'Frutas',
@@ -533,7 +496,7 @@ export const ProducerDashboardScreen: React.FC = () => {
     { value: 'PROTEINS', label: 'Proteínas' },
   ];
 
-  const handleAddProduct = () => {
+  const handleAddProduct = async () => {
     // Validación
     if (!newProduct.name.trim()) {
       ToastManager.error('Error', 'El nombre del producto es requerido');
@@ -556,36 +519,33 @@ export const ProducerDashboardScreen: React.FC = () => {
       return;
     }
 
-    // Crear nuevo producto
-    const product: ProducerProduct = {
-      id: Date.now().toString(),
+    const data = {
       name: newProduct.name.trim(),
       description: newProduct.description.trim(),
-      category: newProduct.category,
+      category: newProduct.category as ProductCategory,
       weightInKg: parseFloat(newProduct.weightInKg),
       stock: parseInt(newProduct.stock),
       origin: newProduct.origin.trim(),
       available: newProduct.available,
     };
 
-    // Agregar a la lista
-    setProducts(prev => [product, ...prev]);
+    const product = editingProductId
+      ? await updateProduct(editingProductId, data)
+      : await createProduct(data);
 
-    // Resetear formulario
-    setNewProduct({
-      name: '',
-      description: '',
-      category: 'FRUITS',
-      weightInKg: '',
-      stock: '',
-      origin: '',
-      available: true,
-    });
+    if (!product) {
+      ToastManager.error('Error', useProducerStore.getState().error || 'No se pudo guardar el producto');
+      return;
+    }
 
-    // Cambiar a tab de productos
+    // Resetear formulario y cambiar a tab de productos
+    resetProductForm();
     setActiveTab('products');
 
-    ToastManager.success('Producto agregado', `${product.name} se agregó exitosamente`);
+    ToastManager.success(
+      editingProductId ? 'Producto actualizado' : 'Producto agregado',
+      `${product.name} se guardó exitosamente`
+    );
   };
 
   const handleAcceptOrder = async (orderId: string) => {
@@ -813,13 +773,16 @@ export const ProducerDashboardScreen: React.FC = () => {
 
       case 'payments':
         // Calcular estadísticas
-        const totalEarnings = payments.reduce((sum, p) => sum + p.amount, 0);
         const completedPayments = payments.filter(p => p.status === 'completed');
         const pendingPayments = payments.filter(p => p.status === 'pending');
         const processingPayments = payments.filter(p => p.status === 'processing');
         
-        const completedAmount = completedPayments.reduce((sum, p) => sum + p.amount, 0);
-        const pendingAmount = pendingPayments.reduce((sum, p) => sum + p.amount, 0);
+        // Los montos salen del resumen del servidor (la lista solo trae lo más reciente)
+        const totalEarnings = paymentSummary?.totalAmount ?? 0;
+        const completedAmount = paymentSummary?.paidAmount ?? 0;
+        const pendingAmount = paymentSummary
+          ? paymentSummary.accruedAmount + paymentSummary.pendingAmount + paymentSummary.processingAmount
+          : 0;
 
         return (
           <FlatList
@@ -899,7 +862,7 @@ export const ProducerDashboardScreen: React.FC = () => {
                   <View style={[styles.statCard, styles.statCardWarning]}>
                     <Text style={styles.statIcon}>⏳</Text>
                     <Text style={styles.statValue}>${pendingAmount.toFixed(2)}</Text>
-                    <Text style={styles.statLabel}>Pendientes ({pendingPayments.length})</Text>
+                    <Text style={styles.statLabel}>Pendientes ({pendingPayments.length + processingPayments.length})</Text>
                   </View>
                 </View>
 
@@ -1001,6 +964,7 @@ export const ProducerDashboardScreen: React.FC = () => {
                 <View style={styles.productActions}>
                   <TouchableOpacity 
                     style={styles.productActionButton}
+                    onPress={() => handleEditProduct(item)}
                     activeOpacity={0.7}
                   >
                     <Text style={styles.productActionIcon}>✏️</Text>
@@ -1008,6 +972,7 @@ export const ProducerDashboardScreen: React.FC = () => {
                   </TouchableOpacity>
                   <TouchableOpacity 
                     style={[styles.productActionButton, styles.productActionButtonDanger]}
+                    onPress={() => handleDeleteProduct(item)}
                     activeOpacity={0.7}
                   >
                     <Text style={styles.productActionIcon}>🗑️</Text>
@@ -1051,7 +1016,9 @@ export const ProducerDashboardScreen: React.FC = () => {
             }
           >
             <View style={styles.formContainer}>
-              <Text style={styles.formTitle}>➕ Agregar Nuevo Producto</Text>
+              <Text style={styles.formTitle}>
+                {editingProductId ? '✏️ Editar Producto' : '➕ Agregar Nuevo Producto'}
+              </Text>
               <Text style={styles.formSubtitle}>Completa la información de tu producto</Text>
 
               {/* Nombre */}
@@ -1171,15 +1138,7 @@ export const ProducerDashboardScreen: React.FC = () => {
                 <TouchableOpacity
                   style={styles.cancelButton}
                   onPress={() => {
-                    setNewProduct({
-                      name: '',
-                      description: '',
-                      category: 'FRUITS',
-                      weightInKg: '',
-                      stock: '',
-                      origin: '',
-                      available: true,
-                    });
+                    resetProductForm();
                     ToastManager.info('Cancelado', 'Formulario limpiado');
                   }}
                   activeOpacity={0.7}
@@ -1192,7 +1151,9 @@ export const ProducerDashboardScreen: React.FC = () => {
                   onPress={handleAddProduct}
                   activeOpacity={0.8}
                 >
-                  <Text style={styles.submitButtonText}>✓ Agregar Producto</Text>
+                  <Text style={styles.submitButtonText}>
+                    {editingProductId ? '✓ Guardar Cambios' : '✓ Agregar Producto'}
+                  </Text>
                 </TouchableOpacity>
               </View>
 
@@ -84,7 +84,7 @@ export const ProducerLoginScreen: React.FC = () => {
         }
 
         const user = { ...response.data.user, phone: response.data.user.phone ?? undefined };
-        await login(user, response.data.token);
+        await login(user, response.data.token, response.data);
         ToastManager.loginSuccess(user.name || 'Productor');
         // Navigation será manejada automáticamente por AppNavigator
       } else {
@@ -1,22 +1,52 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
 import { useConfigStore } from '../stores/configStore';
 
+// Session token pair: the access token is short-lived and the refresh token renews it
+export interface SessionTokens {
+  sessionId: string;
+  token: string;
+  expiresAt: string;
+  refreshToken: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  deviceName: string | null;
+  platform: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  role: string;
+  emailVerifiedAt: string | null;
+  emailVerificationDueAt?: string | null;
+  preferences: any;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface AuthResponse {
   ok: boolean;
   message: string;
-  data?: {
-    user: {
-      id: string;
-      name: string;
-      email: string;
-      phone: string | null;
-      role: string;
-      preferences: any;
-      createdAt: string;
-      updatedAt: string;
-    };
-    token: string;
-  };
+  data?: { user: AuthUser } & SessionTokens;
+  error?: string;
+  code?: string; // EMAIL_NOT_VERIFIED: the grace period ended, confirm the email before logging in
+}
+
+// /auth/me and /auth/profile return the user itself
+export interface ProfileResponse {
+  ok: boolean;
+  message?: string;
+  data?: AuthUser;
   error?: string;
 }
 
@@ -25,7 +55,7 @@ export interface RegisterData {
   email: string;
   phone: string;
   password: string;
-  subscriptionPlan?: 'BASIC' | 'STANDARD' | 'PREMIUM';
+  subscriptionPlan?: string; // Plan code from GET /subscription/plans
 }
 
 export interface LoginData {
@@ -33,8 +63,24 @@ export interface LoginData {
   password: string;
 }
 
+export interface ResetPasswordData {
+  email: string;
+  code: string;
+  password: string;
+}
+
+export interface SimpleResponse {
+  ok: boolean;
+  message: string;
+}
+
+// Sent on login/refresh so the session can be recognized in the session list
+const DEVICE_INFO = { platform: Platform.OS };
+
 class AuthService {
   private static TOKEN_KEY = 'greenfit_auth_token';
+  private static REFRESH_TOKEN_KEY = 'greenfit_refresh_token';
+  private static TOKEN_EXPIRES_KEY = 'greenfit_token_expires_at';
   private static USER_KEY = 'greenfit_user_data';
 
   /**
@@ -52,14 +98,14 @@ class AuthService {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(userData),
+        body: JSON.stringify({ ...userData, device: DEVICE_INFO }),
       });
 
       const data: AuthResponse = await response.json();
 
       if (data.ok && data.data) {
-        // Store token and user data
-        await AsyncStorage.setItem(this.TOKEN_KEY, data.data.token);
+        // Store tokens and user data
+        await this.storeSession(data.data);
         await AsyncStorage.setItem(this.USER_KEY, JSON.stringify(data.data.user));
         
         console.log('✅ User registered and logged in:', data.data.user.email);
@@ -91,14 +137,14 @@ class AuthService {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(credentials),
+        body: JSON.stringify({ ...credentials, device: DEVICE_INFO }),
       });
 
       const data: AuthResponse = await response.json();
 
       if (data.ok && data.data) {
-        // Store token and user data
-        await AsyncStorage.setItem(this.TOKEN_KEY, data.data.token);
+        // Store tokens and user data
+        await this.storeSession(data.data);
         await AsyncStorage.setItem(this.USER_KEY, JSON.stringify(data.data.user));
         
         console.log('✅ User logged in:', data.data.user.email);
@@ -116,34 +162,298 @@ class AuthService {
   }
 
   /**
-   * Logout user
+   * Exchange a refresh token for a new token pair. The old refresh token stops working,
+   * so the caller must keep the returned one.
+   * @returns null if the session was revoked or expired
+   */
+  static async refreshSession(refreshToken: string): Promise<SessionTokens | null> {
+    const config = useConfigStore.getState().config;
+    if (!config) {
+      throw new Error('Configuration not loaded');
+    }
+
+    const response = await fetch(`${config.api.baseUrl}/auth/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refreshToken, device: DEVICE_INFO }),
+    });
+
+    const data = await response.json();
+
+    if (data.ok && data.data) {
+      return data.data as SessionTokens;
+    }
+
+    // 401: the server closed the session; anything else is worth retrying later
+    if (response.status === 401) {
+      return null;
+    }
+
+    throw new Error(data.message || 'Failed to refresh session');
+  }
+
+  /**
+   * Persist the session tokens
+   */
+  static async storeSession(session: SessionTokens): Promise<void> {
+    await AsyncStorage.multiSet([
+      [this.TOKEN_KEY, session.token],
+      [this.REFRESH_TOKEN_KEY, session.refreshToken],
+      [this.TOKEN_EXPIRES_KEY, session.expiresAt],
+    ]);
+  }
+
+  /**
+   * Get stored refresh token and access token expiry
+   */
+  static async getStoredSession(): Promise<{ refreshToken: string | null; expiresAt: string | null }> {
+    try {
+      const [refreshToken, expiresAt] = await Promise.all([
+        AsyncStorage.getItem(this.REFRESH_TOKEN_KEY),
+        AsyncStorage.getItem(this.TOKEN_EXPIRES_KEY),
+      ]);
+      return { refreshToken, expiresAt };
+    } catch (error) {
+      console.error('❌ Error getting stored session:', error);
+      return { refreshToken: null, expiresAt: null };
+    }
+  }
+
+  /**
+   * Clear every stored session value
+   */
+  private static async clearStoredSession(): Promise<void> {
+    await AsyncStorage.multiRemove([this.TOKEN_KEY, this.REFRESH_TOKEN_KEY, this.TOKEN_EXPIRES_KEY, this.USER_KEY]);
+  }
+
+  /**
+   * Logout user, revoking the session on the server
    */
   static async logout(): Promise<void> {
     try {
       const config = useConfigStore.getState().config;
       const token = await this.getStoredToken();
+      const { refreshToken } = await this.getStoredSession();
 
-      if (config && token) {
-        // Call backend logout endpoint
+      if (config && (token || refreshToken)) {
+        // The refresh token identifies the session even if the access token already expired
         await fetch(`${config.api.baseUrl}/auth/logout`, {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${token}`,
+            ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
             'Content-Type': 'application/json',
           },
+          body: JSON.stringify({ refreshToken }),
         });
       }
 
       // Clear stored data
-      await AsyncStorage.removeItem(this.TOKEN_KEY);
-      await AsyncStorage.removeItem(this.USER_KEY);
+      await this.clearStoredSession();
       
       console.log('✅ User logged out');
     } catch (error) {
       console.error('❌ Logout error:', error);
       // Still clear local data even if backend call fails
-      await AsyncStorage.removeItem(this.TOKEN_KEY);
-      await AsyncStorage.removeItem(this.USER_KEY);
+      await this.clearStoredSession();
+    }
+  }
+
+  /**
+   * Revoke every session of the user (all devices, including this one)
+   */
+  static async logoutAllDevices(): Promise<boolean> {
+    try {
+      const config = useConfigStore.getState().config;
+      const token = await this.getStoredToken();
+
+      if (!config || !token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/auth/logout-all`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      if (!data.ok) {
+        throw new Error(data.message || 'Failed to logout from all devices');
+      }
+
+      await this.clearStoredSession();
+      console.log('✅ Logged out from all devices');
+      return true;
+    } catch (error) {
+      console.error('❌ Logout all devices error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * List the user's active sessions
+   */
+  static async getSessions(): Promise<ActiveSession[]> {
+    const config = useConfigStore.getState().config;
+    const token = await this.getStoredToken();
+
+    if (!config || !token) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`${config.api.baseUrl}/auth/sessions`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json();
+
+    if (!data.ok || !data.data) {
+      throw new Error(data.message || 'Failed to fetch sessions');
+    }
+
+    return data.data;
+  }
+
+  /**
+   * Revoke one session (e.g. a lost phone)
+   */
+  static async revokeSession(sessionId: string): Promise<void> {
+    const config = useConfigStore.getState().config;
+    const token = await this.getStoredToken();
+
+    if (!config || !token) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`${config.api.baseUrl}/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json();
+
+    if (!data.ok) {
+      throw new Error(data.message || 'Failed to revoke session');
+    }
+  }
+
+  /**
+   * Ask for a password reset code by email. The server answers the same whether
+   * or not the email is registered.
+   */
+  static async forgotPassword(email: string): Promise<SimpleResponse> {
+    try {
+      const config = useConfigStore.getState().config;
+      if (!config) {
+        throw new Error('Configuration not loaded');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/auth/forgot-password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Forgot password error:', error);
+      return { ok: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Set a new password with the emailed code. Every session is closed, including this one.
+   */
+  static async resetPassword(data: ResetPasswordData): Promise<SimpleResponse> {
+    try {
+      const config = useConfigStore.getState().config;
+      if (!config) {
+        throw new Error('Configuration not loaded');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/auth/reset-password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Reset password error:', error);
+      return { ok: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Confirm the email with the code sent after registering.
+   * Pass the email when there is no session (login blocked until the email is confirmed).
+   */
+  static async verifyEmail(code: string, email?: string): Promise<SimpleResponse & { data?: { emailVerifiedAt: string } }> {
+    try {
+      const config = useConfigStore.getState().config;
+      const token = email ? null : await this.getStoredToken();
+
+      if (!config || (!email && !token)) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/auth/verify-email`, {
+        method: 'POST',
+        headers: {
+          ...(token && { 'Authorization': `Bearer ${token}` }),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(email ? { code, email } : { code }),
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Verify email error:', error);
+      return { ok: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Send a new email verification code (by email when there is no session)
+   */
+  static async resendVerification(email?: string): Promise<SimpleResponse> {
+    try {
+      const config = useConfigStore.getState().config;
+      const token = email ? null : await this.getStoredToken();
+
+      if (!config || (!email && !token)) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/auth/resend-verification`, {
+        method: 'POST',
+        headers: {
+          ...(token && { 'Authorization': `Bearer ${token}` }),
+          'Content-Type': 'application/json',
+        },
+        ...(email && { body: JSON.stringify({ email }) }),
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Resend verification error:', error);
+      return { ok: false, message: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
 
@@ -175,7 +485,7 @@ class AuthService {
   /**
    * Get current user profile from backend
    */
-  static async getProfile(): Promise<AuthResponse> {
+  static async getProfile(): Promise<ProfileResponse> {
     try {
       const config = useConfigStore.getState().config;
       const token = await this.getStoredToken();
@@ -226,7 +536,7 @@ class AuthService {
     name?: string;
     phone?: string;
     preferences?: any;
-  }): Promise<AuthResponse> {
+  }): Promise<ProfileResponse> {
     try {
       const config = useConfigStore.getState().config;
       const token = await this.getStoredToken();
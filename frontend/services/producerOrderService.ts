@@ -17,12 +17,14 @@ export interface ProducerOrderItem {
 
 export interface ProducerOrder {
   id: string;
+  fulfillmentId?: string; // Surtido de este productor dentro del pedido
   orderNumber: string;
   customerName: string;
   customerEmail: string;
   customerPhone: string;
   deliveryAddress: string;
-  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled';
+  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled'; // Estado del surtido
+  orderStatus?: string; // Estado del pedido completo (derivado de todos los productores)
   date: string;
   items: ProducerOrderItem[];
   totalWeightInKg: number;
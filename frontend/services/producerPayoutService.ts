@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useConfigStore } from '../stores/configStore';
+
+export type EarningPayoutStatus = 'accrued' | 'pending' | 'processing' | 'completed';
+
+export interface ProducerEarning {
+  id: string;
+  orderId: string;
+  orderItemId: string;
+  productId: string;
+  quantity: number;
+  weightInKg: number;
+  rateType: 'per_kg' | 'per_unit';
+  rate: number;
+  amount: number;
+  payoutId?: string | null;
+  payoutStatus: EarningPayoutStatus; // accrued = ganado, aún sin lote de pago
+  createdAt: string;
+  order: {
+    id: string;
+    createdAt: string;
+    user: { name: string };
+  };
+  product: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface ProducerEarningsSummary {
+  accruedAmount: number;
+  pendingAmount: number;
+  processingAmount: number;
+  paidAmount: number;
+  totalAmount: number;
+}
+
+export interface ProducerEarningsResponse {
+  ok: boolean;
+  message?: string;
+  data?: {
+    summary: ProducerEarningsSummary;
+    earnings: ProducerEarning[];
+  };
+}
+
+class ProducerPayoutService {
+  private async getAuthToken(): Promise<string | null> {
+    return await AsyncStorage.getItem('greenfit_auth_token');
+  }
+
+  private getApiUrl(): string {
+    const config = useConfigStore.getState().config;
+    if (!config) {
+      throw new Error('Configuration not loaded');
+    }
+    return config.api.baseUrl;
+  }
+
+  /**
+   * Obtener ganancias del productor y su resumen de pagos
+   */
+  async getMyEarnings(): Promise<ProducerEarningsResponse> {
+    try {
+      const token = await this.getAuthToken();
+      if (!token) {
+        return {
+          ok: false,
+          message: 'No authenticated',
+        };
+      }
+
+      const apiUrl = this.getApiUrl();
+      const response = await fetch(`${apiUrl}/payouts/earnings`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return {
+          ok: false,
+          message: data.message || 'Failed to fetch earnings',
+        };
+      }
+
+      return {
+        ok: true,
+        data: data.data,
+      };
+    } catch (error) {
+      console.error('❌ Error fetching producer earnings:', error);
+      return {
+        ok: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+export default new ProducerPayoutService();
@@ -3,6 +3,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 export interface DeliveryAddress {
   id: string;
+  label?: string | null;
   street: string;
   number: string;
   neighborhood: string;
@@ -10,11 +11,16 @@ export interface DeliveryAddress {
   city: string;
   state: string;
   contactPhone: string;
-  references?: string;
+  references?: string | null;
   isFavorite: boolean;
+  isDefault: boolean;
   createdAt: string;
 }
 
+export type DeliveryAddressInput = Omit<DeliveryAddress, 'id' | 'createdAt' | 'isDefault'> & {
+  isDefault?: boolean;
+};
+
 interface AddressState {
   addresses: DeliveryAddress[];
   selectedAddress: DeliveryAddress | null;
@@ -22,16 +28,72 @@ interface AddressState {
   error: string | null;
 
   // Actions
-  addAddress: (address: Omit<DeliveryAddress, 'id' | 'createdAt'>) => Promise<boolean>;
-  updateAddress: (id: string, address: Partial<DeliveryAddress>) => Promise<boolean>;
+  addAddress: (address: DeliveryAddressInput) => Promise<DeliveryAddress | null>;
+  updateAddress: (id: string, address: Partial<DeliveryAddressInput>) => Promise<boolean>;
   deleteAddress: (id: string) => Promise<boolean>;
   setFavorite: (id: string, isFavorite: boolean) => Promise<boolean>;
+  setDefault: (id: string) => Promise<boolean>;
   selectAddress: (id: string | null) => void;
   loadAddresses: () => Promise<void>;
   getFavoriteAddresses: () => DeliveryAddress[];
+  getDefaultAddress: () => DeliveryAddress | null;
 }
 
-const ADDRESSES_STORAGE_KEY = 'nutrifresco_addresses';
+// Antes las direcciones vivían solo en el dispositivo; se migran al servidor una vez
+const LEGACY_ADDRESSES_STORAGE_KEY = 'nutrifresco_addresses';
+
+// Código postal mexicano de 5 dígitos (mismo criterio que el servidor)
+export const POSTAL_CODE_REGEX = /^(0[1-9]|[1-9]\d)\d{3}$/;
+
+const getRequestContext = async () => {
+  const { useConfigStore } = await import('./configStore');
+  const { useAuthStore } = await import('./authStore');
+  const config = useConfigStore.getState().config;
+  const token = useAuthStore.getState().token;
+
+  if (!config || !token) {
+    throw new Error('Not authenticated or config not loaded');
+  }
+
+  return {
+    baseUrl: `${config.api.baseUrl}/addresses`,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  };
+};
+
+/**
+ * Subir las direcciones guardadas localmente por versiones anteriores de la app.
+ * El servidor omite duplicados, así que un reintento tras un fallo es seguro.
+ */
+const migrateLegacyAddresses = async (baseUrl: string, headers: Record<string, string>) => {
+  const stored = await AsyncStorage.getItem(LEGACY_ADDRESSES_STORAGE_KEY);
+  if (!stored) return;
+
+  const legacyAddresses = JSON.parse(stored);
+
+  if (Array.isArray(legacyAddresses) && legacyAddresses.length > 0) {
+    const response = await fetch(`${baseUrl}/import`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        addresses: legacyAddresses.map(({ id, createdAt, ...address }: any) => address),
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!data.ok) {
+      throw new Error(data.message || 'Failed to import addresses');
+    }
+
+    console.log(`📦 Migrated ${data.data.imported} local addresses (${data.data.skipped} skipped)`);
+  }
+
+  await AsyncStorage.removeItem(LEGACY_ADDRESSES_STORAGE_KEY);
+};
 
 export const useAddressStore = create<AddressState>((set, get) => ({
   addresses: [],
@@ -42,10 +104,22 @@ export const useAddressStore = create<AddressState>((set, get) => ({
   loadAddresses: async () => {
     try {
       set({ loading: true, error: null });
-      const stored = await AsyncStorage.getItem(ADDRESSES_STORAGE_KEY);
-      if (stored) {
-        const addresses = JSON.parse(stored);
-        set({ addresses, error: null });
+      const { baseUrl, headers } = await getRequestContext();
+
+      try {
+        await migrateLegacyAddresses(baseUrl, headers);
+      } catch (error) {
+        // Se reintenta en la siguiente carga; no bloquear la libreta del servidor
+        console.error('❌ Migrate local addresses error:', error);
+      }
+
+      const response = await fetch(baseUrl, { method: 'GET', headers });
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        set({ addresses: data.data, error: null });
+      } else {
+        throw new Error(data.message || 'Failed to load addresses');
       }
     } catch (error) {
       console.error('❌ Load addresses error:', error);
@@ -58,20 +132,34 @@ export const useAddressStore = create<AddressState>((set, get) => ({
   addAddress: async (address) => {
     try {
       set({ loading: true, error: null });
-      const newAddress: DeliveryAddress = {
-        ...address,
-        id: `addr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        createdAt: new Date().toISOString(),
-      };
-
-      const updatedAddresses = [...get().addresses, newAddress];
-      await AsyncStorage.setItem(ADDRESSES_STORAGE_KEY, JSON.stringify(updatedAddresses));
-      set({ addresses: updatedAddresses, error: null });
-      return true;
+      const { baseUrl, headers } = await getRequestContext();
+
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(address),
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        const newAddress: DeliveryAddress = data.data;
+        set((state) => ({
+          // Si la nueva es predeterminada, las demás dejan de serlo
+          addresses: [
+            newAddress,
+            ...state.addresses.map(addr => newAddress.isDefault ? { ...addr, isDefault: false } : addr),
+          ],
+          error: null,
+        }));
+        return newAddress;
+      } else {
+        throw new Error(data.errors?.[0]?.message || data.message || 'Failed to add address');
+      }
     } catch (error) {
       console.error('❌ Add address error:', error);
       set({ error: error instanceof Error ? error.message : 'Unknown error' });
-      return false;
+      return null;
     } finally {
       set({ loading: false });
     }
@@ -80,17 +168,33 @@ export const useAddressStore = create<AddressState>((set, get) => ({
   updateAddress: async (id, updates) => {
     try {
       set({ loading: true, error: null });
-      const updatedAddresses = get().addresses.map(addr =>
-        addr.id === id ? { ...addr, ...updates } : addr
-      );
-      await AsyncStorage.setItem(ADDRESSES_STORAGE_KEY, JSON.stringify(updatedAddresses));
-      set({ addresses: updatedAddresses, error: null });
-      
-      // Update selected address if it was the one updated
-      if (get().selectedAddress?.id === id) {
-        set({ selectedAddress: updatedAddresses.find(addr => addr.id === id) || null });
+      const { baseUrl, headers } = await getRequestContext();
+
+      const response = await fetch(`${baseUrl}/${id}`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        const updated: DeliveryAddress = data.data;
+        const updatedAddresses = get().addresses.map(addr =>
+          addr.id === id
+            ? updated
+            : updated.isDefault ? { ...addr, isDefault: false } : addr
+        );
+        set({ addresses: updatedAddresses, error: null });
+
+        // Update selected address if it was the one updated
+        if (get().selectedAddress?.id === id) {
+          set({ selectedAddress: updated });
+        }
+        return true;
+      } else {
+        throw new Error(data.errors?.[0]?.message || data.message || 'Failed to update address');
       }
-      return true;
     } catch (error) {
       console.error('❌ Update address error:', error);
       set({ error: error instanceof Error ? error.message : 'Unknown error' });
@@ -103,14 +207,26 @@ export const useAddressStore = create<AddressState>((set, get) => ({
   deleteAddress: async (id) => {
     try {
       set({ loading: true, error: null });
-      const updatedAddresses = get().addresses.filter(addr => addr.id !== id);
-      await AsyncStorage.setItem(ADDRESSES_STORAGE_KEY, JSON.stringify(updatedAddresses));
-      set({ addresses: updatedAddresses, error: null });
-      
+      const { baseUrl, headers } = await getRequestContext();
+
+      const response = await fetch(`${baseUrl}/${id}`, {
+        method: 'DELETE',
+        headers,
+      });
+
+      const data = await response.json();
+
+      if (!data.ok) {
+        throw new Error(data.message || 'Failed to delete address');
+      }
+
       // Clear selected address if it was deleted
       if (get().selectedAddress?.id === id) {
         set({ selectedAddress: null });
       }
+
+      // El servidor pudo elegir otra predeterminada
+      await get().loadAddresses();
       return true;
     } catch (error) {
       console.error('❌ Delete address error:', error);
@@ -125,6 +241,36 @@ export const useAddressStore = create<AddressState>((set, get) => ({
     return get().updateAddress(id, { isFavorite });
   },
 
+  setDefault: async (id) => {
+    try {
+      set({ loading: true, error: null });
+      const { baseUrl, headers } = await getRequestContext();
+
+      const response = await fetch(`${baseUrl}/${id}/default`, {
+        method: 'PATCH',
+        headers,
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        set((state) => ({
+          addresses: state.addresses.map(addr => ({ ...addr, isDefault: addr.id === id })),
+          error: null,
+        }));
+        return true;
+      } else {
+        throw new Error(data.message || 'Failed to set default address');
+      }
+    } catch (error) {
+      console.error('❌ Set default address error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return false;
+    } finally {
+      set({ loading: false });
+    }
+  },
+
   selectAddress: (id) => {
     if (!id) {
       set({ selectedAddress: null });
@@ -135,7 +281,10 @@ export const useAddressStore = create<AddressState>((set, get) => ({
   },
 
   getFavoriteAddresses: () => {
-    return get().addresses.filter(addr => addr.isFavorite);
+    return get().addresses.filter(addr => addr.isFavorite || addr.isDefault);
   },
-}));
 
+  getDefaultAddress: () => {
+    return get().addresses.find(addr => addr.isDefault) || null;
+  },
+}));
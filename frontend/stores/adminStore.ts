@@ -3,6 +3,7 @@ import { devtools } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useConfigStore } from './configStore';
 import { ToastManager } from '../utils/ToastManager';
+import AuthService from '../services/authService';
 
 // Types for Admin Panel
 export interface AdminIngredient {
@@ -102,7 +103,7 @@ export interface SystemOverview {
 
 interface AdminState {
   // Auth & General
-  adminUser: { id: string; name: string; email: string; role: string; token?: string } | null;
+  adminUser: { id: string; name: string; email: string; role: string; token?: string; refreshToken?: string } | null;
   isLoading: boolean;
   error: string | null;
 
@@ -136,7 +137,7 @@ interface AdminState {
   };
 
   // Actions
-  setAdminUser: (user: any) => void;
+  setAdminUser: (user: any) => Promise<void>;
   logout: () => Promise<void>;
   initializeAdminAuth: () => Promise<void>;
   clearError: () => void;
@@ -266,11 +267,27 @@ export const useAdminStore = create<AdminState>()(
           ...options.headers,
         };
 
-        const response = await fetch(`${config.api.baseUrl}/admin${endpoint}`, {
+        let response = await fetch(`${config.api.baseUrl}/admin${endpoint}`, {
           ...options,
           headers,
         });
 
+        // Access token expired: renew the session once and retry
+        if (response.status === 401 && adminUser.refreshToken) {
+          const session = await AuthService.refreshSession(adminUser.refreshToken);
+
+          if (!session) {
+            await get().logout();
+            throw new Error('Admin session expired');
+          }
+
+          await get().setAdminUser({ ...adminUser, token: session.token, refreshToken: session.refreshToken });
+          response = await fetch(`${config.api.baseUrl}/admin${endpoint}`, {
+            ...options,
+            headers: { ...headers, 'Authorization': `Bearer ${session.token}` },
+          });
+        }
+
         if (!response.ok) {
           const errorData = await response.json();
           throw new Error(errorData.error || errorData.message || 'Request failed');
@@ -1,170 +1,351 @@
 import { create } from 'zustand';
+import { AppState } from 'react-native';
 import { User } from '../types/domain';
-import AuthService from '../services/authService';
+import AuthService, { ActiveSession, SessionTokens } from '../services/authService';
+
+// Renew the access token a minute before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Wait before retrying a refresh that failed for network reasons
+const REFRESH_RETRY_MS = 30 * 1000;
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshInFlight: Promise<boolean> | null = null;
+
+const clearRefreshTimer = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+};
 
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
+  tokenExpiresAt: string | null;
+  sessions: ActiveSession[];
   isAuthenticated: boolean;
   loading: boolean;
   error: string | null;
   isInitialized: boolean;
   
   // Actions
-  login: (user: User, token: string) => Promise<void>;
+  login: (user: User, token: string, session?: SessionTokens) => Promise<void>;
   logout: () => Promise<void>;
+  logoutAllDevices: () => Promise<boolean>;
   initializeAuth: () => Promise<void>;
+  refreshSession: () => Promise<boolean>;
+  ensureFreshToken: () => Promise<string | null>;
+  fetchSessions: () => Promise<void>;
+  revokeSession: (sessionId: string) => Promise<boolean>;
+  verifyEmail: (code: string) => Promise<boolean>;
+  resendVerification: () => Promise<boolean>;
   refreshProfile: () => Promise<void>;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
 }
 
-export const useAuthStore = create<AuthState>((set, get) => ({
-  user: null,
-  token: null,
-  isAuthenticated: false,
-  loading: false,
-  error: null,
-  isInitialized: false,
-
-  login: async (user, token) => {
-    console.log('🔐 User logged in to store:', user.email);
-    set({
-      user,
-      token,
-      isAuthenticated: true,
-      error: null,
-      loading: false,
-      isInitialized: true
-    });
+export const useAuthStore = create<AuthState>((set, get) => {
+  /**
+   * Schedule the next refresh shortly before the access token expires, so every
+   * store reading `token` keeps getting a valid one
+   */
+  const scheduleRefresh = (expiresAt: string | null, delayMs?: number) => {
+    clearRefreshTimer();
+    if (!expiresAt && delayMs === undefined) return;
+
+    const delay = delayMs ?? Math.max(0, new Date(expiresAt!).getTime() - Date.now() - REFRESH_MARGIN_MS);
+    refreshTimer = setTimeout(() => {
+      get().refreshSession();
+    }, delay);
+  };
+
+  return {
+    user: null,
+    token: null,
+    refreshToken: null,
+    tokenExpiresAt: null,
+    sessions: [],
+    isAuthenticated: false,
+    loading: false,
+    error: null,
+    isInitialized: false,
+
+    login: async (user, token, session) => {
+      console.log('🔐 User logged in to store:', user.email);
+      set({
+        user,
+        token,
+        isAuthenticated: true,
+        error: null,
+        loading: false,
+        isInitialized: true
+      });
+
+      // Profile updates call login with the same token and no new session
+      if (session) {
+        set({ refreshToken: session.refreshToken, tokenExpiresAt: session.expiresAt });
+        scheduleRefresh(session.expiresAt);
+      }
     
-    // Load theme preferences from backend after login
-    try {
-      const { loadPreferencesFromBackend } = require('./themeStore').useThemeStore.getState();
-      await loadPreferencesFromBackend();
-    } catch (error) {
-      console.error('❌ Error loading theme preferences after login:', error);
-    }
-
-    // Load subscription after login (only for customers)
-    if (user.role === 'customer' || !user.role) {
+      // Load theme preferences from backend after login
       try {
-        const { fetchCurrentSubscription } = require('./subscriptionStore').useSubscriptionStore.getState();
-        await fetchCurrentSubscription();
+        const { loadPreferencesFromBackend } = require('./themeStore').useThemeStore.getState();
+        await loadPreferencesFromBackend();
       } catch (error) {
-        console.error('❌ Error loading subscription after login:', error);
+        console.error('❌ Error loading theme preferences after login:', error);
       }
-    }
-  },
-
-  logout: async () => {
-    console.log('🔐 Logging out user...');
-    
-    // Call AuthService logout to clear storage and notify backend
-    await AuthService.logout();
-    
-    // Clear subscription store (only if it exists)
-    try {
-      const { useSubscriptionStore } = await import('./subscriptionStore');
-      useSubscriptionStore.setState({ subscription: null, error: null });
-    } catch (error) {
-      console.log('Subscription store not available');
-    }
-    
-    set({
-      user: null,
-      token: null,
-      isAuthenticated: false,
-      error: null,
-      loading: false,
-      isInitialized: true
-    });
-    
-    console.log('✅ Logout completed - isAuthenticated:', false);
-  },
-
-  initializeAuth: async () => {
-    try {
-      set({ loading: true });
 
-      const isAuth = await AuthService.isAuthenticated();
-      
-      if (isAuth) {
-        const user = await AuthService.getStoredUser();
-        const token = await AuthService.getStoredToken();
-        
-        if (user && token) {
-          console.log('🔐 Restored user session:', user.email);
-          set({
-            user,
-            token,
-            isAuthenticated: true,
-            error: null,
-            loading: false,
-            isInitialized: true
-          });
-          return;
+      // Load subscription after login (only for customers)
+      if (user.role === 'customer' || !user.role) {
+        try {
+          const { fetchCurrentSubscription } = require('./subscriptionStore').useSubscriptionStore.getState();
+          await fetchCurrentSubscription();
+        } catch (error) {
+          console.error('❌ Error loading subscription after login:', error);
         }
       }
+    },
 
-      // No valid session found
+    logout: async () => {
+      console.log('🔐 Logging out user...');
+      clearRefreshTimer();
+    
+      // Call AuthService logout to clear storage and notify backend
+      await AuthService.logout();
+    
+      // Clear subscription store (only if it exists)
+      try {
+        const { useSubscriptionStore } = await import('./subscriptionStore');
+        useSubscriptionStore.setState({ subscription: null, error: null });
+      } catch (error) {
+        console.log('Subscription store not available');
+      }
+    
       set({
         user: null,
         token: null,
+        refreshToken: null,
+        tokenExpiresAt: null,
+        sessions: [],
         isAuthenticated: false,
         error: null,
         loading: false,
         isInitialized: true
       });
+    
+      console.log('✅ Logout completed - isAuthenticated:', false);
+    },
 
-    } catch (error) {
-      console.error('❌ Auth initialization error:', error);
-      set({
-        user: null,
-        token: null,
-        isAuthenticated: false,
-        error: error instanceof Error ? error.message : 'Auth initialization failed',
-        loading: false,
-        isInitialized: true
-      });
-    }
-  },
+    logoutAllDevices: async () => {
+      const success = await AuthService.logoutAllDevices();
+
+      if (success) {
+        await get().logout();
+      } else {
+        set({ error: 'No se pudieron cerrar las sesiones' });
+      }
 
-  refreshProfile: async () => {
-    try {
-      const response = await AuthService.getProfile();
+      return success;
+    },
+
+    initializeAuth: async () => {
+      try {
+        set({ loading: true });
+
+        const isAuth = await AuthService.isAuthenticated();
       
-      if (response.ok && response.data) {
-        console.log('🔐 Profile refreshed:', response.data.email);
+        if (isAuth) {
+          const user = await AuthService.getStoredUser();
+          const token = await AuthService.getStoredToken();
+          const { refreshToken, expiresAt } = await AuthService.getStoredSession();
+        
+          // Tokens without a refresh token belong to the old 7-day login and can't be renewed
+          if (user && token && refreshToken) {
+            console.log('🔐 Restored user session:', user.email);
+            set({
+              user,
+              token,
+              refreshToken,
+              tokenExpiresAt: expiresAt,
+              isAuthenticated: true,
+              error: null,
+              loading: false,
+              isInitialized: true
+            });
+
+            // Renews now if the access token expired while the app was closed
+            await get().ensureFreshToken();
+            return;
+          }
+        }
+
+        // No valid session found
+        set({
+          user: null,
+          token: null,
+          refreshToken: null,
+          tokenExpiresAt: null,
+          isAuthenticated: false,
+          error: null,
+          loading: false,
+          isInitialized: true
+        });
+
+      } catch (error) {
+        console.error('❌ Auth initialization error:', error);
         set({
-          user: response.data,
-          error: null
+          user: null,
+          token: null,
+          refreshToken: null,
+          tokenExpiresAt: null,
+          isAuthenticated: false,
+          error: error instanceof Error ? error.message : 'Auth initialization failed',
+          loading: false,
+          isInitialized: true
         });
+      }
+    },
+
+    refreshProfile: async () => {
+      try {
+        const response = await AuthService.getProfile();
+      
+        if (response.ok && response.data) {
+          console.log('🔐 Profile refreshed:', response.data.email);
+          set({
+            user: { ...response.data, phone: response.data.phone ?? undefined },
+            error: null
+          });
         
-        // Load theme preferences from backend after profile refresh
-        const { loadPreferencesFromBackend } = require('./themeStore').useThemeStore.getState();
-        await loadPreferencesFromBackend();
+          // Load theme preferences from backend after profile refresh
+          const { loadPreferencesFromBackend } = require('./themeStore').useThemeStore.getState();
+          await loadPreferencesFromBackend();
 
-        // También recargar suscripción al refrescar perfil (only for customers)
-        if (response.data.role === 'customer' || !response.data.role) {
-          try {
-            const { fetchCurrentSubscription } = require('./subscriptionStore').useSubscriptionStore.getState();
-            await fetchCurrentSubscription();
-          } catch (error) {
-            console.error('❌ Error loading subscription after refresh:', error);
+          // También recargar suscripción al refrescar perfil (only for customers)
+          if (response.data.role === 'customer' || !response.data.role) {
+            try {
+              const { fetchCurrentSubscription } = require('./subscriptionStore').useSubscriptionStore.getState();
+              await fetchCurrentSubscription();
+            } catch (error) {
+              console.error('❌ Error loading subscription after refresh:', error);
+            }
           }
+        } else {
+          // Profile fetch failed, might be token expired
+          console.log('❌ Profile refresh failed, logging out');
+          await get().logout();
         }
-      } else {
-        // Profile fetch failed, might be token expired
-        console.log('❌ Profile refresh failed, logging out');
+      } catch (error) {
+        console.error('❌ Profile refresh error:', error);
         await get().logout();
       }
-    } catch (error) {
-      console.error('❌ Profile refresh error:', error);
-      await get().logout();
-    }
-  },
-
-  setLoading: (loading) => set({ loading }),
-  setError: (error) => set({ error }),
-}));
\ No newline at end of file
+    },
+
+    refreshSession: async () => {
+      // Concurrent callers share one request: a refresh token only works once
+      if (refreshInFlight) return refreshInFlight;
+
+      const { refreshToken } = get();
+      if (!refreshToken) return false;
+
+      refreshInFlight = (async () => {
+        try {
+          const session = await AuthService.refreshSession(refreshToken);
+
+          if (!session) {
+            console.log('🔐 Session expired or revoked, logging out');
+            await get().logout();
+            return false;
+          }
+
+          await AuthService.storeSession(session);
+          set({
+            token: session.token,
+            refreshToken: session.refreshToken,
+            tokenExpiresAt: session.expiresAt
+          });
+          scheduleRefresh(session.expiresAt);
+          return true;
+        } catch (error) {
+          console.error('❌ Session refresh error:', error);
+          scheduleRefresh(null, REFRESH_RETRY_MS);
+          return false;
+        } finally {
+          refreshInFlight = null;
+        }
+      })();
+
+      return refreshInFlight;
+    },
+
+    ensureFreshToken: async () => {
+      const { token, tokenExpiresAt, isAuthenticated } = get();
+      if (!isAuthenticated) return null;
+
+      const expiresSoon = !tokenExpiresAt || new Date(tokenExpiresAt).getTime() - Date.now() < REFRESH_MARGIN_MS;
+      if (expiresSoon) {
+        const refreshed = await get().refreshSession();
+        return refreshed ? get().token : null;
+      }
+
+      return token;
+    },
+
+    fetchSessions: async () => {
+      try {
+        const sessions = await AuthService.getSessions();
+        set({ sessions, error: null });
+      } catch (error) {
+        console.error('❌ Fetch sessions error:', error);
+        set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    },
+
+    revokeSession: async (sessionId) => {
+      try {
+        await AuthService.revokeSession(sessionId);
+        set((state) => ({ sessions: state.sessions.filter(session => session.id !== sessionId), error: null }));
+        return true;
+      } catch (error) {
+        console.error('❌ Revoke session error:', error);
+        set({ error: error instanceof Error ? error.message : 'Unknown error' });
+        return false;
+      }
+    },
+
+    verifyEmail: async (code) => {
+      const response = await AuthService.verifyEmail(code);
+
+      if (response.ok && response.data) {
+        const { user } = get();
+        set({ user: user ? { ...user, emailVerifiedAt: response.data.emailVerifiedAt } : user, error: null });
+        return true;
+      }
+
+      set({ error: response.message || 'Código inválido o vencido' });
+      return false;
+    },
+
+    resendVerification: async () => {
+      const response = await AuthService.resendVerification();
+
+      if (!response.ok) {
+        set({ error: response.message || 'No se pudo reenviar el código' });
+      }
+
+      return response.ok;
+    },
+
+    setLoading: (loading) => set({ loading }),
+    setError: (error) => set({ error }),
+  };
+});
+
+// Timers don't run while the app is in the background: renew on return if needed
+AppState.addEventListener('change', (status) => {
+  if (status === 'active') {
+    useAuthStore.getState().ensureFreshToken();
+  }
+});
\ No newline at end of file
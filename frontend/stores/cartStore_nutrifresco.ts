@@ -33,6 +33,8 @@ export interface Cart {
   items: CartItem[];
   limitInKg?: number;
   usedKg?: number;
+  rolloverKg?: number; // Kg heredados del periodo anterior (incluidos en remainingKg)
+  rolloverExpiresAt?: string | null;
   remainingKg?: number;
   createdAt: string;
   updatedAt: string;
@@ -0,0 +1,81 @@
+import { create } from 'zustand';
+
+export interface DeliverySlot {
+  id: string;
+  date: string; // Fecha sin hora (UTC)
+  startTime: string;
+  endTime: string;
+  zone: string;
+  maxOrders: number | null;
+  maxKg: number | null;
+  reservedOrders: number;
+  reservedKg: number;
+  remainingOrders: number | null; // null = sin límite
+  remainingKg: number | null;
+  isActive: boolean;
+}
+
+interface DeliverySlotState {
+  slots: DeliverySlot[];
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchAvailableSlots: (weightKg?: number) => Promise<void>;
+}
+
+const WEEKDAYS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+const MONTHS = ['ene', 'feb', 'mar', 'abr', 'may', 'jun', 'jul', 'ago', 'sep', 'oct', 'nov', 'dic'];
+
+/**
+ * "Lun 12 ene • 09:00-13:00"; la fecha se lee en UTC porque no tiene hora
+ */
+export const formatDeliverySlot = (slot: Pick<DeliverySlot, 'date' | 'startTime' | 'endTime'>) => {
+  const date = new Date(slot.date);
+  return `${WEEKDAYS[date.getUTCDay()]} ${date.getUTCDate()} ${MONTHS[date.getUTCMonth()]} • ${slot.startTime}-${slot.endTime}`;
+};
+
+export const useDeliverySlotStore = create<DeliverySlotState>((set) => ({
+  slots: [],
+  loading: false,
+  error: null,
+
+  fetchAvailableSlots: async (weightKg?: number) => {
+    try {
+      set({ loading: true, error: null });
+
+      const { useConfigStore } = await import('./configStore');
+      const { useAuthStore } = await import('./authStore');
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      // Solo ventanas donde todavía cabe el pedido
+      const query = weightKg ? `?weightKg=${weightKg}` : '';
+
+      const response = await fetch(`${config.api.baseUrl}/delivery-slots${query}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        set({ slots: data.data, error: null });
+      } else {
+        throw new Error(data.message || 'Failed to fetch delivery slots');
+      }
+    } catch (error) {
+      console.error('❌ Fetch delivery slots error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      set({ loading: false });
+    }
+  },
+}));
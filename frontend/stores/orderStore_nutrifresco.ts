@@ -2,6 +2,8 @@ import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useConfigStore } from './configStore';
 import { useAuthStore } from './authStore';
+import type { DeliveryAddressInput } from './addressStore';
+import type { DeliverySlot } from './deliverySlotStore';
 
 export interface OrderItem {
   id: string;
@@ -24,43 +26,195 @@ export interface OrderItem {
   };
 }
 
+export interface OrderFulfillment {
+  id: string;
+  orderId: string;
+  producerId: string;
+  status: string;
+  totalWeightInKg: number;
+  producer?: {
+    id: string;
+    businessName: string;
+  };
+}
+
+export interface OrderStatusEvent {
+  id: string;
+  orderId: string;
+  fulfillmentId: string | null;
+  fromStatus: string | null;
+  toStatus: string;
+  actorId: string | null;
+  actorRole: 'customer' | 'producer' | 'admin' | 'system';
+  note: string | null;
+  producerId: string | null;
+  producerName: string | null;
+  createdAt: string;
+}
+
+export type DeliverySnapshot = Omit<DeliveryAddressInput, 'label' | 'isFavorite' | 'isDefault'>;
+
 export interface Order {
   id: string;
   userId: string;
   totalWeightInKg: number;
   status: string;
   deliveryAddress?: string;
+  addressId?: string | null;
+  deliverySnapshot?: DeliverySnapshot | null; // Copia de la dirección al crear el pedido
+  deliverySlotId?: string | null;
+  deliverySlot?: Pick<DeliverySlot, 'id' | 'date' | 'startTime' | 'endTime' | 'zone'> | null;
   deliveryDate?: string;
   notes?: string;
+  cancelledAt?: string;
+  cancelledById?: string;
+  cancellationReason?: string;
   items: OrderItem[];
+  fulfillments?: OrderFulfillment[];
+  timeline?: OrderStatusEvent[]; // Solo en el detalle (GET /orders/:id)
+  survey?: OrderSurvey | null; // Solo en el detalle (GET /orders/:id)
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SurveyLevel = 'excellent' | 'good' | 'regular' | 'bad';
+
+export interface OrderSurvey {
+  id: string;
+  orderId: string;
+  generalRating: number;
+  productQuality: SurveyLevel;
+  deliveryExperience: SurveyLevel;
+  comments?: string;
   createdAt: string;
+}
+
+export interface OrderCancellationResult {
+  order: Order;
+  refundedKg: number;
+  refundPeriodStart: string | null;
+  creditedToCurrentPeriod: boolean;
+  restoredStock: Array<{ productId: string; name: string; quantity: number }>;
+}
+
+export interface OrderStatusUpdate {
+  orderId: string;
+  status: string;
+  fulfillments: Array<{ id: string; producerId: string; status: string }>;
+  timeline: OrderStatusEvent[];
   updatedAt: string;
 }
 
+// live = conectado por SSE, polling = conexión caída y consultando periódicamente
+export type OrderTrackingMode = 'idle' | 'live' | 'polling';
+
 interface OrderState {
   orders: Order[];
   currentOrder: Order | null;
+  trackingMode: OrderTrackingMode;
   loading: boolean;
   error: string | null;
   
   // Actions
   createOrder: (data: {
-    deliveryAddress: string;
-    deliveryDate?: string;
+    addressId?: string;
+    address?: DeliveryAddressInput;
+    deliverySlotId?: string;
     notes?: string;
   }) => Promise<boolean>;
   fetchOrders: () => Promise<void>;
   fetchOrderById: (id: string) => Promise<void>;
+  cancelOrder: (id: string, reason?: string) => Promise<OrderCancellationResult | null>;
+  submitSurvey: (id: string, data: {
+    generalRating: number;
+    productQuality: SurveyLevel;
+    deliveryExperience: SurveyLevel;
+    comments?: string;
+  }) => Promise<boolean>;
+  subscribeToOrder: (id: string) => () => void;
+  applyStatusUpdate: (update: OrderStatusUpdate) => void;
   setCurrentOrder: (order: Order | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
 }
 
 const ORDERS_STORAGE_KEY = 'nutrifresco_orders';
+const POLLING_INTERVAL_MS = 10000;
+const RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Abrir la conexión SSE de un pedido.
+ * React Native no trae EventSource: se usa XMLHttpRequest y se leen los
+ * eventos conforme llega el texto de la respuesta.
+ */
+const openOrderEventStream = (
+  url: string,
+  token: string,
+  onUpdate: (update: OrderStatusUpdate) => void,
+  onOpen: () => void,
+  onDrop: () => void
+): XMLHttpRequest => {
+  const xhr = new XMLHttpRequest();
+  let processed = 0;
+  let dropped = false;
+
+  const drop = () => {
+    if (!dropped) {
+      dropped = true;
+      onDrop();
+    }
+  };
+
+  xhr.open('GET', url);
+  xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+  xhr.setRequestHeader('Accept', 'text/event-stream');
+
+  xhr.onreadystatechange = () => {
+    if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED && xhr.status === 200) {
+      onOpen();
+    }
+
+    if (xhr.readyState >= XMLHttpRequest.LOADING && xhr.status === 200) {
+      // Procesar solo los bloques completos (terminan en línea vacía)
+      const pending = xhr.responseText.slice(processed);
+      const lastBreak = pending.lastIndexOf('\n\n');
+
+      if (lastBreak >= 0) {
+        processed += lastBreak + 2;
+
+        for (const block of pending.slice(0, lastBreak).split('\n\n')) {
+          const data = block
+            .split('\n')
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).trim())
+            .join('\n');
+
+          if (data) {
+            try {
+              onUpdate(JSON.parse(data));
+            } catch (error) {
+              console.error('❌ Order event parse error:', error);
+            }
+          }
+        }
+      }
+    }
+
+    if (xhr.readyState === XMLHttpRequest.DONE) {
+      drop();
+    }
+  };
+
+  xhr.onerror = drop;
+  xhr.send();
+
+  return xhr;
+};
 
 export const useOrderStore = create<OrderState>((set, get) => ({
   orders: [],
   currentOrder: null,
+  trackingMode: 'idle',
   loading: false,
   error: null,
 
@@ -103,6 +257,12 @@ export const useOrderStore = create<OrderState>((set, get) => ({
         await useSubscriptionStore.getState().fetchCurrentSubscription();
 
         return true;
+      } else if (response.status === 409 && responseData.data?.outOfStock) {
+        // Stock agotado durante el checkout: indicar qué productos fallaron
+        const names = responseData.data.outOfStock
+          .map((item: { name: string; available: number }) => `${item.name} (quedan ${item.available})`)
+          .join(', ');
+        throw new Error(`${responseData.message}: ${names}`);
       } else {
         throw new Error(responseData.message || 'Failed to create order');
       }
@@ -187,6 +347,220 @@ export const useOrderStore = create<OrderState>((set, get) => ({
     }
   },
 
+  cancelOrder: async (id: string, reason?: string) => {
+    try {
+      set({ loading: true, error: null });
+
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/orders/${id}/cancel`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason }),
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        const result: OrderCancellationResult = data.data;
+
+        // Reflejar la cancelación en la lista y en el pedido actual
+        set((state) => ({
+          orders: state.orders.map((order) =>
+            order.id === id ? { ...order, ...result.order, items: order.items } : order
+          ),
+          currentOrder: state.currentOrder?.id === id
+            ? { ...state.currentOrder, ...result.order, items: state.currentOrder.items }
+            : state.currentOrder,
+          error: null
+        }));
+
+        // Los kg devueltos cambian el saldo de la suscripción
+        const { useSubscriptionStore } = await import('./subscriptionStore');
+        await useSubscriptionStore.getState().fetchCurrentSubscription();
+
+        return result;
+      } else {
+        throw new Error(data.message || 'Failed to cancel order');
+      }
+    } catch (error) {
+      console.error('❌ Cancel order error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return null;
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  submitSurvey: async (id, surveyData) => {
+    try {
+      set({ loading: true, error: null });
+
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/orders/${id}/survey`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(surveyData),
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        set((state) => ({
+          currentOrder: state.currentOrder?.id === id
+            ? { ...state.currentOrder, survey: data.data }
+            : state.currentOrder,
+          error: null
+        }));
+        return true;
+      } else {
+        throw new Error(data.message || 'Failed to submit survey');
+      }
+    } catch (error) {
+      console.error('❌ Submit survey error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return false;
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  subscribeToOrder: (id: string) => {
+    let xhr: XMLHttpRequest | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let active = true;
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+
+    // Consultar el pedido sin activar el indicador de carga de la pantalla
+    const poll = async () => {
+      try {
+        const config = useConfigStore.getState().config;
+        const token = useAuthStore.getState().token;
+        if (!config || !token) return;
+
+        const response = await fetch(`${config.api.baseUrl}/orders/${id}`, {
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        });
+        const data = await response.json();
+
+        if (active && data.ok && data.data) {
+          get().applyStatusUpdate({
+            orderId: data.data.id,
+            status: data.data.status,
+            fulfillments: data.data.fulfillments || [],
+            timeline: data.data.timeline || [],
+            updatedAt: data.data.updatedAt,
+          });
+        }
+      } catch (error) {
+        console.error('❌ Poll order error:', error);
+      }
+    };
+
+    const connect = () => {
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!active) return;
+      if (!config || !token) {
+        handleDrop();
+        return;
+      }
+
+      xhr = openOrderEventStream(
+        `${config.api.baseUrl}/orders/${id}/events`,
+        token,
+        (update) => {
+          if (active) get().applyStatusUpdate(update);
+        },
+        () => {
+          stopPolling();
+          if (active) set({ trackingMode: 'live' });
+        },
+        handleDrop
+      );
+    };
+
+    // Conexión caída: consultar periódicamente e intentar reconectar más tarde
+    const handleDrop = () => {
+      xhr = null;
+      if (!active) return;
+
+      set({ trackingMode: 'polling' });
+      if (!pollTimer) {
+        poll();
+        pollTimer = setInterval(poll, POLLING_INTERVAL_MS);
+      }
+      if (!reconnectTimer) {
+        reconnectTimer = setTimeout(() => {
+          reconnectTimer = null;
+          connect();
+        }, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+
+    return () => {
+      active = false;
+      stopPolling();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      xhr?.abort();
+      set({ trackingMode: 'idle' });
+    };
+  },
+
+  applyStatusUpdate: (update) => {
+    const mergeFulfillments = (fulfillments?: OrderFulfillment[]) =>
+      fulfillments?.map((fulfillment) => {
+        const updated = update.fulfillments.find((f) => f.id === fulfillment.id);
+        return updated ? { ...fulfillment, status: updated.status } : fulfillment;
+      });
+
+    set((state) => ({
+      orders: state.orders.map((order) =>
+        order.id === update.orderId ? { ...order, status: update.status, updatedAt: update.updatedAt } : order
+      ),
+      currentOrder: state.currentOrder?.id === update.orderId
+        ? {
+            ...state.currentOrder,
+            status: update.status,
+            fulfillments: mergeFulfillments(state.currentOrder.fulfillments),
+            timeline: update.timeline,
+            updatedAt: update.updatedAt,
+          }
+        : state.currentOrder,
+    }));
+  },
+
   setCurrentOrder: (order) => set({ currentOrder: order }),
   setLoading: (loading) => set({ loading }),
   setError: (error) => set({ error }),
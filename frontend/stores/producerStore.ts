@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Product, ProductCategory } from './productStore';
 
 export interface Producer {
   id: string;
@@ -20,9 +21,21 @@ export interface Producer {
   updatedAt: string;
 }
 
+export interface ProducerProductInput {
+  name: string;
+  description?: string;
+  category: ProductCategory;
+  weightInKg: number;
+  stock: number;
+  origin?: string;
+  image?: string;
+  available?: boolean;
+}
+
 interface ProducerState {
   producers: Producer[];
   selectedProducer: Producer | null;
+  myProducts: Product[];
   loading: boolean;
   error: string | null;
   
@@ -35,6 +48,11 @@ interface ProducerState {
     location?: string;
     contactInfo?: any;
   }) => Promise<boolean>;
+  fetchMyProducts: () => Promise<void>;
+  createProduct: (data: ProducerProductInput) => Promise<Product | null>;
+  updateProduct: (id: string, data: Partial<ProducerProductInput>) => Promise<Product | null>;
+  toggleProductAvailability: (id: string) => Promise<Product | null>;
+  deleteProduct: (id: string) => Promise<boolean>;
   setSelectedProducer: (producer: Producer | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
@@ -45,6 +63,7 @@ const PRODUCERS_STORAGE_KEY = 'nutrifresco_producers';
 export const useProducerStore = create<ProducerState>((set, get) => ({
   producers: [],
   selectedProducer: null,
+  myProducts: [],
   loading: false,
   error: null,
 
@@ -154,6 +173,207 @@ export const useProducerStore = create<ProducerState>((set, get) => ({
     }
   },
 
+  fetchMyProducts: async () => {
+    try {
+      set({ loading: true, error: null });
+
+      const { useConfigStore } = await import('./configStore');
+      const { useAuthStore } = await import('./authStore');
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/products/mine`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        set({ myProducts: data.data, error: null });
+      } else {
+        throw new Error(data.message || 'Failed to fetch products');
+      }
+    } catch (error) {
+      console.error('❌ Fetch my products error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  createProduct: async (data) => {
+    try {
+      set({ loading: true, error: null });
+
+      const { useConfigStore } = await import('./configStore');
+      const { useAuthStore } = await import('./authStore');
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/products`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      const responseData = await response.json();
+
+      if (responseData.ok && responseData.data) {
+        set((state) => ({ myProducts: [responseData.data, ...state.myProducts], error: null }));
+        return responseData.data;
+      } else {
+        throw new Error(responseData.message || 'Failed to create product');
+      }
+    } catch (error) {
+      console.error('❌ Create product error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return null;
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  updateProduct: async (id, data) => {
+    try {
+      set({ loading: true, error: null });
+
+      const { useConfigStore } = await import('./configStore');
+      const { useAuthStore } = await import('./authStore');
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/products/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      const responseData = await response.json();
+
+      if (responseData.ok && responseData.data) {
+        set((state) => ({
+          myProducts: state.myProducts.map((product) => (product.id === id ? responseData.data : product)),
+          error: null
+        }));
+        return responseData.data;
+      } else {
+        throw new Error(responseData.message || 'Failed to update product');
+      }
+    } catch (error) {
+      console.error('❌ Update product error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return null;
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  toggleProductAvailability: async (id) => {
+    try {
+      set({ error: null });
+
+      const { useConfigStore } = await import('./configStore');
+      const { useAuthStore } = await import('./authStore');
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      const current = get().myProducts.find((product) => product.id === id);
+
+      const response = await fetch(`${config.api.baseUrl}/products/${id}/availability`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(current ? { available: !current.available } : {}),
+      });
+
+      const responseData = await response.json();
+
+      if (responseData.ok && responseData.data) {
+        set((state) => ({
+          myProducts: state.myProducts.map((product) =>
+            product.id === id ? { ...product, available: responseData.data.available } : product
+          ),
+        }));
+        return responseData.data;
+      } else {
+        throw new Error(responseData.message || 'Failed to update availability');
+      }
+    } catch (error) {
+      console.error('❌ Toggle product availability error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return null;
+    }
+  },
+
+  deleteProduct: async (id) => {
+    try {
+      set({ loading: true, error: null });
+
+      const { useConfigStore } = await import('./configStore');
+      const { useAuthStore } = await import('./authStore');
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/products/${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const responseData = await response.json();
+
+      if (responseData.ok) {
+        set((state) => ({
+          myProducts: state.myProducts.filter((product) => product.id !== id),
+          error: null
+        }));
+        return true;
+      } else {
+        throw new Error(responseData.message || 'Failed to delete product');
+      }
+    } catch (error) {
+      console.error('❌ Delete product error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return false;
+    } finally {
+      set({ loading: false });
+    }
+  },
+
   setSelectedProducer: (producer) => set({ selectedProducer: producer }),
   setLoading: (loading) => set({ loading }),
   setError: (error) => set({ error }),
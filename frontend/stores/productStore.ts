@@ -25,6 +25,8 @@ export interface Product {
   season?: string;
   nutritionalInfo?: any;
   tags: string[];
+  ratingAverage?: number | null;
+  ratingCount?: number;
   producer?: {
     id: string;
     businessName: string;
@@ -35,21 +37,43 @@ export interface Product {
   updatedAt: string;
 }
 
+export type ProductSort = 'newest' | 'name' | 'weight' | 'rating';
+
 interface ProductFilters {
   category?: ProductCategory;
   producerId?: string;
+  season?: string;
   available?: boolean;
+  minRating?: number;
+  sort?: ProductSort;
 }
 
+// Conteos por faceta; cada una ignora su propio filtro
+export interface ProductFacets {
+  categories: { value: ProductCategory; count: number }[];
+  producers: { id: string; businessName: string; count: number }[];
+  seasons: { value: string; count: number }[];
+}
+
+const PAGE_SIZE = 20;
+
 interface ProductState {
   products: Product[];
   selectedProduct: Product | null;
   loading: boolean;
   error: string | null;
   filters: ProductFilters;
+  searchQuery: string;
+  facets: ProductFacets | null;
+  total: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+  loadingMore: boolean;
   
   // Actions
   fetchProducts: (filters?: ProductFilters) => Promise<void>;
+  fetchMoreProducts: () => Promise<void>;
+  searchProducts: (query: string, filters?: ProductFilters) => Promise<void>;
   fetchProductById: (id: string) => Promise<void>;
   fetchProductsByProducer: (producerId: string) => Promise<void>;
   filterByCategory: (category: ProductCategory | null) => void;
@@ -61,12 +85,40 @@ interface ProductState {
 
 const PRODUCTS_STORAGE_KEY = 'nutrifresco_products';
 
+const buildProductQuery = (filters?: ProductFilters, cursor?: string | null) => {
+  const queryParams = new URLSearchParams();
+  if (filters?.category) queryParams.append('category', filters.category);
+  if (filters?.producerId) queryParams.append('producerId', filters.producerId);
+  if (filters?.season) queryParams.append('season', filters.season);
+  if (filters?.available !== undefined) queryParams.append('available', String(filters.available));
+  if (filters?.minRating !== undefined) queryParams.append('minRating', String(filters.minRating));
+  if (filters?.sort) queryParams.append('sort', filters.sort);
+  if (cursor) queryParams.append('cursor', cursor);
+  queryParams.append('limit', String(PAGE_SIZE));
+  return queryParams.toString();
+};
+
+// Normalizar tags para asegurar que siempre sean arrays
+const normalizeProducts = (products: any[]): Product[] =>
+  products.map((product: any) => ({
+    ...product,
+    tags: Array.isArray(product.tags) 
+      ? product.tags 
+      : (typeof product.tags === 'string' ? JSON.parse(product.tags) : [])
+  }));
+
 export const useProductStore = create<ProductState>((set, get) => ({
   products: [],
   selectedProduct: null,
   loading: false,
   error: null,
   filters: {},
+  searchQuery: '',
+  facets: null,
+  total: 0,
+  nextCursor: null,
+  hasMore: false,
+  loadingMore: false,
 
   fetchProducts: async (filters?: ProductFilters) => {
     try {
@@ -81,13 +133,8 @@ export const useProductStore = create<ProductState>((set, get) => ({
         throw new Error('Configuration not loaded');
       }
 
-      // Construir query string
-      const queryParams = new URLSearchParams();
-      if (filters?.category) queryParams.append('category', filters.category);
-      if (filters?.producerId) queryParams.append('producerId', filters.producerId);
-      if (filters?.available !== undefined) queryParams.append('available', String(filters.available));
-
-      const url = `${config.api.baseUrl}/products${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+      // Primera página; las siguientes se piden con fetchMoreProducts
+      const url = `${config.api.baseUrl}/products?${buildProductQuery(filters)}`;
       
       const headers: HeadersInit = {
         'Content-Type': 'application/json',
@@ -105,16 +152,19 @@ export const useProductStore = create<ProductState>((set, get) => ({
       const data = await response.json();
 
       if (data.ok && data.data) {
-        // Normalizar tags para asegurar que siempre sean arrays
-        const normalizedProducts = data.data.map((product: any) => ({
-          ...product,
-          tags: Array.isArray(product.tags) 
-            ? product.tags 
-            : (typeof product.tags === 'string' ? JSON.parse(product.tags) : [])
-        }));
+        const normalizedProducts = normalizeProducts(data.data);
         
         await AsyncStorage.setItem(PRODUCTS_STORAGE_KEY, JSON.stringify(normalizedProducts));
-        set({ products: normalizedProducts, filters: filters || {}, error: null });
+        set({
+          products: normalizedProducts,
+          filters: filters || {},
+          searchQuery: '',
+          facets: data.facets ?? null,
+          total: data.meta?.total ?? normalizedProducts.length,
+          nextCursor: data.meta?.nextCursor ?? null,
+          hasMore: data.meta?.hasNext ?? false,
+          error: null
+        });
       } else {
         throw new Error(data.message || 'Failed to fetch products');
       }
@@ -126,6 +176,118 @@ export const useProductStore = create<ProductState>((set, get) => ({
     }
   },
 
+  fetchMoreProducts: async () => {
+    const { hasMore, loading, loadingMore, nextCursor, filters, searchQuery } = get();
+
+    // Los resultados de búsqueda no se paginan
+    if (!hasMore || loading || loadingMore || !nextCursor || searchQuery) {
+      return;
+    }
+
+    try {
+      set({ loadingMore: true });
+
+      const { useConfigStore } = await import('./configStore');
+      const { useAuthStore } = await import('./authStore');
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config) {
+        throw new Error('Configuration not loaded');
+      }
+
+      const headers: HeadersInit = {
+        'Content-Type': 'application/json',
+      };
+
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/products?${buildProductQuery(filters, nextCursor)}`, {
+        method: 'GET',
+        headers,
+      });
+
+      const data = await response.json();
+
+      // Ignorar la página si los filtros cambiaron mientras se cargaba
+      if (get().nextCursor !== nextCursor) {
+        return;
+      }
+
+      if (data.ok && data.data) {
+        set({
+          products: [...get().products, ...normalizeProducts(data.data)],
+          total: data.meta?.total ?? get().total,
+          nextCursor: data.meta?.nextCursor ?? null,
+          hasMore: data.meta?.hasNext ?? false
+        });
+      } else {
+        throw new Error(data.message || 'Failed to fetch more products');
+      }
+    } catch (error) {
+      // No reemplazar el catálogo ya cargado por una pantalla de error
+      console.error('❌ Fetch more products error:', error);
+    } finally {
+      set({ loadingMore: false });
+    }
+  },
+
+  searchProducts: async (query: string, filters?: ProductFilters) => {
+    try {
+      set({ loading: true, error: null, searchQuery: query });
+
+      const { useConfigStore } = await import('./configStore');
+      const config = useConfigStore.getState().config;
+
+      if (!config) {
+        throw new Error('Configuration not loaded');
+      }
+
+      const queryParams = new URLSearchParams({ q: query });
+      if (filters?.category) queryParams.append('category', filters.category);
+      if (filters?.available !== undefined) queryParams.append('available', String(filters.available));
+
+      const response = await fetch(`${config.api.baseUrl}/products/search?${queryParams.toString()}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      // Ignorar respuestas de búsquedas que el usuario ya reemplazó
+      if (get().searchQuery !== query) {
+        return;
+      }
+
+      if (data.ok && data.data) {
+        // Resultados ordenados por relevancia; no reemplazan el catálogo en caché
+        const normalizedProducts = normalizeProducts(data.data);
+
+        set({
+          products: normalizedProducts,
+          filters: filters || {},
+          total: normalizedProducts.length,
+          nextCursor: null,
+          hasMore: false,
+          error: null
+        });
+      } else {
+        throw new Error(data.message || 'Failed to search products');
+      }
+    } catch (error) {
+      console.error('❌ Search products error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      if (get().searchQuery === query) {
+        set({ loading: false });
+      }
+    }
+  },
+
   fetchProductById: async (id: string) => {
     try {
       set({ loading: true, error: null });
@@ -203,14 +365,15 @@ export const useProductStore = create<ProductState>((set, get) => ({
       const data = await response.json();
 
       if (data.ok && data.data) {
-        // Normalizar tags para asegurar que siempre sean arrays
-        const normalizedProducts = data.data.map((product: any) => ({
-          ...product,
-          tags: Array.isArray(product.tags) 
-            ? product.tags 
-            : (typeof product.tags === 'string' ? JSON.parse(product.tags) : [])
-        }));
-        set({ products: normalizedProducts, error: null });
+        // Solo la primera página; fetchMoreProducts pagina el catálogo general
+        set({
+          products: normalizeProducts(data.data),
+          facets: data.facets ?? null,
+          total: data.meta?.total ?? data.data.length,
+          nextCursor: null,
+          hasMore: false,
+          error: null
+        });
       } else {
         throw new Error(data.message || 'Failed to fetch products by producer');
       }
@@ -0,0 +1,265 @@
+import { create } from 'zustand';
+import type { DeliveryAddress } from './addressStore';
+
+export type StandingOrderFrequency = 'weekly' | 'biweekly';
+export type StandingOrderStatus = 'active' | 'paused';
+
+export interface StandingOrderItem {
+  id: string;
+  productId: string;
+  quantity: number;
+  product: {
+    id: string;
+    name: string;
+    image?: string | null;
+    category: string;
+    weightInKg: number;
+    available: boolean;
+    stock: number;
+    deletedAt?: string | null;
+  };
+}
+
+export interface SkippedItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  reason: 'unavailable' | 'out_of_stock' | 'category_not_allowed';
+}
+
+export interface StandingOrderRun {
+  id: string;
+  scheduledFor: string;
+  status: 'created' | 'skipped' | 'failed';
+  orderId?: string | null;
+  skippedItems: SkippedItem[];
+  message?: string | null;
+  createdAt: string;
+}
+
+export interface StandingOrder {
+  id: string;
+  name: string;
+  frequency: StandingOrderFrequency;
+  status: StandingOrderStatus;
+  nextRunAt: string;
+  addressId?: string | null;
+  address?: DeliveryAddress | null;
+  notes?: string | null;
+  lastRunAt?: string | null;
+  lastOrderId?: string | null;
+  items: StandingOrderItem[];
+  runs: StandingOrderRun[]; // Solo la última ejecución en el listado
+  createdAt: string;
+}
+
+export interface StandingOrderInput {
+  name?: string;
+  frequency?: StandingOrderFrequency;
+  startDate?: string; // YYYY-MM-DD
+  addressId?: string | null;
+  notes?: string | null;
+  items: Array<{ productId: string; quantity: number }>;
+}
+
+type StandingOrderAction = 'pause' | 'resume' | 'skip';
+
+interface StandingOrderState {
+  standingOrders: StandingOrder[];
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchStandingOrders: () => Promise<void>;
+  createStandingOrder: (input: StandingOrderInput) => Promise<StandingOrder | null>;
+  updateStandingOrder: (id: string, updates: Partial<StandingOrderInput>) => Promise<boolean>;
+  pauseStandingOrder: (id: string) => Promise<boolean>;
+  resumeStandingOrder: (id: string) => Promise<boolean>;
+  skipNextOrder: (id: string) => Promise<boolean>;
+  deleteStandingOrder: (id: string) => Promise<boolean>;
+}
+
+export const FREQUENCY_LABELS: Record<StandingOrderFrequency, string> = {
+  weekly: 'Cada semana',
+  biweekly: 'Cada dos semanas',
+};
+
+export const SKIP_REASON_LABELS: Record<SkippedItem['reason'], string> = {
+  unavailable: 'no disponible',
+  out_of_stock: 'sin stock',
+  category_not_allowed: 'no incluido en tu plan',
+};
+
+const getRequestContext = async () => {
+  const { useConfigStore } = await import('./configStore');
+  const { useAuthStore } = await import('./authStore');
+  const config = useConfigStore.getState().config;
+  const token = useAuthStore.getState().token;
+
+  if (!config || !token) {
+    throw new Error('Not authenticated or config not loaded');
+  }
+
+  return {
+    baseUrl: `${config.api.baseUrl}/standing-orders`,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  };
+};
+
+export const useStandingOrderStore = create<StandingOrderState>((set, get) => {
+  /**
+   * Reemplazar una canasta en la lista con la versión que devolvió el servidor
+   */
+  const replaceStandingOrder = (updated: StandingOrder) => {
+    set((state) => ({
+      standingOrders: state.standingOrders.map(order => order.id === updated.id ? updated : order),
+      error: null,
+    }));
+  };
+
+  const runAction = async (id: string, action: StandingOrderAction) => {
+    try {
+      set({ loading: true, error: null });
+      const { baseUrl, headers } = await getRequestContext();
+
+      const response = await fetch(`${baseUrl}/${id}/${action}`, {
+        method: 'POST',
+        headers,
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        replaceStandingOrder(data.data);
+        return true;
+      } else {
+        throw new Error(data.message || `Failed to ${action} standing order`);
+      }
+    } catch (error) {
+      console.error(`❌ Standing order ${action} error:`, error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return false;
+    } finally {
+      set({ loading: false });
+    }
+  };
+
+  return {
+    standingOrders: [],
+    loading: false,
+    error: null,
+
+    fetchStandingOrders: async () => {
+      try {
+        set({ loading: true, error: null });
+        const { baseUrl, headers } = await getRequestContext();
+
+        const response = await fetch(baseUrl, { method: 'GET', headers });
+        const data = await response.json();
+
+        if (data.ok && data.data) {
+          set({ standingOrders: data.data, error: null });
+        } else {
+          throw new Error(data.message || 'Failed to fetch standing orders');
+        }
+      } catch (error) {
+        console.error('❌ Fetch standing orders error:', error);
+        set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        set({ loading: false });
+      }
+    },
+
+    createStandingOrder: async (input) => {
+      try {
+        set({ loading: true, error: null });
+        const { baseUrl, headers } = await getRequestContext();
+
+        const response = await fetch(baseUrl, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(input),
+        });
+
+        const data = await response.json();
+
+        if (data.ok && data.data) {
+          set((state) => ({ standingOrders: [data.data, ...state.standingOrders], error: null }));
+          return data.data as StandingOrder;
+        } else {
+          throw new Error(data.errors?.[0]?.message || data.message || 'Failed to create standing order');
+        }
+      } catch (error) {
+        console.error('❌ Create standing order error:', error);
+        set({ error: error instanceof Error ? error.message : 'Unknown error' });
+        return null;
+      } finally {
+        set({ loading: false });
+      }
+    },
+
+    updateStandingOrder: async (id, updates) => {
+      try {
+        set({ loading: true, error: null });
+        const { baseUrl, headers } = await getRequestContext();
+
+        const response = await fetch(`${baseUrl}/${id}`, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify(updates),
+        });
+
+        const data = await response.json();
+
+        if (data.ok && data.data) {
+          replaceStandingOrder(data.data);
+          return true;
+        } else {
+          throw new Error(data.errors?.[0]?.message || data.message || 'Failed to update standing order');
+        }
+      } catch (error) {
+        console.error('❌ Update standing order error:', error);
+        set({ error: error instanceof Error ? error.message : 'Unknown error' });
+        return false;
+      } finally {
+        set({ loading: false });
+      }
+    },
+
+    pauseStandingOrder: (id) => runAction(id, 'pause'),
+
+    resumeStandingOrder: (id) => runAction(id, 'resume'),
+
+    skipNextOrder: (id) => runAction(id, 'skip'),
+
+    deleteStandingOrder: async (id) => {
+      try {
+        set({ loading: true, error: null });
+        const { baseUrl, headers } = await getRequestContext();
+
+        const response = await fetch(`${baseUrl}/${id}`, {
+          method: 'DELETE',
+          headers,
+        });
+
+        const data = await response.json();
+
+        if (!data.ok) {
+          throw new Error(data.message || 'Failed to delete standing order');
+        }
+
+        set({ standingOrders: get().standingOrders.filter(order => order.id !== id), error: null });
+        return true;
+      } catch (error) {
+        console.error('❌ Delete standing order error:', error);
+        set({ error: error instanceof Error ? error.message : 'Unknown error' });
+        return false;
+      } finally {
+        set({ loading: false });
+      }
+    },
+  };
+});
@@ -1,7 +1,33 @@
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-export type SubscriptionPlan = 'BASIC' | 'STANDARD' | 'PREMIUM';
+// Código de un plan del catálogo (BASIC, STANDARD, ...); el catálogo vive en el backend
+export type SubscriptionPlan = string;
+
+export interface Plan {
+  id: string;
+  code: SubscriptionPlan;
+  name: string;
+  description: string | null;
+  emoji: string | null;
+  features: string[];
+  limitInKg: number;
+  allowedCategories: string[];
+  monthlyPrice: number;
+  rolloverCapKg: number;
+  sortOrder: number;
+}
+
+// Modo vacaciones: pausa en curso o programada y cuántas quedan en el año
+export interface SubscriptionPauseStatus {
+  state: 'active' | 'scheduled' | 'none';
+  startsAt: string | null;
+  endsAt: string | null;
+  pausesUsed: number;
+  pausesAllowed: number;
+  minDays: number;
+  maxDays: number;
+}
 
 interface Subscription {
   id: string;
@@ -9,18 +35,52 @@ interface Subscription {
   plan: SubscriptionPlan;
   limitInKg: number;
   usedKg: number;
+  rolloverKg: number; // Kg sin usar del periodo anterior; se consumen antes que limitInKg
+  rolloverExpiresAt: string | null;
   renewalDate: string;
   isActive: boolean;
+  planDetails?: Plan | null;
+  pendingPlan?: SubscriptionPlan | null; // Bajada de plan programada para renewalDate
+  pendingPlanDetails?: Plan | null;
+  pausedFrom: string | null;
+  pausedUntil: string | null;
+  pause?: SubscriptionPauseStatus;
+}
+
+type PlanSummary = Pick<Plan, 'code' | 'name' | 'limitInKg' | 'monthlyPrice'>;
+
+// Efecto de un cambio de plan (GET /subscription/change/preview)
+export interface PlanChangePreview {
+  type: 'upgrade' | 'downgrade' | 'cancel_pending';
+  currentPlan: PlanSummary;
+  targetPlan: PlanSummary;
+  effectiveAt: string;
+  remainingFraction: number;
+  limitInKg: number;
+  addedKg: number;
+  proratedCharge: number;
+  usedKg: number;
+  remainingKg: number;
+  nextPeriodLimitInKg: number;
+  blockedCartItems: { productId: string; name: string; category: string }[];
+  canChange: boolean;
 }
 
 interface SubscriptionState {
   subscription: Subscription | null;
+  plans: Plan[];
   loading: boolean;
   error: string | null;
   
   // Actions
+  fetchPlans: () => Promise<Plan[]>;
   fetchCurrentSubscription: () => Promise<void>;
+  previewPlanChange: (planId: SubscriptionPlan) => Promise<PlanChangePreview | null>;
   changePlan: (planId: SubscriptionPlan) => Promise<boolean>;
+  pauseSubscription: (startDate: string, endDate: string) => Promise<boolean>;
+  resumeSubscription: () => Promise<boolean>;
+  isPaused: () => boolean;
+  getRolloverKg: () => number;
   getRemainingKg: () => number;
   getUsedKg: () => number;
   canAddProduct: (weightInKg: number) => boolean;
@@ -33,9 +93,41 @@ const SUBSCRIPTION_STORAGE_KEY = 'nutrifresco_subscription';
 
 export const useSubscriptionStore = create<SubscriptionState>((set, get) => ({
   subscription: null,
+  plans: [],
   loading: false,
   error: null,
 
+  fetchPlans: async () => {
+    try {
+      const { useConfigStore } = await import('./configStore');
+      const config = useConfigStore.getState().config;
+
+      if (!config) {
+        throw new Error('Config not loaded');
+      }
+
+      // Público: se consulta antes de tener cuenta
+      const response = await fetch(`${config.api.baseUrl}/subscription/plans`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        set({ plans: data.data });
+        return data.data as Plan[];
+      } else {
+        throw new Error(data.message || 'Failed to fetch plans');
+      }
+    } catch (error) {
+      console.error('❌ Fetch plans error:', error);
+      return get().plans;
+    }
+  },
+
   fetchCurrentSubscription: async () => {
     try {
       set({ loading: true, error: null });
@@ -73,6 +165,44 @@ export const useSubscriptionStore = create<SubscriptionState>((set, get) => ({
     }
   },
 
+  previewPlanChange: async (plan: SubscriptionPlan) => {
+    try {
+      set({ error: null });
+
+      const { useConfigStore } = await import('./configStore');
+      const { useAuthStore } = await import('./authStore');
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      const response = await fetch(
+        `${config.api.baseUrl}/subscription/change/preview?plan=${encodeURIComponent(plan)}`,
+        {
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        return data.data as PlanChangePreview;
+      } else {
+        throw new Error(data.message || 'Failed to preview plan change');
+      }
+    } catch (error) {
+      console.error('❌ Preview plan change error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return null;
+    }
+  },
+
   changePlan: async (plan: SubscriptionPlan) => {
     try {
       set({ loading: true, error: null });
@@ -98,8 +228,8 @@ export const useSubscriptionStore = create<SubscriptionState>((set, get) => ({
       const data = await response.json();
 
       if (data.ok && data.data) {
-        await AsyncStorage.setItem(SUBSCRIPTION_STORAGE_KEY, JSON.stringify(data.data));
-        set({ subscription: data.data, error: null });
+        // Recargar para traer los datos del plan nuevo o pendiente
+        await get().fetchCurrentSubscription();
         return true;
       } else {
         throw new Error(data.message || 'Failed to change plan');
@@ -113,10 +243,102 @@ export const useSubscriptionStore = create<SubscriptionState>((set, get) => ({
     }
   },
 
-  getRemainingKg: () => {
+  pauseSubscription: async (startDate: string, endDate: string) => {
+    try {
+      set({ loading: true, error: null });
+
+      const { useConfigStore } = await import('./configStore');
+      const { useAuthStore } = await import('./authStore');
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/subscription/pause`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ startDate, endDate }),
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        await get().fetchCurrentSubscription();
+        return true;
+      } else {
+        throw new Error(data.message || 'Failed to pause subscription');
+      }
+    } catch (error) {
+      console.error('❌ Pause subscription error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return false;
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  resumeSubscription: async () => {
+    try {
+      set({ loading: true, error: null });
+
+      const { useConfigStore } = await import('./configStore');
+      const { useAuthStore } = await import('./authStore');
+      const config = useConfigStore.getState().config;
+      const token = useAuthStore.getState().token;
+
+      if (!config || !token) {
+        throw new Error('Not authenticated or config not loaded');
+      }
+
+      const response = await fetch(`${config.api.baseUrl}/subscription/resume`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      if (data.ok && data.data) {
+        await get().fetchCurrentSubscription();
+        return true;
+      } else {
+        throw new Error(data.message || 'Failed to resume subscription');
+      }
+    } catch (error) {
+      console.error('❌ Resume subscription error:', error);
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+      return false;
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  isPaused: () => {
     const { subscription } = get();
+    if (!subscription?.pausedFrom || !subscription.pausedUntil) return false;
+    const now = new Date();
+    return new Date(subscription.pausedFrom) <= now && now < new Date(subscription.pausedUntil);
+  },
+
+  getRolloverKg: () => {
+    const { subscription } = get();
+    if (!subscription?.rolloverKg) return 0;
+    // Vencidos: solo cuenta lo que ya se consumió
+    const expired = !!subscription.rolloverExpiresAt && new Date(subscription.rolloverExpiresAt) <= new Date();
+    return expired ? Math.min(subscription.rolloverKg, subscription.usedKg) : subscription.rolloverKg;
+  },
+
+  getRemainingKg: () => {
+    const { subscription, getRolloverKg } = get();
     if (!subscription) return 0;
-    return Math.max(0, subscription.limitInKg - subscription.usedKg);
+    return Math.max(0, subscription.limitInKg + getRolloverKg() - subscription.usedKg);
   },
 
   getUsedKg: () => {
@@ -125,30 +347,15 @@ export const useSubscriptionStore = create<SubscriptionState>((set, get) => ({
   },
 
   canAddProduct: (weightInKg: number) => {
-    const { subscription } = get();
+    const { subscription, getRemainingKg } = get();
     if (!subscription || !subscription.isActive) return false;
-    const remaining = subscription.limitInKg - subscription.usedKg;
-    return remaining >= weightInKg;
+    return getRemainingKg() >= weightInKg;
   },
 
   validateCategory: (category: string) => {
     const { subscription } = get();
-    if (!subscription) return false;
-
-    const basicCategories = ['FRUITS', 'VEGETABLES'];
-    const standardCategories = [...basicCategories, 'LEGUMES', 'HERBS', 'SNACKS', 'COFFEE', 'CHOCOLATE'];
-    const premiumCategories = [...standardCategories, 'PROTEINS'];
-
-    switch (subscription.plan) {
-      case 'BASIC':
-        return basicCategories.includes(category);
-      case 'STANDARD':
-        return standardCategories.includes(category);
-      case 'PREMIUM':
-        return premiumCategories.includes(category);
-      default:
-        return false;
-    }
+    if (!subscription?.planDetails) return false;
+    return subscription.planDetails.allowedCategories.includes(category);
   },
 
   setLoading: (loading) => set({ loading }),
@@ -87,6 +87,8 @@ export interface User {
   };
   createdAt: string;
   role?: string; // Optional role field for employees
+  emailVerifiedAt?: string | null; // null = email not confirmed yet
+  emailVerificationDueAt?: string | null; // After this date, ordering and login need the email confirmed
 }
 
 export interface Order {